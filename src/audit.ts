@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync, mkdirSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { describeRequestBody } from "./redact.js";
+import { getActiveSession } from "./session.js";
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string | null;
+  action: string | null;
+  projectKey: string | null;
+  instance: string;
+  caller?: string;
+  method: string;
+  path: string;
+  body?: unknown;
+  status: number;
+  outcome: string;
+  durationMs: number;
+}
+
+export interface AuditCall {
+  instance: string;
+  method: string;
+  path: string;
+  body: RequestInit["body"];
+  status: number;
+  outcome: string;
+  durationMs: number;
+}
+
+interface AuditContext {
+  tool: string;
+  action: string | null;
+  projectKey?: string;
+}
+
+const auditContextStore = new AsyncLocalStorage<AuditContext>();
+
+const DISABLED_VALUES = new Set(["0", "false", "off", "no", "none"]);
+
+export function getAuditLogPath(): string | undefined {
+  const raw = process.env.DATAIKU_AUDIT_LOG?.trim();
+  if (raw && DISABLED_VALUES.has(raw.toLowerCase())) return undefined;
+  return raw || join(homedir(), ".dataiku-mcp", "audit.jsonl");
+}
+
+export async function runWithAuditContext<T>(
+  context: AuditContext,
+  operation: () => Promise<T>,
+): Promise<T> {
+  return auditContextStore.run(context, operation);
+}
+
+function projectKeyFromPath(path: string): string | null {
+  const match = /\/projects\/([^/?]+)/.exec(path);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/** Appends one JSONL line for a mutating DSS call; never throws into the caller. */
+export function recordAuditEntry(call: AuditCall): void {
+  const logPath = getAuditLogPath();
+  if (!logPath) return;
+  const context = auditContextStore.getStore();
+  const caller = getActiveSession()?.caller;
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    tool: context?.tool ?? null,
+    action: context?.action ?? null,
+    projectKey: context?.projectKey ?? projectKeyFromPath(call.path),
+    instance: call.instance,
+    ...(caller ? { caller } : {}),
+    method: call.method,
+    path: call.path,
+    body: describeRequestBody(call.body),
+    status: call.status,
+    outcome: call.outcome,
+    durationMs: call.durationMs,
+  };
+  try {
+    mkdirSync(dirname(logPath), { recursive: true });
+    appendFileSync(logPath, `${JSON.stringify(entry)}\n`, "utf8");
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to write audit log "${logPath}": ${detail}`);
+  }
+}
+
+export async function readAuditEntries(): Promise<AuditEntry[]> {
+  const logPath = getAuditLogPath();
+  if (!logPath) return [];
+  let raw: string;
+  try {
+    raw = await readFile(logPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const entries: AuditEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Skip a torn final line from a concurrent writer.
+    }
+  }
+  return entries;
+}
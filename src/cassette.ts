@@ -0,0 +1,192 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { describeRequestBody, redactSecrets } from "./redact.js";
+
+export type CassetteMode = "record" | "replay";
+
+interface CassetteRequest {
+  /** Instance name, so sessions spanning several DSS instances replay against the right one. */
+  instance: string;
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+interface CassetteResponse {
+  status: number;
+  statusText: string;
+  contentType?: string;
+  body?: unknown;
+  bodyText?: string;
+  bodyBase64?: string;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+interface CassetteState {
+  path: string;
+  mode: CassetteMode;
+  interactions: CassetteInteraction[];
+  used: Set<number>;
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    public method: string,
+    public path: string,
+    public instance: string,
+  ) {
+    super(
+      `No cassette interaction recorded for ${method} ${path} on instance "${instance}" (DATAIKU_CASSETTE_MODE=replay). Re-record the cassette or check the request body.`,
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+let _state: CassetteState | undefined;
+
+function getCassetteConfig(): { path: string; mode: CassetteMode } | undefined {
+  const path = process.env.DATAIKU_CASSETTE?.trim();
+  if (!path) return undefined;
+  const raw = (process.env.DATAIKU_CASSETTE_MODE ?? "replay").trim().toLowerCase();
+  if (raw !== "record" && raw !== "replay") {
+    throw new Error(`Invalid DATAIKU_CASSETTE_MODE "${raw}". Expected "record" or "replay".`);
+  }
+  return { path, mode: raw };
+}
+
+function loadState(config: { path: string; mode: CassetteMode }): CassetteState {
+  if (_state?.path === config.path && _state.mode === config.mode) return _state;
+  let interactions: CassetteInteraction[] = [];
+  if (config.mode === "replay") {
+    let parsed: CassetteFile;
+    try {
+      parsed = JSON.parse(readFileSync(config.path, "utf8")) as CassetteFile;
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read cassette "${config.path}": ${detail}`);
+    }
+    interactions = Array.isArray(parsed.interactions) ? parsed.interactions : [];
+  }
+  _state = { ...config, interactions, used: new Set() };
+  return _state;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function normalizeRequestBody(body: RequestInit["body"]): unknown {
+  if (typeof body === "string") {
+    try {
+      return redactSecrets(JSON.parse(body));
+    } catch {
+      return body;
+    }
+  }
+  return describeRequestBody(body);
+}
+
+function isTextContentType(contentType: string | undefined): boolean {
+  if (!contentType) return true;
+  return /json|text|xml|csv|tab-separated|javascript/i.test(contentType);
+}
+
+async function toCassetteResponse(res: Response): Promise<CassetteResponse> {
+  const contentType = res.headers.get("content-type") ?? undefined;
+  const base = { status: res.status, statusText: res.statusText, contentType };
+  if (!isTextContentType(contentType)) {
+    const bytes = Buffer.from(await res.arrayBuffer());
+    return { ...base, bodyBase64: bytes.toString("base64") };
+  }
+  const text = await res.text();
+  if (text.length === 0) return base;
+  try {
+    return { ...base, body: redactSecrets(JSON.parse(text)) };
+  } catch {
+    return { ...base, bodyText: text };
+  }
+}
+
+function toResponse(recorded: CassetteResponse): Response {
+  const body =
+    recorded.bodyBase64 !== undefined
+      ? Buffer.from(recorded.bodyBase64, "base64")
+      : recorded.body !== undefined
+        ? JSON.stringify(recorded.body)
+        : (recorded.bodyText ?? null);
+  const nullBodyStatus = recorded.status === 204 || recorded.status === 304;
+  return new Response(nullBodyStatus ? null : body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.contentType ? { "content-type": recorded.contentType } : {},
+  });
+}
+
+function persist(state: CassetteState): void {
+  mkdirSync(dirname(state.path), { recursive: true });
+  const file: CassetteFile = { version: 1, interactions: state.interactions };
+  writeFileSync(state.path, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+}
+
+function findInteraction(state: CassetteState, request: CassetteRequest): number {
+  const key = stableStringify(request);
+  let lastMatch = -1;
+  for (let i = 0; i < state.interactions.length; i++) {
+    if (stableStringify(state.interactions[i].request) !== key) continue;
+    if (!state.used.has(i)) return i;
+    lastMatch = i;
+  }
+  // Repeated polls past the end of a recording keep getting the last answer.
+  return lastMatch;
+}
+
+/**
+ * fetch() used by fetchWithRetry. With DATAIKU_CASSETTE set it records real
+ * request/response pairs (secrets scrubbed) or serves them back offline.
+ */
+export async function cassetteFetch(
+  instance: string,
+  url: string,
+  path: string,
+  init: RequestInit & { method: string },
+): Promise<Response> {
+  const config = getCassetteConfig();
+  if (!config) return fetch(url, init);
+
+  const state = loadState(config);
+  const request: CassetteRequest = {
+    instance,
+    method: init.method,
+    path,
+    body: normalizeRequestBody(init.body),
+  };
+
+  if (state.mode === "replay") {
+    const index = findInteraction(state, request);
+    if (index < 0) throw new CassetteMissError(request.method, path, instance);
+    state.used.add(index);
+    return toResponse(state.interactions[index].response);
+  }
+
+  const res = await fetch(url, init);
+  const recorded = await toCassetteResponse(res.clone());
+  state.interactions.push({ request, response: recorded });
+  persist(state);
+  return res;
+}
@@ -1,7 +1,12 @@
-import { recordApiLatency } from "./debug-latency.js";
-
-let _baseUrl: string | undefined;
-let _apiKey: string | undefined;
+import type { Transform } from "node:stream";
+import { recordAuditEntry } from "./audit.js";
+import { CassetteMissError, cassetteFetch } from "./cassette.js";
+import { type ApiLatencyRecord, recordApiLatency } from "./debug-latency.js";
+import { getActiveInstance, type InstanceProfile } from "./instances.js";
+import { getAbortSignal, progressStream, RequestCancelledError, sleep } from "./progress.js";
+import { describeStreamBody } from "./redact.js";
+import { interceptWrite } from "./safety.js";
+import { type CachedGetResponse, getActiveSession } from "./session.js";
 
 export type DataikuErrorCategory =
   | "not_found"
@@ -17,6 +22,7 @@ export interface DataikuErrorTaxonomy {
 }
 
 export interface DataikuRetryMetadata {
+  instance?: string;
   method: string;
   enabled: boolean;
   maxAttempts: number;
@@ -32,7 +38,7 @@ function classifyDataikuError(status: number, body: string): DataikuErrorTaxonom
       category: "transient",
       retryable: true,
       retryHint:
-        "Network/transport failure. Retry with backoff and verify DATAIKU_URL reachability.",
+        "Network/transport failure. Retry with backoff and verify the instance URL (DATAIKU_URL or instance profile) is reachable.",
     };
   }
 
@@ -86,7 +92,7 @@ function classifyDataikuError(status: number, body: string): DataikuErrorTaxonom
       category: "not_found",
       retryable: false,
       retryHint: isHtmlGatewayResponse
-        ? "Resource was not found (gateway returned HTML). Verify DATAIKU_URL, projectKey, and object identifiers."
+        ? "Resource was not found (gateway returned HTML). Verify the instance URL, projectKey, and object identifiers."
         : "Verify projectKey and object identifiers (dataset/recipe/scenario/folder IDs).",
     };
   }
@@ -131,43 +137,33 @@ function readTrimmedEnv(name: string): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
-function getBaseUrl(): string {
-  if (!_baseUrl) {
-    const url = readTrimmedEnv("DATAIKU_URL");
-    if (!url) throw new Error("DATAIKU_URL environment variable is required");
-    _baseUrl = url.replace(/\/+$/, "");
-  }
-  return _baseUrl;
-}
-
-function getApiKey(): string {
-  if (!_apiKey) {
-    const key = readTrimmedEnv("DATAIKU_API_KEY");
-    if (!key) throw new Error("DATAIKU_API_KEY environment variable is required");
-    _apiKey = key;
-  }
-  return _apiKey;
-}
-
-function getHeaders(): Record<string, string> {
+function getHeaders(profile: InstanceProfile): Record<string, string> {
   return {
-    Authorization: `Bearer ${getApiKey()}`,
+    Authorization: `Bearer ${profile.apiKey}`,
     Accept: "application/json",
     "Content-Type": "application/json",
   };
 }
 
-function getAnyHeaders(): Record<string, string> {
+function getAnyHeaders(profile: InstanceProfile): Record<string, string> {
   return {
-    Authorization: `Bearer ${getApiKey()}`,
+    Authorization: `Bearer ${profile.apiKey}`,
     Accept: "*/*",
   };
 }
 
+function getInstanceProjectKey(): string | undefined {
+  try {
+    return getActiveInstance().projectKey;
+  } catch {
+    return undefined;
+  }
+}
+
 export function getProjectKey(paramValue?: string): string {
   const paramKey = paramValue?.trim();
   if (paramKey) return paramKey;
-  const envKey = readTrimmedEnv("DATAIKU_PROJECT_KEY");
+  const envKey = getInstanceProjectKey() ?? readTrimmedEnv("DATAIKU_PROJECT_KEY");
   if (!envKey) {
     throw new Error(
       "projectKey is required — pass it as a parameter or set DATAIKU_PROJECT_KEY env var",
@@ -181,20 +177,23 @@ export class DataikuError extends Error {
   public retryable: boolean;
   public retryHint: string;
   public retry?: DataikuRetryMetadata;
+  public instance?: string;
 
   constructor(
     public status: number,
     public statusText: string,
     public body: string,
     retry?: DataikuRetryMetadata,
+    instance?: string,
   ) {
-    const details = DataikuError.buildDetails(status, statusText, body, retry);
+    const details = DataikuError.buildDetails(status, statusText, body, retry, instance);
     super(details.message);
     this.name = "DataikuError";
     this.category = details.category;
     this.retryable = details.retryable;
     this.retryHint = details.retryHint;
     this.retry = retry;
+    this.instance = instance ?? retry?.instance;
   }
 
   private static extractSummary(_status: number, _statusText: string, body: string): string {
@@ -228,14 +227,17 @@ export class DataikuError extends Error {
     statusText: string,
     body: string,
     retry?: DataikuRetryMetadata,
+    instance?: string,
   ): { message: string } & DataikuErrorTaxonomy {
     const summary = DataikuError.extractSummary(status, statusText, body);
     const taxonomy = classifyDataikuError(status, body);
     const retrySummary = DataikuError.formatRetryMetadata(retry);
+    const instanceName = instance ?? retry?.instance;
     return {
       ...taxonomy,
       message: [
         `${status} ${statusText}: ${summary}`,
+        ...(instanceName ? [`Instance: ${instanceName}`] : []),
         `Error type: ${taxonomy.category}`,
         `Retryable: ${taxonomy.retryable ? "yes" : "no"}`,
         `Hint: ${taxonomy.retryHint}`,
@@ -267,20 +269,26 @@ const DEFAULT_GET_CACHE_TTL_MS = 2_000;
 const MIN_GET_CACHE_TTL_MS = 1_000;
 const MAX_GET_CACHE_TTL_MS = 3_000;
 
-interface CachedGetResponse {
-  response: Response;
-  expiresAt: number;
-}
+const sharedGetResponseCache = new Map<string, CachedGetResponse>();
 
-const getResponseCache = new Map<string, CachedGetResponse>();
+function getResponseCacheStore(): Map<string, CachedGetResponse> {
+  return getActiveSession()?.getCache ?? sharedGetResponseCache;
+}
 
-function buildGetCacheKey(path: string, acceptHeader: string): string {
-  return `${acceptHeader}::${path}`;
+function buildGetCacheKey(instance: string, path: string, acceptHeader: string): string {
+  return `${instance}::${acceptHeader}::${path}`;
 }
 
-function invalidateGetCache(): void {
-  if (getResponseCache.size > 0) {
+function invalidateGetCache(instance?: string): void {
+  const getResponseCache = getResponseCacheStore();
+  if (getResponseCache.size === 0) return;
+  if (instance === undefined) {
     getResponseCache.clear();
+    return;
+  }
+  const prefix = `${instance}::`;
+  for (const key of [...getResponseCache.keys()]) {
+    if (key.startsWith(prefix)) getResponseCache.delete(key);
   }
 }
 
@@ -294,12 +302,14 @@ function getGetCacheTtlMs(): number {
 }
 
 function getCachedGetResponse(
+  instance: string,
   path: string,
   acceptHeader: string,
   ttlMs: number,
 ): Response | undefined {
   if (ttlMs <= 0) return undefined;
-  const key = buildGetCacheKey(path, acceptHeader);
+  const getResponseCache = getResponseCacheStore();
+  const key = buildGetCacheKey(instance, path, acceptHeader);
   const cached = getResponseCache.get(key);
   if (!cached) return undefined;
   if (cached.expiresAt <= Date.now()) {
@@ -316,14 +326,15 @@ function getCachedGetResponse(
 }
 
 function cacheGetResponse(
+  instance: string,
   path: string,
   acceptHeader: string,
   response: Response,
   ttlMs: number,
 ): void {
   if (ttlMs <= 0) return;
-  const key = buildGetCacheKey(path, acceptHeader);
-  getResponseCache.set(key, {
+  const key = buildGetCacheKey(instance, path, acceptHeader);
+  getResponseCacheStore().set(key, {
     response: response.clone(),
     expiresAt: Date.now() + ttlMs,
   });
@@ -346,16 +357,13 @@ function shouldRetryMethod(method: string): boolean {
   return method.toUpperCase() === "GET";
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((r) => setTimeout(r, ms));
-}
-
 function computeBackoffDelayMs(retryNumber: number): number {
   const cap = Math.min(MAX_BACKOFF_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, retryNumber - 1));
   return Math.floor(Math.random() * (cap + 1));
 }
 
 function buildRetryMetadata(
+  instance: string,
   method: string,
   enabled: boolean,
   maxAttempts: number,
@@ -364,6 +372,7 @@ function buildRetryMetadata(
   timedOut: boolean,
 ): DataikuRetryMetadata {
   return {
+    instance,
     method,
     enabled,
     maxAttempts,
@@ -383,15 +392,37 @@ function toRequestPath(url: string): string {
   }
 }
 
-async function fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+async function fetchWithRetry(
+  profile: InstanceProfile,
+  path: string,
+  init: RequestInit,
+): Promise<Response> {
+  const url = `${profile.url}${path}`;
+  const instance = profile.name;
   const method = (init.method ?? "GET").toUpperCase();
   const retryEnabled = shouldRetryMethod(method);
   const maxAttempts = retryEnabled ? getRetryMaxAttempts() : 1;
   const delaysMs: number[] = [];
   const startedAt = Date.now();
   const requestPath = toRequestPath(url);
+  const cancelSignal = getAbortSignal();
+  const recordOutcome = (record: ApiLatencyRecord) => {
+    recordApiLatency(record);
+    if (method !== "GET") {
+      recordAuditEntry({
+        instance,
+        method,
+        path: requestPath,
+        body: init.body,
+        status: record.status,
+        outcome: record.outcome,
+        durationMs: record.durationMs,
+      });
+    }
+  };
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (cancelSignal?.aborted) throw new RequestCancelledError();
     let timedOut = false;
     const requestTimeoutMs = getRequestTimeoutMs();
     const controller = new AbortController();
@@ -399,9 +430,16 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
       timedOut = true;
       controller.abort();
     }, requestTimeoutMs);
+    // Left attached on success so a cancelled request also stops a streaming body.
+    const onCancel = () => controller.abort();
+    cancelSignal?.addEventListener("abort", onCancel, { once: true });
 
     try {
-      const res = await fetch(url, { ...init, method, signal: controller.signal });
+      const res = await cassetteFetch(instance, url, requestPath, {
+        ...init,
+        method,
+        signal: controller.signal,
+      });
       if (!res.ok) {
         const text = await res.text();
         const canRetry =
@@ -412,7 +450,8 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
           await sleep(delayMs);
           continue;
         }
-        recordApiLatency({
+        recordOutcome({
+          instance,
           method,
           path: requestPath,
           durationMs: Date.now() - startedAt,
@@ -427,10 +466,12 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
           res.status,
           res.statusText,
           text,
-          buildRetryMetadata(method, retryEnabled, maxAttempts, attempt, delaysMs, false),
+          buildRetryMetadata(instance, method, retryEnabled, maxAttempts, attempt, delaysMs, false),
+          instance,
         );
       }
-      recordApiLatency({
+      recordOutcome({
+        instance,
         method,
         path: requestPath,
         durationMs: Date.now() - startedAt,
@@ -443,7 +484,23 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
       });
       return res;
     } catch (error) {
-      if (error instanceof DataikuError) throw error;
+      cancelSignal?.removeEventListener("abort", onCancel);
+      if (cancelSignal?.aborted) {
+        recordOutcome({
+          instance,
+          method,
+          path: requestPath,
+          durationMs: Date.now() - startedAt,
+          attempts: attempt,
+          retries: Math.max(0, attempt - 1),
+          status: 0,
+          outcome: "cancelled",
+          timedOut: false,
+          delaysMs: [...delaysMs],
+        });
+        throw new RequestCancelledError();
+      }
+      if (error instanceof DataikuError || error instanceof CassetteMissError) throw error;
       const canRetry = retryEnabled && attempt < maxAttempts;
       if (canRetry) {
         const delayMs = computeBackoffDelayMs(attempt);
@@ -457,7 +514,8 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
           ? error.message
           : "Unknown transport error";
       const statusText = timedOut ? "Request Timeout" : "Network Error";
-      recordApiLatency({
+      recordOutcome({
+        instance,
         method,
         path: requestPath,
         durationMs: Date.now() - startedAt,
@@ -472,7 +530,16 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
         0,
         statusText,
         detail,
-        buildRetryMetadata(method, retryEnabled, maxAttempts, attempt, delaysMs, timedOut),
+        buildRetryMetadata(
+          instance,
+          method,
+          retryEnabled,
+          maxAttempts,
+          attempt,
+          delaysMs,
+          timedOut,
+        ),
+        instance,
       );
     } finally {
       clearTimeout(timeout);
@@ -480,6 +547,7 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
   }
 
   recordApiLatency({
+    instance,
     method,
     path: requestPath,
     durationMs: Date.now() - startedAt,
@@ -494,11 +562,12 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
     0,
     "Network Error",
     "Request failed before receiving a response.",
-    buildRetryMetadata((init.method ?? "GET").toUpperCase(), false, 1, 1, [], false),
+    buildRetryMetadata(instance, method, false, 1, 1, [], false),
+    instance,
   );
 }
 
-async function parseJsonResponse<T>(res: Response): Promise<T> {
+async function parseJsonResponse<T>(res: Response, instance: string): Promise<T> {
   const text = await res.text();
   if (!text) return undefined as T;
   try {
@@ -509,100 +578,198 @@ async function parseJsonResponse<T>(res: Response): Promise<T> {
       res.status,
       res.statusText || "Invalid JSON response",
       `Expected JSON response body but got non-JSON content: ${summary}`,
+      undefined,
+      instance,
     );
   }
 }
 
-async function fetchGetWithCache(path: string, headers: Record<string, string>): Promise<Response> {
+async function fetchGetWithCache(
+  profile: InstanceProfile,
+  path: string,
+  headers: Record<string, string>,
+  bypassCache = false,
+): Promise<Response> {
   const acceptHeader = headers.Accept ?? "*/*";
   const ttlMs = getGetCacheTtlMs();
-  const cached = getCachedGetResponse(path, acceptHeader, ttlMs);
+  const cached = bypassCache
+    ? undefined
+    : getCachedGetResponse(profile.name, path, acceptHeader, ttlMs);
   if (cached) {
     return cached;
   }
 
-  const url = `${getBaseUrl()}${path}`;
-  const response = await fetchWithRetry(url, {
+  const response = await fetchWithRetry(profile, path, {
     method: "GET",
     headers,
   });
-  cacheGetResponse(path, acceptHeader, response, ttlMs);
+  cacheGetResponse(profile.name, path, acceptHeader, response, ttlMs);
   return response;
 }
 
-async function request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+async function request<T = unknown>(
+  profile: InstanceProfile,
+  method: string,
+  path: string,
+  body?: unknown,
+  bypassCache = false,
+): Promise<T> {
   const normalizedMethod = method.toUpperCase();
   const res =
     normalizedMethod === "GET" && body === undefined
-      ? await fetchGetWithCache(path, getHeaders())
-      : await fetchWithRetry(`${getBaseUrl()}${path}`, {
+      ? await fetchGetWithCache(profile, path, getHeaders(profile), bypassCache)
+      : await fetchWithRetry(profile, path, {
           method: normalizedMethod,
-          headers: getHeaders(),
+          headers: getHeaders(profile),
           body: body !== undefined ? JSON.stringify(body) : undefined,
         });
 
-  return parseJsonResponse<T>(res);
+  return parseJsonResponse<T>(res, profile.name);
 }
 
-export async function get<T = unknown>(path: string): Promise<T> {
-  return request<T>("GET", path);
+export interface GetOptions {
+  /** Always ask DSS, e.g. before a read-modify-write; the fresh response still refreshes the cache. */
+  bypassCache?: boolean;
+}
+
+export async function get<T = unknown>(path: string, options: GetOptions = {}): Promise<T> {
+  return request<T>(getActiveInstance(), "GET", path, undefined, options.bypassCache);
 }
 
 export async function getText(path: string): Promise<string> {
-  const res = await fetchGetWithCache(path, getAnyHeaders());
+  const profile = getActiveInstance();
+  const res = await fetchGetWithCache(profile, path, getAnyHeaders(profile));
   return res.text();
 }
 
 export async function post<T = unknown>(path: string, body?: unknown): Promise<T> {
-  const result = await request<T>("POST", path, body);
-  invalidateGetCache();
+  const profile = getActiveInstance();
+  interceptWrite({ instance: profile.name, method: "POST", path, body });
+  const result = await request<T>(profile, "POST", path, body);
+  invalidateGetCache(profile.name);
   return result;
 }
 
 export async function put<T = unknown>(path: string, body: unknown): Promise<T> {
-  const result = await request<T>("PUT", path, body);
-  invalidateGetCache();
+  const profile = getActiveInstance();
+  interceptWrite({ instance: profile.name, method: "PUT", path, body });
+  const result = await request<T>(profile, "PUT", path, body);
+  invalidateGetCache(profile.name);
   return result;
 }
 
 export async function del(path: string): Promise<void> {
-  await request("DELETE", path);
-  invalidateGetCache();
+  const profile = getActiveInstance();
+  interceptWrite({ instance: profile.name, method: "DELETE", path });
+  await request(profile, "DELETE", path);
+  invalidateGetCache(profile.name);
 }
 
 export async function putVoid(path: string, body: unknown): Promise<void> {
-  const url = `${getBaseUrl()}${path}`;
-  await fetchWithRetry(url, {
+  const profile = getActiveInstance();
+  interceptWrite({ instance: profile.name, method: "PUT", path, body });
+  await fetchWithRetry(profile, path, {
     method: "PUT",
-    headers: getHeaders(),
+    headers: getHeaders(profile),
     body: JSON.stringify(body),
   });
-  invalidateGetCache();
+  invalidateGetCache(profile.name);
 }
 
-export async function upload(path: string, filePath: string): Promise<void> {
+export interface UploadOptions {
+  /**
+   * Streams the file through `progressStream`, turning the bytes sent so far into
+   * the progress message. Without it the file is sent as a FormData blob.
+   */
+  describeProgress?: (bytes: number) => string;
+}
+
+export async function upload(
+  path: string,
+  filePath: string,
+  options: UploadOptions = {},
+): Promise<void> {
   const { openAsBlob } = await import("node:fs");
   const { basename } = await import("node:path");
 
+  const profile = getActiveInstance();
   const fileBlob = await openAsBlob(filePath);
   const fileName = basename(filePath);
-
-  const formData = new FormData();
-  formData.append("file", fileBlob, fileName);
-
-  const url = `${getBaseUrl()}${path}`;
-  await fetchWithRetry(url, {
+  interceptWrite({
+    instance: profile.name,
     method: "POST",
-    headers: { Authorization: `Bearer ${getApiKey()}` },
-    body: formData,
+    path,
+    body: { multipart: { file: fileName, sizeBytes: fileBlob.size } },
   });
-  invalidateGetCache();
+
+  if (options.describeProgress) {
+    const { body, contentType, contentLength } = await multipartFileStream(
+      fileBlob,
+      fileName,
+      progressStream(options.describeProgress, fileBlob.size),
+    );
+    await fetchWithRetry(profile, path, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${profile.apiKey}`,
+        "Content-Type": contentType,
+        "Content-Length": String(contentLength),
+      },
+      body,
+      duplex: "half",
+    } as RequestInit);
+  } else {
+    const formData = new FormData();
+    formData.append("file", fileBlob, fileName);
+
+    await fetchWithRetry(profile, path, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${profile.apiKey}` },
+      body: formData,
+    });
+  }
+  invalidateGetCache(profile.name);
+}
+
+/** A single-file multipart/form-data body whose file part is read through `progress`. */
+async function multipartFileStream(
+  file: Blob,
+  fileName: string,
+  progress: Transform,
+): Promise<{ body: ReadableStream<Uint8Array>; contentType: string; contentLength: number }> {
+  const { randomUUID } = await import("node:crypto");
+  const { Readable } = await import("node:stream");
+
+  const boundary = `----dataiku-mcp-${randomUUID()}`;
+  const quotedName = fileName.replace(/["\r\n]/g, (c) => encodeURIComponent(c));
+  const head = Buffer.from(
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${quotedName}"\r\nContent-Type: application/octet-stream\r\n\r\n`,
+  );
+  const tail = Buffer.from(`\r\n--${boundary}--\r\n`);
+  const fileStream = Readable.fromWeb(file.stream() as import("stream/web").ReadableStream).pipe(
+    progress,
+  );
+  async function* parts() {
+    yield head;
+    yield* fileStream;
+    yield tail;
+  }
+  const body = Readable.toWeb(Readable.from(parts())) as ReadableStream<Uint8Array>;
+  describeStreamBody(body, {
+    multipart: [{ field: "file", name: fileName, sizeBytes: file.size }],
+  });
+  return {
+    body,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength: head.length + file.size + tail.length,
+  };
 }
 
 export async function stream(
   path: string,
 ): Promise<{ body: ReadableStream<Uint8Array>; contentType: string }> {
-  const res = await fetchGetWithCache(path, getAnyHeaders());
+  const profile = getActiveInstance();
+  const res = await fetchGetWithCache(profile, path, getAnyHeaders(profile));
 
   if (!res.body) {
     throw new Error("No response body for stream request");
@@ -0,0 +1,178 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { get, getProjectKey } from "./client.js";
+import { getActiveInstance, runWithInstance } from "./instances.js";
+import { evaluatePolicy } from "./policy.js";
+import { getActiveSession, getServerSession, runWithSession } from "./session.js";
+
+export type CompletionKind =
+  | "projectKey"
+  | "datasetName"
+  | "recipeName"
+  | "scenarioId"
+  | "folderId"
+  | "envName";
+
+export const COMPLETION_KINDS: CompletionKind[] = [
+  "projectKey",
+  "datasetName",
+  "recipeName",
+  "scenarioId",
+  "folderId",
+  "envName",
+];
+
+type CompletionContext = { arguments?: Record<string, string> };
+
+const COMPLETION_CACHE_TTL_MS = 30_000;
+
+interface CompletionSource {
+  /** Listing tool/action whose policy rules gate the completion. */
+  policy: { tool: string; action: string };
+  projectScoped: boolean;
+  load: (projectEnc: string) => Promise<string[]>;
+}
+
+const SOURCES: Record<CompletionKind, CompletionSource> = {
+  projectKey: {
+    policy: { tool: "project", action: "list" },
+    projectScoped: false,
+    load: async () =>
+      (await get<Array<{ projectKey: string }>>("/public/api/projects/")).map((p) => p.projectKey),
+  },
+  datasetName: {
+    policy: { tool: "dataset", action: "list" },
+    projectScoped: true,
+    load: async (enc) =>
+      (await get<Array<{ name: string }>>(`/public/api/projects/${enc}/datasets/`)).map(
+        (d) => d.name,
+      ),
+  },
+  recipeName: {
+    policy: { tool: "recipe", action: "list" },
+    projectScoped: true,
+    load: async (enc) =>
+      (await get<Array<{ name: string }>>(`/public/api/projects/${enc}/recipes/`)).map(
+        (r) => r.name,
+      ),
+  },
+  scenarioId: {
+    policy: { tool: "scenario", action: "list" },
+    projectScoped: true,
+    load: async (enc) =>
+      (await get<Array<{ id: string }>>(`/public/api/projects/${enc}/scenarios/`)).map((s) => s.id),
+  },
+  folderId: {
+    policy: { tool: "managed_folder", action: "list" },
+    projectScoped: true,
+    load: async (enc) =>
+      (await get<Array<{ id: string }>>(`/public/api/projects/${enc}/managedfolders/`)).map(
+        (f) => f.id,
+      ),
+  },
+  envName: {
+    policy: { tool: "code_env", action: "list" },
+    projectScoped: false,
+    load: async () =>
+      (await get<Array<{ envName: string }>>("/public/api/admin/code-envs/")).map((e) => e.envName),
+  },
+};
+
+// Keyed by session, instance, kind and project so HTTP callers never see each other's listings.
+const completionCache = new Map<string, { expiresAt: number; values: Promise<string[]> }>();
+
+/** Drops every cached listing, or only those of one session when it ends. */
+export function clearCompletionCache(sessionId?: string): void {
+  if (sessionId === undefined) {
+    completionCache.clear();
+    return;
+  }
+  const prefix = `${sessionId}\u0000`;
+  for (const key of [...completionCache.keys()]) {
+    if (key.startsWith(prefix)) completionCache.delete(key);
+  }
+}
+
+function dropExpired(now: number): void {
+  for (const [key, entry] of completionCache) {
+    if (entry.expiresAt <= now) completionCache.delete(key);
+  }
+}
+
+function loadCached(kind: CompletionKind, projectKey: string | undefined): Promise<string[]> {
+  const key = [getActiveSession()?.id ?? "", getActiveInstance().name, kind, projectKey ?? ""].join(
+    "\u0000",
+  );
+  const now = Date.now();
+  const cached = completionCache.get(key);
+  if (cached && cached.expiresAt > now) return cached.values;
+
+  // Sweep on insert so keys that are never asked for again do not pile up.
+  dropExpired(now);
+  const values = SOURCES[kind].load(encodeURIComponent(projectKey ?? ""));
+  completionCache.set(key, { expiresAt: now + COMPLETION_CACHE_TTL_MS, values });
+  // Failed listings are not cached; the next keystroke retries.
+  values.catch(() => {
+    if (completionCache.get(key)?.values === values) completionCache.delete(key);
+  });
+  return values;
+}
+
+/** Orders case-insensitive prefix matches before substring matches. */
+export function rankCompletions(values: string[], input: string): string[] {
+  const needle = input.toLowerCase();
+  const prefix: string[] = [];
+  const contains: string[] = [];
+  for (const value of [...new Set(values)].sort()) {
+    const lower = value.toLowerCase();
+    if (lower.startsWith(needle)) prefix.push(value);
+    else if (lower.includes(needle)) contains.push(value);
+  }
+  return [...prefix, ...contains];
+}
+
+function resolveProjectKey(context: CompletionContext | undefined): string | undefined {
+  const explicit = context?.arguments?.projectKey?.trim();
+  if (explicit) return explicit;
+  try {
+    return getProjectKey();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Names of one kind of object, filtered by policy and served from the short-lived
+ * cache. Must run inside the caller's session and instance context.
+ */
+export async function listCompletionValues(
+  kind: CompletionKind,
+  projectKey: string | undefined,
+): Promise<string[]> {
+  const source = SOURCES[kind];
+  if (source.projectScoped && !projectKey) return [];
+  if (!evaluatePolicy({ ...source.policy, projectKey }).allowed) return [];
+  const values = await loadCached(kind, source.projectScoped ? projectKey : undefined);
+  if (kind !== "projectKey") return values;
+  return values.filter((key) => evaluatePolicy({ ...source.policy, projectKey: key }).allowed);
+}
+
+/**
+ * Builds an MCP completion callback for prompt arguments and resource template
+ * variables. Object names complete from the project named in the other
+ * arguments, or the default project. Completion is best-effort: DSS errors
+ * and policy denials yield no suggestions.
+ */
+export function createCompleter(server: McpServer, kind: CompletionKind) {
+  const source = SOURCES[kind];
+  return (value: string | undefined, context?: CompletionContext): Promise<string[]> =>
+    runWithSession(getServerSession(server), () =>
+      runWithInstance(undefined, async () => {
+        const projectKey = source.projectScoped ? resolveProjectKey(context) : undefined;
+        try {
+          return rankCompletions(await listCompletionValues(kind, projectKey), value ?? "");
+        } catch {
+          return [];
+        }
+      }),
+    );
+}
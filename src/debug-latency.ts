@@ -1,13 +1,14 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 
 export interface ApiLatencyRecord {
+  instance: string;
   method: string;
   path: string;
   durationMs: number;
   attempts: number;
   retries: number;
   status: number;
-  outcome: "success" | "http_error" | "network_error";
+  outcome: "success" | "http_error" | "network_error" | "cancelled";
   timedOut: boolean;
   delaysMs: number[];
 }
@@ -0,0 +1,294 @@
+import { createHash, randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { clearCompletionCache } from "./completions.js";
+import { normalizeInstanceName } from "./instances.js";
+import { createServer } from "./server.js";
+import type { SessionContext } from "./session.js";
+
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+export interface HttpCaller {
+  name: string;
+  apiKey?: string;
+  apiKeys: Record<string, string>;
+}
+
+export interface HttpServerOptions {
+  host?: string;
+  port?: number;
+  callers?: Map<string, HttpCaller>;
+}
+
+interface HttpSession {
+  caller: HttpCaller;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function parseCallerEntry(entry: unknown, index: number): HttpCaller {
+  const fallbackName = `caller-${index + 1}`;
+  if (typeof entry === "string" && entry.trim()) {
+    return { name: fallbackName, apiKey: entry.trim(), apiKeys: {} };
+  }
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new Error(`HTTP token #${index + 1} must map to a DSS API key or a caller object.`);
+  }
+  const record = entry as Record<string, unknown>;
+  const apiKeys: Record<string, string> = {};
+  if (record.apiKeys && typeof record.apiKeys === "object" && !Array.isArray(record.apiKeys)) {
+    for (const [instance, key] of Object.entries(record.apiKeys as Record<string, unknown>)) {
+      if (typeof key === "string" && key.trim()) {
+        apiKeys[normalizeInstanceName(instance)] = key.trim();
+      }
+    }
+  }
+  const apiKey =
+    typeof record.apiKey === "string" && record.apiKey.trim() ? record.apiKey.trim() : undefined;
+  if (!apiKey && Object.keys(apiKeys).length === 0) {
+    throw new Error(`HTTP token #${index + 1} has no apiKey or apiKeys configured.`);
+  }
+  const name = typeof record.name === "string" && record.name.trim() ? record.name.trim() : "";
+  return { name: name || fallbackName, apiKey, apiKeys };
+}
+
+function parseCallers(raw: string, source: string): Map<string, HttpCaller> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse ${source}: ${detail}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${source} must be a JSON object mapping bearer tokens to DSS API keys.`);
+  }
+  const callers = new Map<string, HttpCaller>();
+  Object.entries(parsed as Record<string, unknown>).forEach(([token, entry], index) => {
+    if (!token.trim()) return;
+    callers.set(hashToken(token.trim()), parseCallerEntry(entry, index));
+  });
+  return callers;
+}
+
+export function loadHttpCallers(): Map<string, HttpCaller> {
+  const file = process.env.DATAIKU_HTTP_TOKENS_FILE?.trim();
+  if (file) {
+    let raw: string;
+    try {
+      raw = readFileSync(file, "utf8");
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read DATAIKU_HTTP_TOKENS_FILE "${file}": ${detail}`);
+    }
+    return parseCallers(raw, "DATAIKU_HTTP_TOKENS_FILE");
+  }
+  const inline = process.env.DATAIKU_HTTP_TOKENS?.trim();
+  if (inline) return parseCallers(inline, "DATAIKU_HTTP_TOKENS");
+  return new Map();
+}
+
+function authenticate(req: IncomingMessage, callers: Map<string, HttpCaller>): HttpCaller {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  if (!match) throw new HttpError(401, "Missing bearer token.");
+  const caller = callers.get(hashToken(match[1].trim()));
+  if (!caller) throw new HttpError(401, "Invalid bearer token.");
+  return caller;
+}
+
+function createSessionContext(id: string, caller: HttpCaller): SessionContext {
+  return {
+    id,
+    caller: caller.name,
+    resolveApiKey: (instance) => caller.apiKeys[instance] ?? caller.apiKey,
+    getCache: new Map(),
+  };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large.");
+    chunks.push(buffer);
+  }
+  if (size === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    ...(status === 401 ? { "WWW-Authenticate": 'Bearer realm="dataiku-mcp"' } : {}),
+  });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function requireSession(
+  sessions: Map<string, HttpSession>,
+  sessionId: string | undefined,
+  caller: HttpCaller,
+): HttpSession {
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (!session) throw new HttpError(404, "Session not found.");
+  if (session.caller !== caller) {
+    throw new HttpError(403, "Session belongs to a different caller.");
+  }
+  return session;
+}
+
+export async function startHttpServer(
+  options: HttpServerOptions = {},
+): Promise<{ server: Server; close: () => Promise<void> }> {
+  const callers = options.callers ?? loadHttpCallers();
+  if (callers.size === 0) {
+    throw new Error(
+      "HTTP transport requires DATAIKU_HTTP_TOKENS or DATAIKU_HTTP_TOKENS_FILE to map bearer tokens to DSS API keys.",
+    );
+  }
+
+  const sessions = new Map<string, HttpSession>();
+
+  async function handleStreamable(
+    req: IncomingMessage,
+    res: ServerResponse,
+    caller: HttpCaller,
+  ): Promise<void> {
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const header = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const session = requireSession(sessions, sessionId, caller);
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(400, "Session was opened on the legacy SSE endpoint.");
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(400, "No valid session ID provided.");
+    }
+
+    const id = randomUUID();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => id });
+    const server = createServer({ session: createSessionContext(id, caller) });
+    sessions.set(id, { caller, server, transport });
+    transport.onclose = () => {
+      // server.close() closes the transport again, which calls back here.
+      if (!sessions.delete(id)) return;
+      clearCompletionCache(id);
+      void server.close();
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleLegacySse(res: ServerResponse, caller: HttpCaller): Promise<void> {
+    const transport = new SSEServerTransport("/messages", res);
+    const id = transport.sessionId;
+    const server = createServer({ session: createSessionContext(id, caller) });
+    sessions.set(id, { caller, server, transport });
+    res.on("close", () => {
+      sessions.delete(id);
+      clearCompletionCache(id);
+      void server.close();
+    });
+    await server.connect(transport);
+  }
+
+  async function handleLegacyMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    caller: HttpCaller,
+  ): Promise<void> {
+    const session = requireSession(
+      sessions,
+      url.searchParams.get("sessionId") ?? undefined,
+      caller,
+    );
+    if (!(session.transport instanceof SSEServerTransport)) {
+      throw new HttpError(400, "Session was opened on the Streamable HTTP endpoint.");
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const server = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    void (async () => {
+      const caller = authenticate(req, callers);
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res, caller);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleLegacySse(res, caller);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleLegacyMessage(req, res, url, caller);
+      } else {
+        throw new HttpError(404, `No route for ${req.method ?? "GET"} ${url.pathname}.`);
+      }
+    })().catch((error: unknown) => {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+        return;
+      }
+      console.error("HTTP transport error:", error);
+      sendError(res, 500, "Internal server error.");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 3000, options.host ?? "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    server,
+    close: async () => {
+      for (const session of [...sessions.values()]) {
+        await session.server.close();
+      }
+      sessions.clear();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
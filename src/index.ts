@@ -1,11 +1,49 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { startHttpServer } from "./http.js";
 import { createServer } from "./server.js";
 
-const transport = new StdioServerTransport();
+type TransportMode = "stdio" | "http";
+
+function readFlag(name: string): string | undefined {
+	const args = process.argv.slice(2);
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === `--${name}`) return args[i + 1];
+		if (arg.startsWith(`--${name}=`)) return arg.slice(name.length + 3);
+	}
+	return undefined;
+}
+
+function resolveTransportMode(): TransportMode {
+	const raw = (readFlag("transport") ?? process.env.DATAIKU_MCP_TRANSPORT ?? "stdio")
+		.trim()
+		.toLowerCase();
+	if (raw === "stdio") return "stdio";
+	if (raw === "http" || raw === "sse") return "http";
+	throw new Error(`Unknown transport "${raw}". Use "stdio" or "http".`);
+}
+
+function resolvePort(): number {
+	const raw = readFlag("port") ?? process.env.DATAIKU_MCP_PORT;
+	if (!raw) return 3000;
+	const port = Number.parseInt(raw, 10);
+	if (!Number.isFinite(port) || port < 0 || port > 65535) {
+		throw new Error(`Invalid port "${raw}".`);
+	}
+	return port;
+}
 
 async function main() {
+	if (resolveTransportMode() === "http") {
+		const host = readFlag("host") ?? process.env.DATAIKU_MCP_HOST ?? "127.0.0.1";
+		const port = resolvePort();
+		await startHttpServer({ host, port });
+		console.error(`Dataiku MCP server listening on http://${host}:${port}/mcp (legacy SSE: /sse)`);
+		return;
+	}
+
 	const server = createServer();
-	await server.connect(transport);
+	await server.connect(new StdioServerTransport());
 }
 
 void main().catch((error: unknown) => {
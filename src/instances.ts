@@ -0,0 +1,232 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+import { getActiveSession } from "./session.js";
+
+const DEFAULT_INSTANCE_NAME = "default";
+
+export interface InstanceProfile {
+  name: string;
+  url: string;
+  apiKey: string;
+  projectKey?: string;
+}
+
+type ConfiguredInstance = Omit<InstanceProfile, "apiKey"> & { apiKey?: string };
+
+interface InstanceFileEntry {
+  url?: unknown;
+  apiKey?: unknown;
+  apiKeyEnv?: unknown;
+  projectKey?: unknown;
+}
+
+interface InstanceStore {
+  instance?: string;
+}
+
+const instanceStore = new AsyncLocalStorage<InstanceStore>();
+
+let _fileProfiles:
+  | { path: string; profiles: Map<string, ConfiguredInstance>; fileDefault?: string }
+  | undefined;
+
+const INSTANCE_ENV_PATTERN = /^DATAIKU_INSTANCE_([A-Z0-9_]+?)_(URL|API_KEY|PROJECT_KEY)$/;
+
+function readTrimmedEnv(name: string): string | undefined {
+  const value = process.env[name];
+  if (value === undefined) return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function asTrimmedString(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export function normalizeInstanceName(name: string): string {
+  return name.trim().toLowerCase().replace(/_/g, "-");
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function loadFileProfiles(path: string): {
+  profiles: Map<string, ConfiguredInstance>;
+  fileDefault?: string;
+} {
+  if (_fileProfiles?.path === path) return _fileProfiles;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read DATAIKU_INSTANCES_FILE "${path}": ${detail}`);
+  }
+
+  const root =
+    parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  const entries =
+    root.instances && typeof root.instances === "object" && !Array.isArray(root.instances)
+      ? (root.instances as Record<string, InstanceFileEntry>)
+      : {};
+
+  const profiles = new Map<string, ConfiguredInstance>();
+  for (const [rawName, entry] of Object.entries(entries)) {
+    const name = normalizeInstanceName(rawName);
+    const url = asTrimmedString(entry?.url);
+    const apiKeyEnv = asTrimmedString(entry?.apiKeyEnv);
+    const apiKey =
+      asTrimmedString(entry?.apiKey) ?? (apiKeyEnv ? readTrimmedEnv(apiKeyEnv) : undefined);
+    if (!url) {
+      throw new Error(`Instance "${rawName}" in DATAIKU_INSTANCES_FILE needs a url.`);
+    }
+    profiles.set(name, {
+      name,
+      url: normalizeUrl(url),
+      apiKey,
+      projectKey: asTrimmedString(entry?.projectKey),
+    });
+  }
+
+  const fileDefault = asTrimmedString(root.default);
+  _fileProfiles = {
+    path,
+    profiles,
+    fileDefault: fileDefault ? normalizeInstanceName(fileDefault) : undefined,
+  };
+  return _fileProfiles;
+}
+
+function loadEnvProfiles(): Map<string, ConfiguredInstance> {
+  const partial = new Map<string, { url?: string; apiKey?: string; projectKey?: string }>();
+  for (const key of Object.keys(process.env)) {
+    const match = INSTANCE_ENV_PATTERN.exec(key);
+    if (!match) continue;
+    const value = readTrimmedEnv(key);
+    if (!value) continue;
+    const name = normalizeInstanceName(match[1]);
+    const entry = partial.get(name) ?? {};
+    if (match[2] === "URL") entry.url = value;
+    else if (match[2] === "API_KEY") entry.apiKey = value;
+    else entry.projectKey = value;
+    partial.set(name, entry);
+  }
+
+  const profiles = new Map<string, ConfiguredInstance>();
+  for (const [name, entry] of partial) {
+    if (!entry.url) continue;
+    profiles.set(name, {
+      name,
+      url: normalizeUrl(entry.url),
+      apiKey: entry.apiKey,
+      projectKey: entry.projectKey,
+    });
+  }
+  return profiles;
+}
+
+function loadLegacyProfile(): ConfiguredInstance | undefined {
+  const url = readTrimmedEnv("DATAIKU_URL");
+  if (!url) return undefined;
+  return {
+    name: DEFAULT_INSTANCE_NAME,
+    url: normalizeUrl(url),
+    apiKey: readTrimmedEnv("DATAIKU_API_KEY"),
+    projectKey: readTrimmedEnv("DATAIKU_PROJECT_KEY"),
+  };
+}
+
+interface InstanceRegistry {
+  profiles: Map<string, ConfiguredInstance>;
+  defaultName?: string;
+}
+
+function loadInstanceRegistry(): InstanceRegistry {
+  const profiles = new Map<string, ConfiguredInstance>();
+  const legacy = loadLegacyProfile();
+  if (legacy) profiles.set(legacy.name, legacy);
+
+  const filePath = readTrimmedEnv("DATAIKU_INSTANCES_FILE");
+  const fromFile = filePath ? loadFileProfiles(filePath) : undefined;
+  for (const [name, profile] of fromFile?.profiles ?? []) profiles.set(name, profile);
+  for (const [name, profile] of loadEnvProfiles()) profiles.set(name, profile);
+
+  const configuredDefault = readTrimmedEnv("DATAIKU_DEFAULT_INSTANCE");
+  const defaultName = configuredDefault
+    ? normalizeInstanceName(configuredDefault)
+    : (fromFile?.fileDefault ??
+      (profiles.has(DEFAULT_INSTANCE_NAME)
+        ? DEFAULT_INSTANCE_NAME
+        : profiles.size === 1
+          ? [...profiles.keys()][0]
+          : undefined));
+
+  return { profiles, defaultName };
+}
+
+function resolveConfiguredInstance(name?: string): ConfiguredInstance {
+  const { profiles, defaultName } = loadInstanceRegistry();
+  const requested = name?.trim() ? normalizeInstanceName(name) : undefined;
+  const target = requested ?? defaultName;
+
+  if (!target) {
+    if (profiles.size === 0) {
+      throw new Error("DATAIKU_URL environment variable is required");
+    }
+    throw new Error(
+      `Multiple Dataiku instances are configured (${[...profiles.keys()].sort().join(", ")}); pass instance or set DATAIKU_DEFAULT_INSTANCE.`,
+    );
+  }
+
+  const profile = profiles.get(target);
+  if (!profile) {
+    const known = [...profiles.keys()].sort((a, b) => a.localeCompare(b));
+    throw new Error(
+      `Unknown Dataiku instance "${name ?? target}". Configured instances: ${known.length > 0 ? known.join(", ") : "(none)"}.`,
+    );
+  }
+  return profile;
+}
+
+export function resolveInstance(name?: string): InstanceProfile {
+  const profile = resolveConfiguredInstance(name);
+  const session = getActiveSession();
+  // Remote sessions always act with the caller's own DSS key, never the server's.
+  const apiKey = session ? session.resolveApiKey(profile.name) : profile.apiKey;
+  if (!apiKey) {
+    if (session) {
+      throw new Error(
+        `No DSS API key is mapped to caller "${session.caller}" for instance "${profile.name}".`,
+      );
+    }
+    throw new Error(
+      profile.name === DEFAULT_INSTANCE_NAME
+        ? "DATAIKU_API_KEY environment variable is required"
+        : `Instance "${profile.name}" has no API key configured.`,
+    );
+  }
+  return { ...profile, apiKey };
+}
+
+export function getRequestedInstance(): string | undefined {
+  return instanceStore.getStore()?.instance;
+}
+
+export function getActiveInstance(): InstanceProfile {
+  return resolveInstance(getRequestedInstance());
+}
+
+export async function runWithInstance<T>(
+  instance: string | undefined,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const trimmed = instance?.trim();
+  if (!trimmed) return operation();
+  return instanceStore.run({ instance: trimmed }, operation);
+}
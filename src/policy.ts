@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs";
+
+interface ProjectRule {
+  allow?: string[];
+  deny?: string[];
+}
+
+interface PolicyFile {
+  projects?: ProjectRule;
+  actions?: Record<string, ProjectRule | boolean>;
+}
+
+export interface PolicyRequest {
+  tool: string;
+  action: string | null;
+  /** Undefined when the action is not scoped to a project. */
+  projectKey?: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  rule?: string;
+  message?: string;
+}
+
+let _policy: { path: string; policy: PolicyFile } | undefined;
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+}
+
+function findMatch(patterns: string[] | undefined, value: string): string | undefined {
+  return patterns?.find((pattern) => globToRegExp(pattern).test(value));
+}
+
+function asStringList(value: unknown, where: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`DATAIKU_POLICY_FILE: ${where} must be an array of glob strings.`);
+  }
+  return value as string[];
+}
+
+function parseProjectRule(value: unknown, where: string): ProjectRule {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`DATAIKU_POLICY_FILE: ${where} must be an object with allow/deny lists.`);
+  }
+  const record = value as Record<string, unknown>;
+  return {
+    allow: asStringList(record.allow, `${where}.allow`),
+    deny: asStringList(record.deny, `${where}.deny`),
+  };
+}
+
+function loadPolicy(): PolicyFile | undefined {
+  const path = process.env.DATAIKU_POLICY_FILE?.trim();
+  if (!path) return undefined;
+  if (_policy?.path === path) return _policy.policy;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read DATAIKU_POLICY_FILE "${path}": ${detail}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("DATAIKU_POLICY_FILE must contain a JSON object.");
+  }
+
+  const root = parsed as Record<string, unknown>;
+  const policy: PolicyFile = {};
+  if (root.projects !== undefined) policy.projects = parseProjectRule(root.projects, "projects");
+  if (root.actions !== undefined) {
+    if (!root.actions || typeof root.actions !== "object" || Array.isArray(root.actions)) {
+      throw new Error('DATAIKU_POLICY_FILE: actions must map "tool.action" globs to rules.');
+    }
+    policy.actions = {};
+    for (const [key, rule] of Object.entries(root.actions as Record<string, unknown>)) {
+      policy.actions[key] =
+        typeof rule === "boolean" ? rule : parseProjectRule(rule, `actions["${key}"]`);
+    }
+  }
+
+  _policy = { path, policy };
+  return policy;
+}
+
+function checkProjectRule(
+  rule: ProjectRule,
+  projectKey: string | undefined,
+  name: string,
+): PolicyDecision | undefined {
+  if (projectKey === undefined) return undefined;
+  const denied = findMatch(rule.deny, projectKey);
+  if (denied) {
+    return {
+      allowed: false,
+      rule: `${name}.deny "${denied}"`,
+      message: `project ${projectKey} matches deny pattern "${denied}"`,
+    };
+  }
+  if (rule.allow && rule.allow.length > 0 && !findMatch(rule.allow, projectKey)) {
+    return {
+      allowed: false,
+      rule: `${name}.allow`,
+      message: `project ${projectKey} matches none of ${rule.allow.map((p) => `"${p}"`).join(", ")}`,
+    };
+  }
+  return undefined;
+}
+
+export function evaluatePolicy(request: PolicyRequest): PolicyDecision {
+  const policy = loadPolicy();
+  if (!policy) return { allowed: true };
+
+  if (policy.projects) {
+    const decision = checkProjectRule(policy.projects, request.projectKey, "projects");
+    if (decision) return decision;
+  }
+
+  const qualified = request.action ? `${request.tool}.${request.action}` : request.tool;
+  for (const [pattern, rule] of Object.entries(policy.actions ?? {})) {
+    if (!globToRegExp(pattern).test(qualified)) continue;
+    const name = `actions["${pattern}"]`;
+    if (rule === false) {
+      return { allowed: false, rule: name, message: `${qualified} is disabled` };
+    }
+    if (rule === true) continue;
+    const decision = checkProjectRule(rule, request.projectKey, name);
+    if (decision) return decision;
+  }
+
+  return { allowed: true };
+}
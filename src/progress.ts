@@ -0,0 +1,124 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Transform } from "node:stream";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+interface ToolRequestContext {
+  signal?: AbortSignal;
+  notifyProgress?: (update: ProgressUpdate) => Promise<void>;
+}
+
+export type ToolRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+const toolRequestStore = new AsyncLocalStorage<ToolRequestContext>();
+
+const STREAM_PROGRESS_INTERVAL_MS = 1_000;
+
+export class RequestCancelledError extends Error {
+  constructor(message = "Request was cancelled by the client.") {
+    super(message);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/** Exposes the MCP request's abort signal and progress token to code below the tool handler. */
+export async function runWithToolRequest<T>(
+  extra: ToolRequestExtra | undefined,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const progressToken = extra?._meta?.progressToken;
+  const notifyProgress =
+    extra && progressToken !== undefined
+      ? (update: ProgressUpdate) =>
+          extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, ...update },
+          })
+      : undefined;
+  return toolRequestStore.run({ signal: extra?.signal, notifyProgress }, operation);
+}
+
+/** Runs cleanup calls (e.g. aborting a DSS job) after the request itself was cancelled. */
+export async function runIgnoringCancellation<T>(operation: () => Promise<T>): Promise<T> {
+  const current = toolRequestStore.getStore();
+  return toolRequestStore.run({ notifyProgress: current?.notifyProgress }, operation);
+}
+
+export function getAbortSignal(): AbortSignal | undefined {
+  return toolRequestStore.getStore()?.signal;
+}
+
+export function throwIfCancelled(): void {
+  if (getAbortSignal()?.aborted) throw new RequestCancelledError();
+}
+
+/** Sends notifications/progress when the client asked for it; never throws. */
+export async function reportProgress(update: ProgressUpdate): Promise<void> {
+  const notify = toolRequestStore.getStore()?.notifyProgress;
+  if (!notify) return;
+  try {
+    await notify(update);
+  } catch {
+    // Progress is advisory; a closed transport must not fail the tool call.
+  }
+}
+
+/** Resolves after `ms`, or rejects with RequestCancelledError as soon as the request is cancelled. */
+export function sleep(ms: number): Promise<void> {
+  const signal = getAbortSignal();
+  if (signal?.aborted) return Promise.reject(new RequestCancelledError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+/**
+ * Pass-through stream that reports bytes seen so far, at most once per second
+ * plus once at the end. `describe` turns the byte count into the progress message.
+ */
+export function progressStream(
+  describe: (bytes: number) => string,
+  totalBytes?: number,
+): Transform {
+  let bytes = 0;
+  let lastReportAt = Date.now();
+  const report = () =>
+    reportProgress({
+      progress: bytes,
+      ...(totalBytes !== undefined ? { total: totalBytes } : {}),
+      message: describe(bytes),
+    });
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      if (Date.now() - lastReportAt >= STREAM_PROGRESS_INTERVAL_MS) {
+        lastReportAt = Date.now();
+        void report();
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      void report().then(() => callback());
+    },
+  });
+}
@@ -0,0 +1,138 @@
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { createCompleter } from "./completions.js";
+
+const jobIdArg = z.string().describe("Job id, e.g. from job.list.");
+
+/** Renders the projectKey argument for a tool call, or nothing when the default project applies. */
+function projectArg(projectKey: string | undefined): string {
+  return projectKey ? `, projectKey: "${projectKey}"` : "";
+}
+
+function projectLabel(projectKey: string | undefined): string {
+  return projectKey ? `project ${projectKey}` : "the default project";
+}
+
+function userPrompt(description: string, lines: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text: lines.join("\n") } }],
+  };
+}
+
+export function registerPrompts(server: McpServer): void {
+  const projectKeyArg = completable(
+    z.string().optional().describe("DSS project key; defaults to DATAIKU_PROJECT_KEY."),
+    createCompleter(server, "projectKey"),
+  );
+  const datasetNameArg = completable(
+    z.string().describe("Dataset name."),
+    createCompleter(server, "datasetName"),
+  );
+
+  server.registerPrompt(
+    "diagnose-failed-job",
+    {
+      title: "Diagnose failed job",
+      description: "Find why a job failed: job status, then its log, then the failing recipe.",
+      argsSchema: { projectKey: projectKeyArg, jobId: jobIdArg },
+    },
+    ({ projectKey, jobId }) => {
+      const p = projectArg(projectKey);
+      return userPrompt(`Diagnose job ${jobId}`, [
+        `Diagnose why job ${jobId} in ${projectLabel(projectKey)} failed.`,
+        "",
+        `1. Call job with { action: "get", jobId: "${jobId}"${p} } for its state, targets and activity counts.`,
+        `2. Call job with { action: "log", jobId: "${jobId}"${p}, maxLogLines: 200 } and find the first error, not the last.`,
+        `3. Identify the recipe that writes the failing target (project { action: "map"${p} } if the log does not name it), then call recipe with { action: "get", recipeName: "<recipe>"${p} } and read its code or settings.`,
+        "",
+        "Report: the root cause in one sentence, the evidence (log lines and recipe lines), and the smallest fix. Do not change anything or rebuild unless I ask.",
+      ]);
+    },
+  );
+
+  server.registerPrompt(
+    "explain-flow",
+    {
+      title: "Explain this flow",
+      description: "Walk through a project's flow from its sources to its outputs.",
+      argsSchema: { projectKey: projectKeyArg },
+    },
+    ({ projectKey }) => {
+      const p = projectArg(projectKey);
+      return userPrompt(`Explain the flow of ${projectLabel(projectKey)}`, [
+        `Explain the flow of ${projectLabel(projectKey)}.`,
+        "",
+        `1. Call project with { action: "map"${p} }.`,
+        "2. Starting from the roots, follow the edges stage by stage to the leaves. Group parallel branches.",
+        `3. For recipes whose purpose is unclear from their name and type, call recipe with { action: "get", recipeName: "<recipe>"${p} }.`,
+        "",
+        "Answer with: the sources, each transformation stage and what it does, the final outputs, and any disconnected or unused objects.",
+      ]);
+    },
+  );
+
+  server.registerPrompt(
+    "onboard-project",
+    {
+      title: "Onboard me to a project",
+      description:
+        "Produce an orientation guide for a project: purpose, flow, automation and recent activity.",
+      argsSchema: {
+        projectKey: completable(
+          z.string().describe("DSS project key."),
+          createCompleter(server, "projectKey"),
+        ),
+      },
+    },
+    ({ projectKey }) => {
+      const p = projectArg(projectKey);
+      return userPrompt(`Onboard to project ${projectKey}`, [
+        `I am new to project ${projectKey}. Build me an orientation guide using read-only calls.`,
+        "",
+        `1. project { action: "get"${p} } and project { action: "metadata"${p} } for the purpose, owner and tags.`,
+        `2. project { action: "map"${p} } for the shape of the flow.`,
+        `3. dataset { action: "list"${p} } and recipe { action: "list"${p} }.`,
+        `4. scenario { action: "list"${p} } and, for active ones, scenario { action: "status", scenarioId: "<id>"${p} }.`,
+        `5. job { action: "list"${p}, limit: 10 } for recent activity and failures.`,
+        `6. variable { action: "get"${p} } for configuration knobs.`,
+        "",
+        "Summarize: what the project does, its key datasets, how it is scheduled, what has been failing lately, and where I should look first.",
+      ]);
+    },
+  );
+
+  server.registerPrompt(
+    "safe-schema-change",
+    {
+      title: "Prepare a safe schema change",
+      description: "Plan a dataset schema change with its downstream impact before applying it.",
+      argsSchema: {
+        projectKey: projectKeyArg,
+        datasetName: datasetNameArg,
+        change: z
+          .string()
+          .optional()
+          .describe("Intended change, e.g. 'rename amount to amount_eur'."),
+      },
+    },
+    ({ projectKey, datasetName, change }) => {
+      const p = projectArg(projectKey);
+      const ds = `datasetName: "${datasetName}"${p}`;
+      return userPrompt(`Plan a schema change on ${datasetName}`, [
+        `Prepare a safe schema change on dataset ${datasetName} in ${projectLabel(projectKey)}.`,
+        change ? `Intended change: ${change}` : "Ask me for the intended change before step 4.",
+        "",
+        `1. dataset { action: "schema", ${ds} } for the current columns.`,
+        `2. dataset { action: "preview", ${ds}, limit: 20 } to see real values.`,
+        `3. project { action: "map"${p} } and list every recipe downstream of ${datasetName}; for each, recipe { action: "get", recipeName: "<recipe>"${p} } and note which columns it uses.`,
+        "4. Write the change as schemaEdit operations ({op:add|drop|rename|retype|reorder|set, ...}) and an impact table: recipe, affected columns, required edit.",
+        `5. dataset { action: "get", ${ds} } and note its version, then preview with dataset { action: "schemaEdit", ${ds}, operations: [...], dryRun: true }. Show me the before/after diff and every downstream warning it returns, and wait for my approval.`,
+        `6. After approval, apply the same operations with dataset { action: "schemaEdit", ${ds}, operations: [...], expectedVersion: <version from step 5> }. If it fails with reason conflict, re-read the dataset and repeat the preview instead of passing force.`,
+        '7. Rebuild the direct downstream datasets with job { action: "buildAndWait" } and check their schemas.',
+      ]);
+    },
+  );
+}
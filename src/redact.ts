@@ -0,0 +1,50 @@
+const REDACTED = "[REDACTED]";
+const SECRET_KEY_PATTERN =
+  /password|passwd|secret|token|api[-_]?key|access[-_]?key|credential|private[-_]?key|authorization|cookie/i;
+const MAX_BODY_CHARS = 16_000;
+
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    out[key] = SECRET_KEY_PATTERN.test(key) && entry !== null ? REDACTED : redactSecrets(entry);
+  }
+  return out;
+}
+
+const streamDescriptions = new WeakMap<ReadableStream, unknown>();
+
+/** Records what a streamed body carries, since the stream itself cannot be inspected. */
+export function describeStreamBody(stream: ReadableStream, description: unknown): void {
+  streamDescriptions.set(stream, description);
+}
+
+/** JSON-friendly, secret-free view of a fetch request body. */
+export function describeRequestBody(body: RequestInit["body"]): unknown {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === "string") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      parsed = body;
+    }
+    const redacted = redactSecrets(parsed);
+    const serialized = JSON.stringify(redacted);
+    return serialized.length > MAX_BODY_CHARS
+      ? { truncated: true, chars: serialized.length, preview: serialized.slice(0, 1_000) }
+      : redacted;
+  }
+  if (body instanceof FormData) {
+    const files: Array<{ field: string; name?: string; sizeBytes?: number }> = [];
+    body.forEach((value, field) => {
+      files.push(
+        typeof value === "string" ? { field } : { field, name: value.name, sizeBytes: value.size },
+      );
+    });
+    return { multipart: files };
+  }
+  if (body instanceof ReadableStream) return streamDescriptions.get(body) ?? { binary: true };
+  return { binary: true };
+}
@@ -0,0 +1,428 @@
+import { type McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { get, getProjectKey, getText } from "./client.js";
+import { COMPLETION_KINDS, createCompleter } from "./completions.js";
+import { runWithInstance } from "./instances.js";
+import { evaluatePolicy } from "./policy.js";
+import { getServerSession, runWithSession } from "./session.js";
+import { normalizeJobWaitState } from "./tools/jobs.js";
+import { loadFlowMap } from "./tools/projects.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+const LISTED_JOBS_LIMIT = 20;
+
+type Variables = Record<string, string>;
+
+interface ResourceSnapshot {
+  text: string;
+  mimeType: string;
+  /** True once the object can no longer change (e.g. a finished job); subscriptions stop there. */
+  settled?: boolean;
+}
+
+interface DssResource {
+  name: string;
+  uriTemplate: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  /** Tool/action whose policy rules also govern reads of this resource. */
+  policy: { tool: string; action: string };
+  subscribable?: boolean;
+  /** Lists the default project's objects; templates without {projectKey} ignore the argument. */
+  list: (projectKey: string) => Promise<Array<{ uri: string; name: string }>>;
+  read: (variables: Variables) => Promise<ResourceSnapshot>;
+}
+
+function projectPath(projectKey: string): string {
+  return `/public/api/projects/${encodeURIComponent(projectKey)}`;
+}
+
+function resourceUri(projectKey: string, ...segments: string[]): string {
+  return `dss://${[projectKey, ...segments].map(encodeURIComponent).join("/")}`;
+}
+
+function json(value: unknown): ResourceSnapshot {
+  return { text: JSON.stringify(value, null, 2), mimeType: "application/json" };
+}
+
+const PAYLOAD_MIME_TYPES: Record<string, string> = {
+  python: "text/x-python",
+  pyspark: "text/x-python",
+  r: "text/x-r",
+  sparkr: "text/x-r",
+  sql_query: "application/sql",
+  sql_script: "application/sql",
+  hive: "application/sql",
+  impala: "application/sql",
+  spark_sql_query: "application/sql",
+  shell: "text/x-sh",
+};
+
+async function listJobs(projectKey: string) {
+  return get<Array<{ def: { id: string }; state?: string }>>(
+    `${projectPath(projectKey)}/jobs/?limit=${LISTED_JOBS_LIMIT}`,
+  );
+}
+
+async function readJobState(projectKey: string, jobId: string) {
+  const job = await get<{
+    baseStatus?: {
+      state?: string;
+      jobStartTime?: number;
+      jobEndTime?: number;
+      def?: { outputs?: Array<{ targetDataset?: string }> };
+    };
+    globalState?: Record<string, number>;
+  }>(`${projectPath(projectKey)}/jobs/${encodeURIComponent(jobId)}/`);
+  const status = job.baseStatus ?? {};
+  const state = status.state ?? "unknown";
+  return {
+    jobId,
+    state,
+    normalizedState: normalizeJobWaitState(state),
+    targets: (status.def?.outputs ?? []).map((o) => o.targetDataset).filter(Boolean),
+    startTime: status.jobStartTime,
+    endTime: status.jobEndTime,
+    globalState: job.globalState ?? {},
+  };
+}
+
+const RESOURCES: DssResource[] = [
+  {
+    name: "dataset-schema",
+    uriTemplate: "dss://{projectKey}/dataset/{datasetName}/schema",
+    title: "Dataset schema",
+    description: "Column names and types of a dataset.",
+    mimeType: "application/json",
+    policy: { tool: "dataset", action: "schema" },
+    list: async (projectKey) => {
+      const datasets = await get<Array<{ name: string }>>(`${projectPath(projectKey)}/datasets/`);
+      return datasets.map((d) => ({
+        uri: resourceUri(projectKey, "dataset", d.name, "schema"),
+        name: `${projectKey}.${d.name} schema`,
+      }));
+    },
+    read: async ({ projectKey, datasetName }) => {
+      const schema = await get<{ columns?: Array<{ name: string; type: string }> }>(
+        `${projectPath(projectKey)}/datasets/${encodeURIComponent(datasetName)}/schema`,
+      );
+      return json({ projectKey, datasetName, columns: schema.columns ?? [] });
+    },
+  },
+  {
+    name: "recipe-payload",
+    uriTemplate: "dss://{projectKey}/recipe/{recipeName}/payload",
+    title: "Recipe payload",
+    description: "Code or query body of a recipe, typed by recipe language.",
+    mimeType: "text/plain",
+    policy: { tool: "recipe", action: "get" },
+    list: async (projectKey) => {
+      const recipes = await get<Array<{ name: string }>>(`${projectPath(projectKey)}/recipes/`);
+      return recipes.map((r) => ({
+        uri: resourceUri(projectKey, "recipe", r.name, "payload"),
+        name: `${projectKey}.${r.name} payload`,
+      }));
+    },
+    read: async ({ projectKey, recipeName }) => {
+      const full = await get<{ recipe?: { type?: string }; payload?: string }>(
+        `${projectPath(projectKey)}/recipes/${encodeURIComponent(recipeName)}`,
+      );
+      const type = (full.recipe?.type ?? "").toLowerCase();
+      return { text: full.payload ?? "", mimeType: PAYLOAD_MIME_TYPES[type] ?? "text/plain" };
+    },
+  },
+  {
+    name: "flow-map",
+    uriTemplate: "dss://{projectKey}/flow/map",
+    title: "Flow map",
+    description: "Normalized flow graph: nodes, edges, roots and leaves.",
+    mimeType: "application/json",
+    policy: { tool: "project", action: "map" },
+    list: async (projectKey) => [
+      { uri: resourceUri(projectKey, "flow", "map"), name: `${projectKey} flow map` },
+    ],
+    read: async ({ projectKey }) => json((await loadFlowMap(projectKey)).map),
+  },
+  {
+    name: "job-status",
+    uriTemplate: "dss://{projectKey}/job/{jobId}",
+    title: "Job status",
+    description: "State and activity counts of a job. Subscribe to follow it until it finishes.",
+    mimeType: "application/json",
+    policy: { tool: "job", action: "get" },
+    subscribable: true,
+    list: async (projectKey) =>
+      (await listJobs(projectKey)).map((job) => ({
+        uri: resourceUri(projectKey, "job", job.def.id),
+        name: `${job.def.id} [${job.state ?? "unknown"}]`,
+      })),
+    read: async ({ projectKey, jobId }) => {
+      const status = await readJobState(projectKey, jobId);
+      return { ...json(status), settled: status.normalizedState !== "nonTerminal" };
+    },
+  },
+  {
+    name: "job-log",
+    uriTemplate: "dss://{projectKey}/job/{jobId}/log",
+    title: "Job log",
+    description: "Full log of a job. Subscribe to be notified as it grows.",
+    mimeType: "text/plain",
+    policy: { tool: "job", action: "log" },
+    subscribable: true,
+    list: async (projectKey) =>
+      (await listJobs(projectKey)).map((job) => ({
+        uri: resourceUri(projectKey, "job", job.def.id, "log"),
+        name: `${job.def.id} log`,
+      })),
+    read: async ({ projectKey, jobId }) => {
+      const [text, status] = await Promise.all([
+        getText(`${projectPath(projectKey)}/jobs/${encodeURIComponent(jobId)}/log/`),
+        readJobState(projectKey, jobId),
+      ]);
+      return { text, mimeType: "text/plain", settled: status.normalizedState !== "nonTerminal" };
+    },
+  },
+  {
+    name: "scenario-run",
+    uriTemplate: "dss://{projectKey}/scenario/{scenarioId}/run",
+    title: "Scenario run",
+    description: "Running flag and last run outcome of a scenario. Subscribe to follow new runs.",
+    mimeType: "application/json",
+    policy: { tool: "scenario", action: "status" },
+    subscribable: true,
+    list: async (projectKey) => {
+      const scenarios = await get<Array<{ id: string; name?: string }>>(
+        `${projectPath(projectKey)}/scenarios/`,
+      );
+      return scenarios.map((s) => ({
+        uri: resourceUri(projectKey, "scenario", s.id, "run"),
+        name: `${s.name ?? s.id} run`,
+      }));
+    },
+    read: async ({ projectKey, scenarioId }) => {
+      const s = await get<{ running?: boolean; nextRun?: number; lastRun?: unknown }>(
+        `${projectPath(projectKey)}/scenarios/${encodeURIComponent(scenarioId)}/light/`,
+      );
+      return json({
+        scenarioId,
+        running: s.running ?? false,
+        nextRun: s.nextRun,
+        lastRun: s.lastRun ?? null,
+      });
+    },
+  },
+  {
+    name: "folder-contents",
+    uriTemplate: "dss://{projectKey}/folder/{folderId}/contents",
+    title: "Managed folder contents",
+    description: "Paths, sizes and modification times of the files in a managed folder.",
+    mimeType: "application/json",
+    policy: { tool: "managed_folder", action: "contents" },
+    list: async (projectKey) => {
+      const folders = await get<Array<{ id: string; name?: string }>>(
+        `${projectPath(projectKey)}/managedfolders/`,
+      );
+      return folders.map((f) => ({
+        uri: resourceUri(projectKey, "folder", f.id, "contents"),
+        name: `${f.name ?? f.id} contents`,
+      }));
+    },
+    read: async ({ projectKey, folderId }) => {
+      const contents = await get<{
+        items?: Array<{ path: string; size?: number; lastModified?: number }>;
+      }>(`${projectPath(projectKey)}/managedfolders/${encodeURIComponent(folderId)}/contents/`);
+      return json({
+        folderId,
+        items: (contents.items ?? []).map(({ path, size, lastModified }) => ({
+          path,
+          size,
+          lastModified,
+        })),
+      });
+    },
+  },
+  {
+    name: "code-env",
+    uriTemplate: "dss://code-env/{envLang}/{envName}",
+    title: "Code environment",
+    description: "Definition and installed packages of an instance-level code environment.",
+    mimeType: "application/json",
+    policy: { tool: "code_env", action: "get" },
+    list: async () => {
+      const envs = await get<Array<{ envName: string; envLang: string }>>(
+        "/public/api/admin/code-envs/",
+      );
+      return envs.map((env) => ({
+        uri: `dss://code-env/${encodeURIComponent(env.envLang)}/${encodeURIComponent(env.envName)}`,
+        name: `${env.envName} (${env.envLang})`,
+      }));
+    },
+    read: async ({ envLang, envName }) =>
+      json(
+        await get(
+          `/public/api/admin/code-envs/${encodeURIComponent(envLang)}/${encodeURIComponent(envName)}/`,
+        ),
+      ),
+  },
+];
+
+function isProjectScoped(resource: DssResource): boolean {
+  return resource.uriTemplate.includes("{projectKey}");
+}
+
+function readPollIntervalMs(): number {
+  const raw = process.env.DATAIKU_RESOURCE_POLL_MS?.trim();
+  const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_POLL_INTERVAL_MS;
+}
+
+function decodeVariables(variables: Record<string, string | string[]>): Variables {
+  const decoded: Variables = {};
+  for (const [key, value] of Object.entries(variables)) {
+    decoded[key] = decodeURIComponent(Array.isArray(value) ? (value[0] ?? "") : value);
+  }
+  return decoded;
+}
+
+function assertAllowed(resource: DssResource, projectKey: string | undefined): void {
+  const decision = evaluatePolicy({ ...resource.policy, projectKey });
+  if (!decision.allowed) {
+    const label = `${resource.policy.tool}.${resource.policy.action}`;
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Denied by policy rule ${decision.rule}: ${label} (${decision.message}).`,
+    );
+  }
+}
+
+function defaultProjectKey(): string | undefined {
+  try {
+    return getProjectKey();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Registers dss:// resource templates. Listing covers the default project;
+ * any project can be read by URI. Job and scenario-run resources accept
+ * subscriptions, which poll DSS and send notifications/resources/updated on change.
+ */
+export function registerResources(server: McpServer): void {
+  const inContext = <T>(operation: () => Promise<T>) =>
+    runWithSession(getServerSession(server), () => runWithInstance(undefined, operation));
+
+  const readSnapshot = (resource: DssResource, variables: Variables) =>
+    inContext(async () => {
+      assertAllowed(resource, variables.projectKey);
+      return resource.read(variables);
+    });
+
+  const templates = RESOURCES.map((resource) => {
+    const template = new ResourceTemplate(resource.uriTemplate, {
+      list: () =>
+        inContext(async () => {
+          const projectKey = isProjectScoped(resource) ? defaultProjectKey() : undefined;
+          if (isProjectScoped(resource) && !projectKey) return { resources: [] };
+          if (!evaluatePolicy({ ...resource.policy, projectKey }).allowed) {
+            return { resources: [] };
+          }
+          const listed = await resource.list(projectKey ?? "");
+          return { resources: listed.map((item) => ({ ...item, mimeType: resource.mimeType })) };
+        }),
+      complete: Object.fromEntries(
+        COMPLETION_KINDS.filter((kind) => resource.uriTemplate.includes(`{${kind}}`)).map(
+          (kind) => [kind, createCompleter(server, kind)],
+        ),
+      ),
+    });
+    server.registerResource(
+      resource.name,
+      template,
+      { title: resource.title, description: resource.description, mimeType: resource.mimeType },
+      async (uri, variables): Promise<ReadResourceResult> => {
+        const snapshot = await readSnapshot(resource, decodeVariables(variables));
+        return {
+          contents: [{ uri: uri.toString(), mimeType: snapshot.mimeType, text: snapshot.text }],
+        };
+      },
+    );
+    return { resource, template };
+  });
+
+  const watches = new Map<string, { timer?: NodeJS.Timeout }>();
+
+  const unwatch = (uri: string) => {
+    clearTimeout(watches.get(uri)?.timer);
+    watches.delete(uri);
+  };
+
+  const watch = (uri: string, resource: DssResource, variables: Variables) => {
+    const entry: { timer?: NodeJS.Timeout } = {};
+    watches.set(uri, entry);
+    let last: string | undefined;
+    const poll = async () => {
+      try {
+        const snapshot = await readSnapshot(resource, variables);
+        if (watches.get(uri) !== entry) return;
+        if (last !== undefined && snapshot.text !== last) {
+          await server.server.sendResourceUpdated({ uri });
+        }
+        last = snapshot.text;
+        if (snapshot.settled) {
+          watches.delete(uri);
+          return;
+        }
+      } catch (error) {
+        if (!server.isConnected()) {
+          unwatch(uri);
+          return;
+        }
+        const detail = error instanceof Error ? error.message : String(error);
+        console.error(`Resource subscription poll failed for ${uri}: ${detail}`);
+      }
+      if (watches.get(uri) !== entry) return;
+      entry.timer = setTimeout(poll, readPollIntervalMs());
+      entry.timer.unref();
+    };
+    void poll();
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    const match = templates
+      .filter(({ resource }) => resource.subscribable)
+      .map(({ resource, template }) => ({ resource, variables: template.uriTemplate.match(uri) }))
+      .find((candidate) => candidate.variables !== null);
+    if (!match?.variables) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Subscriptions are supported for job and scenario-run resources only: ${uri}`,
+      );
+    }
+    const variables = decodeVariables(match.variables);
+    assertAllowed(match.resource, variables.projectKey);
+    if (!watches.has(uri)) watch(uri, match.resource, variables);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unwatch(request.params.uri);
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    for (const uri of [...watches.keys()]) unwatch(uri);
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,56 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type SafetyMode = "readonly" | "dryrun" | "full";
+
+export type ActionAccess = "read" | "write" | "destructive";
+
+/**
+ * Access class computed from the call arguments (e.g. forced rebuilds). `returns`
+ * lists every class `resolve` can produce; the tool annotations are derived from it.
+ */
+export interface DynamicAccessRule {
+  returns: readonly ActionAccess[];
+  resolve: (args: Record<string, unknown>) => ActionAccess;
+}
+
+/** Static access class, or one computed from the call arguments. */
+export type ActionAccessRule = ActionAccess | DynamicAccessRule;
+
+export interface DryRunRequest {
+  instance: string;
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+export class DryRunIntercept extends Error {
+  constructor(public request: DryRunRequest) {
+    super(`Dry run: ${request.method} ${request.path} was not sent.`);
+    this.name = "DryRunIntercept";
+  }
+}
+
+const dryRunStore = new AsyncLocalStorage<{ enabled: true }>();
+
+const SAFETY_MODES: readonly SafetyMode[] = ["readonly", "dryrun", "full"];
+
+export function getSafetyMode(): SafetyMode {
+  const raw = process.env.DATAIKU_MODE?.trim().toLowerCase();
+  if (!raw) return "full";
+  if ((SAFETY_MODES as readonly string[]).includes(raw)) return raw as SafetyMode;
+  throw new Error(`Invalid DATAIKU_MODE "${raw}". Expected one of: ${SAFETY_MODES.join(", ")}.`);
+}
+
+export async function runWithDryRun<T>(enabled: boolean, operation: () => Promise<T>): Promise<T> {
+  if (!enabled) return operation();
+  return dryRunStore.run({ enabled: true }, operation);
+}
+
+export function isDryRun(): boolean {
+  return dryRunStore.getStore() !== undefined;
+}
+
+/** Called by every mutating client function right before the request would be sent. */
+export function interceptWrite(request: DryRunRequest): void {
+  if (dryRunStore.getStore()) throw new DryRunIntercept(request);
+}
@@ -1,5 +1,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { readFileSync } from "node:fs";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import { bindServerSession, type SessionContext } from "./session.js";
+import { register as registerAudit } from "./tools/audit.js";
 import { register as registerCodeEnvs } from "./tools/code-envs.js";
 import { register as registerConnections } from "./tools/connections.js";
 import { register as registerDatasets } from "./tools/datasets.js";
@@ -20,11 +24,16 @@ function resolveVersion(): string {
 	}
 }
 
-export function createServer() {
+export interface CreateServerOptions {
+	session?: SessionContext;
+}
+
+export function createServer(options: CreateServerOptions = {}) {
 	const server = new McpServer({
 		name: "dataiku",
 		version: resolveVersion(),
 	});
+	if (options.session) bindServerSession(server, options.session);
 
 	registerProjects(server);
 	registerDatasets(server);
@@ -35,6 +44,9 @@ export function createServer() {
 	registerFolders(server);
 	registerConnections(server);
 	registerCodeEnvs(server);
+	registerAudit(server);
+	registerResources(server);
+	registerPrompts(server);
 
 	return server;
 }
@@ -0,0 +1,71 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { isAbsolute, relative, resolve } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+export interface CachedGetResponse {
+  response: Response;
+  expiresAt: number;
+}
+
+export interface SessionContext {
+  id: string;
+  caller: string;
+  resolveApiKey: (instance: string) => string | undefined;
+  getCache: Map<string, CachedGetResponse>;
+}
+
+const sessionStore = new AsyncLocalStorage<SessionContext>();
+const serverSessions = new WeakMap<McpServer, SessionContext>();
+
+export function bindServerSession(server: McpServer, session: SessionContext): void {
+  serverSessions.set(server, session);
+}
+
+export function getServerSession(server: McpServer): SessionContext | undefined {
+  return serverSessions.get(server);
+}
+
+export function getActiveSession(): SessionContext | undefined {
+  return sessionStore.getStore();
+}
+
+export async function runWithSession<T>(
+  session: SessionContext | undefined,
+  operation: () => Promise<T>,
+): Promise<T> {
+  if (!session) return operation();
+  return sessionStore.run(session, operation);
+}
+
+export class LocalPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocalPathError";
+  }
+}
+
+/**
+ * Resolves a local file argument (`localPath`, `outputDir`, `outputPath`), or
+ * `fallback` when it is omitted. Outside a session the path is used as given
+ * and the fallback is taken relative to the working directory. Remote sessions run on someone else's
+ * host, so there paths must stay inside DATAIKU_HTTP_FILE_ROOT and are refused
+ * when it is not set.
+ */
+export function resolveLocalPath(path: string | undefined, fallback = "."): string {
+  if (!getActiveSession()) return path ?? resolve(fallback);
+  const root = process.env.DATAIKU_HTTP_FILE_ROOT?.trim();
+  if (!root) {
+    throw new LocalPathError(
+      "Local file paths are disabled over HTTP. Set DATAIKU_HTTP_FILE_ROOT to allow them inside that directory.",
+    );
+  }
+  const base = resolve(root);
+  const target = resolve(base, path ?? fallback);
+  const rel = relative(base, target);
+  if (rel.startsWith("..") || isAbsolute(rel)) {
+    throw new LocalPathError(
+      `Local path "${path ?? fallback}" is outside DATAIKU_HTTP_FILE_ROOT (${base}).`,
+    );
+  }
+  return target;
+}
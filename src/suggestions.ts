@@ -0,0 +1,96 @@
+import { getProjectKey } from "./client.js";
+import { COMPLETION_KINDS, type CompletionKind, listCompletionValues } from "./completions.js";
+
+const MAX_SUGGESTIONS = 5;
+
+export interface NotFoundSuggestion {
+  /** Tool argument whose value does not exist, e.g. "datasetName". */
+  argument: CompletionKind;
+  value: string;
+  suggestions: string[];
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Ranks candidates for a mistyped name: case-insensitive prefix matches first,
+ * then by edit distance. Candidates further than a third of the name's length
+ * (at least 2 edits) are dropped.
+ */
+export function rankSuggestions(candidates: string[], value: string): string[] {
+  const needle = value.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+  return candidates
+    .map((name) => {
+      const lower = name.toLowerCase();
+      return {
+        name,
+        prefix: lower.startsWith(needle) || needle.startsWith(lower),
+        distance: editDistance(lower, needle),
+      };
+    })
+    .filter((c) => c.prefix || c.distance <= maxDistance)
+    .sort(
+      (a, b) =>
+        Number(b.prefix) - Number(a.prefix) ||
+        a.distance - b.distance ||
+        a.name.localeCompare(b.name),
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map((c) => c.name);
+}
+
+function readName(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/**
+ * Works out which named argument of a failed call does not exist by checking
+ * the project first, then each object name against its listing. Returns close
+ * matches for the first missing one. Listing failures yield undefined; this
+ * only decorates an error that is already being returned.
+ */
+export async function suggestForNotFound(
+  args: Record<string, unknown>,
+): Promise<NotFoundSuggestion | undefined> {
+  const objectKinds = COMPLETION_KINDS.filter(
+    (kind) => kind !== "projectKey" && readName(args, kind) !== undefined,
+  );
+  let projectKey = readName(args, "projectKey");
+  if (!projectKey && objectKinds.some((kind) => kind !== "envName")) {
+    try {
+      projectKey = getProjectKey();
+    } catch {
+      projectKey = undefined;
+    }
+  }
+
+  const checks: Array<[CompletionKind, string]> = [];
+  if (projectKey) checks.push(["projectKey", projectKey]);
+  for (const kind of objectKinds) checks.push([kind, readName(args, kind) as string]);
+
+  for (const [kind, value] of checks) {
+    let names: string[];
+    try {
+      names = await listCompletionValues(kind, projectKey);
+    } catch {
+      return undefined;
+    }
+    // An empty listing (or one hidden by policy) cannot tell us what is missing.
+    if (names.length === 0 || names.includes(value)) continue;
+    return { argument: kind, value, suggestions: rankSuggestions(names, value) };
+  }
+  return undefined;
+}
@@ -2,6 +2,13 @@ import { z } from "zod";
 
 export const optionalProjectKey = z.string().optional();
 
+export const optionalInstance = z.string().optional();
+
+export const optionalConfirm = z.boolean().optional();
+
+/** A partition identifier, a comma-separated list, or a `start/end` range. */
+export const optionalPartition = z.string().min(1).optional();
+
 export const paginationFields = {
   limit: z.number().int().min(1).optional(),
   offset: z.number().int().min(0).optional(),
@@ -0,0 +1,367 @@
+/**
+ * Streaming Arrow IPC file writer for typed exports. FlatBuffers metadata is
+ * built by hand for the few tables the format needs (Message, Schema, Field,
+ * RecordBatch, Footer); each batch of rows becomes one record batch.
+ */
+
+import {
+  type CellValue,
+  type ColumnKind,
+  type ExportStats,
+  type TypedColumn,
+  TypedRowEncoder,
+} from "./export-formats.js";
+
+type FbScalar = { kind: "u8" | "bool" | "i16" | "i32" | "i64"; value: number | bigint };
+type FbNode =
+  | { kind: "table"; fields: Array<FbScalar | FbNode | undefined> }
+  | { kind: "string"; value: string }
+  | { kind: "tables"; items: FbNode[] }
+  | { kind: "structs"; bytes: Buffer; count: number };
+
+const SCALAR_SIZES: Record<FbScalar["kind"], number> = { u8: 1, bool: 1, i16: 2, i32: 4, i64: 8 };
+
+const fb = {
+  u8: (value: number): FbScalar => ({ kind: "u8", value }),
+  bool: (value: boolean): FbScalar => ({ kind: "bool", value: value ? 1 : 0 }),
+  i16: (value: number): FbScalar => ({ kind: "i16", value }),
+  i32: (value: number): FbScalar => ({ kind: "i32", value }),
+  i64: (value: number | bigint): FbScalar => ({ kind: "i64", value }),
+  table: (fields: Array<FbScalar | FbNode | undefined>): FbNode => ({ kind: "table", fields }),
+  string: (value: string): FbNode => ({ kind: "string", value }),
+  tables: (items: FbNode[]): FbNode => ({ kind: "tables", items }),
+  structs: (bytes: Buffer, count: number): FbNode => ({ kind: "structs", bytes, count }),
+};
+
+const isScalar = (value: FbScalar | FbNode): value is FbScalar => value.kind in SCALAR_SIZES;
+
+/**
+ * Serializes a FlatBuffers object tree front to back: each object is written
+ * before its children, so every offset points forward as the format requires.
+ */
+class FlatBufferBuilder {
+  private buffer = Buffer.alloc(256);
+  private length = 0;
+
+  private reserve(bytes: number): number {
+    while (this.length + bytes > this.buffer.length) {
+      const grown = Buffer.alloc(this.buffer.length * 2);
+      this.buffer.copy(grown);
+      this.buffer = grown;
+    }
+    const at = this.length;
+    this.length += bytes;
+    return at;
+  }
+
+  private align(alignment: number, offset = 0): void {
+    while ((this.length + offset) % alignment !== 0) this.buffer[this.reserve(1)] = 0;
+  }
+
+  private patchOffset(at: number, target: number): void {
+    this.buffer.writeUInt32LE(target - at, at);
+  }
+
+  private scalar(at: number, value: FbScalar): void {
+    switch (value.kind) {
+      case "u8":
+      case "bool":
+        this.buffer.writeUInt8(Number(value.value), at);
+        return;
+      case "i16":
+        this.buffer.writeInt16LE(Number(value.value), at);
+        return;
+      case "i32":
+        this.buffer.writeInt32LE(Number(value.value), at);
+        return;
+      case "i64":
+        this.buffer.writeBigInt64LE(BigInt(value.value), at);
+    }
+  }
+
+  private node(node: FbNode): number {
+    switch (node.kind) {
+      case "string": {
+        const data = Buffer.from(node.value, "utf-8");
+        this.align(4);
+        const at = this.reserve(4 + data.length + 1);
+        this.buffer.writeUInt32LE(data.length, at);
+        data.copy(this.buffer, at + 4);
+        this.buffer[at + 4 + data.length] = 0;
+        return at;
+      }
+      case "structs": {
+        // Struct elements are 8-byte aligned and follow the 4-byte length.
+        this.align(8, 4);
+        const at = this.reserve(4 + node.bytes.length);
+        this.buffer.writeUInt32LE(node.count, at);
+        node.bytes.copy(this.buffer, at + 4);
+        return at;
+      }
+      case "tables": {
+        this.align(4);
+        const at = this.reserve(4 + node.items.length * 4);
+        this.buffer.writeUInt32LE(node.items.length, at);
+        node.items.forEach((item, i) => {
+          this.patchOffset(at + 4 + i * 4, this.node(item));
+        });
+        return at;
+      }
+      case "table":
+        return this.table(node.fields);
+    }
+  }
+
+  private table(fields: Array<FbScalar | FbNode | undefined>): number {
+    const present = fields
+      .map((value, id) => ({ id, value }))
+      .filter((f): f is { id: number; value: FbScalar | FbNode } => f.value !== undefined)
+      .map((f) => ({ ...f, size: isScalar(f.value) ? SCALAR_SIZES[f.value.kind] : 4 }))
+      .sort((a, b) => b.size - a.size);
+    const layout = new Map<number, number>();
+    let inline = 4;
+    for (const field of present) {
+      inline = Math.ceil(inline / field.size) * field.size;
+      layout.set(field.id, inline);
+      inline += field.size;
+    }
+    const slots = present.length === 0 ? 0 : Math.max(...present.map((f) => f.id)) + 1;
+
+    this.align(2);
+    const vtable = this.reserve(4 + slots * 2);
+    this.buffer.writeUInt16LE(4 + slots * 2, vtable);
+    this.buffer.writeUInt16LE(inline, vtable + 2);
+    for (let id = 0; id < slots; id++) {
+      this.buffer.writeUInt16LE(layout.get(id) ?? 0, vtable + 4 + id * 2);
+    }
+
+    this.align(8);
+    const table = this.reserve(inline);
+    this.buffer.fill(0, table, table + inline);
+    this.buffer.writeInt32LE(table - vtable, table);
+    const children: Array<{ at: number; node: FbNode }> = [];
+    for (const field of present) {
+      const at = table + (layout.get(field.id) as number);
+      if (isScalar(field.value)) this.scalar(at, field.value);
+      else children.push({ at, node: field.value });
+    }
+    for (const child of children) this.patchOffset(child.at, this.node(child.node));
+    return table;
+  }
+
+  finish(root: FbNode): Buffer {
+    this.length = 0;
+    const at = this.reserve(4);
+    this.align(8);
+    this.patchOffset(at, this.node(root));
+    return Buffer.from(this.buffer.subarray(0, this.length));
+  }
+}
+
+const METADATA_V5 = 4;
+const HEADER_SCHEMA = 1;
+const HEADER_RECORD_BATCH = 3;
+const FILE_MAGIC = Buffer.from("ARROW1");
+const CONTINUATION = 0xffffffff;
+
+function arrowType(kind: ColumnKind): { typeId: number; table: FbNode } {
+  const int = (bitWidth: number) => ({
+    typeId: 2,
+    table: fb.table([fb.i32(bitWidth), fb.bool(true)]),
+  });
+  switch (kind) {
+    case "boolean":
+      return { typeId: 6, table: fb.table([]) };
+    case "int8":
+      return int(8);
+    case "int16":
+      return int(16);
+    case "int32":
+      return int(32);
+    case "int64":
+      return int(64);
+    case "float":
+      return { typeId: 3, table: fb.table([fb.i16(1)]) };
+    case "double":
+      return { typeId: 3, table: fb.table([fb.i16(2)]) };
+    case "timestamp":
+      return { typeId: 10, table: fb.table([fb.i16(1), fb.string("UTC")]) };
+    case "localTimestamp":
+      return { typeId: 10, table: fb.table([fb.i16(1)]) };
+    case "date":
+      return { typeId: 8, table: fb.table([fb.i16(0)]) };
+    case "string":
+      return { typeId: 5, table: fb.table([]) };
+  }
+}
+
+function schemaTable(columns: TypedColumn[]): FbNode {
+  return fb.table([
+    fb.i16(0),
+    fb.tables(
+      columns.map((column) => {
+        const { typeId, table } = arrowType(column.kind);
+        return fb.table([
+          fb.string(column.name),
+          fb.bool(true),
+          fb.u8(typeId),
+          table,
+          undefined,
+          fb.tables([]),
+        ]);
+      }),
+    ),
+  ]);
+}
+
+const pad8 = (n: number) => Math.ceil(n / 8) * 8;
+
+function bitmap(bits: boolean[]): Buffer {
+  const out = Buffer.alloc(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    if (bit) out[i >> 3] |= 1 << (i & 7);
+  });
+  return out;
+}
+
+const FIXED_WIDTHS: Partial<Record<ColumnKind, number>> = {
+  int8: 1,
+  int16: 2,
+  int32: 4,
+  date: 4,
+  int64: 8,
+  timestamp: 8,
+  localTimestamp: 8,
+  float: 4,
+  double: 8,
+};
+
+function columnBuffers(kind: ColumnKind, values: CellValue[]): Buffer[] {
+  const validity = bitmap(values.map((v) => v !== null));
+  if (kind === "boolean") return [validity, bitmap(values.map((v) => v === true))];
+  if (kind === "string") {
+    const offsets = Buffer.alloc((values.length + 1) * 4);
+    const parts: Buffer[] = [];
+    let end = 0;
+    values.forEach((v, i) => {
+      if (v !== null) {
+        const data = Buffer.from(String(v), "utf-8");
+        parts.push(data);
+        end += data.length;
+      }
+      offsets.writeInt32LE(end, (i + 1) * 4);
+    });
+    return [validity, offsets, Buffer.concat(parts)];
+  }
+  const width = FIXED_WIDTHS[kind] as number;
+  const data = Buffer.alloc(values.length * width);
+  values.forEach((v, i) => {
+    if (v === null) return;
+    const at = i * width;
+    if (kind === "int8") data.writeInt8(v as number, at);
+    else if (kind === "int16") data.writeInt16LE(v as number, at);
+    else if (kind === "int32" || kind === "date") data.writeInt32LE(v as number, at);
+    else if (kind === "float") data.writeFloatLE(v as number, at);
+    else if (kind === "double") data.writeDoubleLE(v as number, at);
+    else data.writeBigInt64LE(BigInt(v as number | bigint), at);
+  });
+  return [validity, data];
+}
+
+export class ArrowEncoder extends TypedRowEncoder {
+  private offset = 0;
+  private readonly blocks: Array<{ offset: number; metaDataLength: number; bodyLength: number }> =
+    [];
+
+  constructor(
+    schema: Array<{ name: string; type: string }>,
+    stats: ExportStats,
+    rowsPerBatch = 10_000,
+  ) {
+    super(schema, stats, rowsPerBatch);
+  }
+
+  private output(chunk: Buffer): void {
+    this.push(chunk);
+    this.offset += chunk.length;
+  }
+
+  /** Writes an encapsulated IPC message: continuation marker, length, padded metadata, body. */
+  private message(headerType: number, header: FbNode, body: Buffer[], bodyLength: number): void {
+    const metadata = new FlatBufferBuilder().finish(
+      fb.table([fb.i16(METADATA_V5), fb.u8(headerType), header, fb.i64(bodyLength)]),
+    );
+    const padded = pad8(metadata.length + 8) - 8;
+    const prefix = Buffer.alloc(8);
+    prefix.writeUInt32LE(CONTINUATION, 0);
+    prefix.writeInt32LE(padded, 4);
+    const start = this.offset;
+    this.output(Buffer.concat([prefix, metadata, Buffer.alloc(padded - metadata.length)]));
+    for (const part of body) this.output(part);
+    if (headerType === HEADER_RECORD_BATCH) {
+      this.blocks.push({ offset: start, metaDataLength: padded + 8, bodyLength });
+    }
+  }
+
+  protected start(columns: TypedColumn[]): void {
+    this.output(Buffer.concat([FILE_MAGIC, Buffer.alloc(2)]));
+    this.message(HEADER_SCHEMA, schemaTable(columns), [], 0);
+  }
+
+  protected writeBatch(rows: CellValue[][]): void {
+    const columns = this.columns as TypedColumn[];
+    const nodes = Buffer.alloc(columns.length * 16);
+    const buffers: Array<{ offset: number; length: number }> = [];
+    const body: Buffer[] = [];
+    let bodyLength = 0;
+    columns.forEach((column, c) => {
+      const values = rows.map((row) => row[c]);
+      nodes.writeBigInt64LE(BigInt(values.length), c * 16);
+      nodes.writeBigInt64LE(BigInt(values.filter((v) => v === null).length), c * 16 + 8);
+      for (const buffer of columnBuffers(column.kind, values)) {
+        buffers.push({ offset: bodyLength, length: buffer.length });
+        body.push(buffer, Buffer.alloc(pad8(buffer.length) - buffer.length));
+        bodyLength += pad8(buffer.length);
+      }
+    });
+    const bufferStructs = Buffer.alloc(buffers.length * 16);
+    buffers.forEach((buffer, i) => {
+      bufferStructs.writeBigInt64LE(BigInt(buffer.offset), i * 16);
+      bufferStructs.writeBigInt64LE(BigInt(buffer.length), i * 16 + 8);
+    });
+    this.message(
+      HEADER_RECORD_BATCH,
+      fb.table([
+        fb.i64(rows.length),
+        fb.structs(nodes, columns.length),
+        fb.structs(bufferStructs, buffers.length),
+      ]),
+      body,
+      bodyLength,
+    );
+  }
+
+  protected finish(): void {
+    const columns = this.columns as TypedColumn[];
+    const end = Buffer.alloc(8);
+    end.writeUInt32LE(CONTINUATION, 0);
+    this.output(end);
+    const blocks = Buffer.alloc(this.blocks.length * 24);
+    this.blocks.forEach((block, i) => {
+      blocks.writeBigInt64LE(BigInt(block.offset), i * 24);
+      blocks.writeInt32LE(block.metaDataLength, i * 24 + 8);
+      blocks.writeBigInt64LE(BigInt(block.bodyLength), i * 24 + 16);
+    });
+    const footer = new FlatBufferBuilder().finish(
+      fb.table([
+        fb.i16(METADATA_V5),
+        schemaTable(columns),
+        fb.structs(Buffer.alloc(0), 0),
+        fb.structs(blocks, this.blocks.length),
+      ]),
+    );
+    const length = Buffer.alloc(4);
+    length.writeInt32LE(footer.length);
+    this.output(Buffer.concat([footer, length, FILE_MAGIC]));
+  }
+}
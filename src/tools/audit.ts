@@ -0,0 +1,129 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { type AuditEntry, getAuditLogPath, readAuditEntries } from "../audit.js";
+import { normalizeInstanceName } from "../instances.js";
+import { evaluatePolicy } from "../policy.js";
+import { getActiveSession } from "../session.js";
+import { actionInput, actionSchema, optionalInstance, paginationFields } from "./action-schema.js";
+import { emptyListText, filterByQuery, formatBulletText, paginateItems } from "./list-format.js";
+import { registerTool } from "./register-tool.js";
+
+const auditInputSchema = actionSchema([
+  actionInput("list", {
+    projectKey: z.string().optional(),
+    instance: optionalInstance,
+    tool: z.string().optional(),
+    toolAction: z.string().optional(),
+    since: z.string().optional(),
+    until: z.string().optional(),
+    failedOnly: z.boolean().optional(),
+    ...paginationFields,
+  }),
+]);
+
+function parseTimeBound(value: string | undefined): number | undefined | null {
+  if (value === undefined) return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const label = entry.tool ? `${entry.tool}${entry.action ? `.${entry.action}` : ""}` : "(direct)";
+  return `${entry.timestamp} ${label} ${entry.projectKey ?? "-"} ${entry.method} ${entry.path} → ${entry.status} (${entry.durationMs}ms)`;
+}
+
+export function register(server: McpServer) {
+  registerTool(
+    server,
+    "audit",
+    {
+      description:
+        "Audit log of mutating DSS calls made by this server: list newest-first, filter by projectKey/tool/toolAction/since/until.",
+      inputSchema: auditInputSchema,
+      actions: { list: "read" },
+    },
+    async ({
+      projectKey,
+      instance,
+      tool,
+      toolAction,
+      since,
+      until,
+      failedOnly,
+      limit,
+      offset,
+      query,
+    }) => {
+      const logPath = getAuditLogPath();
+      if (!logPath) {
+        return {
+          content: [{ type: "text", text: "Audit log is disabled (DATAIKU_AUDIT_LOG=off)." }],
+          structuredContent: { ok: true, enabled: false, items: [] },
+        };
+      }
+
+      const sinceMs = parseTimeBound(since);
+      const untilMs = parseTimeBound(until);
+      if (sinceMs === null || untilMs === null) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: since/until must be ISO dates or timestamps (e.g. 2024-05-01 or 2024-05-01T09:00:00Z).",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // The log is shared: HTTP callers only see their own calls, and nobody sees
+      // projects the policy keeps them out of.
+      const session = getActiveSession();
+      const entries = (await readAuditEntries()).reverse().filter((entry) => {
+        if (session && entry.caller !== session.caller) return false;
+        if (!entry.projectKey) return true;
+        return evaluatePolicy({ tool: "audit", action: "list", projectKey: entry.projectKey })
+          .allowed;
+      });
+      const instanceName = instance ? normalizeInstanceName(instance) : undefined;
+      const matching = entries.filter((entry) => {
+        const at = Date.parse(entry.timestamp);
+        if (projectKey && entry.projectKey !== projectKey) return false;
+        if (instanceName && entry.instance !== instanceName) return false;
+        if (tool && entry.tool !== tool) return false;
+        if (toolAction && entry.action !== toolAction) return false;
+        if (sinceMs !== undefined && at < sinceMs) return false;
+        if (untilMs !== undefined && at > untilMs) return false;
+        if (failedOnly && entry.outcome === "success") return false;
+        return true;
+      });
+      const filtered = filterByQuery(matching, query, (entry) => [entry.path, entry.caller]);
+      const {
+        items: page,
+        offset: pageOffset,
+        limit: pageLimit,
+        hasMore,
+      } = paginateItems(filtered, limit, offset, 50);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatBulletText(page.map(formatEntry), emptyListText("audit entries")),
+          },
+        ],
+        structuredContent: {
+          ok: true,
+          enabled: true,
+          logPath,
+          total: entries.length,
+          filtered: filtered.length,
+          offset: pageOffset,
+          limit: pageLimit,
+          hasMore,
+          items: page,
+        },
+      };
+    },
+  );
+}
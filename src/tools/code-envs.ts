@@ -1,7 +1,7 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { get } from "../client.js";
-import { actionInput, actionSchema, paginationFields } from "./action-schema.js";
+import { actionInput, actionSchema, optionalInstance, paginationFields } from "./action-schema.js";
 import { registerTool } from "./register-tool.js";
 import { emptyListText, filterByQuery, formatBulletText, paginateItems } from "./list-format.js";
 
@@ -16,10 +16,12 @@ const codeEnvLangSchema = z.enum(["PYTHON", "R"]);
 
 const codeEnvInputSchema = actionSchema([
   actionInput("list", {
+    instance: optionalInstance,
     envLang: codeEnvLangSchema.optional(),
     ...paginationFields,
   }),
   actionInput("get", {
+    instance: optionalInstance,
     envLang: codeEnvLangSchema,
     envName: z.string().min(1),
     full: z.boolean().optional(),
@@ -35,6 +37,7 @@ export function register(server: McpServer) {
       description:
         "Code env ops: list/get. get returns package summaries; set full=true for full package lists.",
       inputSchema: codeEnvInputSchema,
+      actions: { list: "read", get: "read" },
     },
     async ({ action, envLang, envName, full, limit, offset, query, maxPackages }) => {
       if (action === "list") {
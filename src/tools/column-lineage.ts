@@ -0,0 +1,746 @@
+/**
+ * Column-level lineage. Visual recipe settings (prepare steps, group and window
+ * aggregations, join column selection, computed columns) are turned into a
+ * mapping from each output column to the input columns it is computed from;
+ * the flow map then links those mappings across recipes. SQL and code recipes
+ * cannot be parsed this way and are reported as opaque.
+ */
+
+import type { NormalizedFlowMap } from "./flow-map.js";
+import { referencedColumns } from "./schema-edit.js";
+
+export interface ColumnRef {
+  dataset: string;
+  column: string;
+}
+
+export interface ColumnMapping extends ColumnRef {
+  sources: ColumnRef[];
+  /** How the sources become this column, e.g. `identity`, `renamed from cust → formula`, `sum`. */
+  transform: string;
+}
+
+/** An input column the recipe reads without passing it on: join keys, filters, window ordering. */
+export interface ColumnCondition extends ColumnRef {
+  role: string;
+}
+
+export interface RecipeLineage {
+  recipe: string;
+  type: string;
+  opaque: boolean;
+  reason?: string;
+  outputs: ColumnMapping[];
+  conditions: ColumnCondition[];
+  warnings: string[];
+}
+
+export interface RecipeSource {
+  name: string;
+  recipe: Record<string, unknown>;
+  payload?: string;
+  /** Column names of the input and output datasets, where known. */
+  schemas: Map<string, string[]>;
+}
+
+const SQL_RECIPE_TYPES = new Set(["sql_query", "sql_script", "hive", "impala", "sparksql_query"]);
+const CODE_RECIPE_TYPES = new Set([
+  "python",
+  "r",
+  "pyspark",
+  "spark_scala",
+  "sparkr",
+  "shell",
+  "julia",
+]);
+/** Visual recipes that keep rows' columns as they are. */
+const PASS_THROUGH_TYPES = new Set([
+  "sync",
+  "sort",
+  "sampling",
+  "split",
+  "distinct",
+  "topn",
+  "vstack",
+]);
+
+/** Aggregation flags of group/window `values` entries and the suffix DSS gives their column. */
+const AGGREGATE_SUFFIXES: Record<string, string> = {
+  count: "count",
+  countDistinct: "distinct",
+  min: "min",
+  max: "max",
+  avg: "avg",
+  sum: "sum",
+  stddev: "stddev",
+  first: "first",
+  last: "last",
+  concat: "concat",
+  concatDistinct: "concat_distinct",
+  lag: "lag",
+  lead: "lead",
+  lagDiff: "lagdiff",
+  leadDiff: "leaddiff",
+};
+
+const ROW_FILTER_ACTIONS = new Set(["REMOVE_ROW", "KEEP_ROW"]);
+
+interface Traced {
+  sources: ColumnRef[];
+  transforms: string[];
+}
+
+type ColumnState = Map<string, Traced>;
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function strings(value: unknown): string[] {
+  return asArray(value).filter((item): item is string => typeof item === "string");
+}
+
+/** Dataset refs of a recipe role map (`{main: {items: [{ref}]}}`), main role first. */
+export function roleRefs(roles: unknown): string[] {
+  const record = asRecord(roles) ?? {};
+  const names = Object.keys(record).sort((a, b) => (a === "main" ? -1 : b === "main" ? 1 : 0));
+  return names.flatMap((role) =>
+    asArray(asRecord(record[role])?.items)
+      .map((item) => asString(asRecord(item)?.ref))
+      .filter((ref): ref is string => ref !== undefined),
+  );
+}
+
+function sameRef(a: ColumnRef, b: ColumnRef): boolean {
+  return a.dataset === b.dataset && a.column === b.column;
+}
+
+function uniqueRefs(refs: ColumnRef[]): ColumnRef[] {
+  return refs.filter((ref, i) => refs.findIndex((other) => sameRef(ref, other)) === i);
+}
+
+function fromInput(dataset: string, columns: string[]): ColumnState {
+  return new Map(
+    columns.map((column) => [column, { sources: [{ dataset, column }], transforms: [] }]),
+  );
+}
+
+/** A column computed from `names` of `state`. */
+function derive(state: ColumnState, names: string[], transform: string): Traced {
+  const sources = names.flatMap((name) => state.get(name)?.sources ?? []);
+  return { sources: uniqueRefs(sources), transforms: [transform] };
+}
+
+function withTransform(traced: Traced, transform: string): Traced {
+  return { sources: traced.sources, transforms: [...traced.transforms, transform] };
+}
+
+function rename(state: ColumnState, from: string, to: string): ColumnState {
+  const traced = state.get(from);
+  if (!traced || from === to) return state;
+  return new Map(
+    [...state]
+      .filter(([name]) => name !== to)
+      .map(([name, value]) =>
+        name === from ? [to, withTransform(value, `renamed from ${from}`)] : [name, value],
+      ),
+  );
+}
+
+class LineageBuilder {
+  readonly outputs: ColumnMapping[] = [];
+  readonly conditions: ColumnCondition[] = [];
+  readonly warnings: string[] = [];
+
+  constructor(private readonly source: RecipeSource) {}
+
+  input(dataset: string | undefined): ColumnState {
+    if (!dataset) return new Map();
+    const columns = this.source.schemas.get(dataset);
+    if (!columns) this.warnings.push(`schema of "${dataset}" is unknown.`);
+    return fromInput(dataset, columns ?? []);
+  }
+
+  condition(state: ColumnState, names: string[], role: string) {
+    for (const name of names) {
+      for (const ref of state.get(name)?.sources ?? []) {
+        if (!this.conditions.some((c) => sameRef(c, ref) && c.role === role)) {
+          this.conditions.push({ ...ref, role });
+        }
+      }
+    }
+  }
+
+  /** A `{enabled, expression}` pre/post filter: the columns it mentions are conditions. */
+  filter(state: ColumnState, filter: unknown, role: string) {
+    const record = asRecord(filter);
+    const expression = asString(record?.expression);
+    if (!record || record.enabled === false || !expression) return;
+    this.condition(state, referencedColumns(expression, [...state.keys()]), role);
+  }
+
+  computed(state: ColumnState, list: unknown) {
+    for (const item of asArray(list)) {
+      const record = asRecord(item);
+      const name = asString(record?.name);
+      if (!record || !name) continue;
+      const expression = asString(record.expr) ?? asString(record.expression) ?? "";
+      const mode = asString(record.mode) ?? "GREL";
+      state.set(
+        name,
+        derive(state, referencedColumns(expression, [...state.keys()]), `computed (${mode})`),
+      );
+    }
+  }
+
+  /** Maps every column of `dataset` (its schema, else what the settings produce) to `state`. */
+  emit(dataset: string, state: ColumnState) {
+    const columns = this.source.schemas.get(dataset) ?? [...state.keys()];
+    for (const column of columns) {
+      const traced = state.get(column);
+      if (!traced) {
+        this.warnings.push(`could not trace "${dataset}.${column}" through the recipe settings.`);
+        this.outputs.push({ dataset, column, sources: [], transform: "untraced" });
+        continue;
+      }
+      this.outputs.push({
+        dataset,
+        column,
+        sources: traced.sources,
+        transform: traced.transforms.join(" → ") || "identity",
+      });
+    }
+  }
+}
+
+function parsePayload(payload: string | undefined): Record<string, unknown> | undefined {
+  if (!payload?.trim()) return {};
+  try {
+    return asRecord(JSON.parse(payload));
+  } catch {
+    return undefined;
+  }
+}
+
+function columnsOf(params: Record<string, unknown>): string[] {
+  const listed = strings(params.columns);
+  if (listed.length > 0) return listed;
+  return [asString(params.column), asString(params.inputColumn)].filter(
+    (name): name is string => name !== undefined,
+  );
+}
+
+function prepareSteps(steps: unknown): Record<string, unknown>[] {
+  return asArray(steps).flatMap((item) => {
+    const step = asRecord(item);
+    if (!step || step.disabled === true) return [];
+    if (step.metaType === "GROUP") return prepareSteps(step.steps);
+    return [step];
+  });
+}
+
+function tracePrepare(b: LineageBuilder, inputs: string[], payload: Record<string, unknown>) {
+  let state = b.input(inputs[0]);
+  for (const step of prepareSteps(payload.steps)) {
+    const type = asString(step.type) ?? "unknown";
+    const params = asRecord(step.params) ?? {};
+    switch (type) {
+      case "ColumnRenamer":
+        for (const item of asArray(params.renamings)) {
+          const from = asString(asRecord(item)?.from);
+          const to = asString(asRecord(item)?.to);
+          if (from && to) state = rename(state, from, to);
+        }
+        break;
+      case "ColumnsSelector": {
+        const listed = new Set(columnsOf(params));
+        state = new Map([...state].filter(([name]) => listed.has(name) === (params.keep === true)));
+        break;
+      }
+      case "CreateColumnWithGREL": {
+        const column = asString(params.column);
+        const expression = asString(params.expression) ?? "";
+        if (column) {
+          state.set(
+            column,
+            derive(state, referencedColumns(expression, [...state.keys()]), "formula"),
+          );
+        }
+        break;
+      }
+      case "ColumnCopier": {
+        const from = asString(params.inputColumn);
+        const to = asString(params.outputColumn);
+        const traced = from ? state.get(from) : undefined;
+        if (to && traced) state.set(to, withTransform(traced, `copy of ${from}`));
+        break;
+      }
+      default: {
+        const read = columnsOf(params).filter((name) => state.has(name));
+        if (ROW_FILTER_ACTIONS.has(asString(params.action) ?? "")) {
+          b.condition(state, read, `filter (${type})`);
+          break;
+        }
+        const written = [asString(params.outputColumn), asString(params.outColumn)].filter(
+          (name): name is string => name !== undefined,
+        );
+        if (written.length > 0) {
+          const traced = derive(state, read, type);
+          for (const name of written) state.set(name, traced);
+        } else {
+          // Processors without an output column change their input columns in place.
+          for (const name of read) state.set(name, withTransform(state.get(name) as Traced, type));
+        }
+      }
+    }
+  }
+  return state;
+}
+
+/** Adds `<column>_<suffix>` outputs for each aggregation flag set on a `values` entry. */
+function aggregate(state: ColumnState, values: unknown, out: ColumnState, schema?: string[]) {
+  const aggregated: string[] = [];
+  for (const item of asArray(values)) {
+    const value = asRecord(item);
+    const column = asString(value?.column);
+    if (!value || !column || !state.has(column)) continue;
+    aggregated.push(column);
+    for (const [flag, suffix] of Object.entries(AGGREGATE_SUFFIXES)) {
+      if (value[flag] === true) out.set(`${column}_${suffix}`, derive(state, [column], flag));
+    }
+  }
+  // Output columns named after an aggregated column cover aggregations not in the table above.
+  for (const name of schema ?? []) {
+    if (out.has(name)) continue;
+    const column = aggregated
+      .filter((candidate) => name.startsWith(`${candidate}_`))
+      .sort((a, b) => b.length - a.length)[0];
+    if (column) out.set(name, derive(state, [column], "aggregate"));
+  }
+}
+
+function traceGrouping(
+  b: LineageBuilder,
+  inputs: string[],
+  payload: Record<string, unknown>,
+  schema?: string[],
+) {
+  const state = b.input(inputs[0]);
+  b.computed(state, payload.computedColumns);
+  b.filter(state, payload.preFilter, "filter");
+  const out: ColumnState = new Map();
+  for (const item of asArray(payload.keys)) {
+    const column = asString(asRecord(item)?.column);
+    const traced = column ? state.get(column) : undefined;
+    if (column && traced) out.set(column, withTransform(traced, "group key"));
+  }
+  aggregate(state, payload.values, out, schema);
+  if (payload.globalCount === true) out.set("count", { sources: [], transforms: ["row count"] });
+  return out;
+}
+
+function traceWindow(
+  b: LineageBuilder,
+  inputs: string[],
+  payload: Record<string, unknown>,
+  schema?: string[],
+) {
+  const state = b.input(inputs[0]);
+  b.computed(state, payload.computedColumns);
+  b.filter(state, payload.preFilter, "filter");
+  const out: ColumnState = new Map(state);
+  for (const item of asArray(payload.windows)) {
+    const window = asRecord(item) ?? {};
+    const orders = asArray(window.orders)
+      .map((order) => asString(asRecord(order)?.column))
+      .filter((name): name is string => name !== undefined);
+    b.condition(state, strings(window.partitioningColumns), "window partition");
+    b.condition(state, orders, "window order");
+    const ranks = {
+      enableRank: "rank",
+      enableDenseRank: "dense_rank",
+      enableRowNumber: "rownumber",
+    };
+    for (const [flag, name] of Object.entries(ranks)) {
+      if (window[flag] === true) out.set(name, derive(state, orders, name));
+    }
+  }
+  aggregate(state, payload.values, out, schema);
+  return out;
+}
+
+function traceJoin(b: LineageBuilder, inputs: string[], payload: Record<string, unknown>) {
+  const virtual = asArray(payload.virtualInputs).map((item) => asRecord(item) ?? {});
+  const sides: Record<string, unknown>[] = virtual.length > 0 ? virtual : inputs.map(() => ({}));
+  const tables = sides.map((vi, i) => {
+    const index = typeof vi.index === "number" ? vi.index : i;
+    const state = b.input(inputs[index]);
+    b.computed(state, vi.computedColumns);
+    b.filter(state, vi.preFilter, "filter");
+    return state;
+  });
+
+  for (const join of asArray(payload.joins)) {
+    for (const on of asArray(asRecord(join)?.on)) {
+      for (const side of [asRecord(on)?.column1, asRecord(on)?.column2]) {
+        const record = asRecord(side);
+        const name = asString(record?.name);
+        const table = tables[typeof record?.table === "number" ? record.table : -1];
+        if (name && table) b.condition(table, [name], "join key");
+      }
+    }
+  }
+
+  const out: ColumnState = new Map();
+  const outputName = (table: number, name: string, alias?: string) => {
+    const prefix = asString(virtual[table]?.prefix);
+    return alias ?? (prefix ? `${prefix}_${name}` : name);
+  };
+  const selected = asArray(payload.selectedColumns).map((item) => asRecord(item) ?? {});
+  if (selected.length > 0) {
+    for (const column of selected) {
+      const table = typeof column.table === "number" ? column.table : 0;
+      const name = asString(column.name);
+      const traced = name ? tables[table]?.get(name) : undefined;
+      if (!name || !traced) continue;
+      const as = outputName(table, name, asString(column.alias));
+      out.set(as, withTransform(traced, as === name ? "join" : `join (as ${as})`));
+    }
+  } else {
+    tables.forEach((state, table) => {
+      if (virtual[table]?.outputColumnsSelectionMode === "MANUAL") return;
+      for (const [name, traced] of state) {
+        const as = outputName(table, name);
+        if (!out.has(as)) out.set(as, withTransform(traced, "join"));
+      }
+    });
+  }
+  b.computed(out, payload.computedColumns);
+  b.filter(out, payload.postFilter, "post-join filter");
+  return out;
+}
+
+function passThrough(b: LineageBuilder, inputs: string[], output: string) {
+  const states = inputs.map((input) => b.input(input));
+  const out: ColumnState = new Map();
+  for (const state of states) {
+    for (const [name, traced] of state) {
+      const existing = out.get(name);
+      out.set(name, {
+        sources: uniqueRefs([...(existing?.sources ?? []), ...traced.sources]),
+        transforms: [],
+      });
+    }
+  }
+  b.emit(output, out);
+}
+
+function opaqueReason(type: string): string {
+  if (SQL_RECIPE_TYPES.has(type) || type.includes("sql")) return "SQL recipe";
+  if (CODE_RECIPE_TYPES.has(type) || type.startsWith("CustomCode_")) return "code recipe";
+  return `no column mapping for "${type}" recipes`;
+}
+
+/** Output-column mappings of one recipe, parsed from its definition and payload. */
+export function recipeLineage(source: RecipeSource): RecipeLineage {
+  const type = asString(source.recipe.type) ?? "unknown";
+  const inputs = roleRefs(source.recipe.inputs);
+  const outputs = roleRefs(source.recipe.outputs);
+  const b = new LineageBuilder(source);
+  const opaque = (reason: string): RecipeLineage => ({
+    recipe: source.name,
+    type,
+    opaque: true,
+    reason,
+    outputs: [],
+    conditions: [],
+    warnings: [],
+  });
+
+  if (PASS_THROUGH_TYPES.has(type)) {
+    for (const output of outputs) passThrough(b, inputs, output);
+  } else if (["shaker", "grouping", "window", "join"].includes(type)) {
+    const payload = parsePayload(source.payload);
+    if (!payload) return opaque("recipe payload is not valid JSON");
+    for (const output of outputs) {
+      const schema = source.schemas.get(output);
+      if (type === "shaker") b.emit(output, tracePrepare(b, inputs, payload));
+      else if (type === "grouping") b.emit(output, traceGrouping(b, inputs, payload, schema));
+      else if (type === "window") b.emit(output, traceWindow(b, inputs, payload, schema));
+      else b.emit(output, traceJoin(b, inputs, payload));
+    }
+  } else {
+    return opaque(opaqueReason(type));
+  }
+
+  return {
+    recipe: source.name,
+    type,
+    opaque: false,
+    outputs: b.outputs,
+    conditions: b.conditions,
+    warnings: [...new Set(b.warnings)],
+  };
+}
+
+export interface LineageLoaders {
+  recipe: (name: string) => Promise<{ recipe?: Record<string, unknown>; payload?: string }>;
+  /** Column names of a dataset, or undefined when its schema cannot be read. */
+  schema: (dataset: string) => Promise<string[] | undefined>;
+}
+
+export interface LineageEdge {
+  from: ColumnRef;
+  to: ColumnRef;
+  recipe: string;
+  transform: string;
+  /** Recipes between this edge and the traced column. */
+  depth: number;
+}
+
+export interface OpaqueRecipe {
+  recipe: string;
+  type: string;
+  reason: string;
+  direction: "upstream" | "downstream";
+  /** The column whose lineage stops at this recipe. */
+  at: ColumnRef;
+  /** Whether the recipe settings or code mention that column by name. */
+  mentionsColumn: boolean;
+}
+
+export interface ColumnLineage {
+  column: ColumnRef;
+  upstream: LineageEdge[];
+  downstream: LineageEdge[];
+  /** Upstream columns of datasets that no recipe in the flow writes. */
+  origins: ColumnRef[];
+  /** Downstream recipes reading a lineage column as a join key, filter or window ordering. */
+  conditions: Array<ColumnCondition & { recipe: string }>;
+  opaque: OpaqueRecipe[];
+  /** Whether `maxDepth` stopped the walk in either direction. */
+  truncated: boolean;
+  warnings: string[];
+}
+
+interface LoadedRecipe {
+  lineage: RecipeLineage;
+  /** Settings and payload, for name matching in opaque recipes. */
+  text: string;
+}
+
+/** Walks the flow from `start` to the columns it is computed from and the columns computed from it. */
+export async function traceColumnLineage(
+  map: NormalizedFlowMap,
+  start: ColumnRef,
+  loaders: LineageLoaders,
+  maxDepth: number,
+): Promise<ColumnLineage> {
+  const kinds = new Map(map.nodes.map((node) => [node.id, node.kind]));
+  const writers = new Map<string, string[]>();
+  const readers = new Map<string, string[]>();
+  for (const edge of map.edges) {
+    if (edge.relation === "writes" && kinds.get(edge.to) === "dataset") {
+      writers.set(edge.to, [...(writers.get(edge.to) ?? []), edge.from]);
+    }
+    if (edge.relation === "reads" && kinds.get(edge.from) === "dataset") {
+      readers.set(edge.from, [...(readers.get(edge.from) ?? []), edge.to]);
+    }
+  }
+
+  const result: ColumnLineage = {
+    column: start,
+    upstream: [],
+    downstream: [],
+    origins: [],
+    conditions: [],
+    opaque: [],
+    truncated: false,
+    warnings: [],
+  };
+
+  const schemas = new Map<string, Promise<string[] | undefined>>();
+  const schemaOf = (dataset: string) => {
+    let schema = schemas.get(dataset);
+    if (!schema) {
+      schema = loaders.schema(dataset);
+      schemas.set(dataset, schema);
+    }
+    return schema;
+  };
+  const recipes = new Map<string, Promise<LoadedRecipe>>();
+  const load = async (name: string): Promise<LoadedRecipe> => {
+    try {
+      const { recipe = {}, payload } = await loaders.recipe(name);
+      const datasets = [...roleRefs(recipe.inputs), ...roleRefs(recipe.outputs)];
+      const known = await Promise.all(datasets.map(async (d) => [d, await schemaOf(d)] as const));
+      const lineage = recipeLineage({
+        name,
+        recipe,
+        payload,
+        schemas: new Map(known.filter((entry): entry is [string, string[]] => !!entry[1])),
+      });
+      result.warnings.push(...lineage.warnings.map((warning) => `${name}: ${warning}`));
+      const { inputs: _inputs, outputs: _outputs, ...settings } = recipe;
+      return { lineage, text: `${JSON.stringify(settings)}\n${payload ?? ""}` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        lineage: {
+          recipe: name,
+          type: "unknown",
+          opaque: true,
+          reason: `could not read the recipe: ${message}`,
+          outputs: [],
+          conditions: [],
+          warnings: [],
+        },
+        text: "",
+      };
+    }
+  };
+  const recipeOf = (name: string) => {
+    let loaded = recipes.get(name);
+    if (!loaded) {
+      loaded = load(name);
+      recipes.set(name, loaded);
+    }
+    return loaded;
+  };
+  const markOpaque = (
+    { lineage, text }: LoadedRecipe,
+    direction: OpaqueRecipe["direction"],
+    at: ColumnRef,
+  ) => {
+    result.opaque.push({
+      recipe: lineage.recipe,
+      type: lineage.type,
+      reason: lineage.reason ?? "opaque",
+      direction,
+      at,
+      mentionsColumn: referencedColumns(text, [at.column]).length > 0,
+    });
+  };
+  const key = (ref: ColumnRef) => `${ref.dataset}\u0000${ref.column}`;
+
+  // Upstream: from a column to the inputs of the recipe that writes its dataset.
+  const seenUp = new Set([key(start)]);
+  let queue: Array<{ ref: ColumnRef; depth: number }> = [{ ref: start, depth: 0 }];
+  while (queue.length > 0) {
+    const next: typeof queue = [];
+    for (const { ref, depth } of queue) {
+      const producers = writers.get(ref.dataset) ?? [];
+      if (producers.length === 0) {
+        if (depth > 0) result.origins.push(ref);
+        continue;
+      }
+      if (depth >= maxDepth) {
+        result.truncated = true;
+        continue;
+      }
+      for (const recipe of producers) {
+        const loaded = await recipeOf(recipe);
+        if (loaded.lineage.opaque) {
+          markOpaque(loaded, "upstream", ref);
+          continue;
+        }
+        const mapping = loaded.lineage.outputs.find((output) => sameRef(output, ref));
+        for (const source of mapping?.sources ?? []) {
+          result.upstream.push({
+            from: source,
+            to: ref,
+            recipe,
+            transform: mapping?.transform ?? "identity",
+            depth: depth + 1,
+          });
+          if (seenUp.has(key(source))) continue;
+          seenUp.add(key(source));
+          next.push({ ref: source, depth: depth + 1 });
+        }
+      }
+    }
+    queue = next;
+  }
+
+  // Downstream: from a column to the outputs of every recipe reading its dataset.
+  const seenDown = new Set([key(start)]);
+  queue = [{ ref: start, depth: 0 }];
+  while (queue.length > 0) {
+    const next: typeof queue = [];
+    for (const { ref, depth } of queue) {
+      const consumers = readers.get(ref.dataset) ?? [];
+      if (consumers.length === 0) continue;
+      if (depth >= maxDepth) {
+        result.truncated = true;
+        continue;
+      }
+      for (const recipe of consumers) {
+        const loaded = await recipeOf(recipe);
+        if (loaded.lineage.opaque) {
+          markOpaque(loaded, "downstream", ref);
+          continue;
+        }
+        for (const condition of loaded.lineage.conditions) {
+          if (sameRef(condition, ref)) result.conditions.push({ ...condition, recipe });
+        }
+        for (const output of loaded.lineage.outputs) {
+          if (!output.sources.some((source) => sameRef(source, ref))) continue;
+          const to = { dataset: output.dataset, column: output.column };
+          result.downstream.push({
+            from: ref,
+            to,
+            recipe,
+            transform: output.transform,
+            depth: depth + 1,
+          });
+          if (seenDown.has(key(to))) continue;
+          seenDown.add(key(to));
+          next.push({ ref: to, depth: depth + 1 });
+        }
+      }
+    }
+    queue = next;
+  }
+
+  result.warnings = [...new Set(result.warnings)];
+  return result;
+}
+
+function formatRef(ref: ColumnRef): string {
+  return `${ref.dataset}.${ref.column}`;
+}
+
+export function formatColumnLineage(lineage: ColumnLineage): string {
+  const lines = [`Column lineage of ${formatRef(lineage.column)}`];
+  const edge = (e: LineageEdge) =>
+    `- ${formatRef(e.from)} → ${formatRef(e.to)} via ${e.recipe} (${e.transform})`;
+  lines.push(`Upstream (${lineage.upstream.length}):`);
+  lines.push(...(lineage.upstream.length > 0 ? lineage.upstream.map(edge) : ["- (none)"]));
+  if (lineage.origins.length > 0) {
+    lines.push(`Origins: ${lineage.origins.map(formatRef).join(", ")}`);
+  }
+  lines.push(`Downstream (${lineage.downstream.length}):`);
+  lines.push(...(lineage.downstream.length > 0 ? lineage.downstream.map(edge) : ["- (none)"]));
+  for (const condition of lineage.conditions) {
+    lines.push(`Used by ${condition.recipe} as ${condition.role}: ${formatRef(condition)}`);
+  }
+  for (const recipe of lineage.opaque) {
+    const verb = recipe.direction === "upstream" ? "writes" : "reads";
+    const mention = recipe.mentionsColumn ? `; mentions "${recipe.at.column}"` : "";
+    lines.push(
+      `Opaque: ${recipe.recipe} (${recipe.type}, ${recipe.reason}) ${verb} ${recipe.at.dataset}${mention}`,
+    );
+  }
+  if (lineage.truncated) lines.push("Stopped at maxDepth; pass a larger maxDepth to go further.");
+  return lines.join("\n");
+}
@@ -0,0 +1,283 @@
+/**
+ * One-pass column statistics over streamed rows. Every accumulator is bounded:
+ * distinct counts use HyperLogLog, top values a Misra-Gries summary, and
+ * numeric moments Welford's update, so memory does not grow with the row count.
+ */
+
+import { type ColumnKind, parseCell, typedColumns } from "./export-formats.js";
+
+const HLL_BITS = 12;
+const HLL_REGISTERS = 1 << HLL_BITS;
+const TWO_POW_32 = 2 ** 32;
+
+export function hash32(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  // murmur3 finalizer: FNV alone leaves the high bits poorly mixed.
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** HyperLogLog cardinality estimate (about 1.6% standard error). */
+export class HyperLogLog {
+  private readonly registers = new Uint8Array(HLL_REGISTERS);
+
+  add(value: string): void {
+    const h = hash32(value);
+    const index = h >>> (32 - HLL_BITS);
+    const rest = (h << HLL_BITS) >>> 0;
+    const rank = rest === 0 ? 32 - HLL_BITS + 1 : Math.clz32(rest) + 1;
+    if (rank > this.registers[index]) this.registers[index] = rank;
+  }
+
+  estimate(): number {
+    let sum = 0;
+    let zeros = 0;
+    for (const r of this.registers) {
+      sum += 2 ** -r;
+      if (r === 0) zeros += 1;
+    }
+    const alpha = 0.7213 / (1 + 1.079 / HLL_REGISTERS);
+    const raw = (alpha * HLL_REGISTERS * HLL_REGISTERS) / sum;
+    if (raw <= 2.5 * HLL_REGISTERS && zeros > 0) {
+      return Math.round(HLL_REGISTERS * Math.log(HLL_REGISTERS / zeros));
+    }
+    if (raw > TWO_POW_32 / 30) return Math.round(-TWO_POW_32 * Math.log(1 - raw / TWO_POW_32));
+    return Math.round(raw);
+  }
+}
+
+/**
+ * Misra-Gries heavy hitters: any value seen more than n/capacity times is kept,
+ * and counts are exact until the first eviction.
+ */
+class TopValues {
+  private readonly counts = new Map<string, number>();
+  approximate = false;
+
+  constructor(private readonly capacity: number) {}
+
+  add(value: string): void {
+    const count = this.counts.get(value);
+    if (count !== undefined) {
+      this.counts.set(value, count + 1);
+      return;
+    }
+    if (this.counts.size < this.capacity) {
+      this.counts.set(value, 1);
+      return;
+    }
+    this.approximate = true;
+    for (const [key, n] of this.counts) {
+      if (n <= 1) this.counts.delete(key);
+      else this.counts.set(key, n - 1);
+    }
+  }
+
+  top(k: number): Array<{ value: string; count: number }> {
+    return [...this.counts]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, k)
+      .map(([value, count]) => ({ value, count }));
+  }
+}
+
+const LENGTH_BUCKETS: Array<[string, number]> = [
+  ["1-8", 8],
+  ["9-32", 32],
+  ["33-128", 128],
+  ["129-512", 512],
+  [">512", Number.POSITIVE_INFINITY],
+];
+
+const NUMERIC_KINDS = new Set<ColumnKind>(["int8", "int16", "int32", "int64", "float", "double"]);
+
+export interface ColumnProfile {
+  name: string;
+  type: string;
+  count: number;
+  nulls: number;
+  nullFraction: number;
+  distinctEstimate: number;
+  /** Non-null values that do not parse as the declared type. */
+  invalid: number;
+  invalidFraction: number;
+  min: number | string | null;
+  max: number | string | null;
+  mean?: number;
+  stddev?: number;
+  topValues: Array<{ value: string; count: number }>;
+  topValuesApproximate: boolean;
+  length: { min: number; max: number; mean: number; buckets: Record<string, number> } | null;
+}
+
+class ColumnAccumulator {
+  private nulls = 0;
+  private invalid = 0;
+  private readonly distinct = new HyperLogLog();
+  private readonly topValues: TopValues;
+  private numeric = 0;
+  private mean = 0;
+  private m2 = 0;
+  private minNumber = Number.POSITIVE_INFINITY;
+  private maxNumber = Number.NEGATIVE_INFINITY;
+  private minText: string | undefined;
+  private maxText: string | undefined;
+  private lengthSum = 0;
+  private minLength = Number.POSITIVE_INFINITY;
+  private maxLength = 0;
+  private readonly buckets = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly type: string,
+    private readonly kind: ColumnKind,
+    topK: number,
+  ) {
+    this.topValues = new TopValues(Math.max(100, topK * 20));
+  }
+
+  add(cell: string): void {
+    if (cell === "") {
+      this.nulls += 1;
+      return;
+    }
+    this.distinct.add(cell);
+    this.topValues.add(cell);
+    if (parseCell(this.kind, cell) === undefined) this.invalid += 1;
+
+    const n = Number(cell);
+    if (cell.trim() !== "" && Number.isFinite(n)) {
+      this.numeric += 1;
+      const delta = n - this.mean;
+      this.mean += delta / this.numeric;
+      this.m2 += delta * (n - this.mean);
+      if (n < this.minNumber) this.minNumber = n;
+      if (n > this.maxNumber) this.maxNumber = n;
+    }
+    if (this.minText === undefined || cell < this.minText) this.minText = cell;
+    if (this.maxText === undefined || cell > this.maxText) this.maxText = cell;
+
+    const length = cell.length;
+    this.lengthSum += length;
+    if (length < this.minLength) this.minLength = length;
+    if (length > this.maxLength) this.maxLength = length;
+    const bucket = LENGTH_BUCKETS.find(([, upper]) => length <= upper)?.[0] as string;
+    this.buckets.set(bucket, (this.buckets.get(bucket) ?? 0) + 1);
+  }
+
+  result(rows: number, topK: number): ColumnProfile {
+    const present = rows - this.nulls;
+    // Numeric stats apply to numeric types, and to untyped columns holding only numbers.
+    const numeric = this.numeric > 0 && (NUMERIC_KINDS.has(this.kind) || this.numeric === present);
+    return {
+      name: this.name,
+      type: this.type,
+      count: rows,
+      nulls: this.nulls,
+      nullFraction: rows ? this.nulls / rows : 0,
+      distinctEstimate: Math.min(this.distinct.estimate(), present),
+      invalid: this.invalid,
+      invalidFraction: present ? this.invalid / present : 0,
+      min: numeric ? this.minNumber : (this.minText ?? null),
+      max: numeric ? this.maxNumber : (this.maxText ?? null),
+      ...(numeric
+        ? {
+            mean: this.mean,
+            stddev: this.numeric > 1 ? Math.sqrt(this.m2 / (this.numeric - 1)) : 0,
+          }
+        : {}),
+      topValues: this.topValues.top(topK),
+      topValuesApproximate: this.topValues.approximate,
+      length: present
+        ? {
+            min: this.minLength,
+            max: this.maxLength,
+            mean: this.lengthSum / present,
+            buckets: Object.fromEntries(
+              LENGTH_BUCKETS.filter(([label]) => this.buckets.has(label)).map(([label]) => [
+                label,
+                this.buckets.get(label) as number,
+              ]),
+            ),
+          }
+        : null,
+    };
+  }
+}
+
+/** Profiles rows (header first) against the declared schema types. */
+export class DatasetProfiler {
+  private columns: ColumnAccumulator[] | undefined;
+  rows = 0;
+
+  constructor(
+    private readonly schema: Array<{ name: string; type: string }>,
+    private readonly topK = 5,
+  ) {}
+
+  add(row: string[]): void {
+    if (!this.columns) {
+      this.columns = typedColumns(row, this.schema).map(
+        (c) => new ColumnAccumulator(c.name, c.dssType, c.kind, this.topK),
+      );
+      return;
+    }
+    this.rows += 1;
+    this.columns.forEach((column, i) => {
+      column.add(row[i] ?? "");
+    });
+  }
+
+  result(): ColumnProfile[] {
+    return (this.columns ?? []).map((column) => column.result(this.rows, this.topK));
+  }
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return Math.abs(value) >= 1000 ? value.toFixed(1) : value.toPrecision(4);
+}
+
+function percent(fraction: number): string {
+  if (fraction === 0) return "0%";
+  return fraction < 0.001 ? "<0.1%" : `${(fraction * 100).toFixed(1).replace(/\.0$/, "")}%`;
+}
+
+function shorten(value: string, max = 24): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+/** One line per column, e.g. `status (string): 0% null, ~3 distinct, top FAILED×3, DONE×2`. */
+export function formatProfileLine(profile: ColumnProfile): string {
+  const parts = [`${percent(profile.nullFraction)} null`, `~${profile.distinctEstimate} distinct`];
+  if (profile.invalid > 0) {
+    parts.push(`${percent(profile.invalidFraction)} not ${profile.type}`);
+  }
+  if (profile.mean !== undefined) {
+    parts.push(
+      `min ${formatNumber(profile.min as number)}, max ${formatNumber(profile.max as number)}`,
+      `mean ${formatNumber(profile.mean)} ± ${formatNumber(profile.stddev ?? 0)}`,
+    );
+  } else if (profile.min !== null) {
+    parts.push(`range "${shorten(String(profile.min))}" … "${shorten(String(profile.max))}"`);
+  }
+  if (profile.topValues.length > 0 && profile.topValues[0].count > 1) {
+    parts.push(
+      `top ${profile.topValues.map((t) => `${shorten(t.value)}×${t.count}`).join(", ")}${profile.topValuesApproximate ? " (approx.)" : ""}`,
+    );
+  }
+  if (profile.length && profile.mean === undefined) {
+    parts.push(
+      `len ${profile.length.min}-${profile.length.max} (mean ${formatNumber(profile.length.mean)})`,
+    );
+  }
+  return `${profile.name} (${profile.type}): ${parts.join(", ")}`;
+}
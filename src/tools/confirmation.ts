@@ -0,0 +1,62 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+export type ConfirmationOutcome = "confirmed" | "declined" | "unsupported";
+
+const TARGET_FIELDS = [
+  "instance",
+  "projectKey",
+  "datasetName",
+  "recipeName",
+  "scenarioId",
+  "folderId",
+  "path",
+  "partition",
+  "jobId",
+  "buildMode",
+] as const;
+
+export function describeTarget(args: Record<string, unknown>): string {
+  const parts: string[] = [];
+  for (const field of TARGET_FIELDS) {
+    const value = args[field];
+    if (typeof value === "string" && value.length > 0) parts.push(`${field}=${value}`);
+  }
+  if (args.projectKey === undefined) parts.push("projectKey=(default)");
+  return parts.join(", ");
+}
+
+function supportsFormElicitation(server: McpServer): boolean {
+  const elicitation = server.server.getClientCapabilities()?.elicitation as
+    | { form?: unknown; url?: unknown }
+    | undefined;
+  if (!elicitation) return false;
+  // An empty elicitation capability predates modes and means form support.
+  return elicitation.form !== undefined || elicitation.url === undefined;
+}
+
+export async function confirmDestructiveAction(
+  server: McpServer,
+  label: string,
+  args: Record<string, unknown>,
+): Promise<ConfirmationOutcome> {
+  // confirm: true is only the fallback for clients that cannot ask the user;
+  // otherwise the agent could skip the human prompt by passing it.
+  if (!supportsFormElicitation(server)) return args.confirm === true ? "confirmed" : "unsupported";
+
+  const result = await server.server.elicitInput({
+    mode: "form",
+    message: `Confirm destructive action ${label} on ${describeTarget(args)}. This cannot be undone.`,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        confirm: {
+          type: "boolean",
+          title: "Proceed",
+          description: `Run ${label} on ${describeTarget(args)}`,
+        },
+      },
+      required: ["confirm"],
+    },
+  });
+  return result.action === "accept" && result.content?.confirm === true ? "confirmed" : "declined";
+}
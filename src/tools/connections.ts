@@ -1,13 +1,19 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { get, getProjectKey } from "../client.js";
-import { actionInput, actionSchema, optionalProjectKey } from "./action-schema.js";
+import {
+  actionInput,
+  actionSchema,
+  optionalInstance,
+  optionalProjectKey,
+} from "./action-schema.js";
 import { registerTool } from "./register-tool.js";
 
 const connectionInferModeSchema = z.enum(["fast", "rich"]);
 const connectionInputSchema = actionSchema([
   actionInput("infer", {
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     mode: connectionInferModeSchema.optional(),
   }),
 ]);
@@ -97,6 +103,7 @@ export function register(server: McpServer) {
       description:
         "Connection discovery (action: infer). Default mode=fast uses DSS connection names; mode=rich scans project datasets for inferred type/schema/managed details.",
       inputSchema: connectionInputSchema,
+      actions: { infer: "read" },
     },
     async ({ projectKey, mode }) => {
       const pk = getProjectKey(projectKey);
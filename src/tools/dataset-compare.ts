@@ -0,0 +1,347 @@
+/**
+ * Key-aligned diff of two streamed datasets. Both sides are spilled to temp
+ * files, then hash-partitioned on the key into as many buckets as the row
+ * counts need and compared one bucket at a time, so memory holds at most
+ * ROWS_PER_BUCKET rows of one side rather than either dataset.
+ */
+
+import { createReadStream } from "node:fs";
+import { type FileHandle, mkdtemp, open, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import { Readable } from "node:stream";
+import { hash32 } from "./column-profile.js";
+import { UnknownColumnError } from "./row-selection.js";
+import { consumeTsvChunk, createTsvStreamState, flushTsvStream } from "./tsv.js";
+
+/** Rows per side a bucket may hold before it is split further. */
+const ROWS_PER_BUCKET = 50_000;
+/** Bucket files one partitioning pass writes at once. */
+const MAX_FANOUT = 256;
+/** Partitioning passes before a bucket that is still too large is compared as is. */
+const MAX_LEVELS = 3;
+/** Rows buffered before a partitioning pass writes them out. */
+const WRITE_BATCH_ROWS = 10_000;
+
+export interface CompareOptions {
+  key: string[];
+  ignoreColumns?: string[];
+  /** Rows read from each side at most. */
+  limit?: number;
+  /** Example rows kept per kind of difference. */
+  samples: number;
+}
+
+export interface ChangedRow {
+  key: Record<string, string>;
+  changes: Record<string, { left: string; right: string }>;
+}
+
+export interface DatasetComparison {
+  key: string[];
+  columns: { compared: string[]; onlyInLeft: string[]; onlyInRight: string[] };
+  rows: { left: number; right: number };
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  duplicateKeys: { left: number; right: number };
+  columnChanges: Record<string, number>;
+  samples: {
+    added: Array<Record<string, string>>;
+    removed: Array<Record<string, string>>;
+    changed: ChangedRow[];
+  };
+  identical: boolean;
+}
+
+interface SpilledSide {
+  path: string;
+  header: string[];
+  keyIndexes: number[];
+  rows: number;
+}
+
+function keyIndexes(header: string[], key: string[]): number[] {
+  return key.map((column) => {
+    const index = header.indexOf(column);
+    if (index === -1) throw new UnknownColumnError(column, header);
+    return index;
+  });
+}
+
+/** Writes each data row of a TSV body as a JSON line into `<dir>/<side>.jsonl`. */
+async function spill(
+  body: ReadableStream<Uint8Array>,
+  dir: string,
+  side: "left" | "right",
+  options: CompareOptions,
+): Promise<SpilledSide> {
+  const path = join(dir, `${side}.jsonl`);
+  const state = createTsvStreamState();
+  // Multi-byte characters can be split across chunks; the decoder carries the partial bytes over.
+  const decoder = new TextDecoder();
+  let pending: string[] = [];
+  let header: string[] | undefined;
+  let indexes: number[] = [];
+  let rows = 0;
+  let done = false;
+
+  const onRow = (row: string[]) => {
+    if (done || (row.length === 1 && row[0] === "")) return;
+    if (!header) {
+      header = row;
+      indexes = keyIndexes(row, options.key);
+      return;
+    }
+    pending.push(`${JSON.stringify(row)}\n`);
+    rows += 1;
+    if (options.limit !== undefined && rows >= options.limit) done = true;
+  };
+
+  const file = await open(path, "w");
+  const writePending = async () => {
+    if (pending.length === 0) return;
+    const lines = pending;
+    pending = [];
+    await file.write(lines.join(""));
+  };
+
+  const nodeStream = Readable.fromWeb(body as import("stream/web").ReadableStream);
+  try {
+    for await (const chunk of nodeStream) {
+      consumeTsvChunk(decoder.decode(chunk as Uint8Array, { stream: true }), state, onRow);
+      await writePending();
+      if (done) {
+        nodeStream.destroy();
+        break;
+      }
+    }
+    if (!done) {
+      consumeTsvChunk(decoder.decode(), state, onRow);
+      flushTsvStream(state, onRow);
+      await writePending();
+    }
+  } finally {
+    await file.close();
+  }
+  return { path, header: header ?? [], keyIndexes: indexes, rows };
+}
+
+function sameValue(left: string, right: string): boolean {
+  if (left === right) return true;
+  // Numbers that only differ in formatting ("1.0" vs "1") are not a change.
+  if (left.trim() === "" || right.trim() === "") return false;
+  const a = Number(left);
+  return Number.isFinite(a) && a === Number(right);
+}
+
+async function* jsonLines(path: string): AsyncGenerator<string> {
+  const stream = createReadStream(path, "utf8");
+  const lines = createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+  try {
+    for await (const line of lines) {
+      if (line) yield line;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+async function* bucketRows(path: string): AsyncGenerator<string[]> {
+  for await (const line of jsonLines(path)) yield JSON.parse(line) as string[];
+}
+
+function bucketCount(rows: number): number {
+  return Math.max(1, Math.min(MAX_FANOUT, Math.ceil(rows / ROWS_PER_BUCKET)));
+}
+
+/**
+ * Splits the rows of `source` into `buckets` files `<prefix>-<n>.jsonl` by the
+ * hash of their key. `level` salts the hash so a bucket split again spreads
+ * over all its sub-buckets. Returns the row count of each bucket.
+ */
+async function partition(
+  source: string,
+  keyIdx: number[],
+  buckets: number,
+  level: number,
+  prefix: string,
+): Promise<number[]> {
+  const counts = new Array<number>(buckets).fill(0);
+  const files: FileHandle[] = [];
+  let pending: string[][] = Array.from({ length: buckets }, () => []);
+  let buffered = 0;
+
+  const writePending = async () => {
+    const batch = pending;
+    pending = Array.from({ length: buckets }, () => []);
+    buffered = 0;
+    for (const [bucket, lines] of batch.entries()) {
+      if (lines.length > 0) await files[bucket].write(lines.join(""));
+    }
+  };
+
+  try {
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      files.push(await open(`${prefix}-${bucket}.jsonl`, "w"));
+    }
+    for await (const line of jsonLines(source)) {
+      const row = JSON.parse(line) as string[];
+      const key = JSON.stringify(keyIdx.map((i) => row[i] ?? ""));
+      const bucket = hash32(`${level}:${key}`) % buckets;
+      pending[bucket].push(`${line}\n`);
+      counts[bucket] += 1;
+      buffered += 1;
+      if (buffered >= WRITE_BATCH_ROWS) await writePending();
+    }
+    await writePending();
+  } finally {
+    await Promise.all(files.map((file) => file.close()));
+  }
+  return counts;
+}
+
+/**
+ * Compares `left` and `right` (DSS TSV bodies, header first) row by row on the
+ * key columns. Opening the right side is deferred until the left is spilled,
+ * so only one download is in flight at a time.
+ */
+export async function compareDatasets(
+  left: () => Promise<ReadableStream<Uint8Array>>,
+  right: () => Promise<ReadableStream<Uint8Array>>,
+  options: CompareOptions,
+  onProgress?: (message: string, progress: number, total: number) => Promise<void>,
+): Promise<DatasetComparison> {
+  const dir = await mkdtemp(join(tmpdir(), "dataiku-compare-"));
+  try {
+    await onProgress?.("Reading left dataset", 0, 3);
+    const l = await spill(await left(), dir, "left", options);
+    await onProgress?.("Reading right dataset", 1, 3);
+    const r = await spill(await right(), dir, "right", options);
+
+    const ignored = new Set([...options.key, ...(options.ignoreColumns ?? [])]);
+    const compared = l.header.filter((c) => !ignored.has(c) && r.header.includes(c));
+    const pairs = compared.map((c) => [l.header.indexOf(c), r.header.indexOf(c)] as const);
+    const keyRecord = (values: string[]) =>
+      Object.fromEntries(options.key.map((column, i) => [column, values[i] ?? ""]));
+
+    const result: DatasetComparison = {
+      key: options.key,
+      columns: {
+        compared,
+        onlyInLeft: l.header.filter((c) => !r.header.includes(c)),
+        onlyInRight: r.header.filter((c) => !l.header.includes(c)),
+      },
+      rows: { left: l.rows, right: r.rows },
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0,
+      duplicateKeys: { left: 0, right: 0 },
+      columnChanges: {},
+      samples: { added: [], removed: [], changed: [] },
+      identical: false,
+    };
+
+    const compareBucket = async (leftPath: string, rightPath: string) => {
+      const leftRows = new Map<string, string[]>();
+      for await (const row of bucketRows(leftPath)) {
+        const key = JSON.stringify(l.keyIndexes.map((i) => row[i] ?? ""));
+        if (leftRows.has(key)) result.duplicateKeys.left += 1;
+        else leftRows.set(key, row);
+      }
+      const seen = new Set<string>();
+      for await (const row of bucketRows(rightPath)) {
+        const keyValues = r.keyIndexes.map((i) => row[i] ?? "");
+        const key = JSON.stringify(keyValues);
+        if (seen.has(key)) {
+          result.duplicateKeys.right += 1;
+          continue;
+        }
+        seen.add(key);
+        const match = leftRows.get(key);
+        if (!match) {
+          result.added += 1;
+          if (result.samples.added.length < options.samples) {
+            result.samples.added.push(keyRecord(keyValues));
+          }
+          continue;
+        }
+        leftRows.delete(key);
+        const changes: ChangedRow["changes"] = {};
+        pairs.forEach(([li, ri], c) => {
+          const before = match[li] ?? "";
+          const after = row[ri] ?? "";
+          if (sameValue(before, after)) return;
+          changes[compared[c]] = { left: before, right: after };
+          result.columnChanges[compared[c]] = (result.columnChanges[compared[c]] ?? 0) + 1;
+        });
+        if (Object.keys(changes).length === 0) {
+          result.unchanged += 1;
+        } else {
+          result.changed += 1;
+          if (result.samples.changed.length < options.samples) {
+            result.samples.changed.push({ key: keyRecord(keyValues), changes });
+          }
+        }
+      }
+      for (const key of leftRows.keys()) {
+        result.removed += 1;
+        if (result.samples.removed.length < options.samples) {
+          result.samples.removed.push(keyRecord(JSON.parse(key) as string[]));
+        }
+      }
+    };
+
+    /** Compares a pair of bucket files, splitting them first while either side is too large. */
+    const compareSplit = async (
+      leftPath: string,
+      rightPath: string,
+      rows: number,
+      level: number,
+      onBucket?: (bucket: number, buckets: number) => Promise<void>,
+    ): Promise<void> => {
+      const buckets = bucketCount(rows);
+      if (buckets === 1 || level > MAX_LEVELS) {
+        await onBucket?.(0, 1);
+        await compareBucket(leftPath, rightPath);
+        return;
+      }
+      const prefix = `${leftPath.slice(0, -".jsonl".length)}.${level}`;
+      const leftCounts = await partition(leftPath, l.keyIndexes, buckets, level, `${prefix}-l`);
+      const rightCounts = await partition(rightPath, r.keyIndexes, buckets, level, `${prefix}-r`);
+      await rm(leftPath, { force: true });
+      await rm(rightPath, { force: true });
+      for (let bucket = 0; bucket < buckets; bucket++) {
+        await onBucket?.(bucket, buckets);
+        const subLeft = `${prefix}-l-${bucket}.jsonl`;
+        const subRight = `${prefix}-r-${bucket}.jsonl`;
+        await compareSplit(
+          subLeft,
+          subRight,
+          Math.max(leftCounts[bucket], rightCounts[bucket]),
+          level + 1,
+        );
+      }
+    };
+
+    await compareSplit(l.path, r.path, Math.max(l.rows, r.rows), 1, (bucket, buckets) =>
+      onProgress
+        ? onProgress(`Comparing bucket ${bucket + 1}/${buckets}`, 2 + bucket / buckets, 3)
+        : Promise.resolve(),
+    );
+
+    result.identical =
+      result.added === 0 &&
+      result.removed === 0 &&
+      result.changed === 0 &&
+      result.columns.onlyInLeft.length === 0 &&
+      result.columns.onlyInRight.length === 0;
+    return result;
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -1,17 +1,92 @@
 import { createWriteStream } from "node:fs";
+import { rm, stat } from "node:fs/promises";
 import { resolve } from "node:path";
 import { Readable, Transform } from "node:stream";
 import { pipeline } from "node:stream/promises";
 import { createGzip } from "node:zlib";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { DataikuError, del, get, getProjectKey, post, put, stream } from "../client.js";
-import { deepMerge } from "./deep-merge.js";
+import { DataikuError, del, get, getProjectKey, post, put, stream, upload } from "../client.js";
+import { evaluatePolicy } from "../policy.js";
+import {
+  formatBytes,
+  getAbortSignal,
+  progressStream,
+  RequestCancelledError,
+  reportProgress,
+  runIgnoringCancellation,
+} from "../progress.js";
+import { resolveLocalPath } from "../session.js";
+import { optionalConfirm, optionalInstance, optionalPartition } from "./action-schema.js";
+import { ArrowEncoder } from "./arrow-writer.js";
+import { DatasetProfiler, formatProfileLine } from "./column-profile.js";
+import { compareDatasets, type DatasetComparison } from "./dataset-compare.js";
+import {
+  DOWNLOAD_FORMATS,
+  type DownloadFormat,
+  type ExportStats,
+  JsonLinesEncoder,
+  typedColumns,
+} from "./export-formats.js";
+import {
+  checkDeclaredSchema,
+  type FileInspection,
+  type ImportFormat,
+  inspectLocalFile,
+  uploadedFormat,
+} from "./file-import.js";
+import type { NormalizedFlowMap } from "./flow-map.js";
 import { emptyListText, filterByQuery, formatBulletText, paginateItems } from "./list-format.js";
-import { registerTool } from "./register-tool.js";
+import {
+  type ConcurrencyInput,
+  concurrencyFields,
+  conflictResult,
+  findConflict,
+  versionOf,
+} from "./optimistic-lock.js";
+import { ParquetEncoder } from "./parquet-writer.js";
+import { listPartitions, partitionsParam, selectPartitions } from "./partitions.js";
+import { loadFlowMap } from "./projects.js";
+import { policyDeniedResult, registerTool } from "./register-tool.js";
+import {
+  filterConditionSchema,
+  filterToFormula,
+  hasSelection,
+  type RowSelection,
+  RowSelector,
+  SAMPLING_METHODS,
+  type Sampling,
+  selectionParams,
+  UnknownColumnError,
+  validateConditions,
+} from "./row-selection.js";
+import {
+  applySchemaEdits,
+  formatSchemaChange,
+  referencedColumns,
+  type SchemaColumn,
+  SchemaEditError,
+  type SchemaEditResult,
+  type SchemaOperation,
+  schemaOperationSchema,
+} from "./schema-edit.js";
+import { consumeTsvChunk, createTsvStreamState, flushTsvStream } from "./tsv.js";
+import {
+  applyUpdatePatch,
+  invalidPatchResult,
+  type UpdatePatchInput,
+  updatePatchFields,
+  updateText,
+} from "./update-patch.js";
 
 const optionalProjectKey = z.string().optional();
 
+const rowSelectionShape = {
+  columns: z.array(z.string().min(1)).min(1).optional(),
+  filter: z.union([z.string().min(1), z.array(filterConditionSchema).min(1)]).optional(),
+  sampling: z.enum(SAMPLING_METHODS).optional(),
+};
+
 const WINDOWS_RESERVED_FILE_NAMES = /^(con|prn|aux|nul|com[1-9¹²³]|lpt[1-9¹²³])$/i;
 function sanitizeFileName(name: string, fallback: string): string {
   const sanitized = name
@@ -128,108 +203,6 @@ function csvEscape(field: string): string {
   return field;
 }
 
-interface TsvStreamState {
-  currentField: string;
-  currentRow: string[];
-  inQuotes: boolean;
-  pendingQuoteInQuotes: boolean;
-}
-
-function createTsvStreamState(): TsvStreamState {
-  return {
-    currentField: "",
-    currentRow: [],
-    inQuotes: false,
-    pendingQuoteInQuotes: false,
-  };
-}
-
-function consumeTsvChunk(
-  text: string,
-  state: TsvStreamState,
-  onRow: (row: string[]) => void,
-): void {
-  let i = 0;
-
-  if (state.pendingQuoteInQuotes) {
-    state.pendingQuoteInQuotes = false;
-    const first = text[0];
-    if (first === '"') {
-      state.currentField += '"';
-      i = 1;
-    } else if (first === "\t" || first === "\n" || first === "\r") {
-      state.inQuotes = false;
-    } else if (first !== undefined) {
-      // Ambiguous terminal quote from previous chunk; keep it as data.
-      state.currentField += '"';
-    }
-  }
-
-  for (; i < text.length; i++) {
-    const ch = text[i];
-
-    if (state.inQuotes) {
-      if (ch === '"') {
-        const next = text[i + 1];
-        if (next === '"') {
-          state.currentField += '"';
-          i++;
-          continue;
-        }
-        if (next === undefined) {
-          state.pendingQuoteInQuotes = true;
-          continue;
-        }
-        if (next === "\t" || next === "\n" || next === "\r") {
-          state.inQuotes = false;
-          continue;
-        }
-        // Quote in the middle of quoted field text — keep it literal.
-        state.currentField += '"';
-        continue;
-      }
-      state.currentField += ch;
-      continue;
-    }
-
-    if (ch === '"' && state.currentField.length === 0) {
-      state.inQuotes = true;
-      continue;
-    }
-    if (ch === "\t") {
-      state.currentRow.push(state.currentField);
-      state.currentField = "";
-      continue;
-    }
-    if (ch === "\n") {
-      state.currentRow.push(state.currentField);
-      state.currentField = "";
-      const row = state.currentRow;
-      state.currentRow = [];
-      onRow(row);
-      continue;
-    }
-    if (ch === "\r") {
-      continue;
-    }
-
-    state.currentField += ch;
-  }
-}
-
-function flushTsvStream(state: TsvStreamState, onRow: (row: string[]) => void): void {
-  if (state.pendingQuoteInQuotes) {
-    state.currentField += '"';
-    state.pendingQuoteInQuotes = false;
-  }
-  if (state.currentField.length === 0 && state.currentRow.length === 0) return;
-  state.currentRow.push(state.currentField);
-  state.currentField = "";
-  const row = state.currentRow;
-  state.currentRow = [];
-  onRow(row);
-}
-
 function rowToCsv(row: string[]): string {
   return row.map((field) => csvEscape(field)).join(",");
 }
@@ -238,45 +211,21 @@ function isBlankRow(row: string[]): boolean {
   return row.length === 1 && row[0].length === 0;
 }
 
-function emitCsvLineWithLimit(
-  row: string[],
-  maxDataRows: number,
-  emittedRows: { value: number },
-  onLine: (line: string) => void,
-): boolean {
-  if (isBlankRow(row)) return false;
-
-  const isHeader = emittedRows.value === 0;
-  if (!isHeader && emittedRows.value - 1 >= maxDataRows) {
-    return true;
-  }
-
-  onLine(rowToCsv(row));
-  emittedRows.value += 1;
-
-  if (!isHeader && emittedRows.value - 1 >= maxDataRows) {
-    return true;
-  }
-  return false;
-}
-
-async function collectPreviewCsv(
+/** Feeds DSS TSV rows through `selector`, stopping the download once it has enough. */
+async function readSelectedRows(
   body: ReadableStream<Uint8Array>,
-  maxDataRows: number,
-): Promise<string> {
+  selector: RowSelector,
+  onRow: (row: string[]) => void,
+): Promise<void> {
   const state = createTsvStreamState();
-  const emittedRows = { value: 0 };
-  const lines: string[] = [];
   let done = false;
 
   const nodeStream = Readable.fromWeb(body as import("stream/web").ReadableStream);
   for await (const chunk of nodeStream) {
     if (done) break;
     consumeTsvChunk(Buffer.from(chunk).toString("utf-8"), state, (row) => {
-      if (done) return;
-      done = emitCsvLineWithLimit(row, maxDataRows, emittedRows, (line) => {
-        lines.push(line);
-      });
+      if (done || isBlankRow(row)) return;
+      done = selector.push(row, onRow);
     });
     if (done) {
       nodeStream.destroy();
@@ -286,35 +235,48 @@ async function collectPreviewCsv(
 
   if (!done) {
     flushTsvStream(state, (row) => {
-      if (done) return;
-      done = emitCsvLineWithLimit(row, maxDataRows, emittedRows, (line) => {
-        lines.push(line);
-      });
+      if (done || isBlankRow(row)) return;
+      done = selector.push(row, onRow);
     });
+    selector.finish(onRow);
   }
+}
 
+async function collectPreviewCsv(
+  body: ReadableStream<Uint8Array>,
+  selector: RowSelector,
+): Promise<string> {
+  const lines: string[] = [];
+  await readSelectedRows(body, selector, (r) => {
+    lines.push(rowToCsv(r));
+  });
   return lines.join("\n");
 }
 
-function tsvToCsvTransform(maxDataRows: number): Transform {
+/** Parses DSS TSV into row arrays (header first) and passes them through `selector`. */
+function tsvRowsTransform(selector: RowSelector): Transform {
   const state = createTsvStreamState();
-  const emittedRows = { value: 0 };
   let done = false;
-  const maxRows = Math.max(1, maxDataRows);
 
   return new Transform({
+    readableObjectMode: true,
     transform(chunk: Buffer, _encoding, callback) {
       if (done) {
         callback();
         return;
       }
 
-      consumeTsvChunk(chunk.toString("utf-8"), state, (row) => {
-        if (done) return;
-        done = emitCsvLineWithLimit(row, maxRows, emittedRows, (line) => {
-          this.push(`${line}\n`);
+      try {
+        consumeTsvChunk(chunk.toString("utf-8"), state, (row) => {
+          if (done || isBlankRow(row)) return;
+          done = selector.push(row, (r) => {
+            this.push(r);
+          });
         });
-      });
+      } catch (error) {
+        callback(error as Error);
+        return;
+      }
 
       if (done) {
         this.push(null);
@@ -327,17 +289,234 @@ function tsvToCsvTransform(maxDataRows: number): Transform {
         return;
       }
 
-      flushTsvStream(state, (row) => {
-        if (done) return;
-        done = emitCsvLineWithLimit(row, maxRows, emittedRows, (line) => {
-          this.push(`${line}\n`);
+      const onRow = (r: string[]) => {
+        this.push(r);
+      };
+      try {
+        flushTsvStream(state, (row) => {
+          if (done || isBlankRow(row)) return;
+          done = selector.push(row, onRow);
         });
-      });
+        selector.finish(onRow);
+      } catch (error) {
+        callback(error as Error);
+        return;
+      }
       callback();
     },
   });
 }
 
+function csvEncoder(stats: ExportStats): Transform {
+  let header = true;
+  return new Transform({
+    writableObjectMode: true,
+    transform(row: string[], _encoding, callback) {
+      if (header) header = false;
+      else stats.rows += 1;
+      callback(null, `${rowToCsv(row)}\n`);
+    },
+  });
+}
+
+const DOWNLOAD_EXTENSIONS: Record<DownloadFormat, string> = {
+  csv: "csv",
+  "csv.gz": "csv.gz",
+  jsonl: "jsonl",
+  parquet: "parquet",
+  arrow: "arrow",
+};
+
+function downloadEncoders(
+  format: DownloadFormat,
+  schema: Array<{ name: string; type: string }>,
+  stats: ExportStats,
+): Transform[] {
+  switch (format) {
+    case "csv":
+      return [csvEncoder(stats)];
+    case "csv.gz":
+      return [csvEncoder(stats), createGzip()];
+    case "jsonl":
+      return [new JsonLinesEncoder(schema, stats, 1000)];
+    case "parquet":
+      return [new ParquetEncoder(schema, stats)];
+    case "arrow":
+      return [new ArrowEncoder(schema, stats)];
+  }
+}
+
+interface SelectedData {
+  res: Awaited<ReturnType<typeof stream>>;
+  selector: RowSelector;
+  appliedBy: "dss" | "stream";
+}
+
+/**
+ * Reads dataset rows with projection, filter and sampling pushed to the DSS data
+ * endpoint. When DSS rejects those parameters, rows are read unfiltered and a
+ * structured filter and the sampling are applied in the stream instead; a raw
+ * formula cannot be evaluated locally, so its rejection is surfaced as is.
+ */
+async function streamSelectedData(
+  base: string,
+  selection: RowSelection,
+  limit: number,
+): Promise<SelectedData> {
+  const { columns, filter, sampling } = selection;
+  if (!hasSelection(selection)) {
+    return {
+      res: await stream(`${base}&limit=${limit}`),
+      selector: new RowSelector({}, limit),
+      appliedBy: "dss",
+    };
+  }
+  try {
+    const res = await stream(`${base}&limit=${limit}${selectionParams(selection, limit)}`);
+    // Projection is re-applied so the column order always follows `columns`.
+    return { res, selector: new RowSelector({ columns }, limit), appliedBy: "dss" };
+  } catch (error) {
+    if (
+      !(error instanceof DataikuError) ||
+      error.category !== "validation" ||
+      typeof filter === "string"
+    ) {
+      throw error;
+    }
+  }
+  const scanAll = filter !== undefined || (sampling ?? "head") !== "head";
+  return {
+    res: await stream(scanAll ? base : `${base}&limit=${limit}`),
+    selector: new RowSelector({ columns, conditions: filter, sampling }, limit),
+    appliedBy: "stream",
+  };
+}
+
+function selectionSummary(selection: RowSelection, data: SelectedData) {
+  return {
+    columns: selection.columns ?? null,
+    filter: selection.filter === undefined ? null : filterToFormula(selection.filter),
+    sampling: selection.sampling ?? "head",
+    appliedBy: data.appliedBy,
+    ...(data.appliedBy === "stream" ? { scannedRows: data.selector.scanned } : {}),
+  };
+}
+
+function formatComparison(left: string, right: string, c: DatasetComparison): string {
+  const keyText = c.key.join(", ");
+  const describeKey = (key: Record<string, string>) =>
+    Object.values(key)
+      .map((v) => JSON.stringify(v))
+      .join("/");
+  const lines = [
+    c.identical
+      ? `"${left}" and "${right}" are identical on key ${keyText} (${c.rows.left} rows).`
+      : `"${left}" → "${right}" on key ${keyText}: ${c.added} added, ${c.removed} removed, ${c.changed} changed, ${c.unchanged} unchanged (${c.rows.left} vs ${c.rows.right} rows).`,
+  ];
+  const changedColumns = Object.entries(c.columnChanges).sort((a, b) => b[1] - a[1]);
+  if (changedColumns.length > 0) {
+    lines.push(
+      `Changed columns: ${changedColumns.map(([name, count]) => `${name} (${count})`).join(", ")}`,
+    );
+  }
+  if (c.columns.onlyInLeft.length > 0)
+    lines.push(`Only in left: ${c.columns.onlyInLeft.join(", ")}`);
+  if (c.columns.onlyInRight.length > 0) {
+    lines.push(`Only in right: ${c.columns.onlyInRight.join(", ")}`);
+  }
+  if (c.duplicateKeys.left + c.duplicateKeys.right > 0) {
+    lines.push(
+      `Duplicate keys skipped: ${c.duplicateKeys.left} left, ${c.duplicateKeys.right} right.`,
+    );
+  }
+  if (c.samples.added.length > 0) {
+    lines.push(`Added: ${c.samples.added.map(describeKey).join(", ")}`);
+  }
+  if (c.samples.removed.length > 0) {
+    lines.push(`Removed: ${c.samples.removed.map(describeKey).join(", ")}`);
+  }
+  for (const row of c.samples.changed) {
+    const changes = Object.entries(row.changes)
+      .map(
+        ([name, { left: before, right: after }]) =>
+          `${name} ${JSON.stringify(before)} → ${JSON.stringify(after)}`,
+      )
+      .join(", ");
+    lines.push(`Changed ${describeKey(row.key)}: ${changes}`);
+  }
+  return lines.join("\n");
+}
+
+interface ColumnReader {
+  recipe: string;
+  type?: string;
+  outputs: string[];
+  /** Affected columns named in the recipe settings or code. */
+  columns: string[];
+}
+
+/**
+ * Finds the recipes reading `datasetName` in the flow graph and checks which
+ * of `columns` their definition or payload mentions. This is a text match, so
+ * it can over-report; unreachable metadata becomes a warning, not an error.
+ */
+async function downstreamColumnReaders(
+  projectKey: string,
+  datasetName: string,
+  columns: string[],
+): Promise<{ readers: ColumnReader[]; warnings: string[] }> {
+  if (columns.length === 0) return { readers: [], warnings: [] };
+  let map: NormalizedFlowMap;
+  try {
+    ({ map } = await loadFlowMap(projectKey));
+  } catch (error) {
+    return {
+      readers: [],
+      warnings: [`could not load the flow graph to check downstream recipes: ${String(error)}`],
+    };
+  }
+  const enc = encodeURIComponent(projectKey);
+  const recipes = map.edges
+    .filter((edge) => edge.from === datasetName && edge.relation === "reads")
+    .map((edge) => edge.to);
+  const warnings: string[] = [];
+  const readers: ColumnReader[] = [];
+  for (const recipe of [...new Set(recipes)].sort()) {
+    const outputs = map.edges
+      .filter((edge) => edge.from === recipe && edge.relation === "writes")
+      .map((edge) => edge.to);
+    try {
+      const { recipe: definition, payload } = await get<{
+        recipe?: Record<string, unknown>;
+        payload?: string;
+      }>(`/public/api/projects/${enc}/recipes/${encodeURIComponent(recipe)}`);
+      const { inputs: _inputs, outputs: _outputs, ...settings } = definition ?? {};
+      readers.push({
+        recipe,
+        type: asString(definition?.type),
+        outputs,
+        columns: referencedColumns(`${JSON.stringify(settings)}\n${payload ?? ""}`, columns),
+      });
+    } catch (error) {
+      warnings.push(`could not read recipe "${recipe}": ${String(error)}`);
+    }
+  }
+  return { readers, warnings };
+}
+
+function unknownColumnResult(error: UnknownColumnError) {
+  return {
+    content: [{ type: "text" as const, text: `Error: ${error.message}` }],
+    structuredContent: {
+      ok: false,
+      reason: "unknown_column",
+      column: error.column,
+      availableColumns: error.available,
+    },
+    isError: true,
+  };
+}
+
 export function tsvLineToCSV(line: string): string {
   const fields: string[] = [];
   let field = "";
@@ -379,10 +558,175 @@ export function tsvLineToCSV(line: string): string {
   return rowToCsv(fields);
 }
 
+interface DatasetStorage {
+  type: string;
+  managed: boolean;
+  connection: string | null;
+  /** Table (schema-qualified when known) or path the data lives in. */
+  location: string | null;
+}
+
+async function describeStorage(projectEnc: string, datasetEnc: string): Promise<DatasetStorage> {
+  const d = await get<{
+    type?: string;
+    managed?: boolean;
+    params?: { connection?: string; path?: string; table?: string; schema?: string };
+  }>(`/public/api/projects/${projectEnc}/datasets/${datasetEnc}`);
+  const params = d.params ?? {};
+  const table = params.table ? [params.schema, params.table].filter(Boolean).join(".") : undefined;
+  return {
+    type: d.type ?? "unknown",
+    managed: d.managed ?? false,
+    connection: params.connection ?? null,
+    location: table ?? params.path ?? null,
+  };
+}
+
+function formatStorage(storage: DatasetStorage): string {
+  const where = storage.connection
+    ? `${storage.type} connection "${storage.connection}"`
+    : storage.type;
+  return storage.location ? `${where} at ${storage.location}` : where;
+}
+
+function formatColumns(columns: Array<{ name: string; type: string }>): string {
+  const shown = columns
+    .slice(0, 20)
+    .map((c) => `${c.name} (${c.type})`)
+    .join(", ");
+  return columns.length > 20 ? `${shown}, +${columns.length - 20} more` : shown;
+}
+
+async function importLocalFile({
+  projectKey,
+  datasetName,
+  localPath,
+  connection,
+  format,
+  schema,
+  preview,
+  limit,
+}: {
+  projectKey: string;
+  datasetName: string;
+  localPath: string;
+  connection?: string;
+  format?: ImportFormat;
+  schema?: Array<{ name: string; type: string }>;
+  preview?: boolean;
+  limit?: number;
+}) {
+  const enc = encodeURIComponent(projectKey);
+  const dsEnc = encodeURIComponent(datasetName);
+
+  let inspection: FileInspection;
+  try {
+    inspection = await inspectLocalFile(localPath, format);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{ type: "text" as const, text: `Error: cannot import "${localPath}": ${message}` }],
+      structuredContent: { ok: false, reason: "unreadable_file", localPath, message },
+      isError: true,
+    };
+  }
+
+  const columns = schema ?? inspection.columns;
+  if (schema) {
+    const problems = checkDeclaredSchema(inspection, schema);
+    if (problems.length > 0) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: [
+              `Error: "${localPath}" does not match the declared schema; nothing was created.`,
+              ...problems.map((p) => `• ${p}`),
+              `Detected columns: ${formatColumns(inspection.columns)}`,
+            ].join("\n"),
+          },
+        ],
+        structuredContent: {
+          ok: false,
+          reason: "schema_mismatch",
+          problems,
+          detectedColumns: inspection.columns,
+        },
+        isError: true,
+      };
+    }
+  }
+
+  await post(`/public/api/projects/${enc}/datasets/`, {
+    projectKey,
+    name: datasetName,
+    type: "UploadedFiles",
+    params: connection ? { uploadConnection: connection } : {},
+    ...uploadedFormat(inspection),
+    schema: { columns, userModified: schema !== undefined },
+    managed: false,
+  });
+
+  const { size } = await stat(localPath);
+  await reportProgress({
+    progress: 0,
+    total: size,
+    message: `Uploading ${localPath} (${formatBytes(size)})`,
+  });
+  try {
+    await upload(`/public/api/projects/${enc}/datasets/${dsEnc}/uploaded/files`, localPath, {
+      describeProgress: (bytes) =>
+        `Uploading ${localPath}: ${formatBytes(bytes)} of ${formatBytes(size)} sent`,
+    });
+  } catch (error) {
+    // Leave no empty dataset behind when the file never arrived.
+    await runIgnoringCancellation(() => del(`/public/api/projects/${enc}/datasets/${dsEnc}`)).catch(
+      () => undefined,
+    );
+    throw error;
+  }
+
+  const parts = [
+    `Imported "${localPath}" into dataset "${datasetName}" (${inspection.format}${inspection.gzip ? ", gzip" : ""}, ${formatBytes(size)}).`,
+    `Schema (${columns.length} cols${schema ? ", declared" : ", detected"}): ${formatColumns(columns)}`,
+  ];
+  let previewCsv: string | undefined;
+  if (preview) {
+    const previewLimit = Math.max(1, Math.min(limit ?? 20, 500));
+    const res = await stream(
+      `/public/api/projects/${enc}/datasets/${dsEnc}/data/?format=tsv-excel-header&limit=${previewLimit}`,
+    );
+    previewCsv = await collectPreviewCsv(
+      res.body as ReadableStream<Uint8Array>,
+      new RowSelector({}, previewLimit),
+    );
+    parts.push(previewCsv || "No data.");
+  }
+
+  return {
+    content: [{ type: "text" as const, text: parts.join("\n") }],
+    structuredContent: {
+      ok: true,
+      datasetName,
+      imported: true,
+      localPath,
+      sizeBytes: size,
+      format: inspection.format,
+      gzip: inspection.gzip,
+      ...(inspection.separator ? { separator: inspection.separator } : {}),
+      columns,
+      schemaSource: schema ? "declared" : "detected",
+      ...(inspection.rowCount !== undefined ? { rowCount: inspection.rowCount } : {}),
+      ...(previewCsv !== undefined ? { preview: previewCsv } : {}),
+    },
+  };
+}
+
 const datasetInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("list"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     limit: z.number().int().min(1).optional(),
     offset: z.number().int().min(0).optional(),
     query: z.string().optional(),
@@ -391,6 +735,7 @@ const datasetInputSchema = z.discriminatedUnion("action", [
     .object({
       action: z.literal("create"),
       projectKey: optionalProjectKey,
+      instance: optionalInstance,
       datasetName: z.string(),
       connection: z.string(),
       type: z.string().optional(),
@@ -405,42 +750,117 @@ const datasetInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("get"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
     includeDefinition: z.boolean().optional(),
   }),
   z.object({
     action: z.literal("schema"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
   }),
   z.object({
     action: z.literal("metadata"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
   }),
   z.object({
     action: z.literal("delete"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
+    datasetName: z.string(),
+    dropData: z.boolean().optional(),
+    confirm: optionalConfirm,
+  }),
+  z.object({
+    action: z.literal("clear"),
+    projectKey: optionalProjectKey,
+    instance: optionalInstance,
+    datasetName: z.string(),
+    partition: optionalPartition,
+    confirm: optionalConfirm,
+  }),
+  z.object({
+    action: z.literal("partitions"),
+    projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
+    limit: z.number().int().min(1).optional(),
+    offset: z.number().int().min(0).optional(),
+    query: z.string().optional(),
   }),
   z.object({
     action: z.literal("preview"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
     limit: z.number().int().min(1).optional(),
+    partition: optionalPartition,
+    ...rowSelectionShape,
   }),
   z.object({
     action: z.literal("download"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
     limit: z.number().int().min(1).optional(),
     outputDir: z.string().optional(),
+    partition: optionalPartition,
+    format: z.enum(DOWNLOAD_FORMATS).optional(),
+    ...rowSelectionShape,
+  }),
+  z.object({
+    action: z.literal("profile"),
+    projectKey: optionalProjectKey,
+    instance: optionalInstance,
+    datasetName: z.string(),
+    limit: z.number().int().min(1).optional(),
+    topK: z.number().int().min(1).max(50).optional(),
+    partition: optionalPartition,
+    ...rowSelectionShape,
+  }),
+  z.object({
+    action: z.literal("compare"),
+    projectKey: optionalProjectKey,
+    instance: optionalInstance,
+    datasetName: z.string(),
+    otherDatasetName: z.string(),
+    otherProjectKey: z.string().optional(),
+    key: z.array(z.string().min(1)).min(1),
+    ignoreColumns: z.array(z.string()).optional(),
+    limit: z.number().int().min(1).optional(),
+    samples: z.number().int().min(0).max(100).optional(),
+  }),
+  z.object({
+    action: z.literal("schemaEdit"),
+    projectKey: optionalProjectKey,
+    instance: optionalInstance,
+    datasetName: z.string(),
+    operations: z.array(schemaOperationSchema).min(1),
+    dryRun: z.boolean().optional(),
+    ...concurrencyFields,
+  }),
+  z.object({
+    action: z.literal("import"),
+    projectKey: optionalProjectKey,
+    instance: optionalInstance,
+    datasetName: z.string(),
+    localPath: z.string(),
+    connection: z.string().optional(),
+    format: z.enum(["csv", "tsv", "jsonl", "parquet"]).optional(),
+    schema: z.array(z.object({ name: z.string(), type: z.string() })).optional(),
+    preview: z.boolean().optional(),
+    limit: z.number().int().min(1).optional(),
   }),
   z.object({
     action: z.literal("update"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
-    data: z.record(z.string(), z.unknown()),
+    ...updatePatchFields,
+    ...concurrencyFields,
   }),
 ]);
 
@@ -450,8 +870,29 @@ export function register(server: McpServer) {
     "dataset",
     {
       description:
-        "Dataset ops: list/get/schema/preview/metadata/download/create/update/delete. get is summary-first; set includeDefinition=true to include full JSON definition.",
+        "Dataset ops: list/get/schema/partitions/preview/profile/compare/metadata/download/create/import/update/schemaEdit/clear/delete. get is summary-first; set includeDefinition=true to include full JSON definition. import uploads a local CSV/TSV/JSONL/Parquet file (optionally .gz) as a new UploadedFiles dataset; the schema is detected unless given, and a given schema is type-checked against the file first. preview/download/clear accept partition (id, comma list, or start/end range); every identifier and range must match an existing partition. download format: csv.gz (default), csv, jsonl, parquet or arrow; typed formats take column types from the dataset schema. preview/download accept columns (projection), filter (DSS formula string, or [{column, op, value}] conditions that must all hold; op: eq/ne/gt/gte/lt/lte/in/contains/startsWith/endsWith/isEmpty/isNotEmpty) and sampling (head, random, last); they run in DSS when supported, otherwise condition filters and sampling are applied while streaming. profile streams up to limit rows (default 10000) and returns per-column null rate, distinct estimate, min/max, mean/stddev, topK values, string lengths and the share of values not matching the schema type; it takes the same partition/columns/filter/sampling. compare diffs datasetName (left) against otherDatasetName (right, optionally in otherProjectKey), aligning rows on the key columns, and reports added/removed/changed rows, per-column change counts and sample differences. update takes data (deep merge; arrays replaced, or matched by id/name/ref with arrayMerge=byKey and removed with {$delete:true}), patch (RFC 6902 JSON Patch operations) or mergePatch (RFC 7396), and returns the changes actually made; it re-reads the dataset before writing and fails with reason conflict if its version (from get) changed, unless expectedVersion matches or force=true. schemaEdit applies column operations in order ({op:add,name,type,after?} | {op:drop,column} | {op:rename,column,to} | {op:retype,column,type} | {op:reorder,columns} | {op:set,column,comment?,meaning?}) in one read-modify-write, returns the before/after diff and warns about downstream recipes referencing dropped, renamed or retyped columns; dryRun=true only previews and counts as a read. schemaEdit has the same conflict check as update (expectedVersion, force). clear empties data but keeps the definition; delete drops managed data only with dropData=true.",
       inputSchema: datasetInputSchema,
+      actions: {
+        list: "read",
+        get: "read",
+        schema: "read",
+        partitions: "read",
+        metadata: "read",
+        preview: "read",
+        profile: "read",
+        compare: "read",
+        download: "read",
+        create: "write",
+        import: "write",
+        update: "write",
+        // A preview reads the dataset and the flow but writes nothing.
+        schemaEdit: {
+          returns: ["read", "write"],
+          resolve: (args) => (args.dryRun === true ? "read" : "write"),
+        },
+        clear: "destructive",
+        delete: "destructive",
+      },
     },
     async (args: Record<string, unknown>) => {
       const {
@@ -462,8 +903,9 @@ export function register(server: McpServer) {
         offset,
         query,
         outputDir,
-        data,
         includeDefinition,
+        partition,
+        dropData,
       } = args as {
         action: string;
         projectKey?: string;
@@ -472,8 +914,9 @@ export function register(server: McpServer) {
         offset?: number;
         query?: string;
         outputDir?: string;
-        data?: Record<string, unknown>;
         includeDefinition?: boolean;
+        partition?: string;
+        dropData?: boolean;
       };
       const raw = args as Record<string, unknown>;
       const pk = getProjectKey(projectKey);
@@ -617,12 +1060,24 @@ export function register(server: McpServer) {
 
       const dsEnc = encodeURIComponent(datasetName);
 
-      if (action === "delete") {
-        await del(`/public/api/projects/${enc}/datasets/${dsEnc}`);
-        return {
-          content: [{ type: "text", text: `Dataset "${datasetName}" deleted.` }],
-          structuredContent: { ok: true, datasetName, deleted: true },
-        };
+      if (action === "import") {
+        const localPath = asString(raw.localPath);
+        if (!localPath) {
+          return {
+            content: [{ type: "text", text: "Error: localPath is required for import." }],
+            isError: true,
+          };
+        }
+        return importLocalFile({
+          projectKey: pk,
+          datasetName,
+          localPath: resolveLocalPath(localPath),
+          connection: asString(raw.connection),
+          format: raw.format as ImportFormat | undefined,
+          schema: raw.schema as Array<{ name: string; type: string }> | undefined,
+          preview: raw.preview === true,
+          limit,
+        });
       }
 
       if (action === "get") {
@@ -715,26 +1170,122 @@ export function register(server: McpServer) {
           structuredContent: {
             ok: true,
             dataset: summary,
+            version: versionOf(d),
             ...(includeDefinition ? { definition: d } : {}),
           },
         };
       }
 
       if (action === "update") {
-        if (!data) {
+        const current = await get<Record<string, unknown>>(
+          `/public/api/projects/${enc}/datasets/${dsEnc}`,
+          { bypassCache: true },
+        );
+        const update = applyUpdatePatch(current, raw as UpdatePatchInput);
+        if (!update.ok) return invalidPatchResult(update);
+        if (update.changes.length > 0) {
+          const conflict = await findConflict({
+            current,
+            next: update.next,
+            input: raw as ConcurrencyInput,
+            refetch: () =>
+              get<Record<string, unknown>>(`/public/api/projects/${enc}/datasets/${dsEnc}`, {
+                bypassCache: true,
+              }),
+          });
+          if (conflict) return conflictResult(`Dataset "${datasetName}"`, conflict);
+          await put<Record<string, unknown>>(
+            `/public/api/projects/${enc}/datasets/${dsEnc}`,
+            update.next,
+          );
+        }
+        return {
+          content: [{ type: "text", text: updateText(`Dataset "${datasetName}"`, update.changes) }],
+          structuredContent: {
+            ok: true,
+            datasetName,
+            updated: update.changes.length > 0,
+            mode: update.mode,
+            changes: update.changes,
+          },
+        };
+      }
+
+      if (action === "schemaEdit") {
+        const operations = raw.operations as SchemaOperation[] | undefined;
+        if (!operations?.length) {
           return {
-            content: [{ type: "text", text: "Error: data is required for update." }],
+            content: [{ type: "text", text: "Error: operations are required for schemaEdit." }],
             isError: true,
           };
         }
         const current = await get<Record<string, unknown>>(
           `/public/api/projects/${enc}/datasets/${dsEnc}`,
+          { bypassCache: true },
         );
-        const merged = deepMerge(current, data);
-        await put<Record<string, unknown>>(`/public/api/projects/${enc}/datasets/${dsEnc}`, merged);
+        const schema = asRecord(current.schema) ?? {};
+        const before = (schema.columns as SchemaColumn[] | undefined) ?? [];
+        let edit: SchemaEditResult;
+        try {
+          edit = applySchemaEdits(before, operations);
+        } catch (error) {
+          if (!(error instanceof SchemaEditError)) throw error;
+          return {
+            content: [{ type: "text", text: `Error: ${error.message}` }],
+            structuredContent: {
+              ok: false,
+              reason: "invalid_schema_edit",
+              operation: error.operation,
+              message: error.message,
+            },
+            isError: true,
+          };
+        }
+        const downstream = await downstreamColumnReaders(pk, datasetName, edit.affected);
+        const dryRun = raw.dryRun === true;
+        if (!dryRun && edit.changes.length > 0) {
+          const next = {
+            ...current,
+            schema: { ...schema, columns: edit.columns, userModified: true },
+          };
+          const conflict = await findConflict({
+            current,
+            next,
+            input: raw as ConcurrencyInput,
+            refetch: () =>
+              get<Record<string, unknown>>(`/public/api/projects/${enc}/datasets/${dsEnc}`, {
+                bypassCache: true,
+              }),
+          });
+          if (conflict) return conflictResult(`Dataset "${datasetName}"`, conflict);
+          await put<Record<string, unknown>>(`/public/api/projects/${enc}/datasets/${dsEnc}`, next);
+        }
+        const lines = [
+          edit.changes.length === 0
+            ? `Schema of "${datasetName}" is unchanged.`
+            : `${dryRun ? "Would change" : "Changed"} schema of "${datasetName}":`,
+          ...edit.changes.map(formatSchemaChange),
+        ];
+        for (const reader of downstream.readers.filter((r) => r.columns.length > 0)) {
+          lines.push(
+            `Warning: recipe "${reader.recipe}" reads ${reader.columns.map((c) => `"${c}"`).join(", ")}${reader.outputs.length ? ` (feeds ${reader.outputs.join(", ")})` : ""}.`,
+          );
+        }
+        lines.push(...downstream.warnings.map((w) => `Warning: ${w}`));
         return {
-          content: [{ type: "text", text: `Dataset "${datasetName}" updated.` }],
-          structuredContent: { ok: true, datasetName, updated: true },
+          content: [{ type: "text", text: lines.join("\n") }],
+          structuredContent: {
+            ok: true,
+            datasetName,
+            applied: !dryRun && edit.changes.length > 0,
+            dryRun,
+            before: before.map(({ name, type }) => ({ name, type })),
+            after: edit.columns.map(({ name, type }) => ({ name, type })),
+            changes: edit.changes,
+            affectedColumns: edit.affected,
+            downstream: downstream.readers,
+            ...(downstream.warnings.length ? { warnings: downstream.warnings } : {}),
+          },
         };
       }
 
@@ -749,15 +1300,263 @@ export function register(server: McpServer) {
         };
       }
 
+      if (action === "partitions") {
+        const partitions = await listPartitions(enc, dsEnc);
+        const filtered = filterByQuery(partitions, query, (id) => [id]);
+        const {
+          items: page,
+          offset: pageOffset,
+          limit: pageLimit,
+          hasMore,
+        } = paginateItems(filtered, limit, offset);
+        const text =
+          partitions.length === 0
+            ? `Dataset "${datasetName}" is not partitioned.`
+            : formatBulletText(page, emptyListText("partitions"));
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            ok: true,
+            datasetName,
+            partitioned: partitions.length > 0,
+            total: partitions.length,
+            filtered: filtered.length,
+            offset: pageOffset,
+            limit: pageLimit,
+            query: query ?? null,
+            items: page,
+            hasMore,
+          },
+        };
+      }
+
+      let partitionQuery = "";
+      let partitions: string[] | undefined;
+      if (
+        partition &&
+        (action === "preview" ||
+          action === "profile" ||
+          action === "download" ||
+          action === "clear")
+      ) {
+        const selection = await selectPartitions(enc, dsEnc, datasetName, partition);
+        if (!selection.ok) {
+          return {
+            content: [{ type: "text", text: selection.text }],
+            structuredContent: {
+              ok: false,
+              reason: selection.reason,
+              partition,
+              ...(selection.unmatched ? { unmatched: selection.unmatched } : {}),
+            },
+            isError: true,
+          };
+        }
+        partitionQuery = `&${partitionsParam(selection.partitions)}`;
+        partitions = selection.partitions;
+      }
+
+      if (action === "delete") {
+        if (!dropData) {
+          await del(`/public/api/projects/${enc}/datasets/${dsEnc}`);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dataset "${datasetName}" deleted; its data was left in place.`,
+              },
+            ],
+            structuredContent: { ok: true, datasetName, deleted: true, dataDropped: false },
+          };
+        }
+        const storage = await describeStorage(enc, dsEnc);
+        await del(`/public/api/projects/${enc}/datasets/${dsEnc}?dropData=true`);
+        // DSS only drops data it manages; external tables and paths are never touched.
+        const where = formatStorage(storage);
+        const text = storage.managed
+          ? `Dataset "${datasetName}" deleted; data dropped from ${where}.`
+          : `Dataset "${datasetName}" deleted. It is not managed, so its data in ${where} was left in place.`;
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            ok: true,
+            datasetName,
+            deleted: true,
+            dataDropped: storage.managed,
+            storage,
+          },
+        };
+      }
+
+      if (action === "clear") {
+        const storage = await describeStorage(enc, dsEnc);
+        const partitionQuery = partitions ? `?${partitionsParam(partitions)}` : "";
+        await del(`/public/api/projects/${enc}/datasets/${dsEnc}/data${partitionQuery}`);
+        const scope = partitions
+          ? `${partitions.length} partition${partitions.length === 1 ? "" : "s"} of`
+          : "all data of";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Cleared ${scope} dataset "${datasetName}" in ${formatStorage(storage)}; the definition is kept.`,
+            },
+          ],
+          structuredContent: {
+            ok: true,
+            datasetName,
+            cleared: true,
+            partitions: partitions ?? null,
+            storage,
+          },
+        };
+      }
+
+      const dataUrl = `/public/api/projects/${enc}/datasets/${dsEnc}/data/?format=tsv-excel-header${partitionQuery}`;
+      const rowSelection: RowSelection = {
+        columns: raw.columns as string[] | undefined,
+        filter: raw.filter as RowSelection["filter"],
+        sampling: raw.sampling as Sampling | undefined,
+      };
+      if (Array.isArray(rowSelection.filter)) {
+        const problem = validateConditions(rowSelection.filter);
+        if (problem) {
+          return {
+            content: [{ type: "text", text: `Error: ${problem}` }],
+            structuredContent: { ok: false, reason: "invalid_filter", message: problem },
+            isError: true,
+          };
+        }
+      }
+
       if (action === "preview") {
         const previewLimit = Math.max(1, Math.min(limit ?? 20, 500));
-        const res = await stream(
-          `/public/api/projects/${enc}/datasets/${dsEnc}/data/?format=tsv-excel-header&limit=${previewLimit}`,
-        );
-        const csv = await collectPreviewCsv(res.body as ReadableStream<Uint8Array>, previewLimit);
+        const selected = await streamSelectedData(dataUrl, rowSelection, previewLimit);
+        let csv: string;
+        try {
+          csv = await collectPreviewCsv(
+            selected.res.body as ReadableStream<Uint8Array>,
+            selected.selector,
+          );
+        } catch (error) {
+          if (error instanceof UnknownColumnError) return unknownColumnResult(error);
+          throw error;
+        }
         return {
           content: [{ type: "text", text: csv || "No data." }],
-          structuredContent: { ok: true, datasetName, previewLimit, format: "csv" },
+          structuredContent: {
+            ok: true,
+            datasetName,
+            previewLimit,
+            format: "csv",
+            ...(partitions ? { partitions } : {}),
+            ...(hasSelection(rowSelection)
+              ? { selection: selectionSummary(rowSelection, selected) }
+              : {}),
+          },
+        };
+      }
+
+      if (action === "profile") {
+        const profileLimit = Math.max(1, limit ?? 10_000);
+        const { columns: schemaColumns } = await get<{
+          columns: Array<{ name: string; type: string }>;
+        }>(`/public/api/projects/${enc}/datasets/${dsEnc}/schema`);
+        const selected = await streamSelectedData(dataUrl, rowSelection, profileLimit);
+        const profiler = new DatasetProfiler(schemaColumns, (raw.topK as number | undefined) ?? 5);
+        try {
+          await readSelectedRows(
+            selected.res.body as ReadableStream<Uint8Array>,
+            selected.selector,
+            (row) => {
+              profiler.add(row);
+            },
+          );
+        } catch (error) {
+          if (error instanceof UnknownColumnError) return unknownColumnResult(error);
+          throw error;
+        }
+        const profiles = profiler.result();
+        const header = `Profiled ${profiler.rows} row${profiler.rows === 1 ? "" : "s"} of "${datasetName}"${profiler.rows >= profileLimit ? ` (limit ${profileLimit})` : ""}.`;
+        return {
+          content: [
+            {
+              type: "text",
+              text: [header, ...profiles.map((profile) => `- ${formatProfileLine(profile)}`)].join(
+                "\n",
+              ),
+            },
+          ],
+          structuredContent: {
+            ok: true,
+            datasetName,
+            rows: profiler.rows,
+            limit: profileLimit,
+            columns: profiles,
+            ...(partitions ? { partitions } : {}),
+            ...(hasSelection(rowSelection)
+              ? { selection: selectionSummary(rowSelection, selected) }
+              : {}),
+          },
+        };
+      }
+
+      if (action === "compare") {
+        const otherDatasetName = asString(raw.otherDatasetName);
+        const key = raw.key as string[] | undefined;
+        if (!otherDatasetName || !key?.length) {
+          return {
+            content: [
+              { type: "text", text: "Error: otherDatasetName and key are required for compare." },
+            ],
+            isError: true,
+          };
+        }
+        const otherProjectKey = asString(raw.otherProjectKey) ?? pk;
+        // registerTool only checks projectKey; the right side is read from otherProjectKey.
+        const decision = evaluatePolicy({
+          tool: "dataset",
+          action: "compare",
+          projectKey: otherProjectKey,
+        });
+        if (!decision.allowed) {
+          return policyDeniedResult("dataset", "compare", otherProjectKey, decision);
+        }
+        const limitQuery = limit ? `&limit=${limit}` : "";
+        const dataBody = async (projectEnc: string, datasetEnc: string) =>
+          (
+            await stream(
+              `/public/api/projects/${projectEnc}/datasets/${datasetEnc}/data/?format=tsv-excel-header${limitQuery}`,
+            )
+          ).body;
+        let comparison: DatasetComparison;
+        try {
+          comparison = await compareDatasets(
+            () => dataBody(enc, dsEnc),
+            () =>
+              dataBody(encodeURIComponent(otherProjectKey), encodeURIComponent(otherDatasetName)),
+            {
+              key,
+              ignoreColumns: raw.ignoreColumns as string[] | undefined,
+              limit,
+              samples: (raw.samples as number | undefined) ?? 5,
+            },
+            (message, progress, total) => reportProgress({ progress, total, message }),
+          );
+        } catch (error) {
+          if (error instanceof UnknownColumnError) return unknownColumnResult(error);
+          throw error;
+        }
+        const right =
+          otherProjectKey === pk ? otherDatasetName : `${otherProjectKey}.${otherDatasetName}`;
+        return {
+          content: [{ type: "text", text: formatComparison(datasetName, right, comparison) }],
+          structuredContent: {
+            ok: true,
+            left: { projectKey: pk, datasetName },
+            right: { projectKey: otherProjectKey, datasetName: otherDatasetName },
+            ...comparison,
+          },
         };
       }
 
@@ -792,26 +1591,61 @@ export function register(server: McpServer) {
 
       // action === "download"
       const downloadLimit = Math.max(1, limit ?? 100_000);
-      const res = await stream(
-        `/public/api/projects/${enc}/datasets/${dsEnc}/data/?format=tsv-excel-header&limit=${downloadLimit}`,
-      );
+      const downloadFormat = (raw.format as DownloadFormat | undefined) ?? "csv.gz";
+      const typed = downloadFormat !== "csv" && downloadFormat !== "csv.gz";
+      const schemaColumns = typed
+        ? (
+            await get<{ columns: Array<{ name: string; type: string }> }>(
+              `/public/api/projects/${enc}/datasets/${dsEnc}/schema`,
+            )
+          ).columns
+        : [];
+      const selected = await streamSelectedData(dataUrl, rowSelection, downloadLimit);
 
-      const dir = outputDir ?? process.cwd();
+      const dir = resolveLocalPath(outputDir);
       const safeDatasetName = sanitizeFileName(datasetName, "dataset");
-      const filePath = resolve(dir, `${safeDatasetName}.csv.gz`);
+      const filePath = resolve(dir, `${safeDatasetName}.${DOWNLOAD_EXTENSIONS[downloadFormat]}`);
 
-      const nodeStream = Readable.fromWeb(res.body as import("stream/web").ReadableStream);
-      const csvTransform = tsvToCsvTransform(downloadLimit);
-      const gzip = createGzip();
+      const nodeStream = Readable.fromWeb(selected.res.body as import("stream/web").ReadableStream);
+      const stats: ExportStats = { rows: 0, invalidValues: {} };
+      const encoders = downloadEncoders(downloadFormat, schemaColumns, stats);
       const fileOut = createWriteStream(filePath);
 
-      await pipeline(nodeStream, csvTransform, gzip, fileOut);
+      const progress = progressStream(
+        (bytes) => `Downloading ${datasetName}: ${formatBytes(bytes)} received`,
+      );
+
+      try {
+        await pipeline([
+          nodeStream,
+          progress,
+          tsvRowsTransform(selected.selector),
+          ...encoders,
+          fileOut,
+        ]);
+      } catch (error) {
+        if (error instanceof UnknownColumnError) {
+          await rm(filePath, { force: true });
+          return unknownColumnResult(error);
+        }
+        if (getAbortSignal()?.aborted) {
+          await rm(filePath, { force: true });
+          throw new RequestCancelledError(
+            `Request was cancelled by the client; partial export ${filePath} removed.`,
+          );
+        }
+        throw error;
+      }
 
+      const invalidColumns = Object.entries(stats.invalidValues);
+      const notes = invalidColumns.length
+        ? ` ${invalidColumns.map(([name, count]) => `${count} value${count === 1 ? "" : "s"} in "${name}"`).join(", ")} did not match the schema type and were written as null.`
+        : "";
       return {
         content: [
           {
             type: "text",
-            text: `Dataset "${datasetName}" exported to ${filePath}`,
+            text: `Dataset "${datasetName}"${partitions ? ` (${partitions.length} partition${partitions.length === 1 ? "" : "s"})` : ""} exported to ${filePath} (${downloadFormat}, ${stats.rows} row${stats.rows === 1 ? "" : "s"}).${notes}`,
           },
         ],
         structuredContent: {
@@ -819,7 +1653,22 @@ export function register(server: McpServer) {
           datasetName,
           filePath,
           exported: true,
+          format: downloadFormat,
+          rows: stats.rows,
           limit: downloadLimit,
+          ...(typed
+            ? {
+                columns: typedColumns(
+                  rowSelection.columns ?? schemaColumns.map((c) => c.name),
+                  schemaColumns,
+                ).map(({ name, dssType, kind }) => ({ name, type: dssType, exportedAs: kind })),
+                invalidValues: stats.invalidValues,
+              }
+            : {}),
+          ...(partitions ? { partitions } : {}),
+          ...(hasSelection(rowSelection)
+            ? { selection: selectionSummary(rowSelection, selected) }
+            : {}),
         },
       };
     },
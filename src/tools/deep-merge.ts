@@ -2,18 +2,74 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
 	return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+/** Element fields that identify array items for keyed merges, in order of preference. */
+export const DEFAULT_ARRAY_MERGE_KEYS = ["id", "name", "ref"];
+
+export interface DeepMergeOptions {
+	/**
+	 * Merge arrays of objects item by item on the first of these fields that
+	 * every item on both sides has; other arrays are still replaced. A patch
+	 * item with `"$delete": true` removes its match.
+	 */
+	arrayKeys?: string[];
+}
+
+function mergeKey(
+	base: unknown[],
+	patch: unknown[],
+	keys: string[],
+): string | undefined {
+	const items = [...base, ...patch];
+	if (patch.length === 0 || !items.every(isPlainObject)) return undefined;
+	return keys.find((key) =>
+		items.every((item) => {
+			const value = (item as Record<string, unknown>)[key];
+			return typeof value === "string" || typeof value === "number";
+		}),
+	);
+}
+
+function mergeArrays(
+	base: unknown[],
+	patch: unknown[],
+	key: string,
+	options: DeepMergeOptions,
+): unknown[] {
+	const out = [...base] as Array<Record<string, unknown>>;
+	for (const item of patch as Array<Record<string, unknown>>) {
+		const index = out.findIndex((existing) => existing[key] === item[key]);
+		const { $delete, ...rest } = item;
+		if ($delete === true) {
+			if (index !== -1) out.splice(index, 1);
+		} else if (index === -1) {
+			out.push(rest);
+		} else {
+			out[index] = deepMerge(out[index], rest, options);
+		}
+	}
+	return out;
+}
+
 export function deepMerge<T extends Record<string, unknown>>(
 	base: T,
 	patch: Record<string, unknown>,
+	options: DeepMergeOptions = {},
 ): T {
 	const out: Record<string, unknown> = { ...base };
 
 	for (const [key, patchValue] of Object.entries(patch)) {
 		const baseValue = out[key];
 		if (isPlainObject(baseValue) && isPlainObject(patchValue)) {
-			out[key] = deepMerge(baseValue, patchValue);
+			out[key] = deepMerge(baseValue, patchValue, options);
 			continue;
 		}
+		if (options.arrayKeys && Array.isArray(baseValue) && Array.isArray(patchValue)) {
+			const itemKey = mergeKey(baseValue, patchValue, options.arrayKeys);
+			if (itemKey) {
+				out[key] = mergeArrays(baseValue, patchValue, itemKey, options);
+				continue;
+			}
+		}
 		out[key] = patchValue;
 	}
 
@@ -0,0 +1,220 @@
+import { Transform } from "node:stream";
+
+export const DOWNLOAD_FORMATS = ["csv", "csv.gz", "jsonl", "parquet", "arrow"] as const;
+export type DownloadFormat = (typeof DOWNLOAD_FORMATS)[number];
+
+/** Physical representation a DSS column type is exported as. */
+export type ColumnKind =
+  | "boolean"
+  | "int8"
+  | "int16"
+  | "int32"
+  | "int64"
+  | "float"
+  | "double"
+  | "timestamp"
+  | "localTimestamp"
+  | "date"
+  | "string";
+
+export interface TypedColumn {
+  name: string;
+  dssType: string;
+  kind: ColumnKind;
+}
+
+export type CellValue = boolean | number | bigint | string | null;
+
+const KINDS: Record<string, ColumnKind> = {
+  boolean: "boolean",
+  tinyint: "int8",
+  smallint: "int16",
+  int: "int32",
+  bigint: "int64",
+  float: "float",
+  double: "double",
+  date: "timestamp",
+  datetimenotz: "localTimestamp",
+  dateonly: "date",
+};
+
+const INT_RANGES: Partial<Record<ColumnKind, [number, number]>> = {
+  int8: [-128, 127],
+  int16: [-32768, 32767],
+  int32: [-2147483648, 2147483647],
+};
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const HAS_ZONE = /(Z|[+-]\d{2}:?\d{2})$/i;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Pairs the exported header with the DSS schema. Columns the schema does not
+ * describe (or types with no native representation, like arrays and
+ * geopoints) are exported as strings.
+ */
+export function typedColumns(
+  header: string[],
+  schema: Array<{ name: string; type: string }>,
+): TypedColumn[] {
+  const types = new Map(schema.map((c) => [c.name, c.type]));
+  return header.map((name) => {
+    const dssType = types.get(name) ?? "string";
+    return { name, dssType, kind: KINDS[dssType] ?? "string" };
+  });
+}
+
+/**
+ * Converts one exported cell to its typed value: numbers (bigint for int64),
+ * booleans, epoch milliseconds for timestamps and epoch days for dates. Empty
+ * cells are null; `undefined` means the text does not fit the column type.
+ */
+export function parseCell(kind: ColumnKind, text: string): CellValue | undefined {
+  if (text === "") return null;
+  switch (kind) {
+    case "string":
+      return text;
+    case "boolean": {
+      const lower = text.toLowerCase();
+      if (lower === "true") return true;
+      if (lower === "false") return false;
+      return undefined;
+    }
+    case "int8":
+    case "int16":
+    case "int32": {
+      if (!INTEGER_PATTERN.test(text)) return undefined;
+      const n = Number(text);
+      const [min, max] = INT_RANGES[kind] as [number, number];
+      return n >= min && n <= max ? n : undefined;
+    }
+    case "int64": {
+      if (!INTEGER_PATTERN.test(text)) return undefined;
+      const n = BigInt(text);
+      return BigInt.asIntN(64, n) === n ? n : undefined;
+    }
+    case "float":
+    case "double": {
+      const n = Number(text);
+      return Number.isNaN(n) && text !== "NaN" ? undefined : n;
+    }
+    case "timestamp":
+    case "localTimestamp": {
+      // Naive timestamps are read as UTC so the wall-clock value survives.
+      const ms = Date.parse(HAS_ZONE.test(text) || text.length <= 10 ? text : `${text}Z`);
+      return Number.isNaN(ms) ? undefined : ms;
+    }
+    case "date": {
+      const ms = Date.parse(text.slice(0, 10));
+      return Number.isNaN(ms) ? undefined : Math.floor(ms / MS_PER_DAY);
+    }
+  }
+}
+
+/** Rows written and, per column, cells that did not fit the schema type and were nulled. */
+export interface ExportStats {
+  rows: number;
+  invalidValues: Record<string, number>;
+}
+
+/**
+ * Base for encoders that turn parsed rows (header first) into typed output.
+ * Subclasses receive typed rows in batches so memory stays bounded by the
+ * batch size, not the dataset size.
+ */
+export abstract class TypedRowEncoder extends Transform {
+  protected columns: TypedColumn[] | undefined;
+  private batch: CellValue[][] = [];
+
+  constructor(
+    private readonly schema: Array<{ name: string; type: string }>,
+    private readonly stats: ExportStats,
+    private readonly batchSize: number,
+  ) {
+    super({ writableObjectMode: true });
+  }
+
+  protected abstract start(columns: TypedColumn[]): void;
+  protected abstract writeBatch(rows: CellValue[][]): void;
+  protected abstract finish(): void;
+
+  private ensureStarted(header?: string[]): TypedColumn[] {
+    if (!this.columns) {
+      this.columns = typedColumns(header ?? this.schema.map((c) => c.name), this.schema);
+      this.start(this.columns);
+    }
+    return this.columns;
+  }
+
+  override _transform(row: string[], _encoding: BufferEncoding, callback: () => void): void {
+    if (!this.columns) {
+      this.ensureStarted(row);
+      callback();
+      return;
+    }
+    const values = this.columns.map((column, i) => {
+      const value = parseCell(column.kind, row[i] ?? "");
+      if (value !== undefined) return value;
+      this.stats.invalidValues[column.name] = (this.stats.invalidValues[column.name] ?? 0) + 1;
+      return null;
+    });
+    this.batch.push(values);
+    this.stats.rows += 1;
+    if (this.batch.length >= this.batchSize) this.flushBatch();
+    callback();
+  }
+
+  override _flush(callback: () => void): void {
+    this.ensureStarted();
+    this.flushBatch();
+    this.finish();
+    callback();
+  }
+
+  private flushBatch(): void {
+    if (this.batch.length === 0) return;
+    const rows = this.batch;
+    this.batch = [];
+    this.writeBatch(rows);
+  }
+}
+
+function jsonValue(column: TypedColumn, value: CellValue): string {
+  if (value === null) return "null";
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "number") {
+    if (column.kind === "timestamp" || column.kind === "localTimestamp") {
+      const iso = new Date(value).toISOString();
+      return JSON.stringify(column.kind === "timestamp" ? iso : iso.slice(0, -1));
+    }
+    if (column.kind === "date") {
+      return JSON.stringify(new Date(value * MS_PER_DAY).toISOString().slice(0, 10));
+    }
+    return Number.isFinite(value) ? String(value) : "null";
+  }
+  if (typeof value === "string" && ["array", "map", "object"].includes(column.dssType)) {
+    try {
+      return JSON.stringify(JSON.parse(value));
+    } catch {
+      return JSON.stringify(value);
+    }
+  }
+  return JSON.stringify(value);
+}
+
+/** One JSON object per line, keyed by column name, with typed values. */
+export class JsonLinesEncoder extends TypedRowEncoder {
+  protected start(): void {}
+
+  protected writeBatch(rows: CellValue[][]): void {
+    const columns = this.columns as TypedColumn[];
+    const keys = columns.map((c) => JSON.stringify(c.name));
+    const lines = rows.map(
+      (row) =>
+        `{${row.map((value, i) => `${keys[i]}:${jsonValue(columns[i], value)}`).join(",")}}\n`,
+    );
+    this.push(lines.join(""));
+  }
+
+  protected finish(): void {}
+}
@@ -0,0 +1,427 @@
+import { createReadStream } from "node:fs";
+import { open } from "node:fs/promises";
+import { basename } from "node:path";
+import type { Readable } from "node:stream";
+import { createGunzip } from "node:zlib";
+import { readParquetSchema } from "./parquet-schema.js";
+import { consumeTsvChunk, createTsvStreamState, flushTsvStream } from "./tsv.js";
+
+export type ImportFormat = "csv" | "tsv" | "jsonl" | "parquet";
+
+export interface ImportColumn {
+  name: string;
+  type: string;
+}
+
+export interface FileInspection {
+  format: ImportFormat;
+  gzip: boolean;
+  /** Field separator for csv/tsv files. */
+  separator?: string;
+  columns: ImportColumn[];
+  /** Sampled rows keyed by column name; empty for Parquet, whose types come from the footer. */
+  sample: Array<Record<string, unknown>>;
+  /** Exact row count when the format records it (Parquet). */
+  rowCount?: number;
+}
+
+const SAMPLE_ROWS = 1000;
+const MAX_PROBLEMS = 10;
+const SEPARATOR_CANDIDATES = [",", "\t", ";", "|"];
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  csv: "csv",
+  txt: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  jsonl: "jsonl",
+  ndjson: "jsonl",
+  json: "jsonl",
+  parquet: "parquet",
+  pq: "parquet",
+};
+
+async function readHead(filePath: string, length: number): Promise<Buffer> {
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Works out the format from the file extension (a trailing .gz marks gzip),
+ * falling back to the leading bytes: Parquet magic, a JSON object, else CSV.
+ */
+export async function detectFileFormat(
+  filePath: string,
+): Promise<{ format: ImportFormat; gzip: boolean }> {
+  const parts = basename(filePath).toLowerCase().split(".");
+  let gzip = parts.length > 1 && parts[parts.length - 1] === "gz";
+  const extension = parts.length > (gzip ? 2 : 1) ? parts[parts.length - (gzip ? 2 : 1)] : "";
+  const head = await readHead(filePath, 4);
+  if (head[0] === 0x1f && head[1] === 0x8b) gzip = true;
+
+  const byExtension = EXTENSION_FORMATS[extension];
+  if (byExtension) return { format: byExtension, gzip };
+  if (!gzip && head.toString("latin1") === "PAR1") return { format: "parquet", gzip };
+
+  const text = gzip ? await readGzipHead(filePath) : (await readHead(filePath, 512)).toString();
+  return { format: text.trimStart().startsWith("{") ? "jsonl" : "csv", gzip };
+}
+
+async function readGzipHead(filePath: string): Promise<string> {
+  for await (const chunk of openText(filePath, true)) {
+    return chunk as string;
+  }
+  return "";
+}
+
+function openText(filePath: string, gzip: boolean): Readable {
+  const raw = createReadStream(filePath);
+  const source = gzip ? raw.pipe(createGunzip()) : raw;
+  if (gzip) source.on("close", () => raw.destroy());
+  source.setEncoding("utf-8");
+  return source;
+}
+
+/** Picks the candidate separator that occurs most often outside quotes in the first line. */
+export function sniffSeparator(text: string): string {
+  const counts = new Map<string, number>();
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === "\n" || ch === "\r")) break;
+    else if (!inQuotes && SEPARATOR_CANDIDATES.includes(ch)) {
+      counts.set(ch, (counts.get(ch) ?? 0) + 1);
+    }
+  }
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of SEPARATOR_CANDIDATES) {
+    const count = counts.get(candidate) ?? 0;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** DSS type of a single value; null for empty cells, which do not constrain the type. */
+export function inferValueType(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "number") return Number.isInteger(value) ? "bigint" : "double";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "object") return "object";
+  const text = String(value);
+  if (INTEGER_PATTERN.test(text)) return "bigint";
+  if (DECIMAL_PATTERN.test(text)) return "double";
+  if (BOOLEAN_PATTERN.test(text)) return "boolean";
+  if (DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(text))) return "date";
+  return "string";
+}
+
+export function mergeTypes(a: string | null, b: string | null): string | null {
+  if (a === null) return b;
+  if (b === null || a === b) return a;
+  const numeric = new Set(["bigint", "double"]);
+  if (numeric.has(a) && numeric.has(b)) return "double";
+  return "string";
+}
+
+/** Infers column types from sampled rows; columns with only empty values become strings. */
+export function inferColumns(
+  names: string[],
+  rows: Array<Record<string, unknown>>,
+): ImportColumn[] {
+  return names.map((name) => {
+    let type: string | null = null;
+    for (const row of rows) {
+      type = mergeTypes(type, inferValueType(row[name]));
+      if (type === "string") break;
+    }
+    return { name, type: type ?? "string" };
+  });
+}
+
+async function sampleDelimited(
+  filePath: string,
+  gzip: boolean,
+  separator: string | undefined,
+): Promise<{ separator: string; header: string[]; rows: string[][] }> {
+  let state: ReturnType<typeof createTsvStreamState> | undefined;
+  const rows: string[][] = [];
+  let header: string[] | undefined;
+  const onRow = (row: string[]) => {
+    if (row.length === 1 && row[0] === "") return;
+    if (!header) header = row;
+    else if (rows.length < SAMPLE_ROWS) rows.push(row);
+  };
+
+  const source = openText(filePath, gzip);
+  for await (const chunk of source) {
+    state ??= createTsvStreamState(separator ?? sniffSeparator(chunk as string));
+    consumeTsvChunk(chunk as string, state, onRow);
+    if (rows.length >= SAMPLE_ROWS) {
+      source.destroy();
+      break;
+    }
+  }
+  state ??= createTsvStreamState(separator ?? ",");
+  if (rows.length < SAMPLE_ROWS) flushTsvStream(state, onRow);
+  if (!header) throw new Error("File is empty.");
+  return { separator: state.separator, header, rows };
+}
+
+async function sampleJsonLines(
+  filePath: string,
+  gzip: boolean,
+): Promise<{ names: string[]; rows: Array<Record<string, unknown>> }> {
+  const names = new Set<string>();
+  const rows: Array<Record<string, unknown>> = [];
+  let pending = "";
+  let lineNumber = 0;
+
+  const takeLine = (line: string) => {
+    lineNumber += 1;
+    if (!line.trim()) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${lineNumber} is not valid JSON.`);
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(`Line ${lineNumber} is not a JSON object.`);
+    }
+    for (const key of Object.keys(parsed)) names.add(key);
+    rows.push(parsed as Record<string, unknown>);
+  };
+
+  const source = openText(filePath, gzip);
+  for await (const chunk of source) {
+    pending += chunk as string;
+    let newline = pending.indexOf("\n");
+    while (newline !== -1 && rows.length < SAMPLE_ROWS) {
+      takeLine(pending.slice(0, newline));
+      pending = pending.slice(newline + 1);
+      newline = pending.indexOf("\n");
+    }
+    if (rows.length >= SAMPLE_ROWS) {
+      source.destroy();
+      break;
+    }
+  }
+  if (rows.length < SAMPLE_ROWS) takeLine(pending);
+  if (rows.length === 0) throw new Error("File has no JSON rows.");
+  return { names: [...names], rows };
+}
+
+/** Detects the format of a local file and infers its columns from the first rows. */
+export async function inspectLocalFile(
+  filePath: string,
+  format?: ImportFormat,
+): Promise<FileInspection> {
+  const detected = await detectFileFormat(filePath);
+  const resolved = format ?? detected.format;
+  const gzip = detected.gzip;
+
+  if (resolved === "parquet") {
+    if (gzip)
+      throw new Error("Gzipped Parquet files are not supported; Parquet is compressed internally.");
+    const schema = await readParquetSchema(filePath);
+    return {
+      format: resolved,
+      gzip,
+      columns: schema.columns,
+      sample: [],
+      rowCount: schema.rowCount,
+    };
+  }
+
+  if (resolved === "jsonl") {
+    const { names, rows } = await sampleJsonLines(filePath, gzip);
+    return { format: resolved, gzip, columns: inferColumns(names, rows), sample: rows };
+  }
+
+  const { separator, header, rows } = await sampleDelimited(
+    filePath,
+    gzip,
+    resolved === "tsv" ? "\t" : undefined,
+  );
+  const names = header.map((name, i) => name.trim() || `col_${i}`);
+  const sample = rows.map((row) =>
+    Object.fromEntries(names.map((name, i) => [name, row[i] ?? ""])),
+  );
+  return { format: resolved, gzip, separator, columns: inferColumns(names, sample), sample };
+}
+
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  tinyint: [-128n, 127n],
+  smallint: [-32768n, 32767n],
+  int: [-2147483648n, 2147483647n],
+  bigint: [-9223372036854775808n, 9223372036854775807n],
+};
+
+const WIDENINGS: Record<string, string[]> = {
+  boolean: ["boolean"],
+  tinyint: ["tinyint", "smallint", "int", "bigint", "float", "double"],
+  smallint: ["smallint", "int", "bigint", "float", "double"],
+  int: ["int", "bigint", "float", "double"],
+  bigint: ["bigint", "double"],
+  float: ["float", "double"],
+  double: ["double"],
+  date: ["date"],
+};
+
+/** Whether a sampled value can be stored in a column of the given DSS type. */
+export function valueMatchesType(value: unknown, type: string): boolean {
+  if (value === null || value === undefined || value === "") return true;
+  const range = INTEGER_RANGES[type];
+  if (range) {
+    if (typeof value === "number" && !Number.isInteger(value)) return false;
+    const text = String(value);
+    if (!INTEGER_PATTERN.test(text)) return false;
+    const n = BigInt(text);
+    return n >= range[0] && n <= range[1];
+  }
+  switch (type) {
+    case "float":
+    case "double":
+      return typeof value === "number" || DECIMAL_PATTERN.test(String(value));
+    case "boolean":
+      return typeof value === "boolean" || BOOLEAN_PATTERN.test(String(value));
+    case "date":
+      return (
+        typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+      );
+    case "array":
+    case "map":
+    case "object": {
+      let parsed = value;
+      if (typeof value === "string") {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return false;
+        }
+      }
+      return type === "array" ? Array.isArray(parsed) : !!parsed && typeof parsed === "object";
+    }
+    default:
+      return true;
+  }
+}
+
+function typeCompatible(fileType: string, declaredType: string): boolean {
+  if (fileType === declaredType || declaredType === "string") return true;
+  return WIDENINGS[fileType]?.includes(declaredType) ?? false;
+}
+
+function describeValue(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return JSON.stringify(text.length > 40 ? `${text.slice(0, 40)}…` : text);
+}
+
+/**
+ * Checks a declared schema against what the file holds: column names (in order
+ * for delimited files, which DSS reads by position), then sampled values, or
+ * the footer types for Parquet. Returns at most ten problems.
+ */
+export function checkDeclaredSchema(
+  inspection: FileInspection,
+  declared: ImportColumn[],
+): string[] {
+  const problems: string[] = [];
+  const fileColumns = new Map(inspection.columns.map((c) => [c.name, c]));
+
+  if (inspection.format === "csv" || inspection.format === "tsv") {
+    if (declared.length !== inspection.columns.length) {
+      problems.push(
+        `Declared schema has ${declared.length} columns but the file header has ${inspection.columns.length}.`,
+      );
+    }
+    declared.forEach((column, i) => {
+      const actual = inspection.columns[i]?.name;
+      if (actual !== undefined && actual !== column.name) {
+        problems.push(
+          `Column ${i + 1} is "${actual}" in the file but declared as "${column.name}".`,
+        );
+      }
+    });
+  } else {
+    for (const column of declared) {
+      if (!fileColumns.has(column.name)) {
+        problems.push(`Declared column "${column.name}" is not in the file.`);
+      }
+    }
+  }
+
+  if (inspection.format === "parquet") {
+    for (const column of declared) {
+      const actual = fileColumns.get(column.name);
+      if (actual && !typeCompatible(actual.type, column.type)) {
+        problems.push(
+          `Column "${column.name}" is ${actual.type} in the file but declared ${column.type}.`,
+        );
+      }
+    }
+    return problems.slice(0, MAX_PROBLEMS);
+  }
+
+  inspection.sample.forEach((row, i) => {
+    if (problems.length >= MAX_PROBLEMS) return;
+    for (const column of declared) {
+      const value = row[column.name];
+      if (!valueMatchesType(value, column.type)) {
+        problems.push(
+          `Row ${i + 1}, column "${column.name}": ${describeValue(value)} is not a valid ${column.type}.`,
+        );
+        if (problems.length >= MAX_PROBLEMS) return;
+      }
+    }
+  });
+  return problems.slice(0, MAX_PROBLEMS);
+}
+
+/** Format settings DSS needs to read the uploaded file back. */
+export function uploadedFormat(inspection: FileInspection): {
+  formatType: string;
+  formatParams: Record<string, unknown>;
+} {
+  if (inspection.format === "parquet") return { formatType: "parquet", formatParams: {} };
+  if (inspection.format === "jsonl") {
+    return {
+      formatType: "json",
+      formatParams: {
+        charset: "utf8",
+        style: "PER_LINE",
+        ...(inspection.gzip ? { compress: "gz" } : {}),
+      },
+    };
+  }
+  return {
+    formatType: "csv",
+    formatParams: {
+      style: "excel",
+      charset: "utf8",
+      separator: inspection.separator ?? ",",
+      quoteChar: '"',
+      escapeChar: "\\",
+      dateSerializationFormat: "ISO",
+      arrayMapFormat: "json",
+      parseHeaderRow: true,
+      ...(inspection.gzip ? { compress: "gz" } : {}),
+    },
+  };
+}
@@ -390,3 +390,100 @@ export function normalizeFlowGraph(
 		warnings,
 	};
 }
+
+export type FlowDirection = "upstream" | "downstream";
+
+export interface FlowSubgraphNode extends NormalizedFlowNode {
+	/** Recipes on the path from the start node, the node itself included. */
+	depth: number;
+}
+
+export interface FlowSubgraph {
+	start: string;
+	direction: FlowDirection;
+	maxDepth: number | null;
+	nodes: FlowSubgraphNode[];
+	edges: NormalizedFlowEdge[];
+	/** Recipes that would run. */
+	recipes: string[];
+	/** Datasets written by those recipes: what would be rebuilt. */
+	datasets: string[];
+	/** Managed folders written by those recipes. */
+	folders: string[];
+	/** Datasets and folders in the set that no recipe in it writes. */
+	inputs: string[];
+	/** Whether `maxDepth` left recipes out. */
+	truncated: boolean;
+}
+
+/**
+ * Walks the flow from `start` along edge direction (downstream) or against it
+ * (upstream), entering at most `maxDepth` recipes deep. Downstream of a dataset
+ * is what a change to it invalidates; upstream is what building it runs.
+ */
+export function extractSubgraph(
+	map: NormalizedFlowMap,
+	start: string,
+	direction: FlowDirection,
+	maxDepth?: number,
+): FlowSubgraph {
+	const byId = new Map(map.nodes.map((node) => [node.id, node]));
+	const next = new Map<string, string[]>();
+	for (const edge of map.edges) {
+		const [from, to] = direction === "downstream" ? [edge.from, edge.to] : [edge.to, edge.from];
+		next.set(from, [...(next.get(from) ?? []), to]);
+	}
+
+	const depthOf = (id: string, parentDepth: number) =>
+		byId.get(id)?.kind === "recipe" ? parentDepth + 1 : parentDepth;
+	const depths = new Map<string, number>([[start, depthOf(start, 0)]]);
+	let truncated = false;
+	let frontier = [start];
+	while (frontier.length > 0) {
+		const following: string[] = [];
+		for (const id of frontier) {
+			const depth = depths.get(id) as number;
+			for (const target of next.get(id) ?? []) {
+				if (depths.has(target)) continue;
+				const targetDepth = depthOf(target, depth);
+				if (maxDepth !== undefined && targetDepth > maxDepth) {
+					truncated = true;
+					continue;
+				}
+				depths.set(target, targetDepth);
+				following.push(target);
+			}
+		}
+		frontier = following;
+	}
+
+	const nodes = [...depths.entries()]
+		.map<FlowSubgraphNode>(([id, depth]) => ({
+			...(byId.get(id) ?? { id, kind: "other" as const, name: id }),
+			depth,
+		}))
+		.sort((a, b) => a.depth - b.depth || a.id.localeCompare(b.id));
+	const edges = map.edges.filter((edge) => depths.has(edge.from) && depths.has(edge.to));
+	const written = new Set(
+		edges
+			.filter((edge) => edge.relation === "writes" && byId.get(edge.from)?.kind === "recipe")
+			.map((edge) => edge.to),
+	);
+	const ofKind = (kind: FlowNodeKind) => nodes.filter((node) => node.kind === kind);
+	const ids = (list: FlowSubgraphNode[]) => list.map((node) => node.id);
+
+	return {
+		start,
+		direction,
+		maxDepth: maxDepth ?? null,
+		nodes,
+		edges,
+		recipes: ids(ofKind("recipe")),
+		datasets: ids(ofKind("dataset").filter((node) => written.has(node.id))),
+		folders: ids(ofKind("folder").filter((node) => written.has(node.id))),
+		inputs: ids(
+			[...ofKind("dataset"), ...ofKind("folder")].filter((node) => !written.has(node.id)),
+		),
+		truncated,
+	};
+}
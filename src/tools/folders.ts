@@ -1,10 +1,19 @@
 import { createWriteStream } from "node:fs";
-import { resolve } from "node:path";
+import { rm, stat } from "node:fs/promises";
 import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { del, get, getProjectKey, stream, upload } from "../client.js";
+import {
+  formatBytes,
+  getAbortSignal,
+  progressStream,
+  RequestCancelledError,
+  reportProgress,
+} from "../progress.js";
+import { resolveLocalPath } from "../session.js";
+import { optionalConfirm, optionalInstance } from "./action-schema.js";
 import { registerTool } from "./register-tool.js";
 import { emptyListText, filterByQuery, formatBulletText, paginateItems } from "./list-format.js";
 
@@ -37,6 +46,7 @@ const managedFolderInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("list"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     limit: z.number().int().min(1).optional(),
     offset: z.number().int().min(0).optional(),
     query: z.string().optional(),
@@ -44,11 +54,13 @@ const managedFolderInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("get"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     folderId: z.string().min(1),
   }),
   z.object({
     action: z.literal("contents"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     folderId: z.string().min(1),
     limit: z.number().int().min(1).optional(),
     offset: z.number().int().min(0).optional(),
@@ -57,6 +69,7 @@ const managedFolderInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("download"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     folderId: z.string().min(1),
     path: z.string().min(1),
     localPath: z.string().optional(),
@@ -64,6 +77,7 @@ const managedFolderInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("upload"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     folderId: z.string().min(1),
     path: z.string().min(1),
     localPath: z.string().min(1),
@@ -71,8 +85,10 @@ const managedFolderInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("delete_file"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     folderId: z.string().min(1),
     path: z.string().min(1),
+    confirm: optionalConfirm,
   }),
 ]);
 
@@ -83,6 +99,14 @@ export function register(server: McpServer) {
     {
       description: "Managed folder ops: list/get/contents/download/upload/delete_file.",
       inputSchema: managedFolderInputSchema,
+      actions: {
+        list: "read",
+        get: "read",
+        contents: "read",
+        download: "read",
+        upload: "write",
+        delete_file: "destructive",
+      },
     },
     async ({ action, projectKey, folderId, path, localPath, limit, offset, query }) => {
       const pk = getProjectKey(projectKey);
@@ -244,10 +268,23 @@ export function register(server: McpServer) {
           `/public/api/projects/${enc}/managedfolders/${fEnc}/contents/${pEnc}`,
         );
 
-        const dest = localPath ?? resolve(process.cwd(), inferDownloadFileName(normalizedPath));
+        const dest = resolveLocalPath(localPath, inferDownloadFileName(normalizedPath));
         const nodeStream = Readable.fromWeb(res.body as import("stream/web").ReadableStream);
         const fileOut = createWriteStream(dest);
-        await pipeline(nodeStream, fileOut);
+        const progress = progressStream(
+          (bytes) => `Downloading ${normalizedPath}: ${formatBytes(bytes)} received`,
+        );
+        try {
+          await pipeline(nodeStream, progress, fileOut);
+        } catch (error) {
+          if (getAbortSignal()?.aborted) {
+            await rm(dest, { force: true });
+            throw new RequestCancelledError(
+              `Request was cancelled by the client; partial download ${dest} removed.`,
+            );
+          }
+          throw error;
+        }
 
         return {
           content: [{ type: "text", text: `Downloaded "${normalizedPath}" to ${dest}` }],
@@ -274,23 +311,34 @@ export function register(server: McpServer) {
           };
         }
 
+        const source = resolveLocalPath(localPath);
+        const { size } = await stat(source);
+        await reportProgress({
+          progress: 0,
+          total: size,
+          message: `Uploading ${source} (${formatBytes(size)})`,
+        });
         await upload(
           `/public/api/projects/${enc}/managedfolders/${fEnc}/contents/${pEnc}`,
-          localPath,
+          source,
+          {
+            describeProgress: (bytes) =>
+              `Uploading ${source}: ${formatBytes(bytes)} of ${formatBytes(size)} sent`,
+          },
         );
 
         return {
           content: [
             {
               type: "text",
-              text: `Uploaded "${localPath}" to folder "${folderId}" at "${path}"`,
+              text: `Uploaded "${source}" to folder "${folderId}" at "${path}"`,
             },
           ],
           structuredContent: {
             ok: true,
             folderId,
             path: normalizedPath,
-            localPath,
+            localPath: source,
             uploaded: true,
           },
         };
@@ -1,6 +1,14 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { get, getProjectKey, getText, post } from "../client.js";
+import {
+  RequestCancelledError,
+  reportProgress,
+  runIgnoringCancellation,
+  sleep,
+} from "../progress.js";
+import type { DynamicAccessRule } from "../safety.js";
+import { optionalConfirm, optionalInstance, optionalPartition } from "./action-schema.js";
 import {
   emptyListText,
   filterByQuery,
@@ -19,10 +27,20 @@ const buildModeSchema = z.enum([
   "RECURSIVE_MISSING_ONLY_BUILD",
 ]);
 
+// Forced builds recompute and overwrite data that is already up to date.
+const forcedBuildAccess: DynamicAccessRule = {
+  returns: ["write", "destructive"],
+  resolve: (args) =>
+    typeof args.buildMode === "string" && args.buildMode.includes("FORCED")
+      ? "destructive"
+      : "write",
+};
+
 const jobInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("list"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     limit: z.number().int().min(1).optional(),
     offset: z.number().int().min(0).optional(),
     query: z.string().optional(),
@@ -30,41 +48,52 @@ const jobInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("build"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
+    partition: optionalPartition,
     buildMode: buildModeSchema.optional(),
     autoUpdateSchema: z.boolean().optional(),
+    confirm: optionalConfirm,
   }),
   z.object({
     action: z.literal("buildAndWait"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     datasetName: z.string(),
+    partition: optionalPartition,
     buildMode: buildModeSchema.optional(),
     autoUpdateSchema: z.boolean().optional(),
+    confirm: optionalConfirm,
     activity: z.string().optional(),
     includeLogs: z.boolean().optional(),
     maxLogLines: z.number().int().min(1).optional(),
     pollIntervalMs: z.number().int().min(1).optional(),
     timeoutMs: z.number().int().min(1).optional(),
+    abortOnCancel: z.boolean().optional(),
   }),
   z.object({
     action: z.literal("get"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     jobId: z.string(),
     includeDefinition: z.boolean().optional(),
   }),
   z.object({
     action: z.literal("wait"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     jobId: z.string(),
     activity: z.string().optional(),
     includeLogs: z.boolean().optional(),
     maxLogLines: z.number().int().min(1).optional(),
     pollIntervalMs: z.number().int().min(1).optional(),
     timeoutMs: z.number().int().min(1).optional(),
+    abortOnCancel: z.boolean().optional(),
   }),
   z.object({
     action: z.literal("log"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     jobId: z.string(),
     activity: z.string().optional(),
     maxLogLines: z.number().int().min(1).optional(),
@@ -72,17 +101,15 @@ const jobInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("abort"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     jobId: z.string(),
+    confirm: optionalConfirm,
   }),
 ]);
 
 const DEFAULT_WAIT_POLL_INTERVAL_MS = 2_000;
 const MAX_WAIT_POLL_INTERVAL_MS = 10_000;
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 interface ComputeNextPollDelayMsOptions {
   pollCount: number;
   baseIntervalMs: number;
@@ -110,13 +137,17 @@ function isTerminalState(state: string | undefined): boolean {
   );
 }
 
-type NormalizedJobWaitState = "terminalSuccess" | "terminalFailure" | "timeout" | "nonTerminal";
+export type NormalizedJobWaitState =
+  | "terminalSuccess"
+  | "terminalFailure"
+  | "timeout"
+  | "nonTerminal";
 
 function isSuccessfulTerminalState(state: string | undefined): boolean {
   return (state ?? "").toUpperCase() === "DONE";
 }
 
-function normalizeJobWaitState(
+export function normalizeJobWaitState(
   state: string | undefined,
   timedOut = false,
 ): NormalizedJobWaitState {
@@ -133,9 +164,33 @@ interface WaitJobOptions {
   maxLogLines?: number;
   pollIntervalMs?: number;
   timeoutMs?: number;
+  abortOnCancel?: boolean;
+}
+
+type WaitJobResult = {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent: Record<string, unknown>;
+  isError?: boolean;
+};
+
+async function waitForJob(options: WaitJobOptions): Promise<WaitJobResult> {
+  try {
+    return await pollJob(options);
+  } catch (error) {
+    if (error instanceof RequestCancelledError && options.abortOnCancel) {
+      const jobEnc = encodeURIComponent(options.jobId);
+      await runIgnoringCancellation(() =>
+        post(`/public/api/projects/${options.projectEnc}/jobs/${jobEnc}/abort/`),
+      );
+      throw new RequestCancelledError(
+        `Request was cancelled by the client; job ${options.jobId} abort requested.`,
+      );
+    }
+    throw error;
+  }
 }
 
-async function waitForJob({
+async function pollJob({
   projectEnc,
   jobId,
   activity,
@@ -143,11 +198,7 @@ async function waitForJob({
   maxLogLines,
   pollIntervalMs,
   timeoutMs,
-}: WaitJobOptions): Promise<{
-  content: Array<{ type: "text"; text: string }>;
-  structuredContent: Record<string, unknown>;
-  isError?: boolean;
-}> {
+}: WaitJobOptions): Promise<WaitJobResult> {
   const baseIntervalMs = Math.max(1, pollIntervalMs ?? DEFAULT_WAIT_POLL_INTERVAL_MS);
   const adaptivePolling = pollIntervalMs === undefined;
   const timeout = Math.max(baseIntervalMs, timeoutMs ?? 120_000);
@@ -179,6 +230,11 @@ async function waitForJob({
     const state = bs.state ?? "unknown";
     const elapsedMs = Date.now() - startedAt;
     const normalizedState = normalizeJobWaitState(state);
+    await reportProgress({
+      progress: (gs.done ?? 0) + (gs.failed ?? 0),
+      ...(gs.total ? { total: gs.total } : {}),
+      message: `Job ${def.id ?? jobId}: ${state}${gs.total ? ` (${gs.done ?? 0}/${gs.total} done, ${gs.failed ?? 0} failed, ${gs.running ?? 0} running)` : ""}`,
+    });
 
     if (normalizedState === "terminalSuccess" || normalizedState === "terminalFailure") {
       const terminalSuccess = normalizedState === "terminalSuccess";
@@ -273,14 +329,28 @@ export function register(server: McpServer) {
     "job",
     {
       description:
-        "Job ops: list/get/log/build/buildAndWait/wait/abort. get is summary-first; set includeDefinition=true to include full JSON definition.",
+        "Job ops: list/get/log/build/buildAndWait/wait/abort. get is summary-first; set includeDefinition=true to include full JSON definition. build/buildAndWait pass partition to DSS unchanged as the build target (id, comma list or start/end range); unlike dataset reads it is not checked against existing partitions, since the build may create them.",
       inputSchema: jobInputSchema,
+      actions: {
+        list: "read",
+        get: "read",
+        // Aborting the job on cancel is a write even though waiting itself is not.
+        wait: {
+          returns: ["read", "write"],
+          resolve: (args) => (args.abortOnCancel === true ? "write" : "read"),
+        },
+        log: "read",
+        build: forcedBuildAccess,
+        buildAndWait: forcedBuildAccess,
+        abort: "destructive",
+      },
     },
     async ({
       action,
       projectKey,
       jobId,
       datasetName,
+      partition,
       activity,
       buildMode,
       autoUpdateSchema,
@@ -288,6 +358,7 @@ export function register(server: McpServer) {
       includeLogs,
       pollIntervalMs,
       timeoutMs,
+      abortOnCancel,
       limit,
       offset,
       query,
@@ -382,7 +453,15 @@ export function register(server: McpServer) {
           };
         }
         const jobDef: Record<string, unknown> = {
-          outputs: [{ projectKey: pk, id: datasetName, type: "DATASET" }],
+          outputs: [
+            {
+              projectKey: pk,
+              id: datasetName,
+              type: "DATASET",
+              // DSS expands the spec itself; the partitions may not exist until this job builds them.
+              ...(partition ? { partition } : {}),
+            },
+          ],
           type: buildMode ?? "RECURSIVE_BUILD",
         };
         if (autoUpdateSchema) {
@@ -394,7 +473,7 @@ export function register(server: McpServer) {
             content: [
               {
                 type: "text",
-                text: `Job started: ${job.id}\nUse job(action: "wait") to block until completion or job(action: "get") to poll progress.`,
+                text: `Job started: ${job.id}${partition ? ` (partition ${partition})` : ""}\nUse job(action: "wait") to block until completion or job(action: "get") to poll progress.`,
               },
             ],
             structuredContent: {
@@ -402,6 +481,7 @@ export function register(server: McpServer) {
               jobId: job.id,
               mode: jobDef.type,
               datasetName,
+              ...(partition ? { partition } : {}),
             },
           };
         }
@@ -414,13 +494,14 @@ export function register(server: McpServer) {
           maxLogLines,
           pollIntervalMs,
           timeoutMs,
+          abortOnCancel,
         });
         const waitText = waitResult.content[0]?.text ?? "";
         return {
           content: [
             {
               type: "text",
-              text: `Job started: ${job.id}\n${waitText}`,
+              text: `Job started: ${job.id}${partition ? ` (partition ${partition})` : ""}\n${waitText}`,
             },
           ],
           structuredContent: {
@@ -428,6 +509,7 @@ export function register(server: McpServer) {
             startedJobId: job.id,
             mode: jobDef.type,
             datasetName,
+            ...(partition ? { partition } : {}),
           },
           ...(waitResult.isError ? { isError: true } : {}),
         };
@@ -463,7 +545,7 @@ export function register(server: McpServer) {
               id?: string;
               type?: string;
               initiator?: string;
-              outputs?: Array<{ targetDataset?: string }>;
+              outputs?: Array<{ targetDataset?: string; targetPartition?: string }>;
             };
             state?: string;
             jobStartTime?: number;
@@ -490,7 +572,14 @@ export function register(server: McpServer) {
         ];
         if (def.initiator) parts.push(`Initiator: ${def.initiator}`);
         const targets = (def.outputs ?? []).map((o) => o.targetDataset).filter(Boolean);
-        if (targets.length > 0) parts.push(`Target: ${targets.join(", ")}`);
+        const targetPartitions = [
+          ...new Set((def.outputs ?? []).map((o) => o.targetPartition).filter(Boolean)),
+        ];
+        if (targets.length > 0) {
+          const partitionSuffix =
+            targetPartitions.length > 0 ? ` (partition ${targetPartitions.join(", ")})` : "";
+          parts.push(`Target: ${targets.join(", ")}${partitionSuffix}`);
+        }
 
         const start = bs.jobStartTime;
         const end = bs.jobEndTime;
@@ -538,6 +627,7 @@ export function register(server: McpServer) {
           state,
           normalizedState,
           targetDatasets: targets,
+          ...(targetPartitions.length > 0 ? { targetPartitions } : {}),
           startTime: start ?? null,
           endTime: end ?? null,
           durationMs: start && end ? end - start : null,
@@ -578,6 +668,7 @@ export function register(server: McpServer) {
           maxLogLines,
           pollIntervalMs,
           timeoutMs,
+          abortOnCancel,
         });
       }
 
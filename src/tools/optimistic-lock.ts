@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { isDryRun } from "../safety.js";
+import { diffValues, formatChanges, type ValueChange } from "./update-patch.js";
+
+/** Inputs of read-modify-write actions that control the conflict check. */
+export const concurrencyFields = {
+  expectedVersion: z.union([z.number().int(), z.string().min(1)]).optional(),
+  force: z.boolean().optional(),
+} as const;
+
+export interface ConcurrencyInput {
+  expectedVersion?: number | string;
+  force?: boolean;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * `versionTag.versionNumber` of `tagged` (the document itself unless given),
+ * or a hash of the document's content when DSS does not version it.
+ */
+export function versionOf(doc: unknown, tagged: unknown = doc): number | string {
+  const tag = (tagged as { versionTag?: { versionNumber?: unknown } } | undefined)?.versionTag;
+  if (typeof tag?.versionNumber === "number") return tag.versionNumber;
+  return `sha256:${createHash("sha256").update(canonicalJson(doc)).digest("hex").slice(0, 16)}`;
+}
+
+export interface Conflict {
+  expectedVersion: number | string;
+  currentVersion: number | string;
+  /**
+   * What changed between the read this update was based on and the latest
+   * definition. Empty when only a stale expectedVersion differs: the content of
+   * that older version is not available.
+   */
+  changes: ValueChange[];
+  /** What the update would change relative to the latest definition. */
+  pendingChanges: ValueChange[];
+}
+
+/**
+ * Re-reads the object just before the write and compares its version with the
+ * one the update was based on: `expectedVersion` when the caller passed it,
+ * otherwise the version of `current`. Both reads should bypass the GET cache.
+ * Returns the conflict, or undefined when the write is safe, `force` is set or
+ * the call is a dry run.
+ */
+export async function findConflict<T>(options: {
+  current: T;
+  next: T;
+  input: ConcurrencyInput;
+  refetch: () => Promise<T>;
+  version?: (doc: T) => number | string;
+}): Promise<Conflict | undefined> {
+  const { current, next, input, refetch, version = (doc: T) => versionOf(doc) } = options;
+  // A dry run writes nothing, so there is nothing to overwrite.
+  if (input.force || isDryRun()) return undefined;
+  const expected = input.expectedVersion ?? version(current);
+  // Re-read even when expectedVersion is already stale, so the conflict shows the latest definition.
+  const latest = await refetch();
+  const currentVersion = version(latest);
+  if (String(currentVersion) === String(expected)) return undefined;
+  return {
+    expectedVersion: expected,
+    currentVersion,
+    changes: diffValues(current, latest),
+    pendingChanges: diffValues(latest, next),
+  };
+}
+
+export function conflictResult(subject: string, conflict: Conflict) {
+  const lines = [
+    `Error: ${subject} changed since version ${conflict.expectedVersion} (now ${conflict.currentVersion}); nothing was written. Re-read it and retry, pass expectedVersion=${JSON.stringify(conflict.currentVersion)} to apply the update to the latest version, or force=true to overwrite.`,
+  ];
+  if (conflict.changes.length > 0) {
+    lines.push(`Changed meanwhile:\n${formatChanges(conflict.changes)}`);
+  }
+  if (conflict.pendingChanges.length > 0) {
+    lines.push(
+      `The update would change the latest version:\n${formatChanges(conflict.pendingChanges)}`,
+    );
+  }
+  return {
+    content: [{ type: "text" as const, text: lines.join("\n") }],
+    structuredContent: { ok: false, reason: "conflict", ...conflict },
+    isError: true,
+  };
+}
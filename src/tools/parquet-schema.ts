@@ -0,0 +1,122 @@
+/**
+ * Reads the schema of a Parquet file from its footer without a Parquet
+ * dependency: only the schema elements and row count of the FileMetaData
+ * struct are decoded.
+ */
+
+import { open } from "node:fs/promises";
+import { CompactReader, type ThriftStruct } from "./thrift-compact.js";
+
+const MAGIC = "PAR1";
+
+export interface ParquetColumn {
+  name: string;
+  /** DSS column type the Parquet physical and logical types map to. */
+  type: string;
+}
+
+export interface ParquetSchema {
+  columns: ParquetColumn[];
+  rowCount: number;
+}
+
+const PHYSICAL_TYPES = ["boolean", "int", "bigint", "date", "float", "double", "string", "string"];
+
+// ConvertedType values that change the DSS type of a primitive column.
+const CONVERTED_TYPES: Record<number, string> = {
+  1: "map",
+  3: "array",
+  5: "double",
+  6: "date",
+  9: "date",
+  10: "date",
+  11: "smallint",
+  12: "int",
+  13: "bigint",
+  14: "bigint",
+  15: "tinyint",
+  16: "smallint",
+};
+
+function logicalDssType(logical: ThriftStruct): string | undefined {
+  if (logical.has(2)) return "map";
+  if (logical.has(3)) return "array";
+  if (logical.has(5)) return "double";
+  if (logical.has(6) || logical.has(8)) return "date";
+  const integer = logical.get(10);
+  if (integer instanceof Map) {
+    const bitWidth = integer.get(1);
+    if (bitWidth === 8) return "tinyint";
+    if (bitWidth === 16) return "smallint";
+    if (bitWidth === 32) return "int";
+    return "bigint";
+  }
+  if (logical.has(1) || logical.has(4) || logical.has(12) || logical.has(14)) return "string";
+  return undefined;
+}
+
+function elementDssType(element: ThriftStruct): string {
+  const logical = element.get(10);
+  const fromLogical = logical instanceof Map ? logicalDssType(logical) : undefined;
+  if (fromLogical) return fromLogical;
+  const converted = element.get(6);
+  if (typeof converted === "number" && CONVERTED_TYPES[converted]) {
+    return CONVERTED_TYPES[converted];
+  }
+  const physical = element.get(1);
+  if (typeof physical === "number") return PHYSICAL_TYPES[physical] ?? "string";
+  // Group without a LIST/MAP annotation: a nested record.
+  return "object";
+}
+
+function countDescendants(elements: ThriftStruct[], index: number): number {
+  const children = Number(elements[index].get(5) ?? 0);
+  let consumed = 0;
+  for (let i = 0; i < children; i++) {
+    consumed += 1 + countDescendants(elements, index + 1 + consumed);
+  }
+  return consumed;
+}
+
+/** Decodes a FileMetaData footer into top-level DSS columns and the row count. */
+export function decodeParquetFooter(footer: Uint8Array): ParquetSchema {
+  const metadata = new CompactReader(footer).struct();
+  const elements = metadata.get(2);
+  if (!Array.isArray(elements) || elements.length === 0) {
+    throw new Error("Parquet footer has no schema.");
+  }
+  const schema = elements as ThriftStruct[];
+  const columns: ParquetColumn[] = [];
+  const rootChildren = Number(schema[0].get(5) ?? 0);
+  let index = 1;
+  for (let i = 0; i < rootChildren && index < schema.length; i++) {
+    const element = schema[index];
+    const name = element.get(4);
+    const repeated = element.get(3) === 2;
+    const type = elementDssType(element);
+    columns.push({
+      name: name instanceof Uint8Array ? Buffer.from(name).toString("utf-8") : `col_${i}`,
+      type: repeated && type !== "array" ? "array" : type,
+    });
+    index += 1 + countDescendants(schema, index);
+  }
+  return { columns, rowCount: Number(metadata.get(3) ?? 0) };
+}
+
+export async function readParquetSchema(filePath: string): Promise<ParquetSchema> {
+  const handle = await open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    if (size < 12) throw new Error("File is too small to be Parquet.");
+    const tail = Buffer.alloc(8);
+    await handle.read(tail, 0, 8, size - 8);
+    if (tail.toString("latin1", 4) !== MAGIC) throw new Error("File is not Parquet.");
+    const footerLength = tail.readUInt32LE(0);
+    if (footerLength > size - 12) throw new Error("Parquet footer length is invalid.");
+    const footer = Buffer.alloc(footerLength);
+    await handle.read(footer, 0, footerLength, size - 8 - footerLength);
+    return decodeParquetFooter(footer);
+  } finally {
+    await handle.close();
+  }
+}
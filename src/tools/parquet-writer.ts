@@ -0,0 +1,244 @@
+/**
+ * Streaming Parquet writer for typed exports. Each batch of rows becomes one
+ * row group with a single gzip-compressed PLAIN data page per column; the
+ * footer only keeps per-chunk offsets, so memory is bounded by the batch.
+ */
+
+import { gzipSync } from "node:zlib";
+import {
+  type CellValue,
+  type ColumnKind,
+  type ExportStats,
+  type TypedColumn,
+  TypedRowEncoder,
+} from "./export-formats.js";
+import { encodeCompactStruct, type ThriftWriteValue, thrift } from "./thrift-compact.js";
+
+const MAGIC = Buffer.from("PAR1");
+const CODEC_GZIP = 2;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const REPETITION_OPTIONAL = 1;
+
+interface PhysicalType {
+  type: number;
+  convertedType?: number;
+  logicalType?: ThriftWriteValue;
+}
+
+const intType = (bitWidth: number) =>
+  thrift.struct([
+    [
+      10,
+      thrift.struct([
+        [1, thrift.i8(bitWidth)],
+        [2, thrift.bool(true)],
+      ]),
+    ],
+  ]);
+
+const timestampType = (adjustedToUtc: boolean) =>
+  thrift.struct([
+    [
+      8,
+      thrift.struct([
+        [1, thrift.bool(adjustedToUtc)],
+        [2, thrift.struct([[1, thrift.struct([])]])],
+      ]),
+    ],
+  ]);
+
+const PHYSICAL: Record<ColumnKind, PhysicalType> = {
+  boolean: { type: 0 },
+  int8: { type: 1, convertedType: 15, logicalType: intType(8) },
+  int16: { type: 1, convertedType: 16, logicalType: intType(16) },
+  int32: { type: 1 },
+  int64: { type: 2 },
+  float: { type: 4 },
+  double: { type: 5 },
+  timestamp: { type: 2, convertedType: 9, logicalType: timestampType(true) },
+  localTimestamp: { type: 2, logicalType: timestampType(false) },
+  date: { type: 1, convertedType: 6, logicalType: thrift.struct([[6, thrift.struct([])]]) },
+  string: { type: 6, convertedType: 0, logicalType: thrift.struct([[1, thrift.struct([])]]) },
+};
+
+function bitPack(bits: boolean[]): Buffer {
+  const out = Buffer.alloc(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    if (bit) out[i >> 3] |= 1 << (i & 7);
+  });
+  return out;
+}
+
+/** Definition levels (1 = present) as a single bit-packed RLE/bit-packing hybrid run. */
+function definitionLevels(values: CellValue[]): Buffer {
+  const packed = bitPack(values.map((v) => v !== null));
+  const header: number[] = [];
+  let n = ((packed.length << 1) | 1) >>> 0;
+  while (n > 0x7f) {
+    header.push((n & 0x7f) | 0x80);
+    n >>>= 7;
+  }
+  header.push(n);
+  const body = Buffer.concat([Buffer.from(header), packed]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(body.length);
+  return Buffer.concat([length, body]);
+}
+
+function plainValues(kind: ColumnKind, values: CellValue[]): Buffer {
+  const present = values.filter((v) => v !== null);
+  switch (PHYSICAL[kind].type) {
+    case 0:
+      return bitPack(present as boolean[]);
+    case 1: {
+      const out = Buffer.alloc(present.length * 4);
+      present.forEach((v, i) => {
+        out.writeInt32LE(v as number, i * 4);
+      });
+      return out;
+    }
+    case 2: {
+      const out = Buffer.alloc(present.length * 8);
+      present.forEach((v, i) => {
+        out.writeBigInt64LE(BigInt(v as number | bigint), i * 8);
+      });
+      return out;
+    }
+    case 4: {
+      const out = Buffer.alloc(present.length * 4);
+      present.forEach((v, i) => {
+        out.writeFloatLE(v as number, i * 4);
+      });
+      return out;
+    }
+    case 5: {
+      const out = Buffer.alloc(present.length * 8);
+      present.forEach((v, i) => {
+        out.writeDoubleLE(v as number, i * 8);
+      });
+      return out;
+    }
+    default: {
+      const parts: Buffer[] = [];
+      for (const v of present) {
+        const data = Buffer.from(String(v), "utf-8");
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(data.length);
+        parts.push(length, data);
+      }
+      return Buffer.concat(parts);
+    }
+  }
+}
+
+export class ParquetEncoder extends TypedRowEncoder {
+  private offset = 0;
+  private totalRows = 0;
+  private readonly rowGroups: ThriftWriteValue[] = [];
+
+  constructor(
+    schema: Array<{ name: string; type: string }>,
+    stats: ExportStats,
+    rowsPerGroup = 10_000,
+  ) {
+    super(schema, stats, rowsPerGroup);
+  }
+
+  private output(chunk: Buffer): void {
+    this.push(chunk);
+    this.offset += chunk.length;
+  }
+
+  protected start(): void {
+    this.output(MAGIC);
+  }
+
+  protected writeBatch(rows: CellValue[][]): void {
+    const columns = this.columns as TypedColumn[];
+    const chunks: ThriftWriteValue[] = [];
+    let groupBytes = 0;
+    columns.forEach((column, c) => {
+      const values = rows.map((row) => row[c]);
+      const page = Buffer.concat([definitionLevels(values), plainValues(column.kind, values)]);
+      const compressed = gzipSync(page);
+      const header = encodeCompactStruct([
+        [1, thrift.i32(0)],
+        [2, thrift.i32(page.length)],
+        [3, thrift.i32(compressed.length)],
+        [
+          5,
+          thrift.struct([
+            [1, thrift.i32(values.length)],
+            [2, thrift.i32(ENCODING_PLAIN)],
+            [3, thrift.i32(ENCODING_RLE)],
+            [4, thrift.i32(ENCODING_RLE)],
+          ]),
+        ],
+      ]);
+      const pageOffset = this.offset;
+      this.output(header);
+      this.output(compressed);
+      groupBytes += header.length + page.length;
+      chunks.push(
+        thrift.struct([
+          [2, thrift.i64(pageOffset)],
+          [
+            3,
+            thrift.struct([
+              [1, thrift.i32(PHYSICAL[column.kind].type)],
+              [2, thrift.list("i32", [thrift.i32(ENCODING_PLAIN), thrift.i32(ENCODING_RLE)])],
+              [3, thrift.list("binary", [thrift.binary(column.name)])],
+              [4, thrift.i32(CODEC_GZIP)],
+              [5, thrift.i64(values.length)],
+              [6, thrift.i64(header.length + page.length)],
+              [7, thrift.i64(header.length + compressed.length)],
+              [9, thrift.i64(pageOffset)],
+            ]),
+          ],
+        ]),
+      );
+    });
+    this.rowGroups.push(
+      thrift.struct([
+        [1, thrift.list("struct", chunks)],
+        [2, thrift.i64(groupBytes)],
+        [3, thrift.i64(rows.length)],
+      ]),
+    );
+    this.totalRows += rows.length;
+  }
+
+  protected finish(): void {
+    const columns = this.columns as TypedColumn[];
+    const schema = [
+      thrift.struct([
+        [4, thrift.binary("schema")],
+        [5, thrift.i32(columns.length)],
+      ]),
+      ...columns.map((column) => {
+        const physical = PHYSICAL[column.kind];
+        return thrift.struct([
+          [1, thrift.i32(physical.type)],
+          [3, thrift.i32(REPETITION_OPTIONAL)],
+          [4, thrift.binary(column.name)],
+          [
+            6,
+            physical.convertedType === undefined ? undefined : thrift.i32(physical.convertedType),
+          ],
+          [10, physical.logicalType],
+        ]);
+      }),
+    ];
+    const footer = encodeCompactStruct([
+      [1, thrift.i32(1)],
+      [2, thrift.list("struct", schema)],
+      [3, thrift.i64(this.totalRows)],
+      [4, thrift.list("struct", this.rowGroups)],
+      [6, thrift.binary("dataiku-mcp")],
+    ]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(footer.length);
+    this.output(Buffer.concat([footer, length, MAGIC]));
+  }
+}
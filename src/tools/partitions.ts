@@ -0,0 +1,88 @@
+import { get } from "../client.js";
+
+/** DSS reports this single identifier for datasets that are not partitioned. */
+const NOT_PARTITIONED = "NP";
+
+export async function listPartitions(projectEnc: string, datasetEnc: string): Promise<string[]> {
+  const partitions = await get<string[]>(
+    `/public/api/projects/${projectEnc}/datasets/${datasetEnc}/partitions`,
+  );
+  return partitions.filter((id) => id !== NOT_PARTITIONED);
+}
+
+export interface ResolvedPartitions {
+  partitions: string[];
+  /** Identifiers and ranges of the spec that matched no existing partition. */
+  unmatched: string[];
+}
+
+/**
+ * Expands a partition spec against the identifiers that exist. The spec is a
+ * comma-separated list of identifiers or `start/end` ranges; ranges compare
+ * identifiers as strings, which orders DSS time partitions chronologically.
+ */
+export function resolvePartitionSpec(spec: string, available: string[]): ResolvedPartitions {
+  const selected = new Set<string>();
+  const unmatched: string[] = [];
+  for (const part of spec.split(",")) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const slash = trimmed.indexOf("/");
+    if (slash === -1) {
+      if (available.includes(trimmed)) selected.add(trimmed);
+      else unmatched.push(trimmed);
+      continue;
+    }
+    const start = trimmed.slice(0, slash).trim();
+    const end = trimmed.slice(slash + 1).trim();
+    const inRange = available.filter((id) => (!start || id >= start) && (!end || id <= end));
+    if (inRange.length === 0) unmatched.push(trimmed);
+    for (const id of inRange) selected.add(id);
+  }
+  return { partitions: available.filter((id) => selected.has(id)), unmatched };
+}
+
+export type PartitionSelection =
+  | { ok: true; partitions: string[] }
+  | { ok: false; text: string; reason: string; unmatched?: string[] };
+
+/** The `partitions=` query parameter DSS data endpoints take. */
+export function partitionsParam(partitions: string[]): string {
+  return `partitions=${encodeURIComponent(partitions.join(","))}`;
+}
+
+/**
+ * Resolves `spec` against the dataset's partitions; fails when none exist or
+ * when any identifier or range of the spec matches nothing.
+ */
+export async function selectPartitions(
+  projectEnc: string,
+  datasetEnc: string,
+  datasetName: string,
+  spec: string,
+): Promise<PartitionSelection> {
+  const available = await listPartitions(projectEnc, datasetEnc);
+  if (available.length === 0) {
+    return {
+      ok: false,
+      text: `Error: dataset "${datasetName}" is not partitioned.`,
+      reason: "not_partitioned",
+    };
+  }
+  const { partitions, unmatched } = resolvePartitionSpec(spec, available);
+  if (unmatched.length > 0) {
+    const shown = available.slice(0, 10).join(", ");
+    const more = available.length > 10 ? `, +${available.length - 10} more` : "";
+    const subject =
+      partitions.length === 0
+        ? `no partition of "${datasetName}" matches "${spec}"`
+        : `no partition of "${datasetName}" matches ${unmatched.map((u) => `"${u}"`).join(", ")}`;
+    return {
+      ok: false,
+      text: `Error: ${subject}. Available: ${shown}${more}.`,
+      reason: "partition_not_found",
+      unmatched,
+    };
+  }
+  return { ok: true, partitions };
+}
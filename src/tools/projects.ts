@@ -4,10 +4,14 @@ import { get, getProjectKey } from "../client.js";
 import {
   actionInput,
   actionSchema,
+  optionalInstance,
   optionalProjectKey,
   paginationFields,
 } from "./action-schema.js";
+import { formatColumnLineage, traceColumnLineage } from "./column-lineage.js";
 import {
+  extractSubgraph,
+  type FlowSubgraph,
   type NormalizedFlowEdge,
   type NormalizedFlowMap,
   type NormalizedFlowNode,
@@ -15,30 +19,55 @@ import {
 } from "./flow-map.js";
 import { emptyListText, filterByQuery, formatBulletText, paginateItems } from "./list-format.js";
 import { registerTool } from "./register-tool.js";
+import { referencedColumns } from "./schema-edit.js";
+
+const subgraphFields = {
+  projectKey: optionalProjectKey,
+  instance: optionalInstance,
+  /** Dataset, recipe or folder id (or name) to start from. */
+  node: z.string().min(1),
+  maxDepth: z.number().int().min(1).optional(),
+  includeScenarios: z.boolean().optional(),
+} as const;
 
 const projectInputSchema = actionSchema([
   actionInput("list", {
+    instance: optionalInstance,
     ...paginationFields,
   }),
   actionInput("get", {
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
   }),
   actionInput("metadata", {
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
   }),
   actionInput("flow", {
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
   }),
   actionInput("map", {
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     includeRaw: z.boolean().optional(),
     maxNodes: z.number().int().min(1).optional(),
     maxEdges: z.number().int().min(1).optional(),
   }),
+  actionInput("upstream", subgraphFields),
+  actionInput("downstream", subgraphFields),
+  actionInput("columnLineage", {
+    projectKey: optionalProjectKey,
+    instance: optionalInstance,
+    datasetName: z.string().min(1),
+    column: z.string().min(1),
+    maxDepth: z.number().int().min(1).max(50).optional(),
+  }),
 ]);
 
 const DEFAULT_MAP_MAX_NODES = 300;
 const DEFAULT_MAP_MAX_EDGES = 600;
+const DEFAULT_LINEAGE_MAX_DEPTH = 10;
 
 const DEFAULT_MAP_METADATA_TIMEOUT_MS = 1_500;
 const MIN_MAP_METADATA_TIMEOUT_MS = 100;
@@ -181,16 +210,190 @@ function truncateFlowMap(
   };
 }
 
+/** Fetches the flow graph plus optional folder/dataset/recipe metadata and normalizes it. */
+export async function loadFlowMap(
+  projectKey: string,
+): Promise<{ map: NormalizedFlowMap; raw: unknown }> {
+  const enc = encodeURIComponent(projectKey);
+  const metadataTimeoutMs = getMapMetadataTimeoutMs();
+  const [rawGraph, foldersMeta, datasetsMeta, recipesMeta] = await Promise.all([
+    get<unknown>(`/public/api/projects/${enc}/flow/graph/`),
+    fetchOptionalMetadataWithTimeout(
+      "Managed folders",
+      metadataTimeoutMs,
+      async () =>
+        await get<Array<{ id?: string; name?: string }>>(
+          `/public/api/projects/${enc}/managedfolders/`,
+        ),
+    ),
+    fetchOptionalMetadataWithTimeout(
+      "Datasets",
+      metadataTimeoutMs,
+      async () => await get<Array<{ name?: string }>>(`/public/api/projects/${enc}/datasets/`),
+    ),
+    fetchOptionalMetadataWithTimeout(
+      "Recipes",
+      metadataTimeoutMs,
+      async () => await get<Array<{ name?: string }>>(`/public/api/projects/${enc}/recipes/`),
+    ),
+  ]);
+
+  const metadataWarnings = [foldersMeta.warning, datasetsMeta.warning, recipesMeta.warning].filter(
+    (warning): warning is string => typeof warning === "string" && warning.length > 0,
+  );
+
+  const folderNamesById: Record<string, string> = {};
+  const allFolderIds: string[] = [];
+  for (const f of foldersMeta.value ?? []) {
+    if (!f.id || f.id.length === 0) continue;
+    allFolderIds.push(f.id);
+    folderNamesById[f.id] = f.name ?? f.id;
+  }
+
+  const allDatasetNames = (datasetsMeta.value ?? [])
+    .map((d) => d.name)
+    .filter((n): n is string => typeof n === "string" && n.length > 0);
+
+  const allRecipeNames = (recipesMeta.value ?? [])
+    .map((r) => r.name)
+    .filter((n): n is string => typeof n === "string" && n.length > 0);
+  const normalizedBase = normalizeFlowGraph(rawGraph, projectKey, {
+    folderNamesById,
+    allDatasetNames,
+    allRecipeNames,
+    allFolderIds,
+  });
+  const map =
+    metadataWarnings.length > 0
+      ? {
+          ...normalizedBase,
+          warnings: [...normalizedBase.warnings, ...metadataWarnings],
+        }
+      : normalizedBase;
+  return { map, raw: rawGraph };
+}
+
+interface ScenarioBuilds {
+  id: string;
+  name?: string;
+  active?: boolean;
+  /** Items of the set the scenario builds. */
+  builds: string[];
+  /** True when the match comes from a custom Python script mentioning the items. */
+  viaScript?: boolean;
+}
+
+/** Scenarios with a build step (or a script mentioning) any of `items`. */
+async function scenariosBuilding(
+  projectKey: string,
+  items: string[],
+): Promise<{ scenarios: ScenarioBuilds[]; warnings: string[] }> {
+  if (items.length === 0) return { scenarios: [], warnings: [] };
+  const enc = encodeURIComponent(projectKey);
+  const list = await get<Array<{ id: string }>>(`/public/api/projects/${enc}/scenarios/`);
+  const scenarios: ScenarioBuilds[] = [];
+  const warnings: string[] = [];
+  for (const { id } of [...list].sort((a, b) => a.id.localeCompare(b.id))) {
+    try {
+      const scenario = await get<{
+        id: string;
+        name?: string;
+        type?: string;
+        active?: boolean;
+        params?: {
+          steps?: Array<{ type?: string; params?: { builds?: Array<Record<string, unknown>> } }>;
+          customScript?: { script?: string };
+        };
+      }>(`/public/api/projects/${enc}/scenarios/${encodeURIComponent(id)}/`);
+      const built = new Set(
+        (scenario.params?.steps ?? [])
+          .filter((step) => step.type === "build_flowitem")
+          .flatMap((step) => step.params?.builds ?? [])
+          .filter((build) => build.projectKey === undefined || build.projectKey === projectKey)
+          .map((build) => build.itemId),
+      );
+      const script = scenario.params?.customScript?.script;
+      const fromSteps = items.filter((item) => built.has(item));
+      const fromScript = script ? referencedColumns(script, items) : [];
+      if (fromSteps.length === 0 && fromScript.length === 0) continue;
+      scenarios.push({
+        id,
+        name: scenario.name,
+        active: scenario.active,
+        builds: fromSteps.length > 0 ? fromSteps : fromScript,
+        ...(fromSteps.length === 0 ? { viaScript: true } : {}),
+      });
+    } catch (error) {
+      warnings.push(`could not read scenario "${id}": ${String(error)}`);
+    }
+  }
+  return { scenarios, warnings };
+}
+
+function formatSubgraph(subgraph: FlowSubgraph, kind: string, scenarios?: ScenarioBuilds[]) {
+  const label = subgraph.direction === "upstream" ? "Upstream" : "Downstream";
+  const depth = subgraph.maxDepth === null ? "all depths" : `maxDepth=${subgraph.maxDepth}`;
+  const list = (title: string, items: string[]) =>
+    `${title} (${items.length}): ${items.length > 0 ? items.join(", ") : "(none)"}`;
+  const lines = [
+    `${label} of ${kind} "${subgraph.start}" (${depth})`,
+    list("Recipes that would run", subgraph.recipes),
+    list("Datasets that would be rebuilt", subgraph.datasets),
+  ];
+  if (subgraph.folders.length > 0)
+    lines.push(list("Folders that would be rebuilt", subgraph.folders));
+  if (subgraph.inputs.length > 0) lines.push(list("Inputs read but not rebuilt", subgraph.inputs));
+  if (scenarios) {
+    lines.push(`Scenarios building any of these (${scenarios.length}):`);
+    if (scenarios.length === 0) lines.push("- (none)");
+    for (const scenario of scenarios) {
+      const name = scenario.name ? ` "${scenario.name}"` : "";
+      const state =
+        scenario.active === undefined ? "" : scenario.active ? " (active)" : " (inactive)";
+      const how = scenario.viaScript ? "script mentions" : "builds";
+      lines.push(`- ${scenario.id}${name}${state} ${how} ${scenario.builds.join(", ")}`);
+    }
+  }
+  if (subgraph.truncated) {
+    lines.push(`Stopped at maxDepth=${subgraph.maxDepth}; more recipes lie beyond.`);
+  }
+  return lines.join("\n");
+}
+
 export function register(server: McpServer) {
   registerTool(
     server,
     "project",
     {
       description:
-        "Project ops: list/get/metadata/flow/map. map returns normalized connectivity in structuredContent.map; includeRaw adds original graph payload.",
+        "Project ops: list/get/metadata/flow/map/upstream/downstream/columnLineage. map returns normalized connectivity in structuredContent.map; includeRaw adds original graph payload. upstream/downstream walk the flow from node (dataset, recipe or folder) up to maxDepth recipes deep and split the result into recipes that would run, datasets that would be rebuilt and the scenarios building any of them (includeScenarios=false skips the scenario scan). columnLineage traces datasetName.column upstream to the columns it is computed from and downstream to the columns computed from it (up to maxDepth recipes, default 10), parsing prepare, group, window, join and pass-through visual recipes; SQL and code recipes are reported as opaque.",
       inputSchema: projectInputSchema,
+      actions: {
+        list: "read",
+        get: "read",
+        metadata: "read",
+        flow: "read",
+        map: "read",
+        upstream: "read",
+        downstream: "read",
+        columnLineage: "read",
+      },
     },
-    async ({ action, projectKey, includeRaw, maxNodes, maxEdges, limit, offset, query }) => {
+    async ({
+      action,
+      projectKey,
+      includeRaw,
+      maxNodes,
+      maxEdges,
+      limit,
+      offset,
+      query,
+      datasetName,
+      column,
+      maxDepth,
+      node,
+      includeScenarios,
+    }) => {
       if (action === "list") {
         const projects =
           await get<Array<{ projectKey: string; name: string; shortDesc?: string }>>(
@@ -299,64 +502,7 @@ export function register(server: McpServer) {
       }
 
       if (action === "map") {
-        const metadataTimeoutMs = getMapMetadataTimeoutMs();
-        const [rawGraph, foldersMeta, datasetsMeta, recipesMeta] = await Promise.all([
-          get<unknown>(`/public/api/projects/${enc}/flow/graph/`),
-          fetchOptionalMetadataWithTimeout(
-            "Managed folders",
-            metadataTimeoutMs,
-            async () =>
-              await get<Array<{ id?: string; name?: string }>>(
-                `/public/api/projects/${enc}/managedfolders/`,
-              ),
-          ),
-          fetchOptionalMetadataWithTimeout(
-            "Datasets",
-            metadataTimeoutMs,
-            async () =>
-              await get<Array<{ name?: string }>>(`/public/api/projects/${enc}/datasets/`),
-          ),
-          fetchOptionalMetadataWithTimeout(
-            "Recipes",
-            metadataTimeoutMs,
-            async () => await get<Array<{ name?: string }>>(`/public/api/projects/${enc}/recipes/`),
-          ),
-        ]);
-
-        const metadataWarnings = [
-          foldersMeta.warning,
-          datasetsMeta.warning,
-          recipesMeta.warning,
-        ].filter((warning): warning is string => typeof warning === "string" && warning.length > 0);
-
-        const folderNamesById: Record<string, string> = {};
-        const allFolderIds: string[] = [];
-        for (const f of foldersMeta.value ?? []) {
-          if (!f.id || f.id.length === 0) continue;
-          allFolderIds.push(f.id);
-          folderNamesById[f.id] = f.name ?? f.id;
-        }
-
-        const allDatasetNames = (datasetsMeta.value ?? [])
-          .map((d) => d.name)
-          .filter((n): n is string => typeof n === "string" && n.length > 0);
-
-        const allRecipeNames = (recipesMeta.value ?? [])
-          .map((r) => r.name)
-          .filter((n): n is string => typeof n === "string" && n.length > 0);
-        const normalizedBase = normalizeFlowGraph(rawGraph, pk, {
-          folderNamesById,
-          allDatasetNames,
-          allRecipeNames,
-          allFolderIds,
-        });
-        const normalized =
-          metadataWarnings.length > 0
-            ? {
-                ...normalizedBase,
-                warnings: [...normalizedBase.warnings, ...metadataWarnings],
-              }
-            : normalizedBase;
+        const { map: normalized, raw: rawGraph } = await loadFlowMap(pk);
         const effectiveMaxNodes = maxNodes ?? DEFAULT_MAP_MAX_NODES;
         const effectiveMaxEdges = maxEdges ?? DEFAULT_MAP_MAX_EDGES;
         const { map, truncation } = truncateFlowMap(
@@ -398,6 +544,109 @@ export function register(server: McpServer) {
         };
       }
 
+      if (action === "upstream" || action === "downstream") {
+        const { map } = await loadFlowMap(pk);
+        const start =
+          map.nodes.find((n) => n.id === node) ?? map.nodes.find((n) => n.name === node);
+        if (!start) {
+          const needle = node.toLowerCase();
+          const suggestions = map.nodes
+            .map((n) => n.id)
+            .filter((id) => id.toLowerCase().includes(needle) || needle.includes(id.toLowerCase()))
+            .slice(0, 10);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: node "${node}" is not in the flow of ${pk}.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""}`,
+              },
+            ],
+            structuredContent: { ok: false, reason: "unknown_node", node, suggestions },
+            isError: true,
+          };
+        }
+        const subgraph = extractSubgraph(map, start.id, action, maxDepth);
+        const found =
+          includeScenarios === false
+            ? { scenarios: undefined, warnings: [] }
+            : await scenariosBuilding(pk, [...subgraph.datasets, ...subgraph.folders]);
+        const { scenarios } = found;
+        // Map warnings (e.g. a metadata timeout) mean the subgraph may be missing nodes.
+        const warnings = [...map.warnings, ...found.warnings];
+        const text = [
+          formatSubgraph(subgraph, start.kind, scenarios),
+          ...warnings.map((warning) => `Warning: ${warning}`),
+        ].join("\n");
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            ok: true,
+            projectKey: pk,
+            kind: start.kind,
+            ...subgraph,
+            ...(scenarios ? { scenarios } : {}),
+            ...(warnings.length > 0 ? { warnings } : {}),
+          },
+        };
+      }
+
+      if (action === "columnLineage") {
+        const datasetPath = (name: string) =>
+          `/public/api/projects/${enc}/datasets/${encodeURIComponent(name)}`;
+        const dataset = await get<{ schema?: { columns?: Array<{ name: string }> } }>(
+          datasetPath(datasetName),
+        );
+        const columns = (dataset.schema?.columns ?? []).map((c) => c.name);
+        if (!columns.includes(column)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: column "${column}" is not in the schema of "${datasetName}". Columns: ${columns.join(", ") || "(none)"}.`,
+              },
+            ],
+            structuredContent: {
+              ok: false,
+              reason: "unknown_column",
+              column,
+              availableColumns: columns,
+            },
+            isError: true,
+          };
+        }
+        const { map } = await loadFlowMap(pk);
+        const lineage = await traceColumnLineage(
+          map,
+          { dataset: datasetName, column },
+          {
+            recipe: (name) =>
+              get<{ recipe?: Record<string, unknown>; payload?: string }>(
+                `/public/api/projects/${enc}/recipes/${encodeURIComponent(name)}`,
+              ),
+            schema: async (name) => {
+              if (name === datasetName) return columns;
+              try {
+                const d = await get<{ schema?: { columns?: Array<{ name: string }> } }>(
+                  datasetPath(name),
+                );
+                return d.schema?.columns?.map((c) => c.name);
+              } catch {
+                return undefined;
+              }
+            },
+          },
+          maxDepth ?? DEFAULT_LINEAGE_MAX_DEPTH,
+        );
+        const text = [
+          formatColumnLineage(lineage),
+          ...lineage.warnings.map((warning) => `Warning: ${warning}`),
+        ].join("\n");
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { ok: true, projectKey: pk, ...lineage },
+        };
+      }
+
       // action === "flow"
       interface FlowNode {
         type: string;
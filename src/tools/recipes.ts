@@ -1,10 +1,25 @@
 import { writeFile } from "node:fs/promises";
-import { resolve } from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { DataikuError, del, get, getProjectKey, post, put } from "../client.js";
+import { resolveLocalPath } from "../session.js";
+import { optionalConfirm, optionalInstance } from "./action-schema.js";
 import { emptyListText, filterByQuery, formatBulletText, paginateItems } from "./list-format.js";
+import {
+  type ConcurrencyInput,
+  concurrencyFields,
+  conflictResult,
+  findConflict,
+  versionOf,
+} from "./optimistic-lock.js";
 import { registerTool } from "./register-tool.js";
+import {
+  applyUpdatePatch,
+  invalidPatchResult,
+  type UpdatePatchInput,
+  updatePatchFields,
+  updateText,
+} from "./update-patch.js";
 
 const optionalProjectKey = z.string().optional();
 
@@ -37,6 +52,11 @@ function asRecord(value: unknown): Record<string, unknown> | undefined {
   return value as Record<string, unknown>;
 }
 
+/** Recipe GETs wrap the definition: the version tag sits on `recipe`, the hash covers the payload too. */
+function recipeVersion(full: Record<string, unknown>): number | string {
+  return versionOf(full, full.recipe);
+}
+
 function missingRecipeDefinitionError(recipeName: string) {
   return {
     content: [
@@ -74,6 +94,7 @@ const recipeCreateSchema = z
   .object({
     action: z.literal("create"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     type: z.string().min(1),
     name: z.string().optional(),
     inputDatasets: z.array(z.string().min(1)).min(1).optional(),
@@ -109,6 +130,7 @@ const recipeInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("list"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     limit: z.number().int().min(1).optional(),
     offset: z.number().int().min(0).optional(),
     query: z.string().optional(),
@@ -117,6 +139,7 @@ const recipeInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("get"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     recipeName: z.string().min(1),
     includePayload: z.boolean().optional(),
     payloadMaxLines: z.number().int().optional(),
@@ -124,17 +147,22 @@ const recipeInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("update"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     recipeName: z.string().min(1),
-    data: patchSchema,
+    ...updatePatchFields,
+    ...concurrencyFields,
   }),
   z.object({
     action: z.literal("delete"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     recipeName: z.string().min(1),
+    confirm: optionalConfirm,
   }),
   z.object({
     action: z.literal("download"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     recipeName: z.string().min(1),
     outputPath: z.string().optional(),
   }),
@@ -146,8 +174,16 @@ export function register(server: McpServer) {
     "recipe",
     {
       description:
-        "Recipe ops: list/get/create/update/delete/download. get is summary-first; set includePayload=true to include payload snippets.",
+        "Recipe ops: list/get/create/update/delete/download. get is summary-first; set includePayload=true to include payload snippets. update patches the {recipe, payload} document with data (deep merge; arrays replaced, or matched by id/name/ref with arrayMerge=byKey), patch (RFC 6902) or mergePatch (RFC 7396) and returns the changes made; it fails with reason conflict if the recipe version (from get) changed before the write, unless expectedVersion matches or force=true.",
       inputSchema: recipeInputSchema,
+      actions: {
+        list: "read",
+        get: "read",
+        download: "read",
+        create: "write",
+        update: "write",
+        delete: "destructive",
+      },
     },
     async (args: Record<string, unknown>) => {
       const typedArgs = args as {
@@ -159,7 +195,6 @@ export function register(server: McpServer) {
         recipeName?: string;
         includePayload?: boolean;
         payloadMaxLines?: number;
-        data?: Record<string, unknown>;
         outputPath?: string;
         [key: string]: unknown;
       };
@@ -172,7 +207,6 @@ export function register(server: McpServer) {
         recipeName,
         includePayload,
         payloadMaxLines,
-        data,
         outputPath,
       } = typedArgs;
       const raw = typedArgs as Record<string, unknown>;
@@ -503,34 +537,50 @@ export function register(server: McpServer) {
         }
         return {
           content: [{ type: "text", text: parts.join("\n") }],
-          structuredContent: { ok: true, recipe: full },
+          structuredContent: { ok: true, recipe: full, version: recipeVersion(full) },
         };
       }
 
       if (action === "update") {
-        if (!data) {
-          return {
-            content: [{ type: "text", text: "Error: data is required for update." }],
-            isError: true,
-          };
-        }
         const current = await get<Record<string, unknown>>(
           `/public/api/projects/${enc}/recipes/${rnEnc}`,
+          { bypassCache: true },
         );
-        const currentRecipe = asRecord(current.recipe);
-        if (!currentRecipe) {
+        if (!asRecord(current.recipe)) {
           return missingRecipeDefinitionError(recipeName);
         }
-        // Deep merge: preserve nested recipe object fields
-        const mergedRecipe = {
-          ...currentRecipe,
-          ...((data.recipe as object) ?? {}),
-        };
-        const merged = { ...current, ...data, recipe: mergedRecipe };
-        await put<Record<string, unknown>>(`/public/api/projects/${enc}/recipes/${rnEnc}`, merged);
+        // The patch applies to the whole {recipe, payload, ...} document.
+        const update = applyUpdatePatch(current, raw as UpdatePatchInput);
+        if (!update.ok) return invalidPatchResult(update);
+        if (!asRecord(update.next.recipe)) {
+          return invalidPatchResult({ message: "the update must keep the recipe definition." });
+        }
+        if (update.changes.length > 0) {
+          const conflict = await findConflict({
+            current,
+            next: update.next,
+            input: raw as ConcurrencyInput,
+            refetch: () =>
+              get<Record<string, unknown>>(`/public/api/projects/${enc}/recipes/${rnEnc}`, {
+                bypassCache: true,
+              }),
+            version: recipeVersion,
+          });
+          if (conflict) return conflictResult(`Recipe "${recipeName}"`, conflict);
+          await put<Record<string, unknown>>(
+            `/public/api/projects/${enc}/recipes/${rnEnc}`,
+            update.next,
+          );
+        }
         return {
-          content: [{ type: "text", text: `Recipe "${recipeName}" updated.` }],
-          structuredContent: { ok: true, recipeName, updated: true },
+          content: [{ type: "text", text: updateText(`Recipe "${recipeName}"`, update.changes) }],
+          structuredContent: {
+            ok: true,
+            recipeName,
+            updated: update.changes.length > 0,
+            mode: update.mode,
+            changes: update.changes,
+          },
         };
       }
 
@@ -551,7 +601,7 @@ export function register(server: McpServer) {
         return missingRecipeDefinitionError(recipeName);
       }
       const safeRecipeName = sanitizeFileName(recipeName, "recipe");
-      const filePath = outputPath ?? resolve(process.cwd(), `${safeRecipeName}.json`);
+      const filePath = resolveLocalPath(outputPath, `${safeRecipeName}.json`);
       await writeFile(filePath, JSON.stringify(recipe, null, 2), "utf-8");
       return {
         content: [{ type: "text", text: `Recipe "${recipeName}" saved to ${filePath}` }],
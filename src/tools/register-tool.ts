@@ -1,10 +1,25 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { DataikuError } from "../client.js";
+import { runWithAuditContext } from "../audit.js";
+import { DataikuError, getProjectKey } from "../client.js";
 import {
   type ApiLatencyRecord,
   isToolLatencyDebugEnabled,
   runWithToolLatency,
 } from "../debug-latency.js";
+import { runWithInstance } from "../instances.js";
+import { evaluatePolicy, type PolicyDecision } from "../policy.js";
+import { RequestCancelledError, runWithToolRequest, type ToolRequestExtra } from "../progress.js";
+import {
+  type ActionAccess,
+  type ActionAccessRule,
+  type DryRunRequest,
+  DryRunIntercept,
+  getSafetyMode,
+  runWithDryRun,
+} from "../safety.js";
+import { getServerSession, LocalPathError, runWithSession } from "../session.js";
+import { suggestForNotFound } from "../suggestions.js";
+import { confirmDestructiveAction, describeTarget } from "./confirmation.js";
 
 type ToolResult = {
   content?: Array<{ type: string; text?: string; [key: string]: unknown }>;
@@ -51,11 +66,28 @@ function toErrorToolResult(error: unknown): ToolResult {
         category: error.category,
         retryable: error.retryable,
         retryHint: error.retryHint,
+        ...(error.instance ? { instance: error.instance } : {}),
         ...(error.retry ? { retry: error.retry } : {}),
       },
     };
   }
 
+  if (error instanceof RequestCancelledError) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: error.message }],
+      structuredContent: { ok: false, reason: "cancelled", message: error.message },
+    };
+  }
+
+  if (error instanceof LocalPathError) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: `Error: ${error.message}` }],
+      structuredContent: { ok: false, reason: "local_path_denied", message: error.message },
+    };
+  }
+
   const message = error instanceof Error ? error.message : String(error);
   return {
     isError: true,
@@ -68,6 +100,182 @@ function toErrorToolResult(error: unknown): ToolResult {
   };
 }
 
+async function withNotFoundSuggestions(
+  result: ToolResult,
+  args: Record<string, unknown>,
+): Promise<ToolResult> {
+  const found = await suggestForNotFound(args);
+  if (!found || found.suggestions.length === 0) return result;
+  const names = found.suggestions.map((suggestion) => `"${suggestion}"`).join(", ");
+  const text = `${extractPrimaryText(result) ?? ""}\nDid you mean ${found.argument} ${names}?`;
+  return {
+    ...result,
+    content: [{ type: "text", text }],
+    structuredContent: {
+      ...result.structuredContent,
+      suggestions: found.suggestions,
+      suggestionsFor: { argument: found.argument, value: found.value },
+    },
+  };
+}
+
+export type ToolConfig = Record<string, unknown> & {
+  /** Access class of every action; drives DATAIKU_MODE enforcement. */
+  actions: Record<string, ActionAccessRule>;
+};
+
+function resolveAccess(
+  actions: Record<string, ActionAccessRule> | undefined,
+  action: string | null,
+  args: Record<string, unknown>,
+): ActionAccess {
+  const rule = action ? actions?.[action] : undefined;
+  // Unclassified actions are treated as writes so the safety modes fail closed.
+  if (rule === undefined) return "write";
+  return typeof rule === "string" ? rule : rule.resolve(args);
+}
+
+function buildAnnotations(actions: Record<string, ActionAccessRule>): Record<string, boolean> {
+  const classes = Object.values(actions).flatMap((rule) =>
+    typeof rule === "string" ? [rule] : rule.returns,
+  );
+  const readOnly = classes.every((access) => access === "read");
+  return {
+    readOnlyHint: readOnly,
+    destructiveHint: classes.includes("destructive"),
+    idempotentHint: readOnly,
+  };
+}
+
+/** Maps each action literal in the input schema to whether it accepts a projectKey. */
+function describeSchemaActions(inputSchema: unknown): Map<string, { projectScoped: boolean }> {
+  const schema = inputSchema as { options?: unknown[] } | undefined;
+  const variants = Array.isArray(schema?.options) ? schema.options : [inputSchema];
+  const described = new Map<string, { projectScoped: boolean }>();
+  for (const variant of variants) {
+    const shape = (
+      variant as
+        | { shape?: { action?: { values?: Set<unknown> }; projectKey?: unknown } }
+        | undefined
+    )?.shape;
+    for (const value of shape?.action?.values ?? []) {
+      if (typeof value === "string") {
+        described.set(value, { projectScoped: shape?.projectKey !== undefined });
+      }
+    }
+  }
+  return described;
+}
+
+function resolvePolicyProjectKey(
+  args: Record<string, unknown>,
+  projectScoped: boolean,
+): string | undefined {
+  if (typeof args.projectKey === "string" && args.projectKey.trim()) return args.projectKey;
+  if (!projectScoped) return undefined;
+  try {
+    return getProjectKey();
+  } catch {
+    return undefined;
+  }
+}
+
+function readonlyResult(toolName: string, action: string | null, access: ActionAccess): ToolResult {
+  const label = action ? `${toolName}.${action}` : toolName;
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text",
+        text: `Refused: ${label} is a ${access} action and the server runs with DATAIKU_MODE=readonly.`,
+      },
+    ],
+    structuredContent: {
+      ok: false,
+      reason: "readonly_mode",
+      tool: toolName,
+      action,
+      access,
+    },
+  };
+}
+
+export function policyDeniedResult(
+  toolName: string,
+  action: string | null,
+  projectKey: string | undefined,
+  decision: PolicyDecision,
+): ToolResult {
+  const label = action ? `${toolName}.${action}` : toolName;
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text",
+        text: `Denied by policy rule ${decision.rule}: ${label} (${decision.message}).`,
+      },
+    ],
+    structuredContent: {
+      ok: false,
+      reason: "policy_denied",
+      tool: toolName,
+      action,
+      ...(projectKey !== undefined ? { projectKey } : {}),
+      rule: decision.rule,
+      message: decision.message,
+    },
+  };
+}
+
+function confirmationResult(
+  toolName: string,
+  action: string | null,
+  args: Record<string, unknown>,
+  outcome: "declined" | "unsupported",
+): ToolResult {
+  const label = action ? `${toolName}.${action}` : toolName;
+  const target = describeTarget(args);
+  const text =
+    outcome === "declined"
+      ? `Cancelled: ${label} on ${target} was not confirmed.`
+      : `Confirmation required: ${label} is destructive (${target}). Re-run with confirm: true to proceed.`;
+  return {
+    isError: true,
+    content: [{ type: "text", text }],
+    structuredContent: {
+      ok: false,
+      reason: outcome === "declined" ? "confirmation_declined" : "confirmation_required",
+      tool: toolName,
+      action,
+      target,
+    },
+  };
+}
+
+function dryRunResult(
+  toolName: string,
+  action: string | null,
+  access: ActionAccess,
+  request: DryRunRequest,
+): ToolResult {
+  const label = action ? `${toolName}.${action}` : toolName;
+  const lines = [`Dry run: ${label} would send ${request.method} ${request.path} (not sent).`];
+  if (request.body !== undefined) {
+    lines.push(JSON.stringify(request.body, null, 2));
+  }
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: {
+      ok: true,
+      dryRun: true,
+      tool: toolName,
+      action,
+      access,
+      request,
+    },
+  };
+}
+
 function asRecord(value: unknown): Record<string, unknown> | undefined {
   if (value && typeof value === "object" && !Array.isArray(value)) {
     return value as Record<string, unknown>;
@@ -82,6 +290,17 @@ function extractAction(args: unknown[]): string | null {
   return typeof action === "string" ? action : null;
 }
 
+function extractInstance(args: unknown[]): string | undefined {
+  const instance = asRecord(args[0])?.instance;
+  return typeof instance === "string" ? instance : undefined;
+}
+
+function extractRequestExtra(args: unknown[]): ToolRequestExtra | undefined {
+  // Tools with an input schema are called as (args, extra); extra carries signal and _meta.
+  const extra = asRecord(args[1]);
+  return extra && "signal" in extra ? (extra as ToolRequestExtra) : undefined;
+}
+
 function withLatencyDebug(
   result: ToolResult,
   toolName: string,
@@ -121,25 +340,72 @@ function withLatencyDebug(
 export function registerTool<TArgs extends unknown[]>(
   server: McpServer,
   name: string,
-  config: Record<string, unknown>,
+  config: ToolConfig,
   handler: (...args: TArgs) => ToolResult | Promise<ToolResult>,
 ) {
+  const { actions, ...sdkConfig } = config;
+  const schemaActions = describeSchemaActions(config.inputSchema);
+  const unclassified = [...schemaActions.keys()].filter((action) => !actions?.[action]);
+  if (unclassified.length > 0) {
+    throw new Error(`Tool "${name}" has no access class for actions: ${unclassified.join(", ")}.`);
+  }
+  const annotations = {
+    ...buildAnnotations(actions ?? {}),
+    ...(asRecord(config.annotations) ?? {}),
+  };
   return server.registerTool(
     name,
-    config as never,
+    { ...sdkConfig, annotations } as never,
     (async (...args: TArgs) => {
       const latencyDebugEnabled = isToolLatencyDebugEnabled();
       const action = extractAction(args);
+      const instance = extractInstance(args);
+      const callArgs = asRecord(args[0]) ?? {};
       const { result, totalMs, apiCalls } = await runWithToolLatency(
         latencyDebugEnabled,
-        async () => {
-          try {
-            const raw = await handler(...args);
-            return withStructuredContent(raw);
-          } catch (error) {
-            return withStructuredContent(toErrorToolResult(error));
-          }
-        },
+        async () =>
+          await runWithSession(getServerSession(server), () =>
+            runWithInstance(instance, async () => {
+              let access: ActionAccess = "write";
+              try {
+                access = resolveAccess(actions, action, callArgs);
+                const mode = getSafetyMode();
+                if (mode === "readonly" && access !== "read") {
+                  return readonlyResult(name, action, access);
+                }
+                const projectKey = resolvePolicyProjectKey(
+                  callArgs,
+                  action ? (schemaActions.get(action)?.projectScoped ?? false) : false,
+                );
+                const decision = evaluatePolicy({ tool: name, action, projectKey });
+                if (!decision.allowed) {
+                  return policyDeniedResult(name, action, projectKey, decision);
+                }
+                if (mode === "full" && access === "destructive") {
+                  const label = action ? `${name}.${action}` : name;
+                  const outcome = await confirmDestructiveAction(server, label, callArgs);
+                  if (outcome !== "confirmed") {
+                    return confirmationResult(name, action, callArgs, outcome);
+                  }
+                }
+                const raw = await runWithAuditContext({ tool: name, action, projectKey }, () =>
+                  runWithDryRun(mode === "dryrun" && access !== "read", () =>
+                    runWithToolRequest(extractRequestExtra(args), async () => handler(...args)),
+                  ),
+                );
+                return withStructuredContent(raw);
+              } catch (error) {
+                if (error instanceof DryRunIntercept) {
+                  return dryRunResult(name, action, access, error.request);
+                }
+                const result = toErrorToolResult(error);
+                if (error instanceof DataikuError && error.category === "not_found") {
+                  return withStructuredContent(await withNotFoundSuggestions(result, callArgs));
+                }
+                return withStructuredContent(result);
+              }
+            }),
+          ),
       );
 
       return latencyDebugEnabled
@@ -0,0 +1,260 @@
+import { z } from "zod";
+
+export const FILTER_OPS = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "contains",
+  "startsWith",
+  "endsWith",
+  "isEmpty",
+  "isNotEmpty",
+] as const;
+export type FilterOp = (typeof FILTER_OPS)[number];
+
+const filterValue = z.union([z.string(), z.number(), z.boolean()]);
+
+export const filterConditionSchema = z.object({
+  column: z.string().min(1),
+  op: z.enum(FILTER_OPS),
+  value: z.union([filterValue, z.array(filterValue)]).optional(),
+});
+export type FilterCondition = z.infer<typeof filterConditionSchema>;
+type FilterValue = z.infer<typeof filterValue>;
+
+export const SAMPLING_METHODS = ["head", "random", "last"] as const;
+export type Sampling = (typeof SAMPLING_METHODS)[number];
+
+export interface RowSelection {
+  columns?: string[];
+  /** A DSS formula, or conditions that must all hold. */
+  filter?: string | FilterCondition[];
+  sampling?: Sampling;
+}
+
+/** True when the selection asks for anything beyond the first rows of every column. */
+export function hasSelection(selection: RowSelection): boolean {
+  return (
+    Boolean(selection.columns?.length) ||
+    selection.filter !== undefined ||
+    (selection.sampling ?? "head") !== "head"
+  );
+}
+
+const DSS_SAMPLING: Record<Sampling, string> = {
+  head: "HEAD_SEQUENTIAL",
+  random: "RANDOM_FIXED_NB",
+  last: "TAIL_SEQUENTIAL",
+};
+
+const VALUELESS_OPS = new Set<FilterOp>(["isEmpty", "isNotEmpty"]);
+
+/** Returns an error message for conditions whose value does not suit the operator. */
+export function validateConditions(conditions: FilterCondition[]): string | undefined {
+  for (const { column, op, value } of conditions) {
+    if (VALUELESS_OPS.has(op)) continue;
+    if (value === undefined) return `Filter on "${column}": op "${op}" needs a value.`;
+    if (op === "in" ? !Array.isArray(value) : Array.isArray(value)) {
+      return `Filter on "${column}": op "${op}" ${op === "in" ? "needs a list" : "takes a single value"}.`;
+    }
+  }
+  return undefined;
+}
+
+function formulaLiteral(value: FilterValue): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+function conditionFormula({ column, op, value }: FilterCondition): string {
+  const col = JSON.stringify(column);
+  const single = value as FilterValue;
+  const accessor = typeof single === "number" ? `numval(${col})` : `strval(${col})`;
+  const literal = typeof single === "boolean" ? JSON.stringify(String(single)) : undefined;
+  const rhs = literal ?? formulaLiteral(single);
+  switch (op) {
+    case "eq":
+      return `${accessor} == ${rhs}`;
+    case "ne":
+      return `${accessor} != ${rhs}`;
+    case "gt":
+      return `numval(${col}) > ${formulaLiteral(single)}`;
+    case "gte":
+      return `numval(${col}) >= ${formulaLiteral(single)}`;
+    case "lt":
+      return `numval(${col}) < ${formulaLiteral(single)}`;
+    case "lte":
+      return `numval(${col}) <= ${formulaLiteral(single)}`;
+    case "in":
+      return `(${(value as FilterValue[])
+        .map((v) => conditionFormula({ column, op: "eq", value: v }))
+        .join(" || ")})`;
+    case "contains":
+      return `contains(strval(${col}), ${JSON.stringify(String(single))})`;
+    case "startsWith":
+      return `startsWith(strval(${col}), ${JSON.stringify(String(single))})`;
+    case "endsWith":
+      return `endsWith(strval(${col}), ${JSON.stringify(String(single))})`;
+    case "isEmpty":
+      return `isBlank(strval(${col}))`;
+    case "isNotEmpty":
+      return `isNonBlank(strval(${col}))`;
+  }
+}
+
+/** Translates conditions into the DSS formula language, joined with `&&`. */
+export function filterToFormula(filter: string | FilterCondition[]): string {
+  if (typeof filter === "string") return filter;
+  return filter.map(conditionFormula).join(" && ");
+}
+
+/** Query parameters asking the DSS data endpoint to project, filter and sample. */
+export function selectionParams(selection: RowSelection, limit: number): string {
+  const params: string[] = [];
+  if (selection.columns?.length) {
+    params.push(`columns=${encodeURIComponent(selection.columns.join(","))}`);
+  }
+  if (selection.filter !== undefined) {
+    params.push(`filter=${encodeURIComponent(filterToFormula(selection.filter))}`);
+  }
+  if (selection.sampling && selection.sampling !== "head") {
+    const sampling = { samplingMethod: DSS_SAMPLING[selection.sampling], maxRecords: limit };
+    params.push(`sampling=${encodeURIComponent(JSON.stringify(sampling))}`);
+  }
+  return params.map((p) => `&${p}`).join("");
+}
+
+function conditionHolds(cell: string, { op, value }: FilterCondition): boolean {
+  const single = value as FilterValue;
+  switch (op) {
+    case "eq":
+    case "ne": {
+      const equal =
+        typeof single === "number"
+          ? cell !== "" && Number(cell) === single
+          : cell === String(single);
+      return op === "eq" ? equal : !equal;
+    }
+    case "in":
+      return (value as FilterValue[]).some((v) =>
+        conditionHolds(cell, { column: "", op: "eq", value: v }),
+      );
+    case "contains":
+      return cell.includes(String(single));
+    case "startsWith":
+      return cell.startsWith(String(single));
+    case "endsWith":
+      return cell.endsWith(String(single));
+    case "isEmpty":
+      return cell.trim() === "";
+    case "isNotEmpty":
+      return cell.trim() !== "";
+    default: {
+      if (cell === "" || Number.isNaN(Number(cell))) return false;
+      const n = Number(cell);
+      const target = Number(single);
+      if (op === "gt") return n > target;
+      if (op === "gte") return n >= target;
+      if (op === "lt") return n < target;
+      return n <= target;
+    }
+  }
+}
+
+export class UnknownColumnError extends Error {
+  constructor(
+    public column: string,
+    public available: string[],
+  ) {
+    super(`Column "${column}" is not in the dataset. Available: ${available.join(", ")}.`);
+    this.name = "UnknownColumnError";
+  }
+}
+
+/** What has to be done on the client because DSS did not do it. */
+export interface LocalSelection {
+  columns?: string[];
+  conditions?: FilterCondition[];
+  sampling?: Sampling;
+}
+
+/**
+ * Applies projection, filtering and sampling to parsed rows (header first) as
+ * they stream past. Head sampling emits rows immediately; `last` keeps a ring
+ * buffer and `random` a reservoir, so memory stays bounded by the limit.
+ */
+export class RowSelector {
+  private projection: number[] | undefined;
+  private predicates: Array<{ index: number; condition: FilterCondition }> = [];
+  private header: string[] | undefined;
+  private buffer: string[][] = [];
+  private matched = 0;
+  scanned = 0;
+
+  constructor(
+    private readonly local: LocalSelection,
+    private readonly limit: number,
+  ) {}
+
+  private indexOf(column: string): number {
+    const header = this.header as string[];
+    const index = header.indexOf(column);
+    if (index === -1) throw new UnknownColumnError(column, header);
+    return index;
+  }
+
+  private project(row: string[]): string[] {
+    return this.projection ? this.projection.map((i) => row[i] ?? "") : row;
+  }
+
+  /** Feeds one row; returns true once later rows cannot change the result. */
+  push(row: string[], emit: (row: string[]) => void): boolean {
+    if (!this.header) {
+      this.header = row;
+      if (this.local.columns?.length)
+        this.projection = this.local.columns.map((c) => this.indexOf(c));
+      this.predicates = (this.local.conditions ?? []).map((condition) => ({
+        index: this.indexOf(condition.column),
+        condition,
+      }));
+      emit(this.project(row));
+      return false;
+    }
+    this.scanned += 1;
+    if (
+      !this.predicates.every(({ index, condition }) => conditionHolds(row[index] ?? "", condition))
+    ) {
+      return false;
+    }
+    this.matched += 1;
+    const sampling = this.local.sampling ?? "head";
+    if (sampling === "head") {
+      emit(this.project(row));
+      return this.matched >= this.limit;
+    }
+    if (this.buffer.length < this.limit) {
+      this.buffer.push(row);
+      return false;
+    }
+    const slot =
+      sampling === "last"
+        ? (this.matched - 1) % this.limit
+        : Math.floor(Math.random() * this.matched);
+    if (slot < this.limit) this.buffer[slot] = row;
+    return false;
+  }
+
+  /** Emits rows held back by `last`/`random` sampling once the stream has ended. */
+  finish(emit: (row: string[]) => void): void {
+    // The `last` ring buffer's oldest row sits right after the most recent write.
+    const start =
+      this.local.sampling === "last" && this.matched > this.limit ? this.matched % this.limit : 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      emit(this.project(this.buffer[(start + i) % this.buffer.length]));
+    }
+    this.buffer = [];
+  }
+}
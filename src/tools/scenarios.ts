@@ -1,9 +1,17 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { del, get, getProjectKey, post, put } from "../client.js";
-import { deepMerge } from "./deep-merge.js";
-import { registerTool } from "./register-tool.js";
+import { optionalConfirm, optionalInstance } from "./action-schema.js";
 import { emptyListText, filterByQuery, formatBulletText, paginateItems } from "./list-format.js";
+import { concurrencyFields, conflictResult, findConflict, versionOf } from "./optimistic-lock.js";
+import { registerTool } from "./register-tool.js";
+import {
+  applyUpdatePatch,
+  invalidPatchResult,
+  type JsonPatchOperation,
+  updatePatchFields,
+  updateText,
+} from "./update-patch.js";
 
 const optionalProjectKey = z.string().optional();
 
@@ -13,6 +21,7 @@ const scenarioInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("list"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     limit: z.number().int().min(1).optional(),
     offset: z.number().int().min(0).optional(),
     query: z.string().optional(),
@@ -20,6 +29,7 @@ const scenarioInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("create"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     scenarioId: z.string().min(1),
     name: z.string().min(1),
     scenarioType: z.enum(["step_based", "custom_python"]).optional(),
@@ -28,16 +38,19 @@ const scenarioInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("run"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     scenarioId: z.string().min(1),
   }),
   z.object({
     action: z.literal("status"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     scenarioId: z.string().min(1),
   }),
   z.object({
     action: z.literal("get"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     scenarioId: z.string().min(1),
     includeScript: z.boolean().optional(),
     includeDefinition: z.boolean().optional(),
@@ -46,13 +59,17 @@ const scenarioInputSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("update"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     scenarioId: z.string().min(1),
-    data: scenarioPatchSchema,
+    ...updatePatchFields,
+    ...concurrencyFields,
   }),
   z.object({
     action: z.literal("delete"),
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     scenarioId: z.string().min(1),
+    confirm: optionalConfirm,
   }),
 ]);
 
@@ -62,8 +79,17 @@ export function register(server: McpServer) {
     "scenario",
     {
       description:
-        "Scenario ops: list/run/status/get/create/update/delete. get is summary-first; use includeScript/includeDefinition for details.",
+        "Scenario ops: list/run/status/get/create/update/delete. get is summary-first; use includeScript/includeDefinition for details. update takes data (deep merge; arrays replaced, or steps/triggers matched by id with arrayMerge=byKey), patch (RFC 6902) or mergePatch (RFC 7396) and returns the changes made; it fails with reason conflict if the scenario version (from get) changed before the write, unless expectedVersion matches or force=true.",
       inputSchema: scenarioInputSchema,
+      actions: {
+        list: "read",
+        status: "read",
+        get: "read",
+        create: "write",
+        update: "write",
+        run: "write",
+        delete: "destructive",
+      },
     },
     async (args: Record<string, unknown>) => {
       const typedArgs = args as {
@@ -76,6 +102,11 @@ export function register(server: McpServer) {
         name?: string;
         scenarioType?: "step_based" | "custom_python";
         data?: Record<string, unknown>;
+        patch?: JsonPatchOperation[];
+        mergePatch?: Record<string, unknown>;
+        arrayMerge?: "replace" | "byKey";
+        expectedVersion?: number | string;
+        force?: boolean;
         includeScript?: boolean;
         includeDefinition?: boolean;
         definitionMaxLines?: number;
@@ -301,28 +332,42 @@ export function register(server: McpServer) {
         }
         return {
           content: [{ type: "text", text: parts.join("\n") }],
-          structuredContent: { ok: true, scenario: sc },
+          structuredContent: { ok: true, scenario: sc, version: versionOf(sc) },
         };
       }
 
       if (action === "update") {
-        if (!data) {
-          return {
-            content: [{ type: "text", text: "Error: data is required for update." }],
-            isError: true,
-          };
-        }
         const current = await get<Record<string, unknown>>(
           `/public/api/projects/${enc}/scenarios/${scEnc}/`,
+          { bypassCache: true },
         );
-        const merged = deepMerge(current, data);
-        await put<Record<string, unknown>>(
-          `/public/api/projects/${enc}/scenarios/${scEnc}/`,
-          merged,
-        );
+        const update = applyUpdatePatch(current, typedArgs);
+        if (!update.ok) return invalidPatchResult(update);
+        if (update.changes.length > 0) {
+          const conflict = await findConflict({
+            current,
+            next: update.next,
+            input: typedArgs,
+            refetch: () =>
+              get<Record<string, unknown>>(`/public/api/projects/${enc}/scenarios/${scEnc}/`, {
+                bypassCache: true,
+              }),
+          });
+          if (conflict) return conflictResult(`Scenario "${scenarioId}"`, conflict);
+          await put<Record<string, unknown>>(
+            `/public/api/projects/${enc}/scenarios/${scEnc}/`,
+            update.next,
+          );
+        }
         return {
-          content: [{ type: "text", text: `Scenario "${scenarioId}" updated.` }],
-          structuredContent: { ok: true, scenarioId, updated: true },
+          content: [{ type: "text", text: updateText(`Scenario "${scenarioId}"`, update.changes) }],
+          structuredContent: {
+            ok: true,
+            scenarioId,
+            updated: update.changes.length > 0,
+            mode: update.mode,
+            changes: update.changes,
+          },
         };
       }
 
@@ -0,0 +1,223 @@
+import { z } from "zod";
+
+const columnName = z.string().min(1);
+
+export const schemaOperationSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("add"),
+    name: columnName,
+    type: z.string().min(1),
+    comment: z.string().optional(),
+    meaning: z.string().optional(),
+    /** Insert after this column; appended at the end when omitted. */
+    after: columnName.optional(),
+  }),
+  z.object({ op: z.literal("drop"), column: columnName }),
+  z.object({ op: z.literal("rename"), column: columnName, to: columnName }),
+  z.object({ op: z.literal("retype"), column: columnName, type: z.string().min(1) }),
+  /** Moves the listed columns to the front, in this order; the rest keep their order. */
+  z.object({ op: z.literal("reorder"), columns: z.array(columnName).min(1) }),
+  /** Sets the comment and/or meaning; an empty string clears it. */
+  z.object({
+    op: z.literal("set"),
+    column: columnName,
+    comment: z.string().optional(),
+    meaning: z.string().optional(),
+  }),
+]);
+export type SchemaOperation = z.infer<typeof schemaOperationSchema>;
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  comment?: string;
+  meaning?: string;
+  [key: string]: unknown;
+}
+
+export type SchemaChange =
+  | { change: "added"; column: string; type: string; position: number }
+  | { change: "dropped"; column: string; type: string }
+  | { change: "renamed"; column: string; from: string }
+  | { change: "retyped"; column: string; from: string; to: string }
+  | { change: "moved"; column: string; from: number; to: number }
+  | { change: "annotated"; column: string; field: "comment" | "meaning"; from: string; to: string };
+
+export interface SchemaEditResult {
+  columns: SchemaColumn[];
+  changes: SchemaChange[];
+  /** Original names of dropped, renamed or retyped columns: what existing readers may depend on. */
+  affected: string[];
+}
+
+export class SchemaEditError extends Error {
+  constructor(
+    message: string,
+    public operation: number,
+  ) {
+    super(message);
+    this.name = "SchemaEditError";
+  }
+}
+
+interface Tracked {
+  original?: string;
+  column: SchemaColumn;
+}
+
+/** Members of the longest increasing subsequence: the columns that kept their relative order. */
+function inOrder(indexes: number[]): Set<number> {
+  const lengths = indexes.map(() => 1);
+  const previous = indexes.map(() => -1);
+  let best = -1;
+  indexes.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (indexes[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (best === -1 || lengths[i] > lengths[best]) best = i;
+  });
+  const members = new Set<number>();
+  for (let i = best; i !== -1; i = previous[i]) members.add(indexes[i]);
+  return members;
+}
+
+/** Applies the operations in order, then diffs the result against the input by column identity. */
+export function applySchemaEdits(
+  before: SchemaColumn[],
+  operations: SchemaOperation[],
+): SchemaEditResult {
+  let columns: Tracked[] = before.map((column) => ({
+    original: column.name,
+    column: { ...column },
+  }));
+
+  operations.forEach((operation, i) => {
+    const fail = (message: string): never => {
+      throw new SchemaEditError(`Operation ${i + 1} (${operation.op}): ${message}`, i);
+    };
+    const find = (name: string): number => {
+      const index = columns.findIndex((t) => t.column.name === name);
+      if (index === -1) {
+        fail(
+          `column "${name}" does not exist. Columns: ${columns.map((t) => t.column.name).join(", ")}.`,
+        );
+      }
+      return index;
+    };
+    const ensureFree = (name: string) => {
+      if (columns.some((t) => t.column.name === name)) fail(`column "${name}" already exists.`);
+    };
+
+    switch (operation.op) {
+      case "add": {
+        ensureFree(operation.name);
+        const column: SchemaColumn = { name: operation.name, type: operation.type };
+        if (operation.comment) column.comment = operation.comment;
+        if (operation.meaning) column.meaning = operation.meaning;
+        const at = operation.after === undefined ? columns.length : find(operation.after) + 1;
+        columns.splice(at, 0, { column });
+        break;
+      }
+      case "drop":
+        columns.splice(find(operation.column), 1);
+        break;
+      case "rename": {
+        const index = find(operation.column);
+        if (operation.to !== operation.column) ensureFree(operation.to);
+        columns[index].column.name = operation.to;
+        break;
+      }
+      case "retype":
+        columns[find(operation.column)].column.type = operation.type;
+        break;
+      case "reorder": {
+        if (new Set(operation.columns).size !== operation.columns.length) {
+          fail("columns are listed more than once.");
+        }
+        const moved = operation.columns.map((name) => columns[find(name)]);
+        columns = [...moved, ...columns.filter((t) => !moved.includes(t))];
+        break;
+      }
+      case "set": {
+        const { column } = columns[find(operation.column)];
+        for (const field of ["comment", "meaning"] as const) {
+          const value = operation[field];
+          if (value === undefined) continue;
+          if (value === "") delete column[field];
+          else column[field] = value;
+        }
+        break;
+      }
+    }
+  });
+
+  const originals = new Map(before.map((column, index) => [column.name, { column, index }]));
+  const kept = columns.filter((t) => t.original !== undefined).map((t) => t.original as string);
+  const stayed = inOrder(kept.map((name) => originals.get(name)?.index as number));
+  const changes: SchemaChange[] = [];
+  const affected = new Set<string>();
+
+  for (const column of before) {
+    if (!kept.includes(column.name)) {
+      changes.push({ change: "dropped", column: column.name, type: column.type });
+      affected.add(column.name);
+    }
+  }
+  columns.forEach(({ original, column }, position) => {
+    if (original === undefined) {
+      changes.push({ change: "added", column: column.name, type: column.type, position });
+      return;
+    }
+    const { column: old, index } = originals.get(original) as {
+      column: SchemaColumn;
+      index: number;
+    };
+    if (old.name !== column.name) {
+      changes.push({ change: "renamed", column: column.name, from: old.name });
+      affected.add(old.name);
+    }
+    if (old.type !== column.type) {
+      changes.push({ change: "retyped", column: column.name, from: old.type, to: column.type });
+      affected.add(old.name);
+    }
+    // Adds and drops shift positions on their own; only columns out of relative order moved.
+    if (!stayed.has(index)) {
+      changes.push({ change: "moved", column: column.name, from: index, to: position });
+    }
+    for (const field of ["comment", "meaning"] as const) {
+      const from = old[field] ?? "";
+      const to = column[field] ?? "";
+      if (from !== to) changes.push({ change: "annotated", column: column.name, field, from, to });
+    }
+  });
+
+  return { columns: columns.map((t) => t.column), changes, affected: [...affected] };
+}
+
+export function formatSchemaChange(change: SchemaChange): string {
+  switch (change.change) {
+    case "added":
+      return `+ ${change.column} (${change.type}) at position ${change.position + 1}`;
+    case "dropped":
+      return `- ${change.column} (${change.type})`;
+    case "renamed":
+      return `~ ${change.from} renamed to ${change.column}`;
+    case "retyped":
+      return `~ ${change.column}: ${change.from} → ${change.to}`;
+    case "moved":
+      return `~ ${change.column} moved from position ${change.from + 1} to ${change.to + 1}`;
+    case "annotated":
+      return `~ ${change.column} ${change.field}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`;
+  }
+}
+
+/** Names of `columns` that appear as whole identifiers in `text`. */
+export function referencedColumns(text: string, columns: string[]): string[] {
+  return columns.filter((column) => {
+    const escaped = column.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(^|[^A-Za-z0-9_])${escaped}($|[^A-Za-z0-9_])`).test(text);
+  });
+}
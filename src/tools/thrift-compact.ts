@@ -0,0 +1,220 @@
+/**
+ * Thrift compact protocol, as used by Parquet file and page metadata. The
+ * reader decodes structs generically into field-id maps; the writer encodes
+ * structs built with the `thrift` helpers.
+ */
+
+export type ThriftValue = number | bigint | boolean | Uint8Array | ThriftValue[] | ThriftStruct;
+export type ThriftStruct = Map<number, ThriftValue>;
+
+export class CompactReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  private byte(): number {
+    if (this.offset >= this.bytes.length) throw new Error("Truncated Thrift data.");
+    return this.bytes[this.offset++];
+  }
+
+  private varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const b = this.byte();
+      result |= BigInt(b & 0x7f) << shift;
+      if ((b & 0x80) === 0) return result;
+      shift += 7n;
+    }
+  }
+
+  private zigzag(): bigint {
+    const n = this.varint();
+    return (n >> 1n) ^ -(n & 1n);
+  }
+
+  private value(type: number): ThriftValue {
+    switch (type) {
+      case 1:
+        return true;
+      case 2:
+        return false;
+      case 3:
+        return (this.byte() << 24) >> 24;
+      case 4:
+      case 5:
+        return Number(this.zigzag());
+      case 6:
+        return this.zigzag();
+      case 7: {
+        const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, 8);
+        this.offset += 8;
+        return view.getFloat64(0, true);
+      }
+      case 8: {
+        const length = Number(this.varint());
+        const slice = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return slice;
+      }
+      case 9:
+      case 10:
+        return this.list();
+      case 11:
+        return this.map();
+      case 12:
+        return this.struct();
+      default:
+        throw new Error(`Unsupported Thrift type ${type} .`);
+    }
+  }
+
+  private list(): ThriftValue[] {
+    const header = this.byte();
+    let size = header >> 4;
+    const elementType = header & 0x0f;
+    if (size === 15) size = Number(this.varint());
+    const items: ThriftValue[] = [];
+    for (let i = 0; i < size; i++) {
+      // Booleans inside collections take a full byte rather than living in the type nibble.
+      items.push(
+        elementType === 1 || elementType === 2 ? this.byte() === 1 : this.value(elementType),
+      );
+    }
+    return items;
+  }
+
+  private map(): ThriftValue[] {
+    const size = Number(this.varint());
+    if (size === 0) return [];
+    const types = this.byte();
+    const entries: ThriftValue[] = [];
+    for (let i = 0; i < size; i++) {
+      entries.push([this.value(types >> 4), this.value(types & 0x0f)]);
+    }
+    return entries;
+  }
+
+  struct(): ThriftStruct {
+    const fields: ThriftStruct = new Map();
+    let fieldId = 0;
+    for (;;) {
+      const header = this.byte();
+      if (header === 0) return fields;
+      const delta = header >> 4;
+      fieldId = delta === 0 ? Number(this.zigzag()) : fieldId + delta;
+      fields.set(fieldId, this.value(header & 0x0f));
+    }
+  }
+}
+
+export type ThriftField = [id: number, value: ThriftWriteValue | undefined];
+
+export type ThriftWriteValue =
+  | { kind: "bool"; value: boolean }
+  | { kind: "i8"; value: number }
+  | { kind: "i32"; value: number }
+  | { kind: "i64"; value: number | bigint }
+  | { kind: "binary"; value: string | Uint8Array }
+  | { kind: "list"; element: ThriftWriteValue["kind"]; items: ThriftWriteValue[] }
+  | { kind: "struct"; fields: ThriftField[] };
+
+export const thrift = {
+  bool: (value: boolean): ThriftWriteValue => ({ kind: "bool", value }),
+  i8: (value: number): ThriftWriteValue => ({ kind: "i8", value }),
+  i32: (value: number): ThriftWriteValue => ({ kind: "i32", value }),
+  i64: (value: number | bigint): ThriftWriteValue => ({ kind: "i64", value }),
+  binary: (value: string | Uint8Array): ThriftWriteValue => ({ kind: "binary", value }),
+  list: (element: ThriftWriteValue["kind"], items: ThriftWriteValue[]): ThriftWriteValue => ({
+    kind: "list",
+    element,
+    items,
+  }),
+  struct: (fields: ThriftField[]): ThriftWriteValue => ({ kind: "struct", fields }),
+};
+
+const TYPE_CODES: Record<ThriftWriteValue["kind"], number> = {
+  bool: 1,
+  i8: 3,
+  i32: 5,
+  i64: 6,
+  binary: 8,
+  list: 9,
+  struct: 12,
+};
+
+class CompactWriter {
+  readonly bytes: number[] = [];
+
+  private varint(value: bigint): void {
+    let n = value;
+    while (n > 0x7fn) {
+      this.bytes.push(Number(n & 0x7fn) | 0x80);
+      n >>= 7n;
+    }
+    this.bytes.push(Number(n));
+  }
+
+  private zigzag(value: number | bigint): void {
+    const n = BigInt(value);
+    this.varint(n >= 0n ? n << 1n : (-n << 1n) - 1n);
+  }
+
+  value(value: ThriftWriteValue): void {
+    switch (value.kind) {
+      case "bool":
+        this.bytes.push(value.value ? 1 : 2);
+        return;
+      case "i8":
+        this.bytes.push(value.value & 0xff);
+        return;
+      case "i32":
+      case "i64":
+        this.zigzag(value.value);
+        return;
+      case "binary": {
+        const data =
+          typeof value.value === "string" ? Buffer.from(value.value, "utf-8") : value.value;
+        this.varint(BigInt(data.length));
+        for (const b of data) this.bytes.push(b);
+        return;
+      }
+      case "list": {
+        const code = TYPE_CODES[value.element];
+        if (value.items.length < 15) this.bytes.push((value.items.length << 4) | code);
+        else {
+          this.bytes.push(0xf0 | code);
+          this.varint(BigInt(value.items.length));
+        }
+        for (const item of value.items) this.value(item);
+        return;
+      }
+      case "struct":
+        this.struct(value.fields);
+    }
+  }
+
+  struct(fields: ThriftField[]): void {
+    let last = 0;
+    for (const [id, value] of fields) {
+      if (value === undefined) continue;
+      // Booleans carry their value in the field header's type nibble.
+      const code = value.kind === "bool" ? (value.value ? 1 : 2) : TYPE_CODES[value.kind];
+      const delta = id - last;
+      if (delta > 0 && delta <= 15) this.bytes.push((delta << 4) | code);
+      else {
+        this.bytes.push(code);
+        this.zigzag(id);
+      }
+      last = id;
+      if (value.kind !== "bool") this.value(value);
+    }
+    this.bytes.push(0);
+  }
+}
+
+export function encodeCompactStruct(fields: ThriftField[]): Buffer {
+  const writer = new CompactWriter();
+  writer.struct(fields);
+  return Buffer.from(writer.bytes);
+}
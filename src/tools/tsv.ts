@@ -0,0 +1,109 @@
+/**
+ * Incremental parser for DSS "excel" style delimited text: fields may be quoted,
+ * embedded quotes are doubled, and chunks may split a row anywhere.
+ */
+
+export interface TsvStreamState {
+  /** Field separator; DSS exports use tab, local CSV imports may use others. */
+  separator: string;
+  currentField: string;
+  currentRow: string[];
+  inQuotes: boolean;
+  pendingQuoteInQuotes: boolean;
+}
+
+export function createTsvStreamState(separator = "\t"): TsvStreamState {
+  return {
+    separator,
+    currentField: "",
+    currentRow: [],
+    inQuotes: false,
+    pendingQuoteInQuotes: false,
+  };
+}
+
+export function consumeTsvChunk(
+  text: string,
+  state: TsvStreamState,
+  onRow: (row: string[]) => void,
+): void {
+  let i = 0;
+
+  if (state.pendingQuoteInQuotes) {
+    state.pendingQuoteInQuotes = false;
+    const first = text[0];
+    if (first === '"') {
+      state.currentField += '"';
+      i = 1;
+    } else if (first === state.separator || first === "\n" || first === "\r") {
+      state.inQuotes = false;
+    } else if (first !== undefined) {
+      // Ambiguous terminal quote from previous chunk; keep it as data.
+      state.currentField += '"';
+    }
+  }
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+
+    if (state.inQuotes) {
+      if (ch === '"') {
+        const next = text[i + 1];
+        if (next === '"') {
+          state.currentField += '"';
+          i++;
+          continue;
+        }
+        if (next === undefined) {
+          state.pendingQuoteInQuotes = true;
+          continue;
+        }
+        if (next === state.separator || next === "\n" || next === "\r") {
+          state.inQuotes = false;
+          continue;
+        }
+        // Quote in the middle of quoted field text — keep it literal.
+        state.currentField += '"';
+        continue;
+      }
+      state.currentField += ch;
+      continue;
+    }
+
+    if (ch === '"' && state.currentField.length === 0) {
+      state.inQuotes = true;
+      continue;
+    }
+    if (ch === state.separator) {
+      state.currentRow.push(state.currentField);
+      state.currentField = "";
+      continue;
+    }
+    if (ch === "\n") {
+      state.currentRow.push(state.currentField);
+      state.currentField = "";
+      const row = state.currentRow;
+      state.currentRow = [];
+      onRow(row);
+      continue;
+    }
+    if (ch === "\r") {
+      continue;
+    }
+
+    state.currentField += ch;
+  }
+}
+
+export function flushTsvStream(state: TsvStreamState, onRow: (row: string[]) => void): void {
+  if (state.pendingQuoteInQuotes) {
+    state.currentField += '"';
+    state.pendingQuoteInQuotes = false;
+  }
+  if (state.currentField.length === 0 && state.currentRow.length === 0) return;
+  state.currentRow.push(state.currentField);
+  state.currentField = "";
+  const row = state.currentRow;
+  state.currentRow = [];
+  onRow(row);
+}
@@ -0,0 +1,325 @@
+import { z } from "zod";
+import { DEFAULT_ARRAY_MERGE_KEYS, deepMerge } from "./deep-merge.js";
+
+export const jsonPatchOperationSchema = z.object({
+  op: z.enum(["add", "remove", "replace", "move", "copy", "test"]),
+  path: z.string(),
+  from: z.string().optional(),
+  value: z.unknown().optional(),
+});
+export type JsonPatchOperation = z.infer<typeof jsonPatchOperationSchema>;
+
+/** Update inputs shared by dataset, recipe and scenario `update`; exactly one of the three patches. */
+export const updatePatchFields = {
+  data: z.record(z.string(), z.unknown()).optional(),
+  patch: z.array(jsonPatchOperationSchema).min(1).optional(),
+  mergePatch: z.record(z.string(), z.unknown()).optional(),
+  arrayMerge: z.enum(["replace", "byKey"]).optional(),
+} as const;
+
+export interface UpdatePatchInput {
+  data?: Record<string, unknown>;
+  patch?: JsonPatchOperation[];
+  mergePatch?: Record<string, unknown>;
+  arrayMerge?: "replace" | "byKey";
+}
+
+export class PatchError extends Error {
+  constructor(
+    message: string,
+    public operation?: number,
+  ) {
+    super(message);
+    this.name = "PatchError";
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+/** Keys that would reach Object.prototype instead of the document. */
+const RESERVED_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) throw new PatchError(`Invalid JSON pointer "${pointer}".`);
+  const tokens = pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const reserved = tokens.find((token) => RESERVED_KEYS.has(token));
+  if (reserved !== undefined) {
+    throw new PatchError(`Path "${pointer}" uses the reserved key "${reserved}".`);
+  }
+  return tokens;
+}
+
+function arrayIndex(container: unknown[], token: string, pointer: string, allowEnd: boolean) {
+  if (allowEnd && token === "-") return container.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new PatchError(`Invalid array index "${token}" in "${pointer}".`);
+  }
+  const index = Number(token);
+  if (index > container.length || (!allowEnd && index === container.length)) {
+    throw new PatchError(`Index ${index} is out of bounds in "${pointer}".`);
+  }
+  return index;
+}
+
+function resolveParent(doc: unknown, pointer: string): { parent: unknown; token: string } {
+  const tokens = parsePointer(pointer);
+  const token = tokens.pop() as string;
+  let parent = doc;
+  for (const part of tokens) {
+    if (Array.isArray(parent)) parent = parent[arrayIndex(parent, part, pointer, false)];
+    else if (isPlainObject(parent) && Object.hasOwn(parent, part)) parent = parent[part];
+    else throw new PatchError(`Path "${pointer}" does not exist.`);
+  }
+  if (!Array.isArray(parent) && !isPlainObject(parent)) {
+    throw new PatchError(`Path "${pointer}" does not exist.`);
+  }
+  return { parent, token };
+}
+
+function getAt(doc: unknown, pointer: string): unknown {
+  if (pointer === "") return doc;
+  const { parent, token } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, token, pointer, false)];
+  const record = parent as Record<string, unknown>;
+  if (!Object.hasOwn(record, token)) throw new PatchError(`Path "${pointer}" does not exist.`);
+  return record[token];
+}
+
+function removeAt(doc: unknown, pointer: string): unknown {
+  const { parent, token } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) {
+    return parent.splice(arrayIndex(parent, token, pointer, false), 1)[0];
+  }
+  const record = parent as Record<string, unknown>;
+  if (!Object.hasOwn(record, token)) throw new PatchError(`Path "${pointer}" does not exist.`);
+  const value = record[token];
+  delete record[token];
+  return value;
+}
+
+function addAt(doc: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === "") return value;
+  const { parent, token } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, token, pointer, true), 0, value);
+  else (parent as Record<string, unknown>)[token] = value;
+  return doc;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/** RFC 6902: applies every operation or none (the input is never modified). */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let doc: unknown = clone(document);
+  operations.forEach((operation, i) => {
+    try {
+      switch (operation.op) {
+        case "add":
+          doc = addAt(doc, operation.path, clone(operation.value));
+          break;
+        case "remove":
+          removeAt(doc, operation.path);
+          break;
+        case "replace":
+          if (operation.path === "") {
+            doc = clone(operation.value);
+            break;
+          }
+          removeAt(doc, operation.path);
+          doc = addAt(doc, operation.path, clone(operation.value));
+          break;
+        case "move": {
+          const from = requireFrom(operation);
+          if (operation.path.startsWith(`${from}/`)) {
+            throw new PatchError(`Cannot move "${from}" into its own child "${operation.path}".`);
+          }
+          doc = addAt(doc, operation.path, removeAt(doc, from));
+          break;
+        }
+        case "copy":
+          doc = addAt(doc, operation.path, clone(getAt(doc, requireFrom(operation))));
+          break;
+        case "test":
+          if (!deepEqual(getAt(doc, operation.path), operation.value)) {
+            throw new PatchError(
+              `Test failed: "${operation.path}" does not equal the given value.`,
+            );
+          }
+          break;
+      }
+    } catch (error) {
+      if (!(error instanceof PatchError)) throw error;
+      throw new PatchError(`Patch operation ${i + 1} (${operation.op}): ${error.message}`, i);
+    }
+  });
+  return doc as T;
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (operation.from === undefined) throw new PatchError(`"${operation.op}" needs "from".`);
+  return operation.from;
+}
+
+/** RFC 7396: objects merge recursively, null deletes a member, anything else replaces. */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) return clone(patch);
+  const out: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (RESERVED_KEYS.has(key)) throw new PatchError(`Merge patch uses the reserved key "${key}".`);
+    if (value === null) delete out[key];
+    else out[key] = applyMergePatch(out[key], value);
+  }
+  return out;
+}
+
+export interface ValueChange {
+  op: "add" | "remove" | "replace";
+  /** JSON pointer to the changed value. */
+  path: string;
+  from?: unknown;
+  value?: unknown;
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/** The minimal set of leaf changes turning `before` into `after`; arrays compare by index. */
+export function diffValues(before: unknown, after: unknown, path = ""): ValueChange[] {
+  if (deepEqual(before, after)) return [];
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: ValueChange[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const child = `${path}/${escapeToken(key)}`;
+      if (!(key in after)) changes.push({ op: "remove", path: child, from: before[key] });
+      else if (!(key in before)) changes.push({ op: "add", path: child, value: after[key] });
+      else changes.push(...diffValues(before[key], after[key], child));
+    }
+    return changes;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: ValueChange[] = [];
+    const shared = Math.min(before.length, after.length);
+    for (let i = 0; i < shared; i++)
+      changes.push(...diffValues(before[i], after[i], `${path}/${i}`));
+    for (let i = shared; i < after.length; i++) {
+      changes.push({ op: "add", path: `${path}/${i}`, value: after[i] });
+    }
+    for (let i = before.length - 1; i >= shared; i--) {
+      changes.push({ op: "remove", path: `${path}/${i}`, from: before[i] });
+    }
+    return changes;
+  }
+  return [{ op: "replace", path: path || "/", from: before, value: after }];
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
+
+/** Text block listing the first `max` changes, e.g. `~ /params/flag: true → false`. */
+export function formatChanges(changes: ValueChange[], max = 20): string {
+  const lines = changes.slice(0, max).map((change) => {
+    if (change.op === "add") return `+ ${change.path}: ${preview(change.value)}`;
+    if (change.op === "remove") return `- ${change.path}: ${preview(change.from)}`;
+    return `~ ${change.path}: ${preview(change.from)} → ${preview(change.value)}`;
+  });
+  if (changes.length > max) lines.push(`… ${changes.length - max} more change(s)`);
+  return lines.join("\n");
+}
+
+export type UpdatePatchResult =
+  | { ok: true; next: Record<string, unknown>; changes: ValueChange[]; mode: string }
+  | { ok: false; message: string; operation?: number };
+
+/**
+ * Applies whichever of `data` (deep merge, arrays replaced unless
+ * `arrayMerge: "byKey"`), `patch` (RFC 6902) or `mergePatch` (RFC 7396) was
+ * given to `current`, and diffs the result against it.
+ */
+export function applyUpdatePatch(
+  current: Record<string, unknown>,
+  input: UpdatePatchInput,
+): UpdatePatchResult {
+  const given = (["data", "patch", "mergePatch"] as const).filter(
+    (key) => input[key] !== undefined,
+  );
+  if (given.length !== 1) {
+    return {
+      ok: false,
+      message:
+        given.length === 0
+          ? "one of data, patch or mergePatch is required for update."
+          : `pass only one of data, patch or mergePatch (got ${given.join(", ")}).`,
+    };
+  }
+  let next: unknown;
+  let mode: string;
+  try {
+    if (input.patch) {
+      next = applyJsonPatch(current, input.patch);
+      mode = "jsonPatch";
+    } else if (input.mergePatch) {
+      next = applyMergePatch(current, input.mergePatch);
+      mode = "mergePatch";
+    } else {
+      const byKey = input.arrayMerge === "byKey";
+      next = deepMerge(
+        current,
+        input.data as Record<string, unknown>,
+        byKey ? { arrayKeys: DEFAULT_ARRAY_MERGE_KEYS } : {},
+      );
+      mode = byKey ? "deepMergeByKey" : "deepMerge";
+    }
+  } catch (error) {
+    if (!(error instanceof PatchError)) throw error;
+    return { ok: false, message: error.message, operation: error.operation };
+  }
+  if (!isPlainObject(next)) {
+    return { ok: false, message: "the patched document must remain a JSON object." };
+  }
+  return { ok: true, next, changes: diffValues(current, next), mode };
+}
+
+export function invalidPatchResult(failure: { message: string; operation?: number }) {
+  return {
+    content: [{ type: "text" as const, text: `Error: ${failure.message}` }],
+    structuredContent: {
+      ok: false,
+      reason: "invalid_patch",
+      message: failure.message,
+      ...(failure.operation !== undefined ? { operation: failure.operation } : {}),
+    },
+    isError: true,
+  };
+}
+
+/** `<subject> updated.` plus the change list, or a note that nothing changed. */
+export function updateText(subject: string, changes: ValueChange[]): string {
+  if (changes.length === 0)
+    return `${subject} unchanged; the update matches the current definition.`;
+  return `${subject} updated. ${changes.length} change${changes.length === 1 ? "" : "s"}:\n${formatChanges(changes)}`;
+}
@@ -1,7 +1,13 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { get, getProjectKey, putVoid } from "../client.js";
-import { actionInput, actionSchema, optionalProjectKey } from "./action-schema.js";
+import {
+  actionInput,
+  actionSchema,
+  optionalInstance,
+  optionalProjectKey,
+} from "./action-schema.js";
+import { concurrencyFields, conflictResult, findConflict, versionOf } from "./optimistic-lock.js";
 import { registerTool } from "./register-tool.js";
 
 interface ProjectVariables {
@@ -23,12 +29,15 @@ function summarizeKeys(label: string, keys: string[], maxItems = 20): string {
 const variableInputSchema = actionSchema([
   actionInput("get", {
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     maxKeys: z.number().int().min(1).optional(),
   }),
   actionInput("set", {
     projectKey: optionalProjectKey,
+    instance: optionalInstance,
     standard: z.record(z.string(), z.unknown()).optional(),
     local: z.record(z.string(), z.unknown()).optional(),
+    ...concurrencyFields,
   }),
 ]);
 
@@ -38,10 +47,11 @@ export function register(server: McpServer) {
     "variable",
     {
       description:
-        "Project variable ops: get/set. set merges provided standard/local keys with existing values.",
+        "Project variable ops: get/set. set merges provided standard/local keys with existing values; it fails with reason conflict if the variables changed (version from get) before the write, unless expectedVersion matches or force=true.",
       inputSchema: variableInputSchema,
+      actions: { get: "read", set: "write" },
     },
-    async ({ action, projectKey, standard, local, maxKeys }) => {
+    async ({ action, projectKey, standard, local, maxKeys, expectedVersion, force }) => {
       const pk = getProjectKey(projectKey);
       const enc = encodeURIComponent(pk);
       const varsPath = `/public/api/projects/${enc}/variables/`;
@@ -72,6 +82,7 @@ export function register(server: McpServer) {
             keyLimit,
             standardKeysTruncated: standardKeysOut.length < standardKeys.length,
             localKeysTruncated: localKeysOut.length < localKeys.length,
+            version: versionOf(vars),
           },
         };
       }
@@ -94,12 +105,19 @@ export function register(server: McpServer) {
         };
       }
 
-      const existing = await get<ProjectVariables>(varsPath);
+      const existing = await get<ProjectVariables>(varsPath, { bypassCache: true });
       const merged: ProjectVariables = {
         standard: { ...existing.standard, ...standard },
         local: { ...existing.local, ...local },
       };
 
+      const conflict = await findConflict({
+        current: existing,
+        next: merged,
+        input: { expectedVersion, force },
+        refetch: () => get<ProjectVariables>(varsPath, { bypassCache: true }),
+      });
+      if (conflict) return conflictResult(`Variables of project "${pk}"`, conflict);
       await putVoid(varsPath, merged);
 
       const changedStandard = sortedKeys(standard);
@@ -0,0 +1,168 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearCompletionCache, listCompletionValues } from "../../src/completions.js";
+import { createServer } from "../../src/server.js";
+import { runWithSession, type SessionContext } from "../../src/session.js";
+import { type FakeDss, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_PROJECT_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+let client: Client;
+let close: () => Promise<void>;
+
+async function completePrompt(
+  name: string,
+  argument: string,
+  value: string,
+  args?: Record<string, string>,
+) {
+  const result = await client.complete({
+    ref: { type: "ref/prompt", name },
+    argument: { name: argument, value },
+    ...(args ? { context: { arguments: args } } : {}),
+  });
+  return result.completion.values;
+}
+
+async function completeResource(uri: string, argument: string, value: string) {
+  const result = await client.complete({
+    ref: { type: "ref/resource", uri },
+    argument: { name: argument, value },
+  });
+  return result.completion.values;
+}
+
+describe("argument completion against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss({
+      codeEnvs: [
+        { envName: "py311_ml", envLang: "PYTHON" },
+        { envName: "r_base", envLang: "R" },
+      ],
+    });
+    dss.addProject({ projectKey: "MARKETING", datasets: [{ name: "campaigns" }] });
+  });
+
+  afterAll(async () => {
+    await dss.close();
+  });
+
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = dss.url;
+    process.env.DATAIKU_API_KEY = dss.apiKey;
+    process.env.DATAIKU_PROJECT_KEY = "SALES";
+    delete process.env.DATAIKU_MODE;
+    dss.addProject({
+      projectKey: "SALES",
+      datasets: [{ name: "orders" }, { name: "orders_clean" }, { name: "raw_orders" }],
+      recipes: [
+        {
+          name: "compute_orders_clean",
+          type: "python",
+          inputs: ["orders"],
+          outputs: ["orders_clean"],
+        },
+      ],
+      scenarios: [{ id: "NIGHTLY", name: "Nightly" }],
+      folders: [{ id: "f1", name: "exports" }],
+    });
+    clearCompletionCache();
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "0.0.1" });
+    await client.connect(clientTransport);
+    close = async () => {
+      await client.close();
+      await server.close();
+    };
+  });
+
+  afterEach(async () => {
+    await close();
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("completes project keys from the project list", async () => {
+    expect(await completePrompt("explain-flow", "projectKey", "sa")).toEqual(["SALES"]);
+    expect(await completePrompt("onboard-project", "projectKey", "")).toEqual([
+      "MARKETING",
+      "SALES",
+    ]);
+  });
+
+  it("completes dataset names from the default or the given project", async () => {
+    expect(await completePrompt("safe-schema-change", "datasetName", "ord")).toEqual([
+      "orders",
+      "orders_clean",
+      "raw_orders",
+    ]);
+    expect(
+      await completePrompt("safe-schema-change", "datasetName", "", { projectKey: "MARKETING" }),
+    ).toEqual(["campaigns"]);
+  });
+
+  it("completes resource template variables", async () => {
+    expect(
+      await completeResource(
+        "dss://{projectKey}/recipe/{recipeName}/payload",
+        "recipeName",
+        "comp",
+      ),
+    ).toEqual(["compute_orders_clean"]);
+    expect(
+      await completeResource("dss://{projectKey}/scenario/{scenarioId}/run", "scenarioId", "N"),
+    ).toEqual(["NIGHTLY"]);
+    expect(
+      await completeResource("dss://{projectKey}/folder/{folderId}/contents", "folderId", ""),
+    ).toEqual(["f1"]);
+    expect(await completeResource("dss://code-env/{envLang}/{envName}", "envName", "py")).toEqual([
+      "py311_ml",
+    ]);
+  });
+
+  it("serves repeated completions from the per-project cache", async () => {
+    const requestCount = dss.requests.length;
+    await completePrompt("safe-schema-change", "datasetName", "o");
+    await completePrompt("safe-schema-change", "datasetName", "or");
+    await completePrompt("safe-schema-change", "datasetName", "ord");
+
+    expect(
+      dss.requests.slice(requestCount).filter((r) => r.path.endsWith("/datasets/")),
+    ).toHaveLength(1);
+  });
+
+  it("drops only the closed session's cached listings", async () => {
+    const session = (id: string): SessionContext => ({
+      id,
+      caller: id,
+      resolveApiKey: () => dss.apiKey,
+      getCache: new Map(),
+    });
+    const [first, second] = [session("first"), session("second")];
+    const listFetches = () => dss.requests.filter((r) => r.path.endsWith("/datasets/")).length;
+    const list = (ctx: SessionContext) =>
+      runWithSession(ctx, () => listCompletionValues("datasetName", "SALES"));
+
+    await list(first);
+    await list(second);
+    const fetched = listFetches();
+    await list(first);
+    await list(second);
+    expect(listFetches()).toBe(fetched);
+
+    clearCompletionCache("first");
+    await list(second);
+    expect(listFetches()).toBe(fetched);
+    expect(await list(first)).toContain("orders");
+    expect(listFetches()).toBe(fetched + 1);
+  });
+});
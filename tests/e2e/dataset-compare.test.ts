@@ -0,0 +1,149 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+import { type FakeDss, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_PROJECT_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe("dataset compare against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss();
+  });
+
+  afterAll(async () => {
+    await dss.close();
+  });
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = dss.url;
+    process.env.DATAIKU_API_KEY = dss.apiKey;
+    process.env.DATAIKU_PROJECT_KEY = "SALES";
+    delete process.env.DATAIKU_MODE;
+    const schema = [
+      { name: "region", type: "string" },
+      { name: "id", type: "int" },
+      { name: "amount", type: "double" },
+      { name: "note", type: "string" },
+    ];
+    dss.addProject({
+      projectKey: "SALES",
+      datasets: [
+        {
+          name: "orders_old",
+          schema,
+          rows: [
+            ["eu", 1, 10, "a"],
+            ["eu", 2, 20, "b"],
+            ["us", 1, 30, "c"],
+            ["us", 2, 40, "d"],
+          ],
+        },
+        { name: "orders_same", schema, rows: [["eu", 1, 10, "a"]] },
+      ],
+    });
+    dss.addProject({
+      projectKey: "SALES_V2",
+      datasets: [
+        {
+          name: "orders_new",
+          schema: [...schema.slice(0, 3), { name: "channel", type: "string" }],
+          rows: [
+            ["us", 2, "40.0", "web"],
+            ["eu", 1, 10, "web"],
+            ["eu", 2, 25, "shop"],
+            ["eu", 3, 5, "web"],
+          ],
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("aligns rows on a composite key across projects and reports the differences", async () => {
+    const result = await callTool("dataset", {
+      action: "compare",
+      datasetName: "orders_old",
+      otherProjectKey: "SALES_V2",
+      otherDatasetName: "orders_new",
+      key: ["region", "id"],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structured).toMatchObject({
+      right: { projectKey: "SALES_V2", datasetName: "orders_new" },
+      columns: { compared: ["amount"], onlyInLeft: ["note"], onlyInRight: ["channel"] },
+      rows: { left: 4, right: 4 },
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 2,
+      columnChanges: { amount: 1 },
+      samples: {
+        added: [{ region: "eu", id: "3" }],
+        removed: [{ region: "us", id: "1" }],
+        changed: [
+          { key: { region: "eu", id: "2" }, changes: { amount: { left: "20", right: "25" } } },
+        ],
+      },
+      identical: false,
+    });
+    expect(result.text).toContain(
+      '"orders_old" → "SALES_V2.orders_new" on key region, id: 1 added, 1 removed, 1 changed, 2 unchanged',
+    );
+    expect(result.text).toContain('Changed "eu"/"2": amount "20" → "25"');
+  });
+
+  it("reports identical datasets and keys missing from either side", async () => {
+    const same = await callTool("dataset", {
+      action: "compare",
+      datasetName: "orders_same",
+      otherDatasetName: "orders_old",
+      key: ["region", "id"],
+      limit: 1,
+    });
+    expect(same.structured).toMatchObject({ identical: true, rows: { left: 1, right: 1 } });
+    expect(same.text).toBe(
+      '"orders_same" and "orders_old" are identical on key region, id (1 rows).',
+    );
+
+    const missing = await callTool("dataset", {
+      action: "compare",
+      datasetName: "orders_old",
+      otherProjectKey: "SALES_V2",
+      otherDatasetName: "orders_new",
+      key: ["note"],
+    });
+    expect(missing.isError).toBe(true);
+    expect(missing.structured).toMatchObject({ reason: "unknown_column", column: "note" });
+  });
+});
@@ -0,0 +1,164 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+import { type FakeDss, type FakeProject, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_PROJECT_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+let dir: string;
+let project: FakeProject;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe("dataset import against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss();
+  });
+
+  afterAll(async () => {
+    await dss.close();
+  });
+
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = dss.url;
+    process.env.DATAIKU_API_KEY = dss.apiKey;
+    process.env.DATAIKU_PROJECT_KEY = "SALES";
+    delete process.env.DATAIKU_MODE;
+    dir = await mkdtemp(join(tmpdir(), "dataiku-e2e-"));
+    project = dss.addProject({ projectKey: "SALES", datasets: [] });
+  });
+
+  afterEach(async () => {
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("creates an uploaded dataset with the detected schema and previews it", async () => {
+    const localPath = join(dir, "orders.csv");
+    await writeFile(localPath, "id;amount;day\n1;9.5;2024-01-01\n2;12;2024-01-02\n");
+
+    const result = await callTool("dataset", {
+      action: "import",
+      datasetName: "orders",
+      localPath,
+      preview: true,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structured).toMatchObject({
+      imported: true,
+      format: "csv",
+      separator: ";",
+      schemaSource: "detected",
+      columns: [
+        { name: "id", type: "bigint" },
+        { name: "amount", type: "double" },
+        { name: "day", type: "date" },
+      ],
+      preview: "id,amount,day\n1,9.5,2024-01-01\n2,12,2024-01-02",
+    });
+    const dataset = project.datasets.get("orders");
+    expect(dataset?.definition).toMatchObject({
+      type: "UploadedFiles",
+      formatType: "csv",
+      formatParams: { separator: ";", parseHeaderRow: true },
+    });
+    expect(dataset?.uploadedFiles).toEqual(["orders.csv"]);
+  });
+
+  it("imports gzipped JSON lines", async () => {
+    const localPath = join(dir, "events.jsonl.gz");
+    await writeFile(
+      localPath,
+      gzipSync('{"user":"a","score":1,"ok":true}\n{"user":"b","score":2.5}\n'),
+    );
+
+    const result = await callTool("dataset", {
+      action: "import",
+      datasetName: "events",
+      localPath,
+    });
+
+    expect(result.structured).toMatchObject({
+      format: "jsonl",
+      gzip: true,
+      columns: [
+        { name: "user", type: "string" },
+        { name: "score", type: "double" },
+        { name: "ok", type: "boolean" },
+      ],
+    });
+    expect(project.datasets.get("events")?.definition).toMatchObject({
+      formatType: "json",
+      formatParams: { compress: "gz" },
+    });
+  });
+
+  it("rejects a declared schema the file does not satisfy before creating anything", async () => {
+    const localPath = join(dir, "orders.csv");
+    await writeFile(localPath, "id,amount\n1,9.5\nx,300\n");
+    const requestCount = dss.requests.length;
+
+    const result = await callTool("dataset", {
+      action: "import",
+      datasetName: "orders",
+      localPath,
+      schema: [
+        { name: "id", type: "int" },
+        { name: "amount", type: "tinyint" },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structured).toMatchObject({
+      ok: false,
+      reason: "schema_mismatch",
+      problems: [
+        'Row 1, column "amount": "9.5" is not a valid tinyint.',
+        'Row 2, column "id": "x" is not a valid int.',
+        'Row 2, column "amount": "300" is not a valid tinyint.',
+      ],
+    });
+    expect(dss.requests.slice(requestCount).some((r) => r.method === "POST")).toBe(false);
+    expect(project.datasets.has("orders")).toBe(false);
+  });
+
+  it("reports unreadable files without calling DSS", async () => {
+    const result = await callTool("dataset", {
+      action: "import",
+      datasetName: "orders",
+      localPath: join(dir, "missing.csv"),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structured).toMatchObject({ reason: "unreadable_file" });
+  });
+});
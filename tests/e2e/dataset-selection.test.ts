@@ -0,0 +1,191 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+import { type FakeDss, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_PROJECT_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+let legacyDss: FakeDss;
+let dir: string;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+function useDss(target: FakeDss): void {
+  process.env.DATAIKU_URL = target.url;
+  process.env.DATAIKU_API_KEY = target.apiKey;
+}
+
+function dataRequests(target: FakeDss): string[] {
+  return target.requests
+    .filter((r) => r.method === "GET" && r.path.includes("/data/"))
+    .map((r) => decodeURIComponent(r.path.slice(r.path.indexOf("?") + 1)));
+}
+
+const JOBS = {
+  name: "jobs",
+  schema: [
+    { name: "id", type: "int" },
+    { name: "status", type: "string" },
+    { name: "duration", type: "double" },
+  ],
+  rows: [
+    [1, "DONE", 12],
+    [2, "FAILED", 3.5],
+    [3, "DONE", 40],
+    [4, "FAILED", 18],
+    [5, "FAILED", 60],
+  ],
+};
+
+describe("dataset row selection against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss();
+    legacyDss = await startFakeDss({ dataSelection: false });
+  });
+
+  afterAll(async () => {
+    await dss.close();
+    await legacyDss.close();
+  });
+
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    useDss(dss);
+    process.env.DATAIKU_PROJECT_KEY = "OPS";
+    delete process.env.DATAIKU_MODE;
+    dir = await mkdtemp(join(tmpdir(), "dataiku-e2e-"));
+    for (const target of [dss, legacyDss]) {
+      target.requests.length = 0;
+      target.addProject({ projectKey: "OPS", datasets: [JOBS] });
+    }
+  });
+
+  afterEach(async () => {
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("pushes projection, filter and sampling to the data endpoint", async () => {
+    const result = await callTool("dataset", {
+      action: "preview",
+      datasetName: "jobs",
+      columns: ["status", "id"],
+      filter: [{ column: "status", op: "eq", value: "FAILED" }],
+      sampling: "last",
+      limit: 2,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.text).toBe("status,id\nFAILED,4\nFAILED,5");
+    expect(result.structured?.selection).toEqual({
+      columns: ["status", "id"],
+      filter: 'strval("status") == "FAILED"',
+      sampling: "last",
+      appliedBy: "dss",
+    });
+    expect(dataRequests(dss)).toEqual([
+      'format=tsv-excel-header&limit=2&columns=status,id&filter=strval("status") == "FAILED"' +
+        '&sampling={"samplingMethod":"TAIL_SEQUENTIAL","maxRecords":2}',
+    ]);
+  });
+
+  it("filters in the stream when DSS rejects the selection parameters", async () => {
+    useDss(legacyDss);
+
+    const preview = await callTool("dataset", {
+      action: "preview",
+      datasetName: "jobs",
+      filter: [
+        { column: "status", op: "eq", value: "FAILED" },
+        { column: "duration", op: "gte", value: 10 },
+      ],
+      limit: 1,
+    });
+    expect(preview.text).toBe("id,status,duration\n4,FAILED,18");
+    expect(preview.structured?.selection).toMatchObject({ appliedBy: "stream", scannedRows: 4 });
+    expect(dataRequests(legacyDss)[1]).toBe("format=tsv-excel-header");
+
+    const download = await callTool("dataset", {
+      action: "download",
+      datasetName: "jobs",
+      outputDir: dir,
+      format: "jsonl",
+      columns: ["id", "duration"],
+      filter: [{ column: "status", op: "in", value: ["FAILED"] }],
+      sampling: "last",
+      limit: 2,
+    });
+    expect(download.structured).toMatchObject({
+      rows: 2,
+      columns: [
+        { name: "id", exportedAs: "int32" },
+        { name: "duration", exportedAs: "double" },
+      ],
+      selection: { appliedBy: "stream", scannedRows: 5 },
+    });
+    const lines = (await readFile(download.structured?.filePath as string, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      { id: 4, duration: 18 },
+      { id: 5, duration: 60 },
+    ]);
+  });
+
+  it("reports unknown columns and formulas DSS cannot run", async () => {
+    useDss(legacyDss);
+    const unknown = await callTool("dataset", {
+      action: "preview",
+      datasetName: "jobs",
+      columns: ["stats"],
+    });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.structured).toMatchObject({
+      reason: "unknown_column",
+      column: "stats",
+      availableColumns: ["id", "status", "duration"],
+    });
+
+    const formula = await callTool("dataset", {
+      action: "preview",
+      datasetName: "jobs",
+      filter: 'strval("status") == "FAILED"',
+    });
+    expect(formula.isError).toBe(true);
+    expect(formula.structured).toMatchObject({ category: "validation" });
+
+    const invalid = await callTool("dataset", {
+      action: "preview",
+      datasetName: "jobs",
+      filter: [{ column: "status", op: "in", value: "FAILED" }],
+    });
+    expect(invalid.structured).toMatchObject({ reason: "invalid_filter" });
+  });
+});
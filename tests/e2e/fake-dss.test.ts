@@ -0,0 +1,618 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+import { decodeParquetFooter } from "../../src/tools/parquet-schema.js";
+import { type FakeDss, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_PROJECT_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+let dir: string;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe("tools against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss({ jobRunningPolls: 2 });
+  });
+
+  afterAll(async () => {
+    await dss.close();
+  });
+
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = dss.url;
+    process.env.DATAIKU_API_KEY = dss.apiKey;
+    process.env.DATAIKU_PROJECT_KEY = "SALES";
+    delete process.env.DATAIKU_MODE;
+    dir = await mkdtemp(join(tmpdir(), "dataiku-e2e-"));
+
+    dss.addProject({
+      projectKey: "SALES",
+      name: "Sales",
+      datasets: [
+        {
+          name: "orders",
+          schema: [
+            { name: "id", type: "bigint" },
+            { name: "customer", type: "string" },
+            { name: "note", type: "string" },
+          ],
+          rows: [
+            [1, "Acme", "first\torder"],
+            [2, "Globex", 'says "hi"'],
+            [3, "Initech", null],
+          ],
+        },
+        { name: "orders_clean" },
+        { name: "orders_broken", buildError: "Python process failed: KeyError 'amount'" },
+      ],
+      recipes: [
+        {
+          name: "compute_orders_clean",
+          type: "python",
+          inputs: ["orders"],
+          outputs: ["orders_clean"],
+          payload: 'df["customer"] = df["customer"].str.upper()',
+        },
+        {
+          name: "compute_orders_broken",
+          type: "python",
+          inputs: ["orders"],
+          outputs: ["orders_broken"],
+        },
+      ],
+      folders: [{ id: "f1", name: "exports", files: { "/readme.txt": "hello" } }],
+      variables: { standard: { env: "dev" } },
+    });
+  });
+
+  afterEach(async () => {
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("builds a dataset and waits through RUNNING to DONE", async () => {
+    const result = await callTool("job", {
+      action: "buildAndWait",
+      datasetName: "orders_clean",
+      buildMode: "NON_RECURSIVE_FORCED_BUILD",
+      pollIntervalMs: 1,
+      includeLogs: true,
+      confirm: true,
+    });
+
+    expect(result.isError).not.toBe(true);
+    expect(result.structured).toMatchObject({
+      ok: true,
+      state: "DONE",
+      normalizedState: "terminalSuccess",
+      pollCount: 3,
+      datasetName: "orders_clean",
+    });
+    expect(result.text).toContain("Job succeeded");
+  });
+
+  it("reports failed builds with the job log tail", async () => {
+    const result = await callTool("job", {
+      action: "buildAndWait",
+      datasetName: "orders_broken",
+      pollIntervalMs: 1,
+      includeLogs: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structured).toMatchObject({ ok: false, state: "FAILED" });
+    expect(result.text).toContain("KeyError 'amount'");
+  });
+
+  it("starts, waits on, lists and reads logs for a job by id", async () => {
+    const started = await callTool("job", { action: "build", datasetName: "orders_clean" });
+    const jobId = started.structured?.jobId as string;
+    expect(jobId).toMatch(/^Build_orders_clean_/);
+
+    const running = await callTool("job", { action: "get", jobId });
+    expect(running.structured).toMatchObject({ state: "RUNNING" });
+
+    const waited = await callTool("job", { action: "wait", jobId, pollIntervalMs: 1 });
+    expect(waited.structured).toMatchObject({ ok: true, state: "DONE" });
+
+    const listed = await callTool("job", { action: "list" });
+    expect(listed.text).toContain(`${jobId} [DONE]`);
+
+    const log = await callTool("job", { action: "log", jobId });
+    expect(log.text).toContain("Computing dataset SALES.orders_clean");
+  });
+
+  it("normalizes the flow graph into a map", async () => {
+    const result = await callTool("project", { action: "map" });
+    const map = result.structured?.map as {
+      roots: string[];
+      leaves: string[];
+      edges: Array<{ from: string; to: string; relation: string }>;
+      stats: { datasets: number; recipes: number };
+    };
+
+    expect(result.isError).not.toBe(true);
+    expect(map.stats).toMatchObject({ datasets: 3, recipes: 2 });
+    expect(map.roots.sort()).toEqual(["f1", "orders"]);
+    expect(map.leaves.sort()).toEqual(["f1", "orders_broken", "orders_clean"]);
+    expect(map.edges).toContainEqual({
+      from: "orders",
+      to: "compute_orders_clean",
+      relation: "reads",
+    });
+    expect(map.edges).toContainEqual({
+      from: "compute_orders_clean",
+      to: "orders_clean",
+      relation: "writes",
+    });
+  });
+
+  it("lists what a change downstream of a dataset rebuilds and which scenarios build it", async () => {
+    dss.addProject({
+      projectKey: "OPS",
+      datasets: [{ name: "raw" }, { name: "clean" }, { name: "daily" }, { name: "lookup" }],
+      recipes: [
+        { name: "prepare_raw", type: "shaker", inputs: ["raw"], outputs: ["clean"] },
+        { name: "join_daily", type: "join", inputs: ["clean", "lookup"], outputs: ["daily"] },
+      ],
+      scenarios: [
+        {
+          id: "nightly",
+          name: "Nightly",
+          active: true,
+          params: {
+            steps: [
+              {
+                type: "build_flowitem",
+                params: { builds: [{ type: "DATASET", itemId: "daily" }] },
+              },
+            ],
+          },
+        },
+        { id: "adhoc", name: "Ad hoc" },
+        {
+          id: "scripted",
+          type: "custom_python",
+          params: { customScript: { script: 'Scenario().build_dataset("clean")' } },
+        },
+      ],
+    });
+
+    const downstream = await callTool("project", {
+      action: "downstream",
+      projectKey: "OPS",
+      node: "raw",
+    });
+    expect(downstream.isError).not.toBe(true);
+    expect(downstream.text).toContain("Recipes that would run (2): prepare_raw, join_daily");
+    expect(downstream.text).toContain("Datasets that would be rebuilt (2): clean, daily");
+    expect(downstream.text).toContain('- nightly "Nightly" (active) builds daily');
+    expect(downstream.text).toContain("- scripted (inactive) script mentions clean");
+    expect(downstream.structured).toMatchObject({
+      kind: "dataset",
+      inputs: ["raw"],
+      scenarios: [{ id: "nightly" }, { id: "scripted", viaScript: true }],
+    });
+
+    const upstream = await callTool("project", {
+      action: "upstream",
+      projectKey: "OPS",
+      node: "daily",
+      maxDepth: 1,
+      includeScenarios: false,
+    });
+    expect(upstream.structured).toMatchObject({
+      recipes: ["join_daily"],
+      datasets: ["daily"],
+      inputs: ["clean", "lookup"],
+      truncated: true,
+    });
+    expect(upstream.structured).not.toHaveProperty("scenarios");
+
+    const unknown = await callTool("project", {
+      action: "downstream",
+      projectKey: "OPS",
+      node: "clea",
+    });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.structured).toMatchObject({ reason: "unknown_node", suggestions: ["clean"] });
+  });
+
+  it("traces a column through visual recipes and stops at code recipes", async () => {
+    dss.addProject({
+      projectKey: "CRM",
+      datasets: [
+        {
+          name: "raw",
+          schema: [
+            { name: "cust", type: "string" },
+            { name: "amount", type: "double" },
+          ],
+        },
+        {
+          name: "clean",
+          schema: [
+            { name: "customer", type: "string" },
+            { name: "amount", type: "double" },
+          ],
+        },
+        {
+          name: "totals",
+          schema: [
+            { name: "customer", type: "string" },
+            { name: "amount_sum", type: "double" },
+          ],
+        },
+        { name: "scored" },
+      ],
+      recipes: [
+        {
+          name: "prepare_raw",
+          type: "shaker",
+          inputs: ["raw"],
+          outputs: ["clean"],
+          payload: JSON.stringify({
+            steps: [
+              { type: "ColumnRenamer", params: { renamings: [{ from: "cust", to: "customer" }] } },
+            ],
+          }),
+        },
+        {
+          name: "group_clean",
+          type: "grouping",
+          inputs: ["clean"],
+          outputs: ["totals"],
+          payload: JSON.stringify({
+            keys: [{ column: "customer" }],
+            values: [{ column: "amount", sum: true }],
+          }),
+        },
+        {
+          name: "score_clean",
+          type: "python",
+          inputs: ["clean"],
+          outputs: ["scored"],
+          payload: "df['customer'].nunique()",
+        },
+      ],
+    });
+
+    const result = await callTool("project", {
+      action: "columnLineage",
+      projectKey: "CRM",
+      datasetName: "clean",
+      column: "customer",
+    });
+
+    expect(result.isError).not.toBe(true);
+    expect(result.text).toContain(
+      "- raw.cust → clean.customer via prepare_raw (renamed from cust)",
+    );
+    expect(result.text).toContain("- clean.customer → totals.customer via group_clean (group key)");
+    expect(result.text).toContain(
+      'Opaque: score_clean (python, code recipe) reads clean; mentions "customer"',
+    );
+    expect(result.structured).toMatchObject({ origins: [{ dataset: "raw", column: "cust" }] });
+
+    const missing = await callTool("project", {
+      action: "columnLineage",
+      projectKey: "CRM",
+      datasetName: "clean",
+      column: "cust",
+    });
+    expect(missing.isError).toBe(true);
+    expect(missing.structured).toMatchObject({
+      reason: "unknown_column",
+      availableColumns: ["customer", "amount"],
+    });
+  });
+
+  it("streams TSV rows for preview and download", async () => {
+    const preview = await callTool("dataset", {
+      action: "preview",
+      datasetName: "orders",
+      limit: 2,
+    });
+    expect(preview.text).toBe('id,customer,note\n1,Acme,"first\torder"\n2,Globex,"says ""hi"""');
+
+    const download = await callTool("dataset", {
+      action: "download",
+      datasetName: "orders",
+      outputDir: dir,
+    });
+    const csv = gunzipSync(await readFile(download.structured?.filePath as string)).toString();
+    expect(csv.trim().split("\n")).toEqual([
+      "id,customer,note",
+      '1,Acme,"first\torder"',
+      '2,Globex,"says ""hi"""',
+      "3,Initech,",
+    ]);
+  });
+
+  it("downloads typed JSON lines, Parquet and plain CSV within the row limit", async () => {
+    const jsonl = await callTool("dataset", {
+      action: "download",
+      datasetName: "orders",
+      outputDir: dir,
+      format: "jsonl",
+      limit: 2,
+    });
+    expect(jsonl.structured).toMatchObject({
+      format: "jsonl",
+      rows: 2,
+      columns: [
+        { name: "id", type: "bigint", exportedAs: "int64" },
+        { name: "customer", type: "string", exportedAs: "string" },
+        { name: "note", type: "string", exportedAs: "string" },
+      ],
+      invalidValues: {},
+    });
+    const lines = (await readFile(jsonl.structured?.filePath as string, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { id: 1, customer: "Acme", note: "first\torder" },
+      { id: 2, customer: "Globex", note: 'says "hi"' },
+    ]);
+
+    const parquet = await callTool("dataset", {
+      action: "download",
+      datasetName: "orders",
+      outputDir: dir,
+      format: "parquet",
+    });
+    expect(parquet.structured?.filePath).toMatch(/orders\.parquet$/);
+    const bytes = await readFile(parquet.structured?.filePath as string);
+    const footerLength = bytes.readUInt32LE(bytes.length - 8);
+    expect(decodeParquetFooter(bytes.subarray(-8 - footerLength, -8))).toMatchObject({
+      rowCount: 3,
+      columns: [{ name: "id", type: "bigint" }, { name: "customer" }, { name: "note" }],
+    });
+
+    const csv = await callTool("dataset", {
+      action: "download",
+      datasetName: "orders",
+      outputDir: dir,
+      format: "csv",
+      limit: 1,
+    });
+    expect(await readFile(csv.structured?.filePath as string, "utf8")).toBe(
+      'id,customer,note\n1,Acme,"first\torder"\n',
+    );
+  });
+
+  it("profiles columns from the streamed rows", async () => {
+    const result = await callTool("dataset", { action: "profile", datasetName: "orders" });
+
+    expect(result.isError).not.toBe(true);
+    expect(result.text.split("\n")[0]).toBe('Profiled 3 rows of "orders".');
+    expect(result.text).toContain("- id (bigint): 0% null, ~3 distinct, min 1, max 3, mean 2 ± 1");
+    expect(result.structured).toMatchObject({
+      rows: 3,
+      limit: 10_000,
+      columns: [
+        { name: "id", type: "bigint", invalid: 0, mean: 2 },
+        { name: "customer", distinctEstimate: 3, min: "Acme", max: "Initech" },
+        { name: "note", nulls: 1, nullFraction: 1 / 3 },
+      ],
+    });
+
+    const limited = await callTool("dataset", {
+      action: "profile",
+      datasetName: "orders",
+      columns: ["customer"],
+      limit: 2,
+    });
+    expect(limited.structured).toMatchObject({ rows: 2, columns: [{ name: "customer" }] });
+    expect(limited.text).toContain("(limit 2)");
+  });
+
+  it("edits a schema in one write and warns about recipes reading changed columns", async () => {
+    const operations = [
+      { op: "rename", column: "customer", to: "client" },
+      { op: "drop", column: "note" },
+      { op: "set", column: "id", comment: "Order id" },
+    ];
+    const preview = await callTool("dataset", {
+      action: "schemaEdit",
+      datasetName: "orders",
+      operations,
+      dryRun: true,
+    });
+    expect(preview.structured).toMatchObject({
+      applied: false,
+      affectedColumns: ["note", "customer"],
+    });
+    expect(dss.projects.get("SALES")?.datasets.get("orders")?.schema).toHaveLength(3);
+
+    process.env.DATAIKU_MODE = "readonly";
+    const readonlyPreview = await callTool("dataset", {
+      action: "schemaEdit",
+      datasetName: "orders",
+      operations,
+      dryRun: true,
+    });
+    expect(readonlyPreview.structured).toMatchObject({ applied: false, dryRun: true });
+    process.env.DATAIKU_MODE = "dryrun";
+    const dryRunPreview = await callTool("dataset", {
+      action: "schemaEdit",
+      datasetName: "orders",
+      operations,
+      dryRun: true,
+    });
+    expect(dryRunPreview.text).toContain('Would change schema of "orders":');
+    delete process.env.DATAIKU_MODE;
+
+    const stale = await callTool("dataset", {
+      action: "schemaEdit",
+      datasetName: "orders",
+      operations,
+      expectedVersion: "sha256:0000000000000000",
+    });
+    expect(stale.isError).toBe(true);
+    expect(stale.structured).toMatchObject({
+      reason: "conflict",
+      expectedVersion: "sha256:0000000000000000",
+    });
+    expect(dss.projects.get("SALES")?.datasets.get("orders")?.schema).toHaveLength(3);
+
+    const requestCount = dss.requests.length;
+    const result = await callTool("dataset", {
+      action: "schemaEdit",
+      datasetName: "orders",
+      operations,
+    });
+
+    expect(result.isError).not.toBe(true);
+    expect(result.text).toBe(
+      [
+        'Changed schema of "orders":',
+        "- note (string)",
+        '~ id comment: "" → "Order id"',
+        "~ customer renamed to client",
+        'Warning: recipe "compute_orders_clean" reads "customer" (feeds orders_clean).',
+      ].join("\n"),
+    );
+    expect(result.structured).toMatchObject({
+      applied: true,
+      after: [
+        { name: "id", type: "bigint" },
+        { name: "client", type: "string" },
+      ],
+      downstream: [
+        { recipe: "compute_orders_broken", columns: [] },
+        { recipe: "compute_orders_clean", columns: ["customer"] },
+      ],
+    });
+    expect(dss.projects.get("SALES")?.datasets.get("orders")?.schema).toEqual([
+      { name: "id", type: "bigint", comment: "Order id" },
+      { name: "client", type: "string" },
+    ]);
+    expect(
+      dss.requests
+        .slice(requestCount)
+        .filter((r) => r.method === "PUT")
+        .map((r) => r.path),
+    ).toEqual(["/public/api/projects/SALES/datasets/orders"]);
+
+    const invalid = await callTool("dataset", {
+      action: "schemaEdit",
+      datasetName: "orders",
+      operations: [{ op: "retype", column: "customer", type: "int" }],
+    });
+    expect(invalid.structured).toMatchObject({ reason: "invalid_schema_edit", operation: 0 });
+  });
+
+  it("round-trips folder files and project variables", async () => {
+    const localPath = join(dir, "upload.csv");
+    await writeFile(localPath, "a,b\n1,2\n");
+    await callTool("managed_folder", {
+      action: "upload",
+      folderId: "f1",
+      path: "in/upload.csv",
+      localPath,
+    });
+
+    const contents = await callTool("managed_folder", { action: "contents", folderId: "f1" });
+    expect(contents.text).toContain("/in/upload.csv");
+
+    await callTool("variable", { action: "set", standard: { region: "eu" } });
+    const vars = await callTool("variable", { action: "get" });
+    expect(vars.structured).toMatchObject({ standardKeys: ["env", "region"] });
+  });
+
+  it("clears data and drops managed data on delete only when asked", async () => {
+    const cleared = await callTool("dataset", {
+      action: "clear",
+      datasetName: "orders",
+      confirm: true,
+    });
+    expect(cleared.structured).toMatchObject({ cleared: true, partitions: null });
+    expect(dss.projects.get("SALES")?.datasets.get("orders")?.rows).toEqual([]);
+
+    const requestCount = dss.requests.length;
+    const kept = await callTool("dataset", {
+      action: "delete",
+      datasetName: "orders_clean",
+      confirm: true,
+    });
+    expect(kept.structured).toMatchObject({ deleted: true, dataDropped: false });
+    expect(kept.text).toContain("its data was left in place");
+
+    const dropped = await callTool("dataset", {
+      action: "delete",
+      datasetName: "orders_broken",
+      dropData: true,
+      confirm: true,
+    });
+    expect(dropped.structured).toMatchObject({
+      deleted: true,
+      dataDropped: true,
+      storage: { managed: true, connection: "filesystem_managed" },
+    });
+    expect(
+      dss.requests
+        .slice(requestCount)
+        .filter((r) => r.method === "DELETE")
+        .map((r) => r.path),
+    ).toEqual([
+      "/public/api/projects/SALES/datasets/orders_clean",
+      "/public/api/projects/SALES/datasets/orders_broken?dropData=true",
+    ]);
+  });
+
+  it("surfaces DSS not-found errors", async () => {
+    const result = await callTool("dataset", { action: "get", datasetName: "missing" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Dataset SALES.missing does not exist");
+  });
+
+  it("suggests close names when a dataset or project does not exist", async () => {
+    const dataset = await callTool("dataset", { action: "schema", datasetName: "Ordrs" });
+    expect(dataset.isError).toBe(true);
+    expect(dataset.structured).toMatchObject({
+      category: "not_found",
+      suggestions: ["orders"],
+      suggestionsFor: { argument: "datasetName", value: "Ordrs" },
+    });
+    expect(dataset.text).toContain('Did you mean datasetName "orders"?');
+
+    const project = await callTool("dataset", {
+      action: "get",
+      projectKey: "SALE",
+      datasetName: "orders",
+    });
+    expect(project.structured).toMatchObject({
+      suggestions: ["SALES"],
+      suggestionsFor: { argument: "projectKey", value: "SALE" },
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+import { type FakeDss, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_PROJECT_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+let dir: string;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe("partitioned datasets against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss({ jobRunningPolls: 1 });
+  });
+
+  afterAll(async () => {
+    await dss.close();
+  });
+
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = dss.url;
+    process.env.DATAIKU_API_KEY = dss.apiKey;
+    process.env.DATAIKU_PROJECT_KEY = "SALES";
+    delete process.env.DATAIKU_MODE;
+    dir = await mkdtemp(join(tmpdir(), "dataiku-e2e-"));
+    dss.addProject({
+      projectKey: "SALES",
+      datasets: [
+        {
+          name: "events",
+          schema: [
+            { name: "day", type: "date" },
+            { name: "count", type: "bigint" },
+          ],
+          partitions: {
+            "2023-12-31": [["2023-12-31", 5]],
+            "2024-01-01": [["2024-01-01", 7]],
+            "2024-01-02": [["2024-01-02", 9]],
+          },
+        },
+        { name: "events_daily" },
+        { name: "flat", schema: [{ name: "x", type: "int" }], rows: [[1]] },
+      ],
+      recipes: [
+        { name: "compute_daily", type: "python", inputs: ["events"], outputs: ["events_daily"] },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists partition identifiers and reports unpartitioned datasets", async () => {
+    const listed = await callTool("dataset", { action: "partitions", datasetName: "events" });
+    expect(listed.structured).toMatchObject({
+      partitioned: true,
+      total: 3,
+      items: ["2023-12-31", "2024-01-01", "2024-01-02"],
+    });
+
+    const flat = await callTool("dataset", { action: "partitions", datasetName: "flat" });
+    expect(flat.structured).toMatchObject({ partitioned: false, total: 0 });
+    expect(flat.text).toBe('Dataset "flat" is not partitioned.');
+  });
+
+  it("previews and downloads only the selected partitions", async () => {
+    const preview = await callTool("dataset", {
+      action: "preview",
+      datasetName: "events",
+      partition: "2024-01-01/2024-01-31",
+    });
+    expect(preview.text).toBe("day,count\n2024-01-01,7\n2024-01-02,9");
+    expect(preview.structured).toMatchObject({ partitions: ["2024-01-01", "2024-01-02"] });
+
+    const download = await callTool("dataset", {
+      action: "download",
+      datasetName: "events",
+      partition: "2023-12-31",
+      outputDir: dir,
+    });
+    expect(download.structured).toMatchObject({ partitions: ["2023-12-31"] });
+    const csv = gunzipSync(await readFile(download.structured?.filePath as string)).toString();
+    expect(csv).toBe("day,count\n2023-12-31,5\n");
+  });
+
+  it("rejects partition specs with identifiers that match nothing", async () => {
+    const result = await callTool("dataset", {
+      action: "preview",
+      datasetName: "events",
+      partition: "2025-01-01",
+    });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('no partition of "events" matches "2025-01-01"');
+
+    const partial = await callTool("dataset", {
+      action: "preview",
+      datasetName: "events",
+      partition: "2024-01-01,2024-01-09",
+    });
+    expect(partial.isError).toBe(true);
+    expect(partial.text).toContain('no partition of "events" matches "2024-01-09"');
+    expect(partial.structured).toMatchObject({
+      ok: false,
+      reason: "partition_not_found",
+      unmatched: ["2024-01-09"],
+    });
+
+    const flat = await callTool("dataset", {
+      action: "preview",
+      datasetName: "flat",
+      partition: "2024-01-01",
+    });
+    expect(flat.text).toContain('"flat" is not partitioned');
+  });
+
+  it("clears selected partitions and keeps the definition", async () => {
+    const result = await callTool("dataset", {
+      action: "clear",
+      datasetName: "events",
+      partition: "2024-01-01,2024-01-02",
+      confirm: true,
+    });
+    expect(result.structured).toMatchObject({
+      cleared: true,
+      partitions: ["2024-01-01", "2024-01-02"],
+      storage: { type: "Filesystem", managed: true, connection: "filesystem_managed" },
+    });
+    expect(result.text).toContain('Cleared 2 partitions of dataset "events"');
+
+    const preview = await callTool("dataset", { action: "preview", datasetName: "events" });
+    expect(preview.text).toBe("day,count\n2023-12-31,5");
+  });
+
+  it("builds a partition and reports it on the job", async () => {
+    const built = await callTool("job", {
+      action: "buildAndWait",
+      datasetName: "events_daily",
+      partition: "2024-01-01/2024-01-31",
+      pollIntervalMs: 1,
+      includeLogs: true,
+    });
+    expect(built.structured).toMatchObject({
+      ok: true,
+      state: "DONE",
+      partition: "2024-01-01/2024-01-31",
+    });
+    expect(built.text).toContain(
+      "Computing dataset SALES.events_daily partition 2024-01-01/2024-01-31",
+    );
+
+    const job = await callTool("job", {
+      action: "get",
+      jobId: built.structured?.startedJobId as string,
+    });
+    expect(job.structured).toMatchObject({
+      job: { targetPartitions: ["2024-01-01/2024-01-31"] },
+    });
+  });
+});
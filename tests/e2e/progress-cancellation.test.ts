@@ -0,0 +1,190 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+import { type FakeDss, type FakeJob, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_PROJECT_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+
+async function connect() {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
+
+function jobs(): FakeJob[] {
+  return [...(dss.projects.get("SALES")?.jobs.values() ?? [])];
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2_000): Promise<void> {
+  const startedAt = Date.now();
+  while (!predicate()) {
+    if (Date.now() - startedAt > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("progress and cancellation against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss({ jobRunningPolls: 3 });
+  });
+
+  afterAll(async () => {
+    await dss.close();
+  });
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = dss.url;
+    process.env.DATAIKU_API_KEY = dss.apiKey;
+    process.env.DATAIKU_PROJECT_KEY = "SALES";
+    delete process.env.DATAIKU_MODE;
+    dss.addProject({
+      projectKey: "SALES",
+      datasets: [{ name: "orders" }, { name: "orders_clean" }],
+      recipes: [
+        {
+          name: "compute_orders_clean",
+          type: "python",
+          inputs: ["orders"],
+          outputs: ["orders_clean"],
+        },
+      ],
+      folders: [{ id: "f1", name: "inbox" }],
+    });
+  });
+
+  afterEach(() => {
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("sends a progress notification per poll built from globalState", async () => {
+    const { client, close } = await connect();
+    const updates: Progress[] = [];
+    try {
+      const result = await client.callTool(
+        {
+          name: "job",
+          arguments: { action: "buildAndWait", datasetName: "orders_clean", pollIntervalMs: 1 },
+        },
+        undefined,
+        { onprogress: (progress) => updates.push(progress) },
+      );
+
+      expect(result.isError).not.toBe(true);
+      expect(updates).toHaveLength(4);
+      expect(updates[0]).toMatchObject({ progress: 0, total: 1 });
+      expect(updates[0]?.message).toContain("RUNNING (0/1 done, 0 failed, 1 running)");
+      expect(updates.at(-1)).toMatchObject({ progress: 1, total: 1 });
+      expect(updates.at(-1)?.message).toContain("DONE");
+    } finally {
+      await close();
+    }
+  });
+
+  it("stops polling on cancel and aborts the DSS job when abortOnCancel is set", async () => {
+    const { client, close } = await connect();
+    const controller = new AbortController();
+    const requestCount = dss.requests.length;
+    try {
+      const pending = client.callTool(
+        {
+          name: "job",
+          arguments: {
+            action: "buildAndWait",
+            datasetName: "orders_clean",
+            pollIntervalMs: 60_000,
+            abortOnCancel: true,
+          },
+        },
+        undefined,
+        { signal: controller.signal, onprogress: () => controller.abort() },
+      );
+
+      await expect(pending).rejects.toThrow();
+      await waitFor(() => jobs()[0]?.state === "ABORTED");
+      expect(
+        dss.requests
+          .slice(requestCount)
+          .filter((r) => r.method === "GET" && r.path.includes("/jobs/Build_")),
+      ).toHaveLength(1);
+    } finally {
+      await close();
+    }
+  });
+
+  it("leaves the DSS job running when a plain wait is cancelled", async () => {
+    const { client, close } = await connect();
+    const controller = new AbortController();
+    const requestCount = dss.requests.length;
+    try {
+      const pending = client.callTool(
+        {
+          name: "job",
+          arguments: {
+            action: "buildAndWait",
+            datasetName: "orders_clean",
+            pollIntervalMs: 60_000,
+          },
+        },
+        undefined,
+        { signal: controller.signal, onprogress: () => controller.abort() },
+      );
+
+      await expect(pending).rejects.toThrow();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(jobs()[0]?.state).toBe("RUNNING");
+      expect(dss.requests.slice(requestCount).some((r) => r.path.includes("/abort/"))).toBe(false);
+    } finally {
+      await close();
+    }
+  });
+
+  it("reports folder upload progress from the streamed file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "dataiku-upload-progress-"));
+    const localPath = join(dir, "events.csv");
+    const data = "day,count\n2024-01-01,7\n".repeat(100);
+    await writeFile(localPath, data);
+    const { client, close } = await connect();
+    const updates: Progress[] = [];
+    try {
+      const result = await client.callTool(
+        {
+          name: "managed_folder",
+          arguments: { action: "upload", folderId: "f1", path: "in/events.csv", localPath },
+        },
+        undefined,
+        { onprogress: (progress) => updates.push(progress) },
+      );
+
+      expect(result.isError).not.toBe(true);
+      expect(updates[0]).toMatchObject({ progress: 0, total: data.length });
+      expect(updates.at(-1)).toMatchObject({ progress: data.length, total: data.length });
+      expect(updates.at(-1)?.message).toContain("sent");
+      const stored = dss.projects.get("SALES")?.folders.get("f1")?.files.get("in/events.csv");
+      expect(stored?.data.toString()).toBe(data);
+    } finally {
+      await close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,183 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+import { type FakeDss, startFakeDss } from "../support/fake-dss.js";
+
+const MANAGED_ENV_KEYS = [
+  "DATAIKU_URL",
+  "DATAIKU_API_KEY",
+  "DATAIKU_PROJECT_KEY",
+  "DATAIKU_MODE",
+  "DATAIKU_RESOURCE_POLL_MS",
+];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: FakeDss;
+
+async function connect() {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
+
+async function readText(client: Client, uri: string) {
+  const result = await client.readResource({ uri });
+  const content = result.contents[0] as { text: string; mimeType?: string };
+  return { text: content.text, mimeType: content.mimeType };
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2_000): Promise<void> {
+  const startedAt = Date.now();
+  while (!predicate()) {
+    if (Date.now() - startedAt > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("dss:// resources against the fake DSS", () => {
+  beforeAll(async () => {
+    dss = await startFakeDss({ jobRunningPolls: 2 });
+  });
+
+  afterAll(async () => {
+    await dss.close();
+  });
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = dss.url;
+    process.env.DATAIKU_API_KEY = dss.apiKey;
+    process.env.DATAIKU_PROJECT_KEY = "SALES";
+    process.env.DATAIKU_RESOURCE_POLL_MS = "5";
+    delete process.env.DATAIKU_MODE;
+    dss.addProject({
+      projectKey: "SALES",
+      datasets: [
+        {
+          name: "orders",
+          schema: [
+            { name: "id", type: "bigint" },
+            { name: "customer", type: "string" },
+          ],
+        },
+        { name: "orders_clean" },
+      ],
+      recipes: [
+        {
+          name: "compute_orders_clean",
+          type: "python",
+          inputs: ["orders"],
+          outputs: ["orders_clean"],
+          payload: "import dataiku\n",
+        },
+      ],
+      scenarios: [{ id: "NIGHTLY", name: "Nightly" }],
+    });
+  });
+
+  afterEach(() => {
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("lists templates and concrete resources for the default project", async () => {
+    const { client, close } = await connect();
+    try {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual(
+        expect.arrayContaining([
+          "dss://{projectKey}/dataset/{datasetName}/schema",
+          "dss://{projectKey}/recipe/{recipeName}/payload",
+          "dss://{projectKey}/flow/map",
+          "dss://{projectKey}/job/{jobId}/log",
+        ]),
+      );
+
+      const { resources } = await client.listResources();
+      expect(resources.map((r) => r.uri)).toEqual(
+        expect.arrayContaining([
+          "dss://SALES/dataset/orders/schema",
+          "dss://SALES/recipe/compute_orders_clean/payload",
+          "dss://SALES/flow/map",
+          "dss://SALES/scenario/NIGHTLY/run",
+        ]),
+      );
+    } finally {
+      await close();
+    }
+  });
+
+  it("reads schema, payload and flow map", async () => {
+    const { client, close } = await connect();
+    try {
+      const schema = await readText(client, "dss://SALES/dataset/orders/schema");
+      expect(JSON.parse(schema.text)).toMatchObject({
+        datasetName: "orders",
+        columns: [
+          { name: "id", type: "bigint" },
+          { name: "customer", type: "string" },
+        ],
+      });
+
+      const payload = await readText(client, "dss://SALES/recipe/compute_orders_clean/payload");
+      expect(payload).toEqual({ text: "import dataiku\n", mimeType: "text/x-python" });
+
+      const map = await readText(client, "dss://SALES/flow/map");
+      expect(JSON.parse(map.text)).toMatchObject({ roots: ["orders"], leaves: ["orders_clean"] });
+    } finally {
+      await close();
+    }
+  });
+
+  it("notifies subscribers until a job settles, then exposes its log", async () => {
+    const { client, close } = await connect();
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    try {
+      const started = await client.callTool({
+        name: "job",
+        arguments: { action: "build", datasetName: "orders_clean" },
+      });
+      const jobId = (started.structuredContent as { jobId: string }).jobId;
+      const uri = `dss://SALES/job/${jobId}`;
+
+      await client.subscribeResource({ uri });
+      await waitFor(() => updated.length > 0);
+      expect(updated).toEqual([uri]);
+
+      const status = JSON.parse((await readText(client, uri)).text);
+      expect(status).toMatchObject({ state: "DONE", normalizedState: "terminalSuccess" });
+
+      const log = await readText(client, `${uri}/log`);
+      expect(log.text).toContain("Computing dataset SALES.orders_clean");
+    } finally {
+      await close();
+    }
+  });
+
+  it("rejects subscriptions to resources that do not change", async () => {
+    const { client, close } = await connect();
+    try {
+      await expect(
+        client.subscribeResource({ uri: "dss://SALES/dataset/orders/schema" }),
+      ).rejects.toThrow(/job and scenario-run/);
+    } finally {
+      await close();
+    }
+  });
+});
@@ -86,7 +86,7 @@ describe.skipIf(!(HAS_DSS && RUN_DESTRUCTIVE))(
       const failures: string[] = [];
 
       for (const recipeName of [...createdRecipes]) {
-        const ok = await deleteWithRetry("recipe", { action: "delete", recipeName });
+        const ok = await deleteWithRetry("recipe", { action: "delete", recipeName, confirm: true });
         if (ok) {
           createdRecipes.delete(recipeName);
         } else {
@@ -95,7 +95,11 @@ describe.skipIf(!(HAS_DSS && RUN_DESTRUCTIVE))(
       }
 
       for (const datasetName of [...createdDatasets]) {
-        const ok = await deleteWithRetry("dataset", { action: "delete", datasetName });
+        const ok = await deleteWithRetry("dataset", {
+          action: "delete",
+          datasetName,
+          confirm: true,
+        });
         if (ok) {
           createdDatasets.delete(datasetName);
         } else {
@@ -104,7 +108,11 @@ describe.skipIf(!(HAS_DSS && RUN_DESTRUCTIVE))(
       }
 
       for (const scenarioId of [...createdScenarios]) {
-        const ok = await deleteWithRetry("scenario", { action: "delete", scenarioId });
+        const ok = await deleteWithRetry("scenario", {
+          action: "delete",
+          scenarioId,
+          confirm: true,
+        });
         if (ok) {
           createdScenarios.delete(scenarioId);
         } else {
@@ -115,6 +123,7 @@ describe.skipIf(!(HAS_DSS && RUN_DESTRUCTIVE))(
       if (folderId && folderFileUploaded) {
         const ok = await deleteWithRetry("managed_folder", {
           action: "delete_file",
+          confirm: true,
           folderId,
           path: FOLDER_REMOTE_PATH,
         });
@@ -270,6 +279,7 @@ describe.skipIf(!(HAS_DSS && RUN_DESTRUCTIVE))(
         action: "build",
         datasetName: OUTPUT_DS,
         buildMode: "RECURSIVE_FORCED_BUILD",
+        confirm: true,
       });
       expect(build.isError).toBeFalsy();
       expect(build.text).toContain("Job started:");
@@ -282,7 +292,7 @@ describe.skipIf(!(HAS_DSS && RUN_DESTRUCTIVE))(
       expect(getRes.isError).toBeFalsy();
       expect(getRes.text).toContain("Job:");
 
-      const abortRes = await call("job", { action: "abort", jobId });
+      const abortRes = await call("job", { action: "abort", jobId, confirm: true });
       if (abortRes.isError) {
         expect(abortRes.text).toMatch(/abort|already|cannot|done|finish/i);
       } else {
@@ -339,6 +349,7 @@ describe.skipIf(!(HAS_DSS && RUN_DESTRUCTIVE))(
 
       const deleteRes = await call("managed_folder", {
         action: "delete_file",
+        confirm: true,
         folderId,
         path: FOLDER_REMOTE_PATH,
       });
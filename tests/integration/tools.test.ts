@@ -211,6 +211,7 @@ describe.skipIf(!HAS_DSS)("Integration: MCP tools against live DSS", () => {
     it("delete — deletes the dataset", async () => {
       const { text, isError } = await call("dataset", {
         action: "delete",
+        confirm: true,
         datasetName: DS_NAME,
       });
       expect(isError).toBeFalsy();
@@ -284,11 +285,13 @@ describe.skipIf(!HAS_DSS)("Integration: MCP tools against live DSS", () => {
     it("delete — deletes recipe and cleanup dataset", async () => {
       const { isError: recipeErr } = await call("recipe", {
         action: "delete",
+        confirm: true,
         recipeName: RECIPE_NAME,
       });
       if (!recipeErr) {
         const { isError: dsErr } = await call("dataset", {
           action: "delete",
+          confirm: true,
           datasetName: RECIPE_OUT,
         });
         expect(dsErr).toBeFalsy();
@@ -433,6 +436,7 @@ describe.skipIf(!HAS_DSS)("Integration: MCP tools against live DSS", () => {
     it("delete — deletes scenario", async () => {
       const { text, isError } = await call("scenario", {
         action: "delete",
+        confirm: true,
         scenarioId: SCENARIO_ID,
       });
       expect(isError).toBeFalsy();
@@ -0,0 +1,944 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { gunzipSync } from "node:zlib";
+
+/**
+ * In-memory stand-in for the DSS public API, used by tests/e2e to drive the
+ * real tools through createServer() without a network or a DSS instance.
+ */
+
+export interface FakeColumn {
+  name: string;
+  type: string;
+}
+
+export interface FakeDatasetSeed {
+  name: string;
+  type?: string;
+  params?: Record<string, unknown>;
+  schema?: FakeColumn[];
+  rows?: unknown[][];
+  /** Rows per partition identifier; the dataset is unpartitioned when absent. */
+  partitions?: Record<string, unknown[][]>;
+  /** When set, jobs building this dataset end FAILED with this message in the log. */
+  buildError?: string;
+  [key: string]: unknown;
+}
+
+export interface FakeRecipeSeed {
+  name: string;
+  type: string;
+  inputs: string[];
+  outputs: string[];
+  payload?: string;
+}
+
+export interface FakeScenarioSeed {
+  id: string;
+  name?: string;
+  type?: string;
+  active?: boolean;
+  params?: Record<string, unknown>;
+}
+
+export interface FakeFolderSeed {
+  id: string;
+  name?: string;
+  files?: Record<string, string>;
+}
+
+export interface FakeProjectSeed {
+  projectKey: string;
+  name?: string;
+  datasets?: FakeDatasetSeed[];
+  recipes?: FakeRecipeSeed[];
+  scenarios?: FakeScenarioSeed[];
+  folders?: FakeFolderSeed[];
+  variables?: { standard?: Record<string, unknown>; local?: Record<string, unknown> };
+}
+
+export interface FakeDataset {
+  definition: Record<string, unknown>;
+  schema: FakeColumn[];
+  rows: unknown[][];
+  partitions?: Map<string, unknown[][]>;
+  buildError?: string;
+  /** Names of files uploaded into an UploadedFiles dataset. */
+  uploadedFiles?: string[];
+}
+
+export interface FakeRecipe {
+  recipe: Record<string, unknown>;
+  payload: string;
+}
+
+export type FakeJobState = "RUNNING" | "DONE" | "FAILED" | "ABORTED";
+
+export interface FakeJob {
+  id: string;
+  type: string;
+  targets: string[];
+  partition?: string;
+  state: FakeJobState;
+  pollsUntilDone: number;
+  startTime: number;
+  endTime?: number;
+  log: string[];
+}
+
+export interface FakeScenario {
+  definition: Record<string, unknown>;
+  runs: Array<{ runId: string; outcome: string; start: number; end: number }>;
+}
+
+export interface FakeFolder {
+  definition: Record<string, unknown>;
+  files: Map<string, { data: Buffer; lastModified: number }>;
+}
+
+export interface FakeProject {
+  projectKey: string;
+  name: string;
+  datasets: Map<string, FakeDataset>;
+  recipes: Map<string, FakeRecipe>;
+  jobs: Map<string, FakeJob>;
+  scenarios: Map<string, FakeScenario>;
+  folders: Map<string, FakeFolder>;
+  variables: { standard: Record<string, unknown>; local: Record<string, unknown> };
+}
+
+export interface FakeDssOptions {
+  apiKey?: string;
+  /** Number of job status polls that still report RUNNING before the job settles. */
+  jobRunningPolls?: number;
+  connections?: string[];
+  codeEnvs?: Array<{ envName: string; envLang: string; [key: string]: unknown }>;
+  /** When false, data reads with columns/filter/sampling are rejected like an older DSS. */
+  dataSelection?: boolean;
+}
+
+export interface FakeDss {
+  url: string;
+  apiKey: string;
+  projects: Map<string, FakeProject>;
+  requests: Array<{ method: string; path: string }>;
+  addProject(seed: FakeProjectSeed): FakeProject;
+  close(): Promise<void>;
+}
+
+class FakeDssError extends Error {
+  constructor(
+    public status: number,
+    public errorType: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function notFound(kind: string, id: string): FakeDssError {
+  return new FakeDssError(
+    404,
+    "com.dataiku.dip.exceptions.UnknownObjectException",
+    `${kind} ${id} does not exist`,
+  );
+}
+
+function recipeRoles(refs: string[]): Record<string, { items: Array<{ ref: string }> }> {
+  return { main: { items: refs.map((ref) => ({ ref })) } };
+}
+
+function roleRefs(roles: unknown): string[] {
+  if (!roles || typeof roles !== "object") return [];
+  const refs: string[] = [];
+  for (const role of Object.values(roles as Record<string, { items?: Array<{ ref?: string }> }>)) {
+    for (const item of role?.items ?? []) {
+      if (item.ref) refs.push(item.ref);
+    }
+  }
+  return refs;
+}
+
+function toDataset(seed: FakeDatasetSeed, projectKey: string): FakeDataset {
+  const { schema, rows, partitions, buildError, ...definition } = seed;
+  return {
+    definition: {
+      projectKey,
+      type: "Filesystem",
+      managed: true,
+      params: { connection: "filesystem_managed" },
+      ...definition,
+    },
+    schema: schema ?? [],
+    rows: rows ?? [],
+    ...(partitions ? { partitions: new Map(Object.entries(partitions)) } : {}),
+    buildError,
+  };
+}
+
+function formatTsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /["\t\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Naive reader for uploaded csv/json files: no quoting, just enough for previews. */
+function parseUploadedRows(dataset: FakeDataset, data: Buffer): unknown[][] {
+  const params = (dataset.definition.formatParams ?? {}) as {
+    separator?: string;
+    compress?: string;
+  };
+  const text = (params.compress === "gz" ? gunzipSync(data) : data).toString("utf8");
+  const lines = text.split(/\r?\n/).filter((line) => line.length > 0);
+  if (dataset.definition.formatType === "json") {
+    return lines.map((line) => {
+      const record = JSON.parse(line) as Record<string, unknown>;
+      return dataset.schema.map((column) => record[column.name] ?? null);
+    });
+  }
+  return lines.slice(1).map((line) => line.split(params.separator ?? ","));
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+function jobIdFor(project: FakeProject, target: string, startTime: number): string {
+  const stamp = new Date(startTime).toISOString().replace(/:/g, "-").replace("Z", "");
+  let id = `Build_${target}_${stamp}`;
+  for (let n = 1; project.jobs.has(id); n++) id = `Build_${target}_${stamp}_${n}`;
+  return id;
+}
+
+export async function startFakeDss(options: FakeDssOptions = {}): Promise<FakeDss> {
+  const apiKey = options.apiKey ?? "fake-dss-key";
+  const jobRunningPolls = Math.max(0, options.jobRunningPolls ?? 2);
+  const projects = new Map<string, FakeProject>();
+  const requests: Array<{ method: string; path: string }> = [];
+
+  function addProject(seed: FakeProjectSeed): FakeProject {
+    const project: FakeProject = {
+      projectKey: seed.projectKey,
+      name: seed.name ?? seed.projectKey,
+      datasets: new Map(
+        (seed.datasets ?? []).map((d) => [d.name, toDataset(d, seed.projectKey)] as const),
+      ),
+      recipes: new Map(
+        (seed.recipes ?? []).map(
+          (r) =>
+            [
+              r.name,
+              {
+                recipe: {
+                  projectKey: seed.projectKey,
+                  name: r.name,
+                  type: r.type,
+                  inputs: recipeRoles(r.inputs),
+                  outputs: recipeRoles(r.outputs),
+                },
+                payload: r.payload ?? "",
+              },
+            ] as const,
+        ),
+      ),
+      jobs: new Map(),
+      scenarios: new Map(
+        (seed.scenarios ?? []).map(
+          (s) =>
+            [
+              s.id,
+              {
+                definition: {
+                  projectKey: seed.projectKey,
+                  type: "step_based",
+                  active: false,
+                  params: { steps: [], triggers: [], reporters: [] },
+                  ...s,
+                },
+                runs: [],
+              },
+            ] as const,
+        ),
+      ),
+      folders: new Map(
+        (seed.folders ?? []).map(
+          (f) =>
+            [
+              f.id,
+              {
+                definition: { id: f.id, name: f.name ?? f.id, type: "Filesystem" },
+                files: new Map(
+                  Object.entries(f.files ?? {}).map(
+                    ([path, text]) =>
+                      [
+                        path.replace(/^\/+/, ""),
+                        { data: Buffer.from(text), lastModified: Date.now() },
+                      ] as const,
+                  ),
+                ),
+              },
+            ] as const,
+        ),
+      ),
+      variables: { standard: seed.variables?.standard ?? {}, local: seed.variables?.local ?? {} },
+    };
+    projects.set(project.projectKey, project);
+    return project;
+  }
+
+  function getProject(key: string): FakeProject {
+    const project = projects.get(key);
+    if (!project) throw notFound("Project", key);
+    return project;
+  }
+
+  function getDataset(project: FakeProject, name: string): FakeDataset {
+    const dataset = project.datasets.get(name);
+    if (!dataset) throw notFound("Dataset", `${project.projectKey}.${name}`);
+    return dataset;
+  }
+
+  function datasetJson(dataset: FakeDataset): Record<string, unknown> {
+    return { ...dataset.definition, schema: { columns: dataset.schema } };
+  }
+
+  function flowGraph(project: FakeProject): Record<string, unknown> {
+    const nodes: Record<
+      string,
+      Record<string, unknown> & { predecessors: string[]; successors: string[] }
+    > = {};
+    const nodeFor = (ref: string) => {
+      nodes[ref] ??= {
+        ref,
+        type: project.folders.has(ref) ? "COMPUTABLE_FOLDER" : "COMPUTABLE_DATASET",
+        predecessors: [],
+        successors: [],
+      };
+      return nodes[ref];
+    };
+    for (const name of project.datasets.keys()) nodeFor(name);
+    for (const id of project.folders.keys()) nodeFor(id);
+    for (const [name, { recipe }] of project.recipes) {
+      const inputs = roleRefs(recipe.inputs);
+      const outputs = roleRefs(recipe.outputs);
+      nodes[name] = {
+        ref: name,
+        type: "RUNNABLE_RECIPE",
+        subType: recipe.type,
+        predecessors: inputs,
+        successors: outputs,
+      };
+      for (const ref of inputs) nodeFor(ref).successors.push(name);
+      for (const ref of outputs) nodeFor(ref).predecessors.push(name);
+    }
+    return {
+      nodes,
+      datasets: [...project.datasets.keys()],
+      recipes: [...project.recipes.keys()],
+      folders: [...project.folders.keys()],
+    };
+  }
+
+  function producingRecipe(project: FakeProject, dataset: string): string | undefined {
+    for (const [name, { recipe }] of project.recipes) {
+      if (roleRefs(recipe.outputs).includes(dataset)) return name;
+    }
+    return undefined;
+  }
+
+  function settleJob(project: FakeProject, job: FakeJob): void {
+    const failure = job.targets
+      .map((target) => project.datasets.get(target)?.buildError)
+      .find((error) => error !== undefined);
+    job.state = failure === undefined ? "DONE" : "FAILED";
+    job.endTime = Date.now();
+    for (const target of job.targets) {
+      const partition = job.partition ? ` partition ${job.partition}` : "";
+      job.log.push(`[INFO] Computing dataset ${project.projectKey}.${target}${partition}`);
+    }
+    if (failure !== undefined) {
+      job.log.push(`[ERROR] ${failure}`, "[INFO] Job failed");
+    } else {
+      job.log.push("[INFO] Job succeeded");
+    }
+  }
+
+  function jobStatus(project: FakeProject, job: FakeJob): Record<string, unknown> {
+    const activities: Record<string, unknown> = {};
+    for (const target of job.targets) {
+      const recipeName = producingRecipe(project, target);
+      if (!recipeName) continue;
+      const activityId = `compute_${target}_NP`;
+      activities[activityId] = {
+        activityId,
+        recipeName,
+        recipeType: project.recipes.get(recipeName)?.recipe.type,
+        state: job.state,
+        totalTime: job.endTime ? job.endTime - job.startTime : undefined,
+      };
+    }
+    const total = Math.max(1, Object.keys(activities).length);
+    return {
+      baseStatus: {
+        def: {
+          id: job.id,
+          type: job.type,
+          initiator: "fake-dss",
+          outputs: job.targets.map((targetDataset) => ({
+            targetDataset,
+            ...(job.partition ? { targetPartition: job.partition } : {}),
+          })),
+        },
+        state: job.state,
+        jobStartTime: job.startTime,
+        ...(job.endTime ? { jobEndTime: job.endTime } : {}),
+        activities,
+      },
+      globalState: {
+        done: job.state === "DONE" ? total : 0,
+        failed: job.state === "FAILED" ? total : 0,
+        running: job.state === "RUNNING" ? total : 0,
+        aborted: job.state === "ABORTED" ? total : 0,
+        total,
+      },
+    };
+  }
+
+  function getJob(project: FakeProject, id: string): FakeJob {
+    const job = project.jobs.get(id);
+    if (!job) throw notFound("Job", `${project.projectKey}.${id}`);
+    return job;
+  }
+
+  function getFolder(project: FakeProject, id: string): FakeFolder {
+    const folder = project.folders.get(id);
+    if (!folder) throw notFound("Managed folder", `${project.projectKey}.${id}`);
+    return folder;
+  }
+
+  function getScenario(project: FakeProject, id: string): FakeScenario {
+    const scenario = project.scenarios.get(id);
+    if (!scenario) throw notFound("Scenario", `${project.projectKey}.${id}`);
+    return scenario;
+  }
+
+  function datasetRows(dataset: FakeDataset, partitions: string | null): unknown[][] {
+    if (!dataset.partitions) return dataset.rows;
+    const ids = partitions ? partitions.split(",") : [...dataset.partitions.keys()];
+    return ids.flatMap((id) => dataset.partitions?.get(id) ?? []);
+  }
+
+  const FORMULA_TERM = /^(strval|numval)\("([^"]+)"\) (==|!=|>=|<=|>|<) (.+)$/;
+
+  /** Understands only `strval("c") == "v"` / `numval("c") > 1` terms joined with `&&`. */
+  function formulaFilter(dataset: FakeDataset, formula: string): (row: unknown[]) => boolean {
+    const terms = formula.split(" && ").map((term) => {
+      const match = FORMULA_TERM.exec(term);
+      const index = dataset.schema.findIndex((c) => c.name === match?.[2]);
+      if (!match || index === -1) {
+        throw new FakeDssError(400, "IllegalArgumentException", `Invalid formula: ${term}`);
+      }
+      const [, accessor, , op, literal] = match;
+      const expected = JSON.parse(literal) as string | number;
+      return (row: unknown[]) => {
+        const cell = row[index];
+        const left = accessor === "numval" ? Number(cell) : String(cell ?? "");
+        if (op === "==") return left === expected;
+        if (op === "!=") return left !== expected;
+        if (op === ">") return left > expected;
+        if (op === ">=") return left >= expected;
+        if (op === "<") return left < expected;
+        return left <= expected;
+      };
+    });
+    return (row) => terms.every((term) => term(row));
+  }
+
+  function selectRows(
+    dataset: FakeDataset,
+    rows: unknown[][],
+    query: URLSearchParams,
+  ): { columns: number[]; rows: unknown[][] } {
+    const columns = dataset.schema.map((_, i) => i);
+    const selecting = ["columns", "filter", "sampling"].some((key) => query.has(key));
+    if (!selecting) return { columns, rows };
+    if (options.dataSelection === false) {
+      throw new FakeDssError(400, "BadRequest", "Unsupported data query parameters");
+    }
+    const filter = query.get("filter");
+    let selected = filter ? rows.filter(formulaFilter(dataset, filter)) : rows;
+    const sampling = query.get("sampling");
+    if (sampling) {
+      const { samplingMethod, maxRecords } = JSON.parse(sampling) as {
+        samplingMethod: string;
+        maxRecords: number;
+      };
+      selected =
+        samplingMethod === "TAIL_SEQUENTIAL"
+          ? selected.slice(-maxRecords)
+          : selected.slice(0, maxRecords);
+    }
+    const names = query.get("columns")?.split(",");
+    if (!names) return { columns, rows: selected };
+    return {
+      columns: names.map((name) => {
+        const index = dataset.schema.findIndex((c) => c.name === name);
+        if (index === -1) throw new FakeDssError(400, "BadRequest", `Unknown column ${name}`);
+        return index;
+      }),
+      rows: selected,
+    };
+  }
+
+  function streamDataset(
+    res: ServerResponse,
+    dataset: FakeDataset,
+    rows: unknown[][],
+    limit: number,
+    columns: number[],
+  ): void {
+    res.writeHead(200, { "content-type": "text/tab-separated-values; charset=utf-8" });
+    res.write(`${columns.map((i) => formatTsvField(dataset.schema[i].name)).join("\t")}\n`);
+    for (const row of rows.slice(0, limit)) {
+      res.write(`${columns.map((i) => formatTsvField(row[i])).join("\t")}\n`);
+    }
+    res.end();
+  }
+
+  async function handleProject(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    segments: string[],
+    query: URLSearchParams,
+  ): Promise<void> {
+    const project = getProject(segments[0]);
+    const [kind, id, sub, ...rest] = segments.slice(1);
+    const body = async (): Promise<Record<string, unknown>> => {
+      const raw = await readBody(req);
+      return raw.length > 0 ? (JSON.parse(raw.toString("utf8")) as Record<string, unknown>) : {};
+    };
+
+    if (kind === undefined && method === "GET") {
+      return sendJson(res, 200, {
+        projectKey: project.projectKey,
+        name: project.name,
+        projectStatus: "In Progress",
+        ownerLogin: "admin",
+        versionTag: { versionNumber: 1, lastModifiedOn: Date.now() },
+      });
+    }
+    if (kind === "metadata" && method === "GET") {
+      return sendJson(res, 200, {
+        label: project.name,
+        tags: [],
+        customFields: {},
+        checklists: { checklists: [] },
+      });
+    }
+    if (kind === "flow" && id === "graph" && method === "GET") {
+      return sendJson(res, 200, flowGraph(project));
+    }
+    if (kind === "variables") {
+      if (method === "GET") return sendJson(res, 200, project.variables);
+      if (method === "PUT") {
+        const next = await body();
+        project.variables = {
+          standard: (next.standard as Record<string, unknown>) ?? {},
+          local: (next.local as Record<string, unknown>) ?? {},
+        };
+        res.writeHead(204).end();
+        return;
+      }
+    }
+
+    if (kind === "datasets") {
+      if (id === undefined) {
+        if (method === "GET") {
+          return sendJson(res, 200, [...project.datasets.values()].map(datasetJson));
+        }
+        if (method === "POST") {
+          const created = (await body()) as FakeDatasetSeed;
+          if (project.datasets.has(created.name)) {
+            throw new FakeDssError(
+              400,
+              "com.dataiku.dip.exceptions.AlreadyExistsException",
+              `Dataset ${project.projectKey}.${created.name} already exists`,
+            );
+          }
+          const { schema, ...rest } = created;
+          const columns = (schema as { columns?: FakeColumn[] } | undefined)?.columns;
+          project.datasets.set(
+            created.name,
+            toDataset({ ...rest, name: created.name, schema: columns }, project.projectKey),
+          );
+          return sendJson(res, 200, { name: created.name });
+        }
+      }
+      if (id !== undefined) {
+        const dataset = getDataset(project, id);
+        if (sub === undefined) {
+          if (method === "GET") return sendJson(res, 200, datasetJson(dataset));
+          if (method === "PUT") {
+            const { schema, ...definition } = await body();
+            dataset.definition = definition;
+            const columns = (schema as { columns?: FakeColumn[] } | undefined)?.columns;
+            if (columns) dataset.schema = columns;
+            return sendJson(res, 200, { ok: true });
+          }
+          if (method === "DELETE") {
+            project.datasets.delete(id);
+            res.writeHead(204).end();
+            return;
+          }
+        }
+        if (sub === "schema" && method === "GET") {
+          return sendJson(res, 200, { columns: dataset.schema });
+        }
+        if (sub === "metadata" && method === "GET") {
+          return sendJson(res, 200, { tags: [], customFields: {}, checklists: { checklists: [] } });
+        }
+        if (sub === "partitions" && method === "GET") {
+          return sendJson(res, 200, dataset.partitions ? [...dataset.partitions.keys()] : ["NP"]);
+        }
+        if (sub === "data" && method === "DELETE") {
+          const requested = query.get("partitions");
+          if (!requested) {
+            dataset.rows = [];
+            for (const id of dataset.partitions?.keys() ?? []) dataset.partitions?.set(id, []);
+          }
+          for (const id of requested?.split(",") ?? []) dataset.partitions?.set(id, []);
+          res.writeHead(204).end();
+          return;
+        }
+        if (sub === "uploaded" && rest[0] === "files" && method === "POST") {
+          const raw = await readBody(req);
+          const form = await new Response(raw, {
+            headers: { "content-type": req.headers["content-type"] ?? "" },
+          }).formData();
+          const file = form.get("file");
+          if (!(file instanceof File)) {
+            throw new FakeDssError(400, "BadRequest", 'Missing multipart field "file"');
+          }
+          dataset.uploadedFiles = [...(dataset.uploadedFiles ?? []), file.name];
+          dataset.rows.push(...parseUploadedRows(dataset, Buffer.from(await file.arrayBuffer())));
+          return sendJson(res, 200, { ok: true });
+        }
+        if (sub === "data" && method === "GET") {
+          const { columns, rows } = selectRows(
+            dataset,
+            datasetRows(dataset, query.get("partitions")),
+            query,
+          );
+          const limit = Number.parseInt(query.get("limit") ?? "", 10);
+          return streamDataset(
+            res,
+            dataset,
+            rows,
+            Number.isFinite(limit) ? limit : rows.length,
+            columns,
+          );
+        }
+      }
+    }
+
+    if (kind === "recipes") {
+      if (id === undefined) {
+        if (method === "GET") {
+          return sendJson(
+            res,
+            200,
+            [...project.recipes.values()].map(({ recipe }) => recipe),
+          );
+        }
+        if (method === "POST") {
+          const { recipePrototype, creationSettings } = (await body()) as {
+            recipePrototype: Record<string, unknown>;
+            creationSettings?: { script?: string };
+          };
+          const name = String(recipePrototype.name);
+          project.recipes.set(name, {
+            recipe: { projectKey: project.projectKey, ...recipePrototype },
+            payload: creationSettings?.script ?? "",
+          });
+          return sendJson(res, 200, { id: name });
+        }
+      } else {
+        const recipe = project.recipes.get(id);
+        if (!recipe) throw notFound("Recipe", `${project.projectKey}.${id}`);
+        if (method === "GET") return sendJson(res, 200, recipe);
+        if (method === "PUT") {
+          const next = (await body()) as Partial<FakeRecipe>;
+          if (next.recipe) recipe.recipe = next.recipe;
+          if (next.payload !== undefined) recipe.payload = next.payload;
+          return sendJson(res, 200, { ok: true });
+        }
+        if (method === "DELETE") {
+          project.recipes.delete(id);
+          res.writeHead(204).end();
+          return;
+        }
+      }
+    }
+
+    if (kind === "jobs") {
+      if (id === undefined) {
+        if (method === "GET") {
+          const jobs = [...project.jobs.values()]
+            .sort((a, b) => b.startTime - a.startTime)
+            .map((job) => ({
+              def: { id: job.id, name: job.id, initiator: "fake-dss" },
+              state: job.state,
+              startTime: job.startTime,
+            }));
+          const limit = Number.parseInt(query.get("limit") ?? "", 10);
+          return sendJson(res, 200, Number.isFinite(limit) ? jobs.slice(0, limit) : jobs);
+        }
+        if (method === "POST") {
+          const def = (await body()) as {
+            type?: string;
+            outputs?: Array<{ id: string; partition?: string }>;
+          };
+          const targets = (def.outputs ?? []).map((output) => output.id);
+          for (const target of targets) getDataset(project, target);
+          const startTime = Date.now();
+          const job: FakeJob = {
+            id: jobIdFor(project, targets[0] ?? "job", startTime),
+            type: def.type ?? "NON_RECURSIVE_FORCED_BUILD",
+            targets,
+            ...(def.outputs?.[0]?.partition ? { partition: def.outputs[0].partition } : {}),
+            state: "RUNNING",
+            pollsUntilDone: jobRunningPolls,
+            startTime,
+            log: [`[INFO] Starting ${def.type ?? "build"} of ${targets.join(", ")}`],
+          };
+          if (job.pollsUntilDone === 0) settleJob(project, job);
+          project.jobs.set(job.id, job);
+          return sendJson(res, 200, { id: job.id });
+        }
+      } else {
+        const job = getJob(project, id);
+        if (sub === undefined && method === "GET") {
+          if (job.state === "RUNNING") {
+            job.pollsUntilDone -= 1;
+            const status = jobStatus(project, job);
+            if (job.pollsUntilDone <= 0) settleJob(project, job);
+            return sendJson(res, 200, status);
+          }
+          return sendJson(res, 200, jobStatus(project, job));
+        }
+        if (sub === "log" && method === "GET") {
+          const activity = query.get("activity");
+          const lines = activity ? job.log.filter((line) => line.includes(activity)) : job.log;
+          res.writeHead(200, { "content-type": "text/plain; charset=utf-8" });
+          res.end(lines.join("\n"));
+          return;
+        }
+        if (sub === "abort" && method === "POST") {
+          if (job.state === "RUNNING") {
+            job.state = "ABORTED";
+            job.endTime = Date.now();
+            job.log.push("[WARN] Job aborted");
+          }
+          return sendJson(res, 200, {});
+        }
+      }
+    }
+
+    if (kind === "scenarios") {
+      if (id === undefined) {
+        if (method === "GET") {
+          return sendJson(
+            res,
+            200,
+            [...project.scenarios.values()].map(({ definition }) => ({
+              id: definition.id,
+              name: definition.name,
+              active: definition.active,
+            })),
+          );
+        }
+        if (method === "POST") {
+          const created = await body();
+          const scenarioId = String(created.id);
+          project.scenarios.set(scenarioId, {
+            definition: { projectKey: project.projectKey, ...created },
+            runs: [],
+          });
+          return sendJson(res, 200, { id: scenarioId });
+        }
+      } else {
+        const scenario = getScenario(project, id);
+        if (sub === undefined) {
+          if (method === "GET") return sendJson(res, 200, scenario.definition);
+          if (method === "PUT") {
+            scenario.definition = await body();
+            return sendJson(res, 200, { ok: true });
+          }
+          if (method === "DELETE") {
+            project.scenarios.delete(id);
+            res.writeHead(204).end();
+            return;
+          }
+        }
+        if (sub === "light" && method === "GET") {
+          const lastRun = scenario.runs.at(-1);
+          return sendJson(res, 200, {
+            id,
+            name: scenario.definition.name,
+            active: scenario.definition.active ?? false,
+            running: false,
+            ...(lastRun ? { lastRun: { ...lastRun, trigger: { type: "manual" } } } : {}),
+          });
+        }
+        if (sub === "run" && method === "POST") {
+          const now = Date.now();
+          const runId = `${now}-${scenario.runs.length + 1}`;
+          scenario.runs.push({ runId, outcome: "SUCCESS", start: now, end: now });
+          return sendJson(res, 200, { id: runId, scenarioId: id });
+        }
+      }
+    }
+
+    if (kind === "managedfolders") {
+      if (id === undefined && method === "GET") {
+        return sendJson(
+          res,
+          200,
+          [...project.folders.values()].map(({ definition }) => definition),
+        );
+      }
+      if (id !== undefined) {
+        const folder = getFolder(project, id);
+        if (sub === undefined && method === "GET") return sendJson(res, 200, folder.definition);
+        if (sub === "contents") {
+          const path = rest.join("/").replace(/^\/+/, "");
+          if (!path && method === "GET") {
+            return sendJson(res, 200, {
+              items: [...folder.files].map(([filePath, file]) => ({
+                path: `/${filePath}`,
+                size: file.data.length,
+                lastModified: file.lastModified,
+              })),
+            });
+          }
+          if (method === "GET") {
+            const file = folder.files.get(path);
+            if (!file) throw notFound("File", `${id}/${path}`);
+            res.writeHead(200, { "content-type": "application/octet-stream" });
+            res.end(file.data);
+            return;
+          }
+          if (method === "POST") {
+            const raw = await readBody(req);
+            const form = await new Response(raw, {
+              headers: { "content-type": req.headers["content-type"] ?? "" },
+            }).formData();
+            const file = form.get("file");
+            if (!(file instanceof Blob)) {
+              throw new FakeDssError(400, "BadRequest", 'Missing multipart field "file"');
+            }
+            folder.files.set(path, {
+              data: Buffer.from(await file.arrayBuffer()),
+              lastModified: Date.now(),
+            });
+            res.writeHead(204).end();
+            return;
+          }
+          if (method === "DELETE") {
+            if (!folder.files.delete(path)) throw notFound("File", `${id}/${path}`);
+            res.writeHead(204).end();
+            return;
+          }
+        }
+      }
+    }
+
+    throw new FakeDssError(404, "NotFound", `Fake DSS has no route for ${method} ${req.url}`);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method ?? "GET";
+    const url = new URL(req.url ?? "/", "http://fake-dss");
+    requests.push({ method, path: `${url.pathname}${url.search}` });
+
+    if (req.headers.authorization !== `Bearer ${apiKey}`) {
+      throw new FakeDssError(401, "Unauthorized", "Invalid API key");
+    }
+
+    const prefix = "/public/api/";
+    if (!url.pathname.startsWith(prefix)) {
+      throw new FakeDssError(404, "NotFound", `Fake DSS has no route for ${method} ${req.url}`);
+    }
+    const segments = url.pathname
+      .slice(prefix.length)
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    if (segments[0] === "projects") {
+      if (segments.length === 1 && method === "GET") {
+        return sendJson(
+          res,
+          200,
+          [...projects.values()].map((p) => ({ projectKey: p.projectKey, name: p.name })),
+        );
+      }
+      return handleProject(req, res, method, segments.slice(1), url.searchParams);
+    }
+    if (segments[0] === "connections" && segments[1] === "get-names" && method === "GET") {
+      return sendJson(res, 200, options.connections ?? ["filesystem_managed"]);
+    }
+    if (segments[0] === "admin" && segments[1] === "code-envs" && method === "GET") {
+      const envs = options.codeEnvs ?? [];
+      if (segments.length === 2) return sendJson(res, 200, envs);
+      const env = envs.find((e) => e.envLang === segments[2] && e.envName === segments[3]);
+      if (env) return sendJson(res, 200, env);
+      throw notFound("Code env", segments.slice(2).join("/"));
+    }
+    throw new FakeDssError(404, "NotFound", `Fake DSS has no route for ${method} ${req.url}`);
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      if (error instanceof FakeDssError) {
+        sendJson(res, error.status, { errorType: error.errorType, message: error.message });
+        return;
+      }
+      sendJson(res, 500, {
+        errorType: "InternalError",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    apiKey,
+    projects,
+    requests,
+    addProject,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
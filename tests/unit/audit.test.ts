@@ -0,0 +1,196 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { redactSecrets } from "../../src/redact.js";
+import { createServer } from "../../src/server.js";
+import type { SessionContext } from "../../src/session.js";
+
+const MANAGED_ENV_KEYS = [
+  "DATAIKU_URL",
+  "DATAIKU_API_KEY",
+  "DATAIKU_MODE",
+  "DATAIKU_AUDIT_LOG",
+  "DATAIKU_POLICY_FILE",
+];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dir: string;
+let logPath: string;
+
+async function callTool(name: string, args: Record<string, unknown>, session?: SessionContext) {
+  const server = createServer({ session });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+async function readLog(): Promise<Array<Record<string, unknown>>> {
+  const raw = await readFile(logPath, "utf8");
+  return raw
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as Record<string, unknown>);
+}
+
+describe("audit log", () => {
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    dir = await mkdtemp(join(tmpdir(), "dataiku-audit-"));
+    logPath = join(dir, "nested", "audit.jsonl");
+    process.env.DATAIKU_URL = "https://dss.example.com";
+    process.env.DATAIKU_API_KEY = "secret";
+    process.env.DATAIKU_AUDIT_LOG = logPath;
+    delete process.env.DATAIKU_MODE;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes one redacted JSONL entry per mutating call", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (_input, init) =>
+      init?.method === "PUT"
+        ? new Response(JSON.stringify({ ok: true }), { status: 200 })
+        : new Response(JSON.stringify({ name: "orders", params: { user: "u" } }), { status: 200 }),
+    );
+
+    const result = await callTool("dataset", {
+      action: "update",
+      projectKey: "SALES",
+      datasetName: "orders",
+      data: { params: { password: "hunter2", path: "/x" } },
+    });
+    expect(result.isError).not.toBe(true);
+
+    const entries = await readLog();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      tool: "dataset",
+      action: "update",
+      projectKey: "SALES",
+      instance: "default",
+      method: "PUT",
+      path: "/public/api/projects/SALES/datasets/orders",
+      body: { name: "orders", params: { user: "u", password: "[REDACTED]", path: "/x" } },
+      status: 200,
+      outcome: "success",
+    });
+    expect(typeof entries[0]?.timestamp).toBe("string");
+    expect(typeof entries[0]?.durationMs).toBe("number");
+  });
+
+  it("records failed mutations and skips dry runs", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ message: "missing" }), {
+          status: 404,
+          statusText: "Not Found",
+        }),
+    );
+
+    await callTool("scenario", {
+      action: "delete",
+      projectKey: "SALES",
+      scenarioId: "nightly",
+      confirm: true,
+    });
+    process.env.DATAIKU_MODE = "dryrun";
+    await callTool("scenario", { action: "run", projectKey: "SALES", scenarioId: "nightly" });
+
+    const entries = await readLog();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      tool: "scenario",
+      action: "delete",
+      method: "DELETE",
+      status: 404,
+      outcome: "http_error",
+    });
+  });
+
+  it("lets the audit tool answer what changed in a project today", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ id: "run_1" }), { status: 200 }),
+    );
+    await callTool("scenario", { action: "run", projectKey: "SALES", scenarioId: "nightly" });
+    await callTool("scenario", { action: "run", projectKey: "OTHER", scenarioId: "hourly" });
+
+    const today = new Date().toISOString().slice(0, 10);
+    const result = await callTool("audit", { action: "list", projectKey: "SALES", since: today });
+
+    expect(result.isError).not.toBe(true);
+    expect(result.structured).toMatchObject({ ok: true, total: 2, filtered: 1 });
+    expect(result.text).toContain(
+      "scenario.run SALES POST /public/api/projects/SALES/scenarios/nightly/run/",
+    );
+    expect(result.text).not.toContain("OTHER");
+  });
+
+  it("shows HTTP callers only their own entries in projects the policy allows", async () => {
+    const entry = (caller: string, projectKey: string) =>
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        tool: "scenario",
+        action: "run",
+        projectKey,
+        instance: "default",
+        caller,
+        method: "POST",
+        path: `/public/api/projects/${projectKey}/scenarios/nightly/run/`,
+        status: 200,
+        outcome: "success",
+        durationMs: 5,
+      });
+    await mkdir(dirname(logPath), { recursive: true });
+    await writeFile(
+      logPath,
+      [entry("alice", "SALES"), entry("bob", "SALES"), entry("alice", "SECRET")].join("\n"),
+      "utf8",
+    );
+    const policyPath = join(dir, "policy.json");
+    await writeFile(policyPath, JSON.stringify({ projects: { deny: ["SECRET"] } }), "utf8");
+    process.env.DATAIKU_POLICY_FILE = policyPath;
+    const alice: SessionContext = {
+      id: "s1",
+      caller: "alice",
+      resolveApiKey: () => "alice-key",
+      getCache: new Map(),
+    };
+
+    const result = await callTool("audit", { action: "list", instance: "Default" }, alice);
+
+    expect(result.isError).not.toBe(true);
+    expect(result.structured).toMatchObject({ total: 1, filtered: 1 });
+    expect(result.structured?.items).toEqual([
+      expect.objectContaining({ caller: "alice", projectKey: "SALES" }),
+    ]);
+  });
+
+  it("redacts nested secret-like keys", () => {
+    expect(
+      redactSecrets({ params: { apiKey: "k", nested: [{ accessKey: "a", region: "eu" }] } }),
+    ).toEqual({
+      params: { apiKey: "[REDACTED]", nested: [{ accessKey: "[REDACTED]", region: "eu" }] },
+    });
+  });
+});
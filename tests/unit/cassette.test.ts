@@ -0,0 +1,190 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer } from "../../src/server.js";
+
+const MANAGED_ENV_KEYS = [
+  "DATAIKU_URL",
+  "DATAIKU_API_KEY",
+  "DATAIKU_MODE",
+  "DATAIKU_CASSETTE",
+  "DATAIKU_CASSETTE_MODE",
+  "DATAIKU_INSTANCE_PROD_URL",
+  "DATAIKU_INSTANCE_PROD_API_KEY",
+];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dir: string;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+function fakeDss(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = String(input);
+  if (init?.method === "PUT") {
+    return Promise.resolve(new Response(JSON.stringify({ ok: true }), { status: 200 }));
+  }
+  if (url.endsWith("/datasets/orders")) {
+    return Promise.resolve(
+      new Response(
+        JSON.stringify({ name: "orders", type: "PostgreSQL", params: { password: "hunter2" } }),
+        { status: 200, headers: { "content-type": "application/json" } },
+      ),
+    );
+  }
+  return Promise.resolve(
+    new Response(JSON.stringify([{ name: "orders", type: "PostgreSQL" }]), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    }),
+  );
+}
+
+async function runSession() {
+  const list = await callTool("dataset", { action: "list", projectKey: "SALES" });
+  const update = await callTool("dataset", {
+    action: "update",
+    projectKey: "SALES",
+    datasetName: "orders",
+    data: { description: "nightly" },
+  });
+  return { list, update };
+}
+
+describe("cassette record/replay", () => {
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    dir = await mkdtemp(join(tmpdir(), "dataiku-cassette-"));
+    process.env.DATAIKU_URL = "https://dss.internal.example.com";
+    process.env.DATAIKU_API_KEY = "super-secret-key";
+    delete process.env.DATAIKU_MODE;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records scrubbed interactions and replays them offline", async () => {
+    const cassette = join(dir, "cassettes", "dataset-update.json");
+    process.env.DATAIKU_CASSETTE = cassette;
+    process.env.DATAIKU_CASSETTE_MODE = "record";
+    vi.spyOn(globalThis, "fetch").mockImplementation(fakeDss);
+
+    const recorded = await runSession();
+    expect(recorded.update.isError).not.toBe(true);
+
+    const raw = await readFile(cassette, "utf8");
+    expect(raw).not.toContain("super-secret-key");
+    expect(raw).not.toContain("hunter2");
+    expect(raw).not.toContain("dss.internal.example.com");
+    const file = JSON.parse(raw) as {
+      interactions: Array<{ request: { method: string; path: string; body?: unknown } }>;
+    };
+    expect(file.interactions.map((i) => `${i.request.method} ${i.request.path}`)).toEqual([
+      "GET /public/api/projects/SALES/datasets/",
+      "GET /public/api/projects/SALES/datasets/orders",
+      // Re-read right before the write to detect concurrent edits.
+      "GET /public/api/projects/SALES/datasets/orders",
+      "PUT /public/api/projects/SALES/datasets/orders",
+    ]);
+
+    vi.restoreAllMocks();
+    const offlineFetch = vi
+      .spyOn(globalThis, "fetch")
+      .mockRejectedValue(new Error("network disabled"));
+    process.env.DATAIKU_CASSETTE_MODE = "replay";
+
+    const replayed = await runSession();
+    expect(replayed.list.text).toBe(recorded.list.text);
+    expect(replayed.update.text).toBe(recorded.update.text);
+    expect(offlineFetch).not.toHaveBeenCalled();
+  });
+
+  it("fails replay when method, path, or body do not match", async () => {
+    const cassette = join(dir, "mismatch.json");
+    process.env.DATAIKU_CASSETTE = cassette;
+    process.env.DATAIKU_CASSETTE_MODE = "record";
+    vi.spyOn(globalThis, "fetch").mockImplementation(fakeDss);
+    await runSession();
+
+    process.env.DATAIKU_CASSETTE_MODE = "replay";
+    const result = await callTool("dataset", {
+      action: "update",
+      projectKey: "SALES",
+      datasetName: "orders",
+      data: { description: "changed" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain(
+      "No cassette interaction recorded for PUT /public/api/projects/SALES/datasets/orders",
+    );
+  });
+
+  it("keys interactions by instance so the same path replays per instance", async () => {
+    const cassette = join(dir, "instances.json");
+    process.env.DATAIKU_CASSETTE = cassette;
+    process.env.DATAIKU_CASSETTE_MODE = "record";
+    process.env.DATAIKU_INSTANCE_PROD_URL = "https://prod.internal.example.com";
+    process.env.DATAIKU_INSTANCE_PROD_API_KEY = "prod-secret-key";
+    vi.spyOn(globalThis, "fetch").mockImplementation((input, init) =>
+      String(input).startsWith("https://prod.")
+        ? Promise.resolve(
+            new Response(JSON.stringify([{ name: "prod_orders", type: "Snowflake" }]), {
+              status: 200,
+              headers: { "content-type": "application/json" },
+            }),
+          )
+        : fakeDss(input, init),
+    );
+
+    const design = await callTool("dataset", { action: "list", projectKey: "SALES" });
+    const prod = await callTool("dataset", {
+      action: "list",
+      projectKey: "SALES",
+      instance: "prod",
+    });
+    expect(prod.text).toContain("prod_orders");
+    const file = JSON.parse(await readFile(cassette, "utf8")) as {
+      interactions: Array<{ request: { instance: string } }>;
+    };
+    expect(file.interactions.map((i) => i.request.instance)).toEqual(["default", "prod"]);
+
+    vi.restoreAllMocks();
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("network disabled"));
+    process.env.DATAIKU_CASSETTE_MODE = "replay";
+
+    const replayedProd = await callTool("dataset", {
+      action: "list",
+      projectKey: "SALES",
+      instance: "prod",
+    });
+    const replayedDesign = await callTool("dataset", { action: "list", projectKey: "SALES" });
+    expect(replayedProd.text).toBe(prod.text);
+    expect(replayedDesign.text).toBe(design.text);
+  });
+});
@@ -8,6 +8,12 @@ import {
   stream,
   upload,
 } from "../../src/client.js";
+import {
+  RequestCancelledError,
+  runWithToolRequest,
+  type ToolRequestExtra,
+} from "../../src/progress.js";
+import { describeRequestBody } from "../../src/redact.js";
 
 async function expectDataikuError(promise: Promise<unknown>): Promise<DataikuError> {
   try {
@@ -261,6 +267,45 @@ describe("GET cache", () => {
     }
   });
 
+  it("bypasses the GET cache on request and refreshes it with the fresh response", async () => {
+    const originalUrl = process.env.DATAIKU_URL;
+    const originalKey = process.env.DATAIKU_API_KEY;
+    const originalCacheEnabled = process.env.DATAIKU_ENABLE_GET_CACHE;
+    const originalCacheTtl = process.env.DATAIKU_GET_CACHE_TTL_MS;
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response(JSON.stringify({ value: 1 }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ value: 2 }), { status: 200 }));
+
+    process.env.DATAIKU_URL = "https://example.dataiku.io";
+    process.env.DATAIKU_API_KEY = "test-token";
+    process.env.DATAIKU_ENABLE_GET_CACHE = "1";
+    process.env.DATAIKU_GET_CACHE_TTL_MS = "3000";
+
+    try {
+      const cached = await get<{ value: number }>("/public/api/cache/bypass");
+      const fresh = await get<{ value: number }>("/public/api/cache/bypass", {
+        bypassCache: true,
+      });
+      const after = await get<{ value: number }>("/public/api/cache/bypass");
+
+      expect(cached).toEqual({ value: 1 });
+      expect(fresh).toEqual({ value: 2 });
+      expect(after).toEqual({ value: 2 });
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    } finally {
+      fetchSpy.mockRestore();
+      if (originalUrl) process.env.DATAIKU_URL = originalUrl;
+      else delete process.env.DATAIKU_URL;
+      if (originalKey) process.env.DATAIKU_API_KEY = originalKey;
+      else delete process.env.DATAIKU_API_KEY;
+      if (originalCacheEnabled) process.env.DATAIKU_ENABLE_GET_CACHE = originalCacheEnabled;
+      else delete process.env.DATAIKU_ENABLE_GET_CACHE;
+      if (originalCacheTtl) process.env.DATAIKU_GET_CACHE_TTL_MS = originalCacheTtl;
+      else delete process.env.DATAIKU_GET_CACHE_TTL_MS;
+    }
+  });
+
   it("invalidates GET cache after successful POST", async () => {
     const originalUrl = process.env.DATAIKU_URL;
     const originalKey = process.env.DATAIKU_API_KEY;
@@ -584,6 +629,47 @@ describe("retry behavior", () => {
   });
 });
 
+describe("cancellation", () => {
+  it("aborts an in-flight GET without retrying when the tool request is cancelled", async () => {
+    const originalUrl = process.env.DATAIKU_URL;
+    const originalKey = process.env.DATAIKU_API_KEY;
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(
+      async (_input: RequestInfo | URL, init?: RequestInit) =>
+        await new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new Error("aborted")), {
+            once: true,
+          });
+        }),
+    );
+
+    process.env.DATAIKU_URL = "https://example.dataiku.io";
+    process.env.DATAIKU_API_KEY = "test-token";
+    const controller = new AbortController();
+
+    try {
+      const pending = runWithToolRequest(
+        { signal: controller.signal } as ToolRequestExtra,
+        async () => await get("/public/api/projects/"),
+      );
+      setTimeout(() => controller.abort(), 5);
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      fetchSpy.mockRestore();
+      if (originalUrl) {
+        process.env.DATAIKU_URL = originalUrl;
+      } else {
+        delete process.env.DATAIKU_URL;
+      }
+      if (originalKey) {
+        process.env.DATAIKU_API_KEY = originalKey;
+      } else {
+        delete process.env.DATAIKU_API_KEY;
+      }
+    }
+  });
+});
+
 describe("upload", () => {
   it("uses multipart FormData without buffering file contents in test code", async () => {
     const { mkdtemp, writeFile } = await import("node:fs/promises");
@@ -624,4 +710,51 @@ describe("upload", () => {
       }
     }
   });
+
+  it("streams a multipart body with a known length when progress is requested", async () => {
+    const { mkdtemp, writeFile } = await import("node:fs/promises");
+    const { join } = await import("node:path");
+    const { tmpdir } = await import("node:os");
+
+    const originalUrl = process.env.DATAIKU_URL;
+    const originalKey = process.env.DATAIKU_API_KEY;
+    const tempDir = await mkdtemp(join(tmpdir(), "dataiku-upload-test-"));
+    const filePath = join(tempDir, "sample.txt");
+    await writeFile(filePath, "hello world", "utf8");
+
+    let sent: { init?: RequestInit; text?: string } = {};
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+      sent = { init, text: await new Response(init?.body).text() };
+      return new Response("", { status: 200, statusText: "OK" });
+    });
+
+    process.env.DATAIKU_URL = "https://example.dataiku.io";
+    process.env.DATAIKU_API_KEY = "test-token";
+
+    try {
+      await upload("/public/api/projects/PROJ/managedfolders/F/contents/file.txt", filePath, {
+        describeProgress: (bytes) => `${bytes} sent`,
+      });
+      const headers = sent.init?.headers as Record<string, string>;
+      expect(headers["Content-Type"]).toMatch(/^multipart\/form-data; boundary=/);
+      expect(Number(headers["Content-Length"])).toBe(Buffer.byteLength(sent.text ?? ""));
+      expect(sent.text).toContain('filename="sample.txt"');
+      expect(sent.text).toContain("\r\n\r\nhello world\r\n");
+      expect(describeRequestBody(sent.init?.body)).toEqual({
+        multipart: [{ field: "file", name: "sample.txt", sizeBytes: 11 }],
+      });
+    } finally {
+      fetchSpy.mockRestore();
+      if (originalUrl) {
+        process.env.DATAIKU_URL = originalUrl;
+      } else {
+        delete process.env.DATAIKU_URL;
+      }
+      if (originalKey) {
+        process.env.DATAIKU_API_KEY = originalKey;
+      } else {
+        delete process.env.DATAIKU_API_KEY;
+      }
+    }
+  });
 });
@@ -0,0 +1,238 @@
+import { describe, expect, it } from "vitest";
+import { recipeLineage, traceColumnLineage } from "../../src/tools/column-lineage.js";
+import { normalizeFlowGraph } from "../../src/tools/flow-map.js";
+
+const roles = (...refs: string[]) => ({ main: { items: refs.map((ref) => ({ ref })) } });
+
+function recipe(type: string, inputs: string[], outputs: string[]) {
+  return { type, inputs: roles(...inputs), outputs: roles(...outputs) };
+}
+
+describe("recipe column lineage", () => {
+  it("follows prepare steps through renames, formulas, deletions and filters", () => {
+    const lineage = recipeLineage({
+      name: "prep",
+      recipe: recipe("shaker", ["raw"], ["clean"]),
+      payload: JSON.stringify({
+        steps: [
+          { type: "ColumnRenamer", params: { renamings: [{ from: "cust", to: "customer" }] } },
+          {
+            type: "CreateColumnWithGREL",
+            params: { column: "total", expression: "price * qty" },
+          },
+          { type: "FilterOnValue", params: { action: "REMOVE_ROW", columns: ["status"] } },
+          {
+            metaType: "GROUP",
+            steps: [
+              { type: "ColumnsSelector", params: { keep: false, columns: ["price", "qty"] } },
+              { type: "UpperCaser", params: { column: "customer" }, disabled: true },
+            ],
+          },
+        ],
+      }),
+      schemas: new Map([["raw", ["cust", "price", "qty", "status"]]]),
+    });
+
+    expect(lineage.opaque).toBe(false);
+    expect(lineage.outputs).toEqual([
+      {
+        dataset: "clean",
+        column: "customer",
+        sources: [{ dataset: "raw", column: "cust" }],
+        transform: "renamed from cust",
+      },
+      {
+        dataset: "clean",
+        column: "status",
+        sources: [{ dataset: "raw", column: "status" }],
+        transform: "identity",
+      },
+      {
+        dataset: "clean",
+        column: "total",
+        sources: [
+          { dataset: "raw", column: "price" },
+          { dataset: "raw", column: "qty" },
+        ],
+        transform: "formula",
+      },
+    ]);
+    expect(lineage.conditions).toEqual([
+      { dataset: "raw", column: "status", role: "filter (FilterOnValue)" },
+    ]);
+  });
+
+  it("maps group keys and aggregations, join selections and window values", () => {
+    const grouped = recipeLineage({
+      name: "group",
+      recipe: recipe("grouping", ["clean"], ["by_customer"]),
+      payload: JSON.stringify({
+        keys: [{ column: "customer" }],
+        values: [{ column: "total", sum: true, avg: true }],
+        globalCount: true,
+      }),
+      schemas: new Map([
+        ["clean", ["customer", "total"]],
+        ["by_customer", ["customer", "total_sum", "total_avg", "total_median", "count"]],
+      ]),
+    });
+    expect(grouped.outputs.map((o) => [o.column, o.sources, o.transform])).toEqual([
+      ["customer", [{ dataset: "clean", column: "customer" }], "group key"],
+      ["total_sum", [{ dataset: "clean", column: "total" }], "sum"],
+      ["total_avg", [{ dataset: "clean", column: "total" }], "avg"],
+      ["total_median", [{ dataset: "clean", column: "total" }], "aggregate"],
+      ["count", [], "row count"],
+    ]);
+
+    const joined = recipeLineage({
+      name: "join",
+      recipe: recipe("join", ["orders", "customers"], ["enriched"]),
+      payload: JSON.stringify({
+        virtualInputs: [
+          { index: 0 },
+          { index: 1, computedColumns: [{ name: "tier", expr: "upper(segment)" }] },
+        ],
+        joins: [
+          {
+            on: [{ column1: { table: 0, name: "cust_id" }, column2: { table: 1, name: "id" } }],
+          },
+        ],
+        selectedColumns: [
+          { table: 0, name: "amount" },
+          { table: 1, name: "name", alias: "customer_name" },
+          { table: 1, name: "tier" },
+        ],
+      }),
+      schemas: new Map([
+        ["orders", ["cust_id", "amount"]],
+        ["customers", ["id", "name", "segment"]],
+      ]),
+    });
+    expect(joined.outputs.map((o) => [o.column, o.sources, o.transform])).toEqual([
+      ["amount", [{ dataset: "orders", column: "amount" }], "join"],
+      ["customer_name", [{ dataset: "customers", column: "name" }], "join (as customer_name)"],
+      ["tier", [{ dataset: "customers", column: "segment" }], "computed (GREL) → join"],
+    ]);
+    expect(joined.conditions.map((c) => `${c.dataset}.${c.column}:${c.role}`)).toEqual([
+      "orders.cust_id:join key",
+      "customers.id:join key",
+    ]);
+
+    const windowed = recipeLineage({
+      name: "window",
+      recipe: recipe("window", ["orders"], ["ranked"]),
+      payload: JSON.stringify({
+        windows: [
+          { partitioningColumns: ["cust_id"], orders: [{ column: "amount" }], enableRank: true },
+        ],
+        values: [{ column: "amount", lag: true }],
+      }),
+      schemas: new Map([["orders", ["cust_id", "amount"]]]),
+    });
+    expect(windowed.outputs.map((o) => `${o.column}<-${o.sources.map((s) => s.column)}`)).toEqual([
+      "cust_id<-cust_id",
+      "amount<-amount",
+      "rank<-amount",
+      "amount_lag<-amount",
+    ]);
+  });
+
+  it("marks SQL and code recipes as opaque", () => {
+    const schemas = new Map<string, string[]>();
+    expect(
+      recipeLineage({ name: "q", recipe: recipe("sql_query", ["a"], ["b"]), schemas }),
+    ).toMatchObject({ opaque: true, reason: "SQL recipe", outputs: [] });
+    expect(
+      recipeLineage({ name: "py", recipe: recipe("python", ["a"], ["b"]), schemas }).reason,
+    ).toBe("code recipe");
+    expect(
+      recipeLineage({ name: "s", recipe: recipe("shaker", ["a"], ["b"]), payload: "{", schemas })
+        .reason,
+    ).toBe("recipe payload is not valid JSON");
+  });
+});
+
+describe("traceColumnLineage", () => {
+  const recipes: Record<string, { recipe: Record<string, unknown>; payload?: string }> = {
+    prep: {
+      recipe: recipe("shaker", ["raw"], ["clean"]),
+      payload: JSON.stringify({
+        steps: [
+          { type: "ColumnRenamer", params: { renamings: [{ from: "cust", to: "customer" }] } },
+        ],
+      }),
+    },
+    group: {
+      recipe: recipe("grouping", ["clean"], ["by_customer"]),
+      payload: JSON.stringify({ keys: [{ column: "customer" }], values: [] }),
+    },
+    score: { recipe: recipe("python", ["clean"], ["scored"]), payload: 'df["customer"]' },
+  };
+  const schemas: Record<string, string[]> = {
+    raw: ["cust", "amount"],
+    clean: ["customer", "amount"],
+    by_customer: ["customer"],
+  };
+  const graph = {
+    nodes: Object.fromEntries(
+      Object.entries(recipes).map(([name, r]) => [
+        name,
+        {
+          type: "RUNNABLE_RECIPE",
+          ref: name,
+          predecessors: (r.recipe.inputs as ReturnType<typeof roles>).main.items.map((i) => i.ref),
+          successors: (r.recipe.outputs as ReturnType<typeof roles>).main.items.map((i) => i.ref),
+        },
+      ]),
+    ),
+    datasets: ["raw", "clean", "by_customer", "scored"],
+    recipes: Object.keys(recipes),
+  };
+  const map = normalizeFlowGraph(graph, "P");
+  const loaders = {
+    recipe: async (name: string) => recipes[name],
+    schema: async (dataset: string) => schemas[dataset],
+  };
+
+  it("walks upstream and downstream across recipes", async () => {
+    const lineage = await traceColumnLineage(
+      map,
+      { dataset: "clean", column: "customer" },
+      loaders,
+      10,
+    );
+
+    expect(lineage.upstream).toEqual([
+      {
+        from: { dataset: "raw", column: "cust" },
+        to: { dataset: "clean", column: "customer" },
+        recipe: "prep",
+        transform: "renamed from cust",
+        depth: 1,
+      },
+    ]);
+    expect(lineage.origins).toEqual([{ dataset: "raw", column: "cust" }]);
+    expect(lineage.downstream.map((e) => `${e.recipe}:${e.to.dataset}.${e.to.column}`)).toEqual([
+      "group:by_customer.customer",
+    ]);
+    expect(lineage.opaque).toEqual([
+      {
+        recipe: "score",
+        type: "python",
+        reason: "code recipe",
+        direction: "downstream",
+        at: { dataset: "clean", column: "customer" },
+        mentionsColumn: true,
+      },
+    ]);
+    expect(lineage.truncated).toBe(false);
+  });
+
+  it("stops at maxDepth", async () => {
+    const lineage = await traceColumnLineage(map, { dataset: "raw", column: "cust" }, loaders, 1);
+    expect(lineage.downstream.map((e) => `${e.to.dataset}.${e.to.column}`)).toEqual([
+      "clean.customer",
+    ]);
+    expect(lineage.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DatasetProfiler, formatProfileLine, HyperLogLog } from "../../src/tools/column-profile.js";
+
+const SCHEMA = [
+  { name: "id", type: "int" },
+  { name: "city", type: "string" },
+  { name: "amount", type: "double" },
+];
+
+describe("column profiling", () => {
+  it("estimates distinct counts within a few percent", () => {
+    const small = new HyperLogLog();
+    for (const value of ["a", "b", "c", "a", "b"]) small.add(value);
+    expect(small.estimate()).toBe(3);
+
+    const large = new HyperLogLog();
+    for (let i = 0; i < 50_000; i++) large.add(`user-${i % 20_000}`);
+    expect(Math.abs(large.estimate() - 20_000) / 20_000).toBeLessThan(0.05);
+  });
+
+  it("computes nulls, numeric moments, top values, lengths and type failures in one pass", () => {
+    const profiler = new DatasetProfiler(SCHEMA, 2);
+    for (const row of [
+      ["id", "city", "amount"],
+      ["1", "Paris", "10"],
+      ["2", "Lyon", ""],
+      ["x", "Paris", "20"],
+      ["4", "", "30"],
+    ]) {
+      profiler.add(row);
+    }
+    const [id, city, amount] = profiler.result();
+
+    expect(profiler.rows).toBe(4);
+    expect(id).toMatchObject({ invalid: 1, invalidFraction: 0.25, min: 1, max: 4 });
+    expect(city).toMatchObject({
+      nulls: 1,
+      distinctEstimate: 2,
+      min: "Lyon",
+      max: "Paris",
+      topValues: [
+        { value: "Paris", count: 2 },
+        { value: "Lyon", count: 1 },
+      ],
+      length: { min: 4, max: 5, buckets: { "1-8": 3 } },
+    });
+    expect(city.mean).toBeUndefined();
+    expect(amount).toMatchObject({ nulls: 1, mean: 20, stddev: 10, invalid: 0 });
+
+    expect(formatProfileLine(city)).toBe(
+      'city (string): 25% null, ~2 distinct, range "Lyon" … "Paris", top Paris×2, Lyon×1, len 4-5 (mean 4.667)',
+    );
+    expect(formatProfileLine(id)).toContain("25% not int, min 1, max 4");
+  });
+});
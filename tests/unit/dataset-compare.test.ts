@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { compareDatasets } from "../../src/tools/dataset-compare.js";
+
+function body(chunks: Uint8Array[]): () => Promise<ReadableStream<Uint8Array>> {
+  return async () =>
+    new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+}
+
+function tsv(header: string[], rows: string[][]): Uint8Array {
+  return new TextEncoder().encode([header, ...rows].map((row) => `${row.join("\t")}\n`).join(""));
+}
+
+describe("compareDatasets", () => {
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = tsv(["id", "city"], [["1", "Zürich"]]);
+    const split = bytes.indexOf(0xc3) + 1;
+    const comparison = await compareDatasets(
+      body([bytes.slice(0, split), bytes.slice(split)]),
+      body([tsv(["id", "city"], [["1", "Zürich"]])]),
+      { key: ["id"], samples: 5 },
+    );
+
+    expect(comparison).toMatchObject({ changed: 0, unchanged: 1, identical: true });
+  });
+
+  it("splits large inputs into buckets sized from the row count", async () => {
+    const count = 120_000;
+    const left: string[][] = [];
+    const right: string[][] = [];
+    for (let i = 0; i < count; i++) {
+      left.push([String(i), "a"]);
+      if (i !== 7) right.push([String(i), i === 99_999 ? "b" : "a"]);
+    }
+    right.push(["new", "a"]);
+    const messages: string[] = [];
+
+    const comparison = await compareDatasets(
+      body([tsv(["id", "v"], left)]),
+      body([tsv(["id", "v"], right)]),
+      { key: ["id"], samples: 5 },
+      async (message) => {
+        messages.push(message);
+      },
+    );
+
+    expect(comparison).toMatchObject({
+      rows: { left: count, right: count },
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: count - 2,
+      samples: {
+        added: [{ id: "new" }],
+        removed: [{ id: "7" }],
+        changed: [{ key: { id: "99999" }, changes: { v: { left: "a", right: "b" } } }],
+      },
+    });
+    expect(messages).toContain("Comparing bucket 3/3");
+  });
+});
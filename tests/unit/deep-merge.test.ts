@@ -54,4 +54,34 @@ describe("deepMerge", () => {
 			},
 		});
 	});
+
+	it("merges keyed arrays item by item when arrayKeys is set", () => {
+		const base = {
+			steps: [
+				{ id: "s1", type: "build", params: { builds: ["a"] } },
+				{ id: "s2", type: "sql" },
+			],
+			columns: [{ name: "id", type: "bigint" }],
+		};
+		const patch = {
+			steps: [
+				{ id: "s2", $delete: true },
+				{ id: "s1", params: { jobType: "RECURSIVE" } },
+				{ id: "s3", type: "python" },
+			],
+			columns: [{ name: "id", comment: "key" }],
+		};
+
+		expect(deepMerge(base, patch, { arrayKeys: ["id", "name"] })).toEqual({
+			steps: [
+				{ id: "s1", type: "build", params: { builds: ["a"], jobType: "RECURSIVE" } },
+				{ id: "s3", type: "python" },
+			],
+			columns: [{ name: "id", type: "bigint", comment: "key" }],
+		});
+		// Arrays without a shared key are still replaced.
+		expect(
+			deepMerge({ tags: ["a"] }, { tags: ["b"] }, { arrayKeys: ["id"] }),
+		).toEqual({ tags: ["b"] });
+	});
 });
@@ -0,0 +1,244 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ElicitRequestSchema, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { ActionAccessRule } from "../../src/safety.js";
+import { createServer } from "../../src/server.js";
+import { registerTool } from "../../src/tools/register-tool.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+
+async function connectClient(elicit?: (message: string) => ElicitResult) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client(
+    { name: "test-client", version: "0.0.1" },
+    elicit ? { capabilities: { elicitation: { form: {} } } } : undefined,
+  );
+  if (elicit) {
+    client.setRequestHandler(ElicitRequestSchema, async (request) =>
+      elicit(request.params.message),
+    );
+  }
+  await client.connect(clientTransport);
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
+
+async function callTool(
+  args: Record<string, unknown>,
+  name = "dataset",
+  elicit?: (message: string) => ElicitResult,
+) {
+  const { client, close } = await connectClient(elicit);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await close();
+  }
+}
+
+describe("tool annotations and destructive confirmation", () => {
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = "https://dss.example.com";
+    process.env.DATAIKU_API_KEY = "secret";
+    delete process.env.DATAIKU_MODE;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("annotates every tool from its action access classes", async () => {
+    const { client, close } = await connectClient();
+    try {
+      const { tools } = await client.listTools();
+      const byName = new Map(tools.map((tool) => [tool.name, tool.annotations]));
+
+      for (const tool of tools) {
+        expect(tool.annotations, tool.name).toBeDefined();
+      }
+      expect(byName.get("project")).toMatchObject({
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+      });
+      expect(byName.get("dataset")).toMatchObject({
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+      });
+      expect(byName.get("variable")).toMatchObject({
+        readOnlyHint: false,
+        destructiveHint: false,
+      });
+    } finally {
+      await close();
+    }
+  });
+
+  it("derives annotations from the classes computed rules declare", async () => {
+    const annotate = async (rule: ActionAccessRule) => {
+      const server = new McpServer({ name: "test", version: "0.0.1" });
+      registerTool(
+        server,
+        "sample",
+        {
+          description: "sample",
+          inputSchema: z.object({ action: z.literal("run"), flag: z.boolean().optional() }),
+          actions: { run: rule },
+        },
+        async () => ({ content: [] }),
+      );
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const client = new Client({ name: "test-client", version: "0.0.1" });
+      await client.connect(clientTransport);
+      try {
+        return (await client.listTools()).tools[0]?.annotations;
+      } finally {
+        await client.close();
+        await server.close();
+      }
+    };
+    const resolve = (args: Record<string, unknown>) => (args.flag ? "write" : "read") as const;
+
+    expect(await annotate({ returns: ["read", "write"], resolve })).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: false,
+    });
+    expect(await annotate({ returns: ["read"], resolve: () => "read" })).toMatchObject({
+      readOnlyHint: true,
+      destructiveHint: false,
+    });
+    expect(
+      await annotate({ returns: ["write", "destructive"], resolve: () => "write" }),
+    ).toMatchObject({ destructiveHint: true });
+  });
+
+  it("requires confirm: true when the client cannot elicit", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const result = await callTool({ action: "delete", projectKey: "PROJ", datasetName: "orders" });
+
+    expect(result.isError).toBe(true);
+    expect(result.structured).toMatchObject({
+      reason: "confirmation_required",
+      tool: "dataset",
+      action: "delete",
+      target: "projectKey=PROJ, datasetName=orders",
+    });
+    expect(result.text).toContain("confirm: true");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("proceeds with an explicit confirm flag", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(null, { status: 204, statusText: "No Content" }));
+
+    const result = await callTool({
+      action: "delete",
+      projectKey: "PROJ",
+      datasetName: "orders",
+      confirm: true,
+    });
+
+    expect(result.isError).not.toBe(true);
+    expect(fetchSpy.mock.calls[0]?.[1]?.method).toBe("DELETE");
+  });
+
+  it("asks the user through elicitation and shows the affected object", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(null, { status: 204, statusText: "No Content" }));
+    const messages: string[] = [];
+
+    const accepted = await callTool(
+      { action: "delete_file", projectKey: "PROJ", folderId: "f1", path: "/a.csv" },
+      "managed_folder",
+      (message) => {
+        messages.push(message);
+        return { action: "accept", content: { confirm: true } };
+      },
+    );
+    expect(accepted.isError).not.toBe(true);
+    expect(messages[0]).toContain("managed_folder.delete_file");
+    expect(messages[0]).toContain("folderId=f1, path=/a.csv");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    const declined = await callTool(
+      { action: "abort", projectKey: "PROJ", jobId: "j1" },
+      "job",
+      () => ({ action: "decline" }),
+    );
+    expect(declined.structured).toMatchObject({ reason: "confirmation_declined" });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("still asks an elicitation-capable client when confirm: true is passed", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(null, { status: 204, statusText: "No Content" }));
+    const messages: string[] = [];
+
+    const result = await callTool(
+      { action: "delete", projectKey: "PROJ", datasetName: "orders", confirm: true },
+      "dataset",
+      (message) => {
+        messages.push(message);
+        return { action: "decline" };
+      },
+    );
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain("dataset.delete");
+    expect(result.structured).toMatchObject({ reason: "confirmation_declined" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("treats forced rebuilds as destructive but plain builds as writes", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(JSON.stringify({ id: "job_1" }), { status: 200 }));
+
+    const forced = await callTool(
+      {
+        action: "build",
+        projectKey: "PROJ",
+        datasetName: "orders",
+        buildMode: "RECURSIVE_FORCED_BUILD",
+      },
+      "job",
+    );
+    expect(forced.structured).toMatchObject({ reason: "confirmation_required" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    const plain = await callTool(
+      { action: "build", projectKey: "PROJ", datasetName: "orders" },
+      "job",
+    );
+    expect(plain.isError).not.toBe(true);
+    expect(plain.text).toContain("Job started: job_1");
+  });
+});
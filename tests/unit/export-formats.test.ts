@@ -0,0 +1,196 @@
+import { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { gunzipSync } from "node:zlib";
+import { tableFromIPC } from "apache-arrow";
+import { parquetReadObjects } from "hyparquet";
+import { describe, expect, it } from "vitest";
+import { ArrowEncoder } from "../../src/tools/arrow-writer.js";
+import {
+  type ExportStats,
+  JsonLinesEncoder,
+  parseCell,
+  typedColumns,
+} from "../../src/tools/export-formats.js";
+import { decodeParquetFooter } from "../../src/tools/parquet-schema.js";
+import { ParquetEncoder } from "../../src/tools/parquet-writer.js";
+
+const SCHEMA = [
+  { name: "id", type: "bigint" },
+  { name: "qty", type: "smallint" },
+  { name: "price", type: "double" },
+  { name: "paid", type: "boolean" },
+  { name: "at", type: "date" },
+  { name: "day", type: "dateonly" },
+  { name: "tags", type: "array" },
+];
+
+const ROWS = [
+  SCHEMA.map((c) => c.name),
+  ["1", "3", "9.5", "true", "2024-01-01T10:00:00.000Z", "2024-01-01", '["a"]'],
+  ["2", "70000", "", "false", "2024-01-02T00:00:00.000Z", "2024-01-02", ""],
+];
+
+async function encode(
+  create: (stats: ExportStats) => NodeJS.ReadWriteStream,
+): Promise<{ output: Buffer; stats: ExportStats }> {
+  const stats: ExportStats = { rows: 0, invalidValues: {} };
+  const chunks: Buffer[] = [];
+  await pipeline(
+    Readable.from(ROWS),
+    create(stats),
+    new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(Buffer.from(chunk));
+        callback();
+      },
+    }),
+  );
+  return { output: Buffer.concat(chunks), stats };
+}
+
+describe("typed export formats", () => {
+  it("maps DSS types and parses cells, rejecting values outside the type", () => {
+    expect(typedColumns(["qty", "extra"], SCHEMA).map((c) => c.kind)).toEqual(["int16", "string"]);
+    expect(parseCell("int16", "70000")).toBeUndefined();
+    expect(parseCell("int64", "9007199254740993")).toBe(9007199254740993n);
+    expect(parseCell("boolean", "TRUE")).toBe(true);
+    expect(parseCell("double", "")).toBeNull();
+    expect(parseCell("timestamp", "2024-01-01T10:00:00.000Z")).toBe(Date.UTC(2024, 0, 1, 10));
+    expect(parseCell("localTimestamp", "2024-01-01T10:00:00")).toBe(Date.UTC(2024, 0, 1, 10));
+    expect(parseCell("date", "2024-01-02")).toBe(19724);
+  });
+
+  it("writes typed JSON lines and counts values that do not fit", async () => {
+    const { output, stats } = await encode((s) => new JsonLinesEncoder(SCHEMA, s, 1));
+
+    expect(
+      output
+        .toString()
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line)),
+    ).toEqual([
+      {
+        id: 1,
+        qty: 3,
+        price: 9.5,
+        paid: true,
+        at: "2024-01-01T10:00:00.000Z",
+        day: "2024-01-01",
+        tags: ["a"],
+      },
+      {
+        id: 2,
+        qty: null,
+        price: null,
+        paid: false,
+        at: "2024-01-02T00:00:00.000Z",
+        day: "2024-01-02",
+        tags: null,
+      },
+    ]);
+    expect(stats).toEqual({ rows: 2, invalidValues: { qty: 1 } });
+  });
+
+  it("writes Parquet that a reader decodes back to the typed rows", async () => {
+    const { output } = await encode((s) => new ParquetEncoder(SCHEMA, s, 1));
+
+    expect(output.subarray(0, 4).toString()).toBe("PAR1");
+    expect(output.subarray(-4).toString()).toBe("PAR1");
+    const footerLength = output.readUInt32LE(output.length - 8);
+    const footer = decodeParquetFooter(output.subarray(-8 - footerLength, -8));
+    expect(footer).toEqual({
+      rowCount: 2,
+      columns: [
+        { name: "id", type: "bigint" },
+        { name: "qty", type: "smallint" },
+        { name: "price", type: "double" },
+        { name: "paid", type: "boolean" },
+        { name: "at", type: "date" },
+        { name: "day", type: "date" },
+        { name: "tags", type: "string" },
+      ],
+    });
+
+    const rows = await parquetReadObjects({
+      file: output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength),
+      compressors: { GZIP: (input) => new Uint8Array(gunzipSync(input)) },
+    });
+    expect(rows).toEqual([
+      {
+        id: 1n,
+        qty: 3,
+        price: 9.5,
+        paid: true,
+        at: new Date("2024-01-01T10:00:00.000Z"),
+        day: new Date("2024-01-01T00:00:00.000Z"),
+        tags: '["a"]',
+      },
+      {
+        id: 2n,
+        qty: null,
+        price: null,
+        paid: false,
+        at: new Date("2024-01-02T00:00:00.000Z"),
+        day: new Date("2024-01-02T00:00:00.000Z"),
+        tags: null,
+      },
+    ]);
+  });
+
+  it("writes an Arrow IPC file, one record batch per batch of rows, that Arrow reads back", async () => {
+    const { output } = await encode((s) => new ArrowEncoder(SCHEMA, s, 1));
+
+    expect(output.subarray(0, 6).toString()).toBe("ARROW1");
+    expect(output.subarray(-6).toString()).toBe("ARROW1");
+    // Schema message, two record batches, then the end-of-stream marker.
+    let offset = 8;
+    const bodies: number[] = [];
+    for (;;) {
+      expect(output.readUInt32LE(offset)).toBe(0xffffffff);
+      const metadataLength = output.readInt32LE(offset + 4);
+      if (metadataLength === 0) break;
+      const metadata = output.subarray(offset + 8, offset + 8 + metadataLength);
+      const root = metadata.readUInt32LE(0);
+      const vtable = root - metadata.readInt32LE(root);
+      const bodyLengthAt = metadata.readUInt16LE(vtable + 4 + 3 * 2);
+      const bodyLength = bodyLengthAt ? Number(metadata.readBigInt64LE(root + bodyLengthAt)) : 0;
+      bodies.push(bodyLength);
+      offset += 8 + metadataLength + bodyLength;
+    }
+    expect(bodies).toHaveLength(3);
+    expect(bodies[0]).toBe(0);
+    expect(bodies.slice(1).every((length) => length > 0 && length % 8 === 0)).toBe(true);
+
+    const table = tableFromIPC(output);
+    expect(table.schema.fields.map((field) => `${field.name}: ${field.type}`)).toEqual([
+      "id: Int64",
+      "qty: Int16",
+      "price: Float64",
+      "paid: Bool",
+      "at: Timestamp<MILLISECOND, UTC>",
+      "day: Date32<DAY>",
+      "tags: Utf8",
+    ]);
+    expect(table.toArray().map((row) => row.toJSON())).toEqual([
+      {
+        id: 1n,
+        qty: 3,
+        price: 9.5,
+        paid: true,
+        at: Date.UTC(2024, 0, 1, 10),
+        day: Date.UTC(2024, 0, 1),
+        tags: '["a"]',
+      },
+      {
+        id: 2n,
+        qty: null,
+        price: null,
+        paid: false,
+        at: Date.UTC(2024, 0, 2),
+        day: Date.UTC(2024, 0, 2),
+        tags: null,
+      },
+    ]);
+  });
+});
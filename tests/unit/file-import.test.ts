@@ -0,0 +1,171 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  checkDeclaredSchema,
+  inferColumns,
+  inspectLocalFile,
+  sniffSeparator,
+  valueMatchesType,
+} from "../../src/tools/file-import.js";
+
+// Minimal Thrift compact-protocol writer for building Parquet footers.
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  let n = value;
+  while (n > 0x7f) {
+    bytes.push((n & 0x7f) | 0x80);
+    n >>>= 7;
+  }
+  bytes.push(n);
+  return bytes;
+}
+
+const zigzag = (n: number) => varint((n << 1) ^ (n >> 31));
+const binary = (text: string) => [...varint(Buffer.byteLength(text)), ...Buffer.from(text)];
+
+type Field = [id: number, type: number, payload: number[]];
+
+function struct(fields: Field[]): number[] {
+  const bytes: number[] = [];
+  let last = 0;
+  for (const [id, type, payload] of fields) {
+    bytes.push(((id - last) << 4) | type, ...payload);
+    last = id;
+  }
+  bytes.push(0);
+  return bytes;
+}
+
+function parquetFile(): Buffer {
+  const elements = [
+    struct([
+      [4, 8, binary("schema")],
+      [5, 5, zigzag(3)],
+    ]),
+    struct([
+      [1, 5, zigzag(1)],
+      [3, 5, zigzag(1)],
+      [4, 8, binary("qty")],
+      [
+        10,
+        12,
+        struct([
+          [
+            10,
+            12,
+            struct([
+              [1, 3, [16]],
+              [2, 1, []],
+            ]),
+          ],
+        ]),
+      ],
+    ]),
+    struct([
+      [1, 5, zigzag(6)],
+      [4, 8, binary("label")],
+      [6, 5, zigzag(0)],
+    ]),
+    struct([
+      [1, 5, zigzag(2)],
+      [4, 8, binary("created")],
+      [6, 5, zigzag(9)],
+    ]),
+  ];
+  const footer = Buffer.from(
+    struct([
+      [1, 5, zigzag(1)],
+      [2, 9, [(elements.length << 4) | 12, ...elements.flat()]],
+      [3, 6, zigzag(42)],
+    ]),
+  );
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(footer.length);
+  return Buffer.concat([Buffer.from("PAR1"), footer, length, Buffer.from("PAR1")]);
+}
+
+describe("file import inspection", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "dataiku-import-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("sniffs separators outside quotes and infers merged column types", () => {
+    expect(sniffSeparator('a|"b,c,d"|e\n1,2,3')).toBe("|");
+    expect(sniffSeparator("single\n")).toBe(",");
+    expect(
+      inferColumns(
+        ["n", "mixed", "flag", "when", "empty"],
+        [
+          { n: "1", mixed: "1", flag: "true", when: "2024-01-01T10:00:00Z", empty: "" },
+          { n: "2.5", mixed: "x", flag: "FALSE", when: "2024-02-01", empty: "" },
+        ],
+      ),
+    ).toEqual([
+      { name: "n", type: "double" },
+      { name: "mixed", type: "string" },
+      { name: "flag", type: "boolean" },
+      { name: "when", type: "date" },
+      { name: "empty", type: "string" },
+    ]);
+  });
+
+  it("checks values against declared types and integer ranges", () => {
+    expect(valueMatchesType("127", "tinyint")).toBe(true);
+    expect(valueMatchesType("128", "tinyint")).toBe(false);
+    expect(valueMatchesType(1.5, "int")).toBe(false);
+    expect(valueMatchesType("", "int")).toBe(true);
+    expect(valueMatchesType("[1,2]", "array")).toBe(true);
+    expect(valueMatchesType("2024-13-45", "date")).toBe(false);
+  });
+
+  it("requires delimited headers to match the declared column order", async () => {
+    const localPath = join(dir, "data.tsv");
+    await writeFile(localPath, "b\ta\n1\t2\n");
+    const inspection = await inspectLocalFile(localPath);
+
+    expect(inspection).toMatchObject({ format: "tsv", separator: "\t" });
+    expect(
+      checkDeclaredSchema(inspection, [
+        { name: "a", type: "int" },
+        { name: "b", type: "int" },
+      ]),
+    ).toEqual([
+      'Column 1 is "b" in the file but declared as "a".',
+      'Column 2 is "a" in the file but declared as "b".',
+    ]);
+  });
+
+  it("reads Parquet columns and row count from the footer", async () => {
+    const localPath = join(dir, "data.bin");
+    await writeFile(localPath, parquetFile());
+    const inspection = await inspectLocalFile(localPath);
+
+    expect(inspection).toMatchObject({
+      format: "parquet",
+      rowCount: 42,
+      columns: [
+        { name: "qty", type: "smallint" },
+        { name: "label", type: "string" },
+        { name: "created", type: "date" },
+      ],
+    });
+    expect(
+      checkDeclaredSchema(inspection, [
+        { name: "qty", type: "bigint" },
+        { name: "label", type: "int" },
+        { name: "missing", type: "string" },
+      ]),
+    ).toEqual([
+      'Declared column "missing" is not in the file.',
+      'Column "label" is string in the file but declared int.',
+    ]);
+  });
+});
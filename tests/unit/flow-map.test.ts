@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { normalizeFlowGraph } from "../../src/tools/flow-map.js";
+import { extractSubgraph, normalizeFlowGraph } from "../../src/tools/flow-map.js";
 
 describe("normalizeFlowGraph", () => {
 	it("builds connectivity and extracts recipe subtype", () => {
@@ -339,3 +339,69 @@ describe("normalizeFlowGraph", () => {
 		expect(map.leaves).toEqual(["ds3"]);
 	});
 });
+
+describe("extractSubgraph", () => {
+	const map = normalizeFlowGraph(
+		{
+			nodes: {
+				prep: {
+					type: "RUNNABLE_RECIPE",
+					ref: "prep",
+					predecessors: ["raw"],
+					successors: ["clean"],
+				},
+				join: {
+					type: "RUNNABLE_RECIPE",
+					ref: "join",
+					predecessors: ["clean", "customers"],
+					successors: ["enriched"],
+				},
+				export: {
+					type: "RUNNABLE_RECIPE",
+					ref: "export",
+					predecessors: ["enriched"],
+					successors: ["reports"],
+				},
+			},
+			datasets: ["raw", "clean", "customers", "enriched"],
+			recipes: ["prep", "join", "export"],
+			folders: ["reports"],
+		},
+		"PROJ",
+	);
+
+	it("splits downstream nodes into recipes to run and datasets to rebuild", () => {
+		const subgraph = extractSubgraph(map, "clean", "downstream");
+
+		expect(subgraph.recipes).toEqual(["join", "export"]);
+		expect(subgraph.datasets).toEqual(["enriched"]);
+		expect(subgraph.folders).toEqual(["reports"]);
+		expect(subgraph.inputs).toEqual(["clean"]);
+		expect(subgraph.nodes.map((node) => `${node.id}@${node.depth}`)).toEqual([
+			"clean@0",
+			"enriched@1",
+			"join@1",
+			"export@2",
+			"reports@2",
+		]);
+		expect(subgraph.truncated).toBe(false);
+	});
+
+	it("walks upstream to the recipes that build a dataset, up to maxDepth", () => {
+		const full = extractSubgraph(map, "enriched", "upstream");
+		expect(full.recipes).toEqual(["join", "prep"]);
+		expect(full.datasets).toEqual(["enriched", "clean"]);
+		expect(full.inputs).toEqual(["customers", "raw"]);
+
+		const shallow = extractSubgraph(map, "enriched", "upstream", 1);
+		expect(shallow.recipes).toEqual(["join"]);
+		expect(shallow.datasets).toEqual(["enriched"]);
+		expect(shallow.inputs).toEqual(["clean", "customers"]);
+		expect(shallow.truncated).toBe(true);
+		expect(shallow.edges).toEqual([
+			{ from: "clean", to: "join", relation: "reads" },
+			{ from: "customers", to: "join", relation: "reads" },
+			{ from: "join", to: "enriched", relation: "writes" },
+		]);
+	});
+});
@@ -0,0 +1,210 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { loadHttpCallers, startHttpServer } from "../../src/http.js";
+import { resolveLocalPath, runWithSession, type SessionContext } from "../../src/session.js";
+
+const MANAGED_ENV_KEYS = [
+  "DATAIKU_URL",
+  "DATAIKU_API_KEY",
+  "DATAIKU_HTTP_TOKENS",
+  "DATAIKU_ENABLE_GET_CACHE",
+  "DATAIKU_GET_CACHE_TTL_MS",
+  "DATAIKU_HTTP_FILE_ROOT",
+];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dss: Server;
+let mcp: { server: Server; close: () => Promise<void> };
+let mcpUrl: string;
+const dssAuthHeaders: string[] = [];
+
+function baseUrl(server: Server): string {
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+}
+
+async function connect(token: string, legacy = false): Promise<Client> {
+  const requestInit = { headers: { Authorization: `Bearer ${token}` } };
+  const transport = legacy
+    ? new SSEClientTransport(new URL(`${mcpUrl}/sse`), {
+        requestInit,
+        eventSourceInit: {
+          fetch: (url, init) =>
+            fetch(url, {
+              ...init,
+              headers: { ...(init?.headers ?? {}), Authorization: `Bearer ${token}` },
+            }),
+        },
+      })
+    : new StreamableHTTPClientTransport(new URL(`${mcpUrl}/mcp`), { requestInit });
+  const client = new Client({ name: "http-test", version: "0.0.1" });
+  await client.connect(transport);
+  return client;
+}
+
+function listProjects(client: Client) {
+  return client.callTool({ name: "project", arguments: { action: "list" } });
+}
+
+describe("HTTP transport", () => {
+  beforeAll(async () => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    dss = createServer((req, res) => {
+      dssAuthHeaders.push(req.headers.authorization ?? "");
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify([{ projectKey: "ALPHA", name: "Alpha" }]));
+    });
+    await new Promise<void>((resolve) => dss.listen(0, "127.0.0.1", resolve));
+
+    process.env.DATAIKU_URL = baseUrl(dss);
+    delete process.env.DATAIKU_API_KEY;
+    process.env.DATAIKU_ENABLE_GET_CACHE = "1";
+    process.env.DATAIKU_GET_CACHE_TTL_MS = "3000";
+    process.env.DATAIKU_HTTP_TOKENS = JSON.stringify({
+      "alice-token": { name: "alice", apiKey: "alice-dss-key" },
+      "bob-token": "bob-dss-key",
+    });
+
+    mcp = await startHttpServer({ host: "127.0.0.1", port: 0 });
+    mcpUrl = baseUrl(mcp.server);
+  });
+
+  afterAll(async () => {
+    await mcp?.close();
+    await new Promise<void>((resolve) => dss.close(() => resolve()));
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("rejects requests without a known bearer token", async () => {
+    const missing = await fetch(`${mcpUrl}/mcp`, { method: "POST", body: "{}" });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+
+    const wrong = await fetch(`${mcpUrl}/mcp`, {
+      method: "POST",
+      headers: { Authorization: "Bearer nope" },
+      body: "{}",
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("runs each session with its caller's DSS key and an isolated GET cache", async () => {
+    const alice = await connect("alice-token");
+    const bob = await connect("bob-token");
+    try {
+      dssAuthHeaders.length = 0;
+      const first = await listProjects(alice);
+      await listProjects(alice);
+      const second = await listProjects(bob);
+
+      expect(first.isError).not.toBe(true);
+      expect(second.isError).not.toBe(true);
+      expect(dssAuthHeaders).toEqual(["Bearer alice-dss-key", "Bearer bob-dss-key"]);
+    } finally {
+      await alice.close();
+      await bob.close();
+    }
+  });
+
+  it("serves the legacy SSE endpoint with the same auth mapping", async () => {
+    const bob = await connect("bob-token", true);
+    try {
+      dssAuthHeaders.length = 0;
+      const result = await listProjects(bob);
+      expect(result.isError).not.toBe(true);
+      expect(dssAuthHeaders).toEqual(["Bearer bob-dss-key"]);
+    } finally {
+      await bob.close();
+    }
+  });
+
+  it("refuses to reuse a session from another caller", async () => {
+    const alice = await connect("alice-token");
+    try {
+      const sessionId = (alice.transport as StreamableHTTPClientTransport).sessionId;
+      const res = await fetch(`${mcpUrl}/mcp`, {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer bob-token",
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          "mcp-session-id": sessionId ?? "",
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 9, method: "tools/list" }),
+      });
+      expect(res.status).toBe(403);
+    } finally {
+      await alice.close();
+    }
+  });
+
+  it("refuses local file paths over HTTP unless they stay inside DATAIKU_HTTP_FILE_ROOT", async () => {
+    const alice = await connect("alice-token");
+    const importFile = (localPath: string) =>
+      alice.callTool({
+        name: "dataset",
+        arguments: { action: "import", projectKey: "ALPHA", datasetName: "stolen", localPath },
+      });
+    try {
+      delete process.env.DATAIKU_HTTP_FILE_ROOT;
+      const disabled = await importFile("/etc/hosts");
+      expect(disabled.isError).toBe(true);
+      expect(disabled.structuredContent).toMatchObject({ reason: "local_path_denied" });
+
+      const root = join(tmpdir(), "dataiku-mcp-files");
+      process.env.DATAIKU_HTTP_FILE_ROOT = root;
+      const escaped = await importFile("../../etc/hosts");
+      expect(escaped.structuredContent).toMatchObject({ reason: "local_path_denied" });
+      expect((escaped.content as Array<{ text: string }>)[0].text).toContain(
+        "outside DATAIKU_HTTP_FILE_ROOT",
+      );
+
+      const session: SessionContext = {
+        id: "s1",
+        caller: "alice",
+        resolveApiKey: () => undefined,
+        getCache: new Map(),
+      };
+      await runWithSession(session, async () => {
+        expect(resolveLocalPath("exports/a.csv")).toBe(join(root, "exports", "a.csv"));
+        expect(resolveLocalPath(undefined, "recipe.json")).toBe(join(root, "recipe.json"));
+        expect(() => resolveLocalPath("/etc/passwd")).toThrow("outside DATAIKU_HTTP_FILE_ROOT");
+      });
+      expect(resolveLocalPath("/etc/passwd")).toBe("/etc/passwd");
+    } finally {
+      await alice.close();
+    }
+  });
+
+  it("closes the session's server when a Streamable HTTP session ends", async () => {
+    const closeSpy = vi.spyOn(McpServer.prototype, "close");
+    const alice = await connect("alice-token");
+    try {
+      await (alice.transport as StreamableHTTPClientTransport).terminateSession();
+      await vi.waitFor(() => expect(closeSpy).toHaveBeenCalledTimes(1));
+    } finally {
+      await alice.close();
+      closeSpy.mockRestore();
+    }
+  });
+
+  it("validates token mappings", () => {
+    const previous = process.env.DATAIKU_HTTP_TOKENS;
+    process.env.DATAIKU_HTTP_TOKENS = JSON.stringify({ token: { name: "nobody" } });
+    try {
+      expect(() => loadHttpCallers()).toThrow("has no apiKey or apiKeys configured");
+    } finally {
+      process.env.DATAIKU_HTTP_TOKENS = previous;
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { DataikuError, get, getProjectKey } from "../../src/client.js";
+import { resolveInstance, runWithInstance } from "../../src/instances.js";
+import { registerTool } from "../../src/tools/register-tool.js";
+
+const MANAGED_ENV_KEYS = [
+  "DATAIKU_URL",
+  "DATAIKU_API_KEY",
+  "DATAIKU_PROJECT_KEY",
+  "DATAIKU_INSTANCES_FILE",
+  "DATAIKU_DEFAULT_INSTANCE",
+  "DATAIKU_INSTANCE_DESIGN_URL",
+  "DATAIKU_INSTANCE_DESIGN_API_KEY",
+  "DATAIKU_INSTANCE_PROD_URL",
+  "DATAIKU_INSTANCE_PROD_API_KEY",
+  "DATAIKU_INSTANCE_PROD_PROJECT_KEY",
+  "DATAIKU_ENABLE_GET_CACHE",
+  "DATAIKU_GET_CACHE_TTL_MS",
+  "TEST_AUTOMATION_KEY",
+];
+
+let savedEnv: Record<string, string | undefined> = {};
+
+function jsonResponse(value: unknown, status = 200): Response {
+  return new Response(JSON.stringify(value), { status, statusText: status === 200 ? "OK" : "Err" });
+}
+
+describe("instance profiles", () => {
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    for (const key of MANAGED_ENV_KEYS) delete process.env[key];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("keeps DATAIKU_URL/DATAIKU_API_KEY as the default instance", () => {
+    process.env.DATAIKU_URL = "https://dss.example.com/";
+    process.env.DATAIKU_API_KEY = "legacy-key";
+
+    expect(resolveInstance()).toMatchObject({
+      name: "default",
+      url: "https://dss.example.com",
+      apiKey: "legacy-key",
+    });
+  });
+
+  it("reads prefixed env profiles and routes requests to the selected instance", async () => {
+    process.env.DATAIKU_URL = "https://design.example.com";
+    process.env.DATAIKU_API_KEY = "design-key";
+    process.env.DATAIKU_INSTANCE_PROD_URL = "https://prod.example.com";
+    process.env.DATAIKU_INSTANCE_PROD_API_KEY = "prod-key";
+    process.env.DATAIKU_INSTANCE_PROD_PROJECT_KEY = "PROD_PROJECT";
+
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => jsonResponse({ ok: true }));
+
+    await get("/public/api/projects/");
+    await runWithInstance("prod", async () => {
+      await get("/public/api/projects/");
+      expect(getProjectKey()).toBe("PROD_PROJECT");
+    });
+
+    expect(fetchSpy.mock.calls[0]?.[0]).toBe("https://design.example.com/public/api/projects/");
+    expect(fetchSpy.mock.calls[1]?.[0]).toBe("https://prod.example.com/public/api/projects/");
+    expect(fetchSpy.mock.calls[1]?.[1]?.headers).toMatchObject({
+      Authorization: "Bearer prod-key",
+    });
+  });
+
+  it("loads profiles from DATAIKU_INSTANCES_FILE with apiKeyEnv indirection", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "dataiku-instances-"));
+    const file = join(dir, "instances.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        default: "automation",
+        instances: {
+          automation: {
+            url: "https://automation.example.com",
+            apiKeyEnv: "TEST_AUTOMATION_KEY",
+            projectKey: "AUTO",
+          },
+        },
+      }),
+      "utf8",
+    );
+    process.env.DATAIKU_INSTANCES_FILE = file;
+    process.env.TEST_AUTOMATION_KEY = "automation-key";
+
+    try {
+      expect(resolveInstance()).toMatchObject({
+        name: "automation",
+        url: "https://automation.example.com",
+        apiKey: "automation-key",
+        projectKey: "AUTO",
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects unknown instance names with the configured list", () => {
+    process.env.DATAIKU_INSTANCE_DESIGN_URL = "https://design.example.com";
+    process.env.DATAIKU_INSTANCE_DESIGN_API_KEY = "design-key";
+
+    expect(() => resolveInstance("qa")).toThrow(
+      'Unknown Dataiku instance "qa". Configured instances: design.',
+    );
+  });
+
+  it("keys the GET cache by instance", async () => {
+    process.env.DATAIKU_URL = "https://design.example.com";
+    process.env.DATAIKU_API_KEY = "design-key";
+    process.env.DATAIKU_INSTANCE_PROD_URL = "https://prod.example.com";
+    process.env.DATAIKU_INSTANCE_PROD_API_KEY = "prod-key";
+    process.env.DATAIKU_ENABLE_GET_CACHE = "1";
+    process.env.DATAIKU_GET_CACHE_TTL_MS = "3000";
+
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) =>
+      jsonResponse({ from: String(input).startsWith("https://prod") ? "prod" : "design" }),
+    );
+
+    const design = await get<{ from: string }>("/public/api/cache/instance");
+    const prod = await runWithInstance("prod", () =>
+      get<{ from: string }>("/public/api/cache/instance"),
+    );
+
+    expect(design.from).toBe("design");
+    expect(prod.from).toBe("prod");
+  });
+
+  it("names the failing instance in errors and structured tool results", async () => {
+    process.env.DATAIKU_INSTANCE_PROD_URL = "https://prod.example.com";
+    process.env.DATAIKU_INSTANCE_PROD_API_KEY = "prod-key";
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      jsonResponse({ message: "Project FOO not found" }, 404),
+    );
+
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    registerTool(
+      server,
+      "sample",
+      {
+        description: "sample tool",
+        inputSchema: z.object({ action: z.literal("run"), instance: z.string().optional() }),
+        actions: { run: "read" },
+      },
+      async () => {
+        await get("/public/api/projects/FOO/");
+        return { content: [{ type: "text", text: "unreachable" }] };
+      },
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "0.0.1" });
+    await client.connect(clientTransport);
+
+    try {
+      const result = await client.callTool({
+        name: "sample",
+        arguments: { action: "run", instance: "prod" },
+      });
+      const text = (result.content as Array<{ text?: string }>)[0]?.text ?? "";
+      expect(result.isError).toBe(true);
+      expect(text).toContain("Instance: prod");
+      expect(result.structuredContent).toMatchObject({
+        reason: "dataiku_error",
+        instance: "prod",
+        retry: { instance: "prod" },
+      });
+    } finally {
+      await client.close();
+      await server.close();
+    }
+
+    const error = new DataikuError(404, "Not Found", "missing", undefined, "design");
+    expect(error.message).toContain("Instance: design");
+  });
+});
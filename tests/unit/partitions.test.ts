@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { resolvePartitionSpec } from "../../src/tools/partitions.js";
+
+const days = ["2023-12-31", "2024-01-01", "2024-01-15", "2024-01-31", "2024-02-01"];
+
+describe("resolvePartitionSpec", () => {
+  it("selects single identifiers and comma lists that exist", () => {
+    expect(resolvePartitionSpec("2024-01-15", days).partitions).toEqual(["2024-01-15"]);
+    expect(resolvePartitionSpec("2024-02-01, 2024-01-01", days)).toEqual({
+      partitions: ["2024-01-01", "2024-02-01"],
+      unmatched: [],
+    });
+  });
+
+  it("expands inclusive start/end ranges in listing order", () => {
+    expect(resolvePartitionSpec("2024-01-01/2024-01-31", days).partitions).toEqual([
+      "2024-01-01",
+      "2024-01-15",
+      "2024-01-31",
+    ]);
+    expect(resolvePartitionSpec("2024-01-20/", days).partitions).toEqual([
+      "2024-01-31",
+      "2024-02-01",
+    ]);
+  });
+
+  it("returns nothing when no identifier matches", () => {
+    expect(resolvePartitionSpec("2025-01-01/2025-12-31", days)).toEqual({
+      partitions: [],
+      unmatched: ["2025-01-01/2025-12-31"],
+    });
+  });
+
+  it("reports the identifiers and ranges of a list that match nothing", () => {
+    expect(resolvePartitionSpec("2024-02-01, 1999-01-01, 2030-01-01/", days)).toEqual({
+      partitions: ["2024-02-01"],
+      unmatched: ["1999-01-01", "2030-01-01/"],
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { evaluatePolicy } from "../../src/policy.js";
+import { createServer } from "../../src/server.js";
+
+const MANAGED_ENV_KEYS = [
+  "DATAIKU_URL",
+  "DATAIKU_API_KEY",
+  "DATAIKU_PROJECT_KEY",
+  "DATAIKU_MODE",
+  "DATAIKU_POLICY_FILE",
+];
+
+let savedEnv: Record<string, string | undefined> = {};
+let dir: string;
+let policyPath: string;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe("policy file", () => {
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "dataiku-policy-"));
+    policyPath = join(dir, "policy.json");
+    await writeFile(
+      policyPath,
+      JSON.stringify({
+        projects: { allow: ["SANDBOX_*", "DEV_*"], deny: ["DEV_SECRET*"] },
+        actions: {
+          "dataset.delete": { allow: ["SANDBOX_*"] },
+          "job.abort": false,
+        },
+      }),
+      "utf8",
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = "https://dss.example.com";
+    process.env.DATAIKU_API_KEY = "secret";
+    delete process.env.DATAIKU_PROJECT_KEY;
+    delete process.env.DATAIKU_MODE;
+    process.env.DATAIKU_POLICY_FILE = policyPath;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("evaluates deny before allow and names the matching rule", () => {
+    expect(evaluatePolicy({ tool: "dataset", action: "list", projectKey: "SANDBOX_A" })).toEqual({
+      allowed: true,
+    });
+    expect(
+      evaluatePolicy({ tool: "dataset", action: "list", projectKey: "DEV_SECRET_1" }),
+    ).toMatchObject({ allowed: false, rule: 'projects.deny "DEV_SECRET*"' });
+    expect(
+      evaluatePolicy({ tool: "dataset", action: "list", projectKey: "PROD_SALES" }),
+    ).toMatchObject({ allowed: false, rule: "projects.allow" });
+    expect(evaluatePolicy({ tool: "project", action: "list" })).toEqual({ allowed: true });
+  });
+
+  it("refuses out-of-scope projects before any HTTP call", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const result = await callTool("dataset", { action: "list", projectKey: "PROD_SALES" });
+
+    expect(result.isError).toBe(true);
+    expect(result.structured).toMatchObject({
+      ok: false,
+      reason: "policy_denied",
+      tool: "dataset",
+      action: "list",
+      projectKey: "PROD_SALES",
+      rule: "projects.allow",
+    });
+    expect(result.text).toContain("Denied by policy rule projects.allow");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("checks the other project of a dataset compare", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const result = await callTool("dataset", {
+      action: "compare",
+      projectKey: "SANDBOX_A",
+      datasetName: "orders",
+      otherProjectKey: "DEV_SECRET_1",
+      otherDatasetName: "orders",
+      key: ["id"],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structured).toMatchObject({
+      reason: "policy_denied",
+      action: "compare",
+      projectKey: "DEV_SECRET_1",
+      rule: 'projects.deny "DEV_SECRET*"',
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("applies per-action rules and the default project key", async () => {
+    process.env.DATAIKU_PROJECT_KEY = "DEV_TEAM";
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(null, { status: 204, statusText: "No Content" }));
+
+    const denied = await callTool("dataset", {
+      action: "delete",
+      datasetName: "orders",
+      confirm: true,
+    });
+    expect(denied.structured).toMatchObject({
+      reason: "policy_denied",
+      projectKey: "DEV_TEAM",
+      rule: 'actions["dataset.delete"].allow',
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    const allowed = await callTool("dataset", {
+      action: "delete",
+      projectKey: "SANDBOX_A",
+      datasetName: "orders",
+      confirm: true,
+    });
+    expect(allowed.isError).not.toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("disables actions mapped to false", async () => {
+    const result = await callTool("job", {
+      action: "abort",
+      projectKey: "SANDBOX_A",
+      jobId: "j1",
+      confirm: true,
+    });
+
+    expect(result.structured).toMatchObject({
+      reason: "policy_denied",
+      rule: 'actions["job.abort"]',
+    });
+  });
+});
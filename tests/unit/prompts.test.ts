@@ -0,0 +1,79 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "../../src/server.js";
+
+let client: Client;
+let close: () => Promise<void>;
+
+function promptText(result: Awaited<ReturnType<Client["getPrompt"]>>): string {
+  const content = result.messages[0]?.content as { type: string; text?: string };
+  return content.text ?? "";
+}
+
+describe("prompts", () => {
+  beforeEach(async () => {
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "0.0.1" });
+    await client.connect(clientTransport);
+    close = async () => {
+      await client.close();
+      await server.close();
+    };
+  });
+
+  afterEach(async () => {
+    await close();
+  });
+
+  it("lists the workflow prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts();
+    const byName = new Map(prompts.map((p) => [p.name, p]));
+
+    expect([...byName.keys()].sort()).toEqual([
+      "diagnose-failed-job",
+      "explain-flow",
+      "onboard-project",
+      "safe-schema-change",
+    ]);
+    expect(byName.get("diagnose-failed-job")?.arguments).toEqual([
+      expect.objectContaining({ name: "projectKey", required: false }),
+      expect.objectContaining({ name: "jobId", required: true }),
+    ]);
+    expect(byName.get("onboard-project")?.arguments).toEqual([
+      expect.objectContaining({ name: "projectKey", required: true }),
+    ]);
+  });
+
+  it("fills job and project arguments into the diagnosis steps", async () => {
+    const result = await client.getPrompt({
+      name: "diagnose-failed-job",
+      arguments: { projectKey: "SALES", jobId: "Build_orders_1" },
+    });
+    const text = promptText(result);
+
+    expect(text).toContain('{ action: "get", jobId: "Build_orders_1", projectKey: "SALES" }');
+    expect(text.indexOf('action: "get", jobId')).toBeLessThan(text.indexOf('action: "log"'));
+    expect(text.indexOf('action: "log"')).toBeLessThan(text.indexOf('recipe with { action: "get"'));
+  });
+
+  it("omits projectKey from tool calls when the default project applies", async () => {
+    const result = await client.getPrompt({
+      name: "safe-schema-change",
+      arguments: { datasetName: "orders" },
+    });
+    const text = promptText(result);
+
+    expect(text).toContain("the default project");
+    expect(text).toContain('dataset { action: "schema", datasetName: "orders" }');
+    expect(text).not.toContain("projectKey:");
+    expect(text).toContain("Ask me for the intended change");
+    expect(text).toContain(
+      'dataset { action: "schemaEdit", datasetName: "orders", operations: [...], dryRun: true }',
+    );
+    expect(text).toContain("expectedVersion:");
+    expect(text).not.toContain('action: "update"');
+  });
+});
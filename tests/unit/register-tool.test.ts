@@ -22,6 +22,7 @@ async function callRegisteredTool(
     {
       description: "sample tool",
       inputSchema: z.object({ action: z.literal("run") }),
+      actions: { run: "read" },
     },
     async () => handler(),
   );
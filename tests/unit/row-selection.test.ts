@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  filterToFormula,
+  RowSelector,
+  selectionParams,
+  UnknownColumnError,
+  validateConditions,
+} from "../../src/tools/row-selection.js";
+
+const HEADER = ["id", "city", "amount"];
+const ROWS = [
+  ["1", "Paris", "10"],
+  ["2", "Lyon", ""],
+  ["3", "Paris", "7.5"],
+  ["4", "Nice", "30"],
+  ["5", "Paris", "12"],
+];
+
+function select(selector: RowSelector): string[][] {
+  const out: string[][] = [];
+  const emit = (row: string[]) => {
+    out.push(row);
+  };
+  for (const row of [HEADER, ...ROWS]) {
+    if (selector.push(row, emit)) return out;
+  }
+  selector.finish(emit);
+  return out;
+}
+
+describe("row selection", () => {
+  it("translates conditions into a DSS formula and query parameters", () => {
+    expect(
+      filterToFormula([
+        { column: "city", op: "in", value: ["Paris", "Nice"] },
+        { column: "amount", op: "gt", value: 5 },
+        { column: "id", op: "ne", value: 2 },
+        { column: "city", op: "isNotEmpty" },
+      ]),
+    ).toBe(
+      '(strval("city") == "Paris" || strval("city") == "Nice") && numval("amount") > 5 && ' +
+        'numval("id") != 2 && isNonBlank(strval("city"))',
+    );
+    expect(selectionParams({ columns: ["id"], sampling: "random" }, 50)).toBe(
+      `&columns=id&sampling=${encodeURIComponent('{"samplingMethod":"RANDOM_FIXED_NB","maxRecords":50}')}`,
+    );
+    expect(selectionParams({ sampling: "head" }, 50)).toBe("");
+    expect(validateConditions([{ column: "city", op: "eq" }])).toContain("needs a value");
+  });
+
+  it("projects and filters rows, stopping once head sampling has enough", () => {
+    const selector = new RowSelector(
+      { columns: ["amount", "id"], conditions: [{ column: "amount", op: "gte", value: 10 }] },
+      2,
+    );
+    expect(select(selector)).toEqual([
+      ["amount", "id"],
+      ["10", "1"],
+      ["30", "4"],
+    ]);
+    expect(selector.scanned).toBe(4);
+  });
+
+  it("keeps the last matching rows in order and a bounded random sample", () => {
+    const last = new RowSelector(
+      { conditions: [{ column: "city", op: "eq", value: "Paris" }], sampling: "last" },
+      2,
+    );
+    expect(select(last).map((row) => row[0])).toEqual(["id", "3", "5"]);
+
+    const random = select(new RowSelector({ sampling: "random" }, 3));
+    expect(random).toHaveLength(4);
+    expect(new Set(random.slice(1).map((row) => row[0])).size).toBe(3);
+  });
+
+  it("rejects columns the data does not have", () => {
+    expect(() => select(new RowSelector({ columns: ["town"] }, 5))).toThrow(UnknownColumnError);
+  });
+});
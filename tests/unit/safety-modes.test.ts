@@ -0,0 +1,154 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createServer } from "../../src/server.js";
+import { registerTool } from "../../src/tools/register-tool.js";
+
+const MANAGED_ENV_KEYS = ["DATAIKU_URL", "DATAIKU_API_KEY", "DATAIKU_MODE"];
+
+let savedEnv: Record<string, string | undefined> = {};
+
+function jsonResponse(value: unknown): Response {
+  return new Response(JSON.stringify(value), { status: 200, statusText: "OK" });
+}
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  await client.connect(clientTransport);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      text: (result.content as Array<{ text?: string }>)[0]?.text ?? "",
+      isError: result.isError as boolean | undefined,
+      structured: result.structuredContent as Record<string, unknown> | undefined,
+    };
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+describe("DATAIKU_MODE safety modes", () => {
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(MANAGED_ENV_KEYS.map((key) => [key, process.env[key]]));
+    process.env.DATAIKU_URL = "https://dss.example.com";
+    process.env.DATAIKU_API_KEY = "secret";
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const key of MANAGED_ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("refuses mutating actions in readonly mode without calling DSS", async () => {
+    process.env.DATAIKU_MODE = "readonly";
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const result = await callTool("dataset", {
+      action: "delete",
+      projectKey: "PROJ",
+      datasetName: "orders",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structured).toMatchObject({
+      ok: false,
+      reason: "readonly_mode",
+      tool: "dataset",
+      action: "delete",
+      access: "destructive",
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("still serves read actions in readonly mode", async () => {
+    process.env.DATAIKU_MODE = "readonly";
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(jsonResponse([{ name: "orders" }]));
+
+    const result = await callTool("dataset", { action: "list", projectKey: "PROJ" });
+
+    expect(result.isError).not.toBe(true);
+    expect(result.text).toContain("orders");
+  });
+
+  it("returns the merged request body in dryrun mode without sending it", async () => {
+    process.env.DATAIKU_MODE = "dryrun";
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(jsonResponse({ name: "orders", params: { path: "/a", keep: true } }));
+
+    const result = await callTool("dataset", {
+      action: "update",
+      projectKey: "PROJ",
+      datasetName: "orders",
+      data: { params: { path: "/b" } },
+    });
+
+    expect(result.isError).not.toBe(true);
+    expect(result.structured).toMatchObject({
+      ok: true,
+      dryRun: true,
+      tool: "dataset",
+      action: "update",
+      access: "write",
+      request: {
+        method: "PUT",
+        path: "/public/api/projects/PROJ/datasets/orders",
+        body: { name: "orders", params: { path: "/b", keep: true } },
+      },
+    });
+    expect(result.text).toContain("would send PUT /public/api/projects/PROJ/datasets/orders");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0]?.[1]?.method).toBe("GET");
+  });
+
+  it("captures destructive calls without a body in dryrun mode", async () => {
+    process.env.DATAIKU_MODE = "dryrun";
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const result = await callTool("job", { action: "abort", projectKey: "PROJ", jobId: "j1" });
+
+    expect(result.structured).toMatchObject({
+      dryRun: true,
+      access: "destructive",
+      request: { method: "POST", path: "/public/api/projects/PROJ/jobs/j1/abort/" },
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("reports an invalid DATAIKU_MODE as a tool error", async () => {
+    process.env.DATAIKU_MODE = "yolo";
+
+    const result = await callTool("project", { action: "list" });
+
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('Invalid DATAIKU_MODE "yolo"');
+  });
+
+  it("requires an access class for every action in the input schema", () => {
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    expect(() =>
+      registerTool(
+        server,
+        "sample",
+        {
+          description: "sample",
+          inputSchema: z.discriminatedUnion("action", [
+            z.object({ action: z.literal("read") }),
+            z.object({ action: z.literal("wipe") }),
+          ]),
+          actions: { read: "read" },
+        },
+        async () => ({ content: [] }),
+      ),
+    ).toThrow('Tool "sample" has no access class for actions: wipe.');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySchemaEdits,
+  formatSchemaChange,
+  referencedColumns,
+  SchemaEditError,
+} from "../../src/tools/schema-edit.js";
+
+const COLUMNS = [
+  { name: "id", type: "bigint" },
+  { name: "amount", type: "string", comment: "raw" },
+  { name: "note", type: "string" },
+  { name: "day", type: "date" },
+];
+
+describe("schema edits", () => {
+  it("applies operations in order and diffs by column identity", () => {
+    const result = applySchemaEdits(COLUMNS, [
+      { op: "rename", column: "amount", to: "total" },
+      { op: "retype", column: "total", type: "double" },
+      { op: "drop", column: "note" },
+      { op: "add", name: "channel", type: "string", after: "id" },
+      { op: "reorder", columns: ["day"] },
+      { op: "set", column: "total", comment: "", meaning: "Decimal" },
+    ]);
+
+    expect(result.columns).toEqual([
+      { name: "day", type: "date" },
+      { name: "id", type: "bigint" },
+      { name: "channel", type: "string" },
+      { name: "total", type: "double", meaning: "Decimal" },
+    ]);
+    expect(result.affected).toEqual(["note", "amount"]);
+    expect(result.changes.map(formatSchemaChange)).toEqual([
+      "- note (string)",
+      "~ day moved from position 4 to 1",
+      "+ channel (string) at position 3",
+      "~ amount renamed to total",
+      "~ total: string → double",
+      '~ total comment: "raw" → ""',
+      '~ total meaning: "" → "Decimal"',
+    ]);
+    // The input is left untouched.
+    expect(COLUMNS[1]).toEqual({ name: "amount", type: "string", comment: "raw" });
+  });
+
+  it("rejects operations on missing or clashing columns", () => {
+    expect(() => applySchemaEdits(COLUMNS, [{ op: "drop", column: "amt" }])).toThrow(
+      'Operation 1 (drop): column "amt" does not exist. Columns: id, amount, note, day.',
+    );
+    expect(() =>
+      applySchemaEdits(COLUMNS, [
+        { op: "drop", column: "note" },
+        { op: "rename", column: "day", to: "id" },
+      ]),
+    ).toThrow(SchemaEditError);
+  });
+
+  it("matches column names as whole identifiers", () => {
+    expect(
+      referencedColumns('df["amount"] + df.amount_eur', ["amount", "note", "amount_eur"]),
+    ).toEqual(["amount", "amount_eur"]);
+    expect(referencedColumns("SELECT amounts FROM t", ["amount"])).toEqual([]);
+  });
+});
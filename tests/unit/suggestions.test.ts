@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, rankSuggestions } from "../../src/suggestions.js";
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("orders", "orders")).toBe(0);
+    expect(editDistance("ordrs", "orders")).toBe(1);
+    expect(editDistance("orders", "ordres")).toBe(2);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+});
+
+describe("rankSuggestions", () => {
+  const names = ["orders", "orders_clean", "customers", "raw_orders", "Orders_2023"];
+
+  it("puts case-insensitive prefix matches before edit-distance matches", () => {
+    expect(rankSuggestions(names, "ORD")).toEqual(["orders", "Orders_2023", "orders_clean"]);
+  });
+
+  it("ranks near misses by edit distance and drops distant names", () => {
+    expect(rankSuggestions(names, "ordres")).toEqual(["orders"]);
+    expect(rankSuggestions(names, "customer")).toEqual(["customers"]);
+    expect(rankSuggestions(names, "invoices")).toEqual([]);
+  });
+
+  it("returns at most five suggestions", () => {
+    const many = Array.from({ length: 10 }, (_, i) => `ds_${i}`);
+    expect(rankSuggestions(many, "ds")).toHaveLength(5);
+  });
+});
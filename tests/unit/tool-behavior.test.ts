@@ -498,6 +498,47 @@ describe("Tool Behavior Coverage", () => {
     expect(Array.isArray(parsed?.edges)).toBe(true);
   });
 
+  it("project downstream reports map warnings so a partial subgraph is not shown as complete", async () => {
+    clientMocks.get.mockImplementation(async (path: string) => {
+      if (path.endsWith("/flow/graph/")) {
+        return {
+          nodes: {
+            ds_a: { type: "DATASET", ref: "ds_a", predecessors: [], successors: ["prep_a"] },
+            prep_a: {
+              type: "RECIPE",
+              ref: "prep_a",
+              predecessors: ["ds_a"],
+              successors: ["ds_b"],
+            },
+            ds_b: { type: "DATASET", ref: "ds_b", predecessors: ["prep_a"], successors: [] },
+          },
+          datasets: ["ds_a", "ds_b"],
+          recipes: ["prep_a"],
+          folders: [],
+        };
+      }
+      if (path.endsWith("/managedfolders/")) throw new Error("boom");
+      if (path.endsWith("/datasets/")) return [{ name: "ds_a" }, { name: "ds_b" }];
+      if (path.endsWith("/recipes/")) return [{ name: "prep_a" }];
+      throw new Error(`Unexpected get path: ${path}`);
+    });
+
+    const { text, isError, structured } = await callTool(registerProjects, "project", {
+      action: "downstream",
+      projectKey: "PROJ",
+      node: "ds_a",
+      includeScenarios: false,
+    });
+
+    expect(isError).toBeFalsy();
+    expect(text).toContain("Warning: Managed folders metadata unavailable: boom");
+    expect(structured).toMatchObject({
+      recipes: ["prep_a"],
+      datasets: ["ds_b"],
+      warnings: ["Managed folders metadata unavailable: boom"],
+    });
+  });
+
   it("project map omits raw graph by default", async () => {
     clientMocks.get.mockImplementation(async (path: string) => {
       if (path.endsWith("/flow/graph/")) {
@@ -760,6 +801,88 @@ describe("Tool Behavior Coverage", () => {
     });
   });
 
+  it("variable set fails with a conflict when the variables changed before the write", async () => {
+    clientMocks.get
+      .mockResolvedValueOnce({ standard: { keep: 1 }, local: {} })
+      .mockResolvedValueOnce({ standard: { keep: 2 }, local: {} });
+
+    const { text, isError, structured } = await callTool(registerVariables, "variable", {
+      action: "set",
+      projectKey: "PROJ",
+      standard: { added: true },
+    });
+
+    expect(isError).toBe(true);
+    expect(text).toContain('Variables of project "PROJ" changed since version sha256:');
+    expect(text).toContain("Changed meanwhile:\n~ /standard/keep: 1 → 2");
+    expect(structured).toMatchObject({
+      reason: "conflict",
+      changes: [{ op: "replace", path: "/standard/keep", from: 1, value: 2 }],
+      pendingChanges: [
+        { op: "replace", path: "/standard/keep", from: 2, value: 1 },
+        { op: "add", path: "/standard/added", value: true },
+      ],
+    });
+    expect(clientMocks.putVoid).not.toHaveBeenCalled();
+  });
+
+  it("dataset update checks expectedVersion against versionTag unless forced", async () => {
+    clientMocks.get.mockResolvedValue({
+      name: "orders_ds",
+      description: "old",
+      versionTag: { versionNumber: 7 },
+    });
+    clientMocks.put.mockResolvedValue({});
+
+    const stale = await callTool(registerDatasets, "dataset", {
+      action: "update",
+      projectKey: "PROJ",
+      datasetName: "orders_ds",
+      data: { description: "new" },
+      expectedVersion: 6,
+    });
+    expect(stale.isError).toBe(true);
+    expect(stale.structured).toMatchObject({
+      reason: "conflict",
+      expectedVersion: 6,
+      currentVersion: 7,
+      pendingChanges: [{ op: "replace", path: "/description", from: "old", value: "new" }],
+    });
+    expect(stale.text).toContain("The update would change the latest version:\n~ /description");
+    // Both reads skip the GET cache so neither can hide a concurrent edit.
+    expect(clientMocks.get).toHaveBeenCalledTimes(2);
+    expect(clientMocks.get).toHaveBeenNthCalledWith(
+      2,
+      "/public/api/projects/PROJ/datasets/orders_ds",
+      {
+        bypassCache: true,
+      },
+    );
+    expect(clientMocks.put).not.toHaveBeenCalled();
+
+    const current = await callTool(registerDatasets, "dataset", {
+      action: "update",
+      projectKey: "PROJ",
+      datasetName: "orders_ds",
+      data: { description: "new" },
+      expectedVersion: 7,
+    });
+    expect(current.isError).toBeFalsy();
+    expect(clientMocks.put).toHaveBeenCalledTimes(1);
+
+    clientMocks.get.mockResolvedValueOnce({ name: "orders_ds", versionTag: { versionNumber: 8 } });
+    const forced = await callTool(registerDatasets, "dataset", {
+      action: "update",
+      projectKey: "PROJ",
+      datasetName: "orders_ds",
+      data: { description: "new" },
+      expectedVersion: 6,
+      force: true,
+    });
+    expect(forced.isError).toBeFalsy();
+    expect(clientMocks.put).toHaveBeenCalledTimes(2);
+  });
+
   it("scenario update deep-merges nested params", async () => {
     clientMocks.get.mockResolvedValue({
       id: "nightly",
@@ -797,6 +920,49 @@ describe("Tool Behavior Coverage", () => {
     );
   });
 
+  it("scenario update applies a JSON patch and returns the changes", async () => {
+    clientMocks.get.mockResolvedValue({
+      id: "nightly",
+      active: true,
+      params: { steps: [{ id: "s1", type: "build_flowitem" }] },
+    });
+    clientMocks.put.mockResolvedValue({});
+
+    const { text, isError, structured } = await callTool(registerScenarios, "scenario", {
+      action: "update",
+      projectKey: "PROJ",
+      scenarioId: "nightly",
+      patch: [{ op: "replace", path: "/active", value: false }],
+    });
+
+    expect(isError).toBeFalsy();
+    expect(text).toContain('Scenario "nightly" updated. 1 change:\n~ /active: true → false');
+    expect(structured).toMatchObject({
+      mode: "jsonPatch",
+      changes: [{ op: "replace", path: "/active", from: true, value: false }],
+    });
+    expect(clientMocks.put).toHaveBeenCalledWith(
+      "/public/api/projects/PROJ/scenarios/nightly/",
+      expect.objectContaining({ active: false }),
+    );
+  });
+
+  it("scenario update rejects a failing patch without writing", async () => {
+    clientMocks.get.mockResolvedValue({ id: "nightly", active: true });
+
+    const { text, isError, structured } = await callTool(registerScenarios, "scenario", {
+      action: "update",
+      projectKey: "PROJ",
+      scenarioId: "nightly",
+      patch: [{ op: "remove", path: "/params/steps/0" }],
+    });
+
+    expect(isError).toBe(true);
+    expect(text).toContain('Patch operation 1 (remove): Path "/params/steps/0" does not exist.');
+    expect(structured).toMatchObject({ reason: "invalid_patch", operation: 0 });
+    expect(clientMocks.put).not.toHaveBeenCalled();
+  });
+
   it("job log returns only tail when maxLogLines is set", async () => {
     clientMocks.getText.mockResolvedValue("l1\nl2\nl3\nl4\nl5");
 
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  applyUpdatePatch,
+  diffValues,
+  formatChanges,
+  PatchError,
+} from "../../src/tools/update-patch.js";
+
+const SCENARIO = {
+  id: "nightly",
+  active: true,
+  params: {
+    steps: [
+      { id: "build", type: "build_flowitem" },
+      { id: "notify", type: "send_report" },
+    ],
+    "a/b": 1,
+  },
+};
+
+describe("update patches", () => {
+  it("applies RFC 6902 operations without touching the input", () => {
+    const patched = applyJsonPatch(SCENARIO, [
+      { op: "test", path: "/active", value: true },
+      { op: "replace", path: "/active", value: false },
+      { op: "add", path: "/params/steps/-", value: { id: "clean", type: "exec_sql" } },
+      { op: "move", from: "/params/steps/0", path: "/params/steps/1" },
+      { op: "copy", from: "/id", path: "/params/owner" },
+      { op: "remove", path: "/params/a~1b" },
+    ]);
+
+    expect(patched).toEqual({
+      id: "nightly",
+      active: false,
+      params: {
+        steps: [
+          { id: "notify", type: "send_report" },
+          { id: "build", type: "build_flowitem" },
+          { id: "clean", type: "exec_sql" },
+        ],
+        owner: "nightly",
+      },
+    });
+    expect(SCENARIO.active).toBe(true);
+    expect(SCENARIO.params.steps).toHaveLength(2);
+  });
+
+  it("names the failing operation", () => {
+    const failing = () =>
+      applyJsonPatch(SCENARIO, [
+        { op: "replace", path: "/active", value: false },
+        { op: "remove", path: "/params/missing" },
+      ]);
+    expect(failing).toThrow(PatchError);
+    expect(failing).toThrow('Patch operation 2 (remove): Path "/params/missing" does not exist.');
+    expect(() => applyJsonPatch(SCENARIO, [{ op: "test", path: "/id", value: "other" }])).toThrow(
+      "Test failed",
+    );
+  });
+
+  it("applies RFC 7396 merge patches", () => {
+    expect(
+      applyMergePatch(
+        { a: "b", c: { d: "e", f: "g" }, list: [1, 2] },
+        { a: "z", c: { f: null }, list: [3] },
+      ),
+    ).toEqual({ a: "z", c: { d: "e" }, list: [3] });
+  });
+
+  it("diffs only what changed", () => {
+    const changes = diffValues(
+      { a: 1, nested: { keep: true, drop: "x" }, list: [1, 2, 3] },
+      { a: 2, nested: { keep: true, added: [] }, list: [1, 5] },
+    );
+    expect(changes).toEqual([
+      { op: "replace", path: "/a", from: 1, value: 2 },
+      { op: "remove", path: "/nested/drop", from: "x" },
+      { op: "add", path: "/nested/added", value: [] },
+      { op: "replace", path: "/list/1", from: 2, value: 5 },
+      { op: "remove", path: "/list/2", from: 3 },
+    ]);
+    expect(formatChanges(changes, 2)).toBe('~ /a: 1 → 2\n- /nested/drop: "x"\n… 3 more change(s)');
+  });
+
+  it("picks exactly one update mode", () => {
+    const byKey = applyUpdatePatch(SCENARIO, {
+      data: { params: { steps: [{ id: "notify", type: "send_mail" }] } },
+      arrayMerge: "byKey",
+    });
+    expect(byKey).toMatchObject({
+      ok: true,
+      mode: "deepMergeByKey",
+      changes: [
+        {
+          op: "replace",
+          path: "/params/steps/1/type",
+          from: "send_report",
+          value: "send_mail",
+        },
+      ],
+    });
+
+    expect(applyUpdatePatch(SCENARIO, { mergePatch: { active: true } })).toMatchObject({
+      ok: true,
+      changes: [],
+    });
+    expect(applyUpdatePatch(SCENARIO, {})).toMatchObject({ ok: false });
+    expect(applyUpdatePatch(SCENARIO, { data: {}, mergePatch: {} })).toMatchObject({
+      ok: false,
+      message: expect.stringContaining("data, mergePatch"),
+    });
+    expect(
+      applyUpdatePatch(SCENARIO, { patch: [{ op: "replace", path: "", value: [] }] }),
+    ).toMatchObject({ ok: false, message: "the patched document must remain a JSON object." });
+  });
+  it("rejects reserved keys instead of writing to Object.prototype", () => {
+    for (const patch of [
+      [{ op: "add" as const, path: "/__proto__/polluted", value: "yes" }],
+      [{ op: "replace" as const, path: "/constructor/prototype/polluted", value: "yes" }],
+      [{ op: "test" as const, path: "/toString", value: "x" }],
+    ]) {
+      const result = applyUpdatePatch({ id: "nightly" }, { patch });
+      expect(result.ok).toBe(false);
+    }
+    expect(
+      applyUpdatePatch({}, { mergePatch: JSON.parse('{"__proto__": {"polluted": "yes"}}') }),
+    ).toMatchObject({ ok: false, message: 'Merge patch uses the reserved key "__proto__".' });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(Object.hasOwn(Object.prototype, "polluted")).toBe(false);
+  });
+});
@@ -7,6 +7,14 @@ export default defineConfig({
         test: {
           name: "unit",
           include: ["tests/unit/**/*.test.ts"],
+          env: { DATAIKU_AUDIT_LOG: "off" },
+        },
+      },
+      {
+        test: {
+          name: "e2e",
+          include: ["tests/e2e/**/*.test.ts"],
+          env: { DATAIKU_AUDIT_LOG: "off" },
         },
       },
       {
@@ -15,6 +23,7 @@ export default defineConfig({
           include: ["tests/integration/**/*.test.ts"],
           testTimeout: 60_000,
           hookTimeout: 30_000,
+          env: { DATAIKU_AUDIT_LOG: "off" },
         },
       },
     ],